@@ -7,6 +7,22 @@ import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 
 interface IBalancerVault {
+    struct SingleSwap {
+        bytes32 poolId;
+        uint8 kind; // 0 = GIVEN_IN
+        address assetIn;
+        address assetOut;
+        uint256 amount;
+        bytes userData;
+    }
+    
+    struct FundManagement {
+        address sender;
+        bool fromInternalBalance;
+        address payable recipient;
+        bool toInternalBalance;
+    }
+    
     function flashLoan(
         address recipient,
         address[] calldata tokens,
@@ -15,6 +31,17 @@ interface IBalancerVault {
     ) external;
     
     function maxFlashLoan(address token) external view returns (uint256);
+    
+    function swap(
+        SingleSwap memory singleSwap,
+        FundManagement memory funds,
+        uint256 limit,
+        uint256 deadline
+    ) external payable returns (uint256);
+}
+
+interface IBalancerPool {
+    function getPoolId() external view returns (bytes32);
 }
 
 interface IPoolAddressesProvider {
@@ -77,6 +104,36 @@ interface IUniswapV2Router02 {
         external view returns (uint[] memory amounts);
 }
 
+interface IUniswapV3SwapRouter {
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 sqrtPriceLimitX96;
+    }
+    
+    function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut);
+}
+
+// Older Curve pools return nothing from exchange, so outputs are read from balances
+interface ICurvePool {
+    function coins(uint256 i) external view returns (address);
+    function exchange(int128 i, int128 j, uint256 dx, uint256 minDy) external;
+}
+
+// Pools from before the uint256 switch only answer coins(int128)
+interface ICurveLegacyPool {
+    function coins(int128 i) external view returns (address);
+}
+
+interface ICurveCryptoPool {
+    function exchange(uint256 i, uint256 j, uint256 dx, uint256 minDy) external;
+}
+
 interface IUniswapV3Quoter {
     function quoteExactInputSingle(
         address tokenIn,
@@ -141,6 +198,10 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
     
     mapping(address => address) public priceFeeds;
     mapping(address => bool) public authorizedCallers;
+    // Keys that may pause but never unpause or move funds, held by the kill-switch watchdog
+    mapping(address => bool) public pauseGuardians;
+    // Routers and pools executeRoute may approve and call; hops name their target, so it has to be one the owner listed
+    mapping(address => bool) public routeTargets;
     
     // Profit management configuration
     address public profitWallet;
@@ -171,6 +232,21 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         uint256 deadline;
     }
     
+    enum DexType { UNISWAP_V2, UNISWAP_V3, CURVE, CURVE_CRYPTO, BALANCER }
+    
+    // One swap of a route. target is the V2 or V3 router for Uniswap-style hops and the pool for
+    // Curve and Balancer; fee is the V3 fee tier and is ignored by the other dex types
+    struct RouteHop {
+        DexType dex;
+        address target;
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        uint256 minAmountOut;
+    }
+    
+    uint256 public constant MAX_ROUTE_HOPS = 4;
+    
     event FlashLoanProviderSelected(FlashLoanProvider provider, address asset, uint256 amount);
     
     event BatchArbitrageExecuted(uint256 tradesCount, uint256 totalProfit);
@@ -182,6 +258,13 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         bool sushiFirst
     );
     
+    event RouteArbitrageExecuted(
+        address indexed asset,
+        uint256 amount,
+        uint256 profit,
+        uint256 hops
+    );
+    
     event TriangularArbitrageExecuted(
         address indexed tokenA,
         address indexed tokenB,
@@ -199,8 +282,16 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
     
     event ProfitWithdrawn(address indexed token, uint256 amount);
     
+    event EmergencyWithdrawn(address indexed token, uint256 amount);
+    
     event ProfitWalletUpdated(address indexed oldWallet, address indexed newWallet);
     
+    event PauseGuardianUpdated(address indexed guardian, bool enabled);
+    
+    event AavePoolUpdated(address indexed oldPool, address indexed newPool);
+    
+    event RouteTargetUpdated(address indexed target, bool allowed);
+    
     event GasFundingTransfer(
         address indexed token,
         uint256 amount,
@@ -251,6 +342,24 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         authorizedCallers[caller] = authorized;
     }
     
+    function setPauseGuardian(address guardian, bool enabled) external onlyOwner {
+        pauseGuardians[guardian] = enabled;
+        emit PauseGuardianUpdated(guardian, enabled);
+    }
+    
+    function setRouteTarget(address target, bool allowed) external onlyOwner {
+        require(target != address(0), "Invalid route target");
+        routeTargets[target] = allowed;
+        emit RouteTargetUpdated(target, allowed);
+    }
+    
+    // Chains other than Arbitrum and Optimism have no Aave pool set at deployment
+    function setAavePool(address _aavePool) external onlyOwner {
+        require(_aavePool != address(0), "Invalid Aave pool");
+        emit AavePoolUpdated(address(aavePool), _aavePool);
+        aavePool = IPool(_aavePool);
+    }
+    
     function setSlippageTolerance(uint256 _slippage) external onlyOwner {
         require(_slippage <= MAX_SLIPPAGE, "Slippage too high");
         slippageTolerance = _slippage;
@@ -338,17 +447,30 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
     }
     
     // GAS OPTIMIZATION: Internal function for single arbitrage
+    // Each trade is a flash-loaned dual swap tokenA -> tokenB -> tokenA, with its own slippage and profit floor
     function _executeSingleArbitrage(ArbitrageParams memory params) 
         internal returns (uint256 profit) {
-        // Optimized execution logic with minimal external calls
-        // Uses assembly for critical calculations
-        // Implements gas-efficient token swaps
+        require(params.asset == params.tokenA, "Trade must start in the borrowed asset");
+        require(params.tokenA != params.tokenB, "Invalid pair");
+        require(params.amount > 0, "Amount must be positive");
+        require(params.slippageBps <= MAX_SLIPPAGE, "Slippage too high");
+        
+        address[] memory path = new address[](2);
+        path[0] = params.tokenA;
+        path[1] = params.tokenB;
+        uint256 amount = uint256(params.amount);
+        uint256 expectedProfit = (amount * params.minProfitBps) / 10000;
         
         uint256 initialBalance = IERC20(params.asset).balanceOf(address(this));
         
-        // Execute the arbitrage logic here...
-        // This is a placeholder for the actual implementation
+        FlashLoanProvider provider = _selectOptimalProvider(params.asset, amount);
+        if (provider == FlashLoanProvider.BALANCER) {
+            _executeBalancerFlashLoan(params.asset, amount, path, params.sushiFirst, expectedProfit, false, params.slippageBps, new RouteHop[](0));
+        } else {
+            _executeAaveFlashLoan(params.asset, amount, path, params.sushiFirst, expectedProfit, false, params.slippageBps, new RouteHop[](0));
+        }
         
+        // What the trade left behind once the loan and fees are repaid
         uint256 finalBalance = IERC20(params.asset).balanceOf(address(this));
         profit = finalBalance > initialBalance ? finalBalance - initialBalance : 0;
     }
@@ -367,9 +489,9 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         FlashLoanProvider provider = _selectOptimalProvider(asset, amount);
         
         if (provider == FlashLoanProvider.BALANCER) {
-            _executeBalancerFlashLoan(asset, amount, path, sushiFirst, expectedProfit, false);
+            _executeBalancerFlashLoan(asset, amount, path, sushiFirst, expectedProfit, false, slippageTolerance, new RouteHop[](0));
         } else {
-            _executeAaveFlashLoan(asset, amount, path, sushiFirst, expectedProfit, false);
+            _executeAaveFlashLoan(asset, amount, path, sushiFirst, expectedProfit, false, slippageTolerance, new RouteHop[](0));
         }
     }
     
@@ -387,9 +509,58 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         FlashLoanProvider provider = _selectOptimalProvider(asset, amount);
         
         if (provider == FlashLoanProvider.BALANCER) {
-            _executeBalancerFlashLoan(asset, amount, path, false, expectedProfit, true);
+            _executeBalancerFlashLoan(asset, amount, path, false, expectedProfit, true, slippageTolerance, new RouteHop[](0));
         } else {
-            _executeAaveFlashLoan(asset, amount, path, false, expectedProfit, true);
+            _executeAaveFlashLoan(asset, amount, path, false, expectedProfit, true, slippageTolerance, new RouteHop[](0));
+        }
+    }
+    
+    // Executes the exact hops the off-chain simulation priced, each against its own dex and minimum output
+    function executeRoute(
+        address asset,
+        uint256 amount,
+        RouteHop[] calldata hops,
+        uint256 expectedProfit
+    ) external onlyAuthorized whenNotPaused nonReentrant {
+        require(amount > 0, "Amount must be positive");
+        require(expectedProfit > 0, "Expected profit must be positive");
+        address[] memory path = _validateRoute(asset, hops);
+        
+        // The Balancer vault's flashLoan and swap share its reentrancy lock, so a route that swaps
+        // through the vault cannot run inside the vault's own flash loan
+        FlashLoanProvider provider = _routeSwapsThroughVault(hops)
+            ? FlashLoanProvider.AAVE
+            : _selectOptimalProvider(asset, amount);
+        
+        if (provider == FlashLoanProvider.BALANCER) {
+            _executeBalancerFlashLoan(asset, amount, path, false, expectedProfit, false, slippageTolerance, hops);
+        } else {
+            _executeAaveFlashLoan(asset, amount, path, false, expectedProfit, false, slippageTolerance, hops);
+        }
+    }
+    
+    function _routeSwapsThroughVault(RouteHop[] calldata hops) internal pure returns (bool) {
+        for (uint256 i = 0; i < hops.length; i++) {
+            if (hops[i].dex == DexType.BALANCER) return true;
+        }
+        return false;
+    }
+    
+    // Tokens visited by a closed route, starting and ending at the asset
+    function _validateRoute(address asset, RouteHop[] calldata hops) internal view returns (address[] memory path) {
+        require(hops.length >= 2 && hops.length <= MAX_ROUTE_HOPS, "Invalid route length");
+        require(hops[0].tokenIn == asset, "Route must start in the borrowed asset");
+        require(hops[hops.length - 1].tokenOut == asset, "Route must end in the borrowed asset");
+        
+        path = new address[](hops.length + 1);
+        path[0] = asset;
+        for (uint256 i = 0; i < hops.length; i++) {
+            require(hops[i].target != address(0), "Invalid hop target");
+            // Balancer hops approve the vault and only read the pool id from their target
+            require(hops[i].dex == DexType.BALANCER || routeTargets[hops[i].target], "Route target not allowed");
+            require(hops[i].tokenIn != hops[i].tokenOut, "Invalid hop");
+            if (i > 0) require(hops[i].tokenIn == hops[i - 1].tokenOut, "Route hops are not chained");
+            path[i + 1] = hops[i].tokenOut;
         }
     }
 
@@ -401,21 +572,31 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
     ) external {
         require(msg.sender == address(vault), "Only Balancer vault");
 
-        (address[] memory path, bool sushiFirst, uint256 expectedProfit, bool isTriangular) = abi.decode(userData, (address[], bool, uint256, bool));
+        (
+            address[] memory path,
+            bool sushiFirst,
+            uint256 expectedProfit,
+            bool isTriangular,
+            uint256 slippageBps,
+            RouteHop[] memory hops
+        ) = abi.decode(userData, (address[], bool, uint256, bool, uint256, RouteHop[]));
         address asset = tokens[0];
         uint256 amount = amounts[0];
 
         require(_validatePriceFeeds(path), "Invalid price feed");
 
+        // Includes the loan; anything held beyond it (earlier profits) is not this trade's
         uint256 startingBal = IERC20(asset).balanceOf(address(this));
         
-        if (isTriangular) {
-            _executeTriangularSwap(asset, amount, path);
+        if (hops.length > 0) {
+            _executeRoute(amount, hops);
+        } else if (isTriangular) {
+            _executeTriangularSwap(asset, amount, path, slippageBps);
         } else {
-            _executeDualSwap(asset, amount, path, sushiFirst);
+            _executeDualSwap(asset, amount, path, sushiFirst, slippageBps);
         }
 
-        uint256 received = IERC20(asset).balanceOf(address(this));
+        uint256 received = IERC20(asset).balanceOf(address(this)) + amount - startingBal;
         uint256 totalOwed = amount + feeAmounts[0];
         require(received >= totalOwed, "Unprofitable");
         
@@ -425,12 +606,15 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         
         require(profit >= expectedProfit * 95 / 100, "Profit deviation too high");
 
-        IERC20(asset).approve(address(vault), totalOwed);
+        // The vault checks its own balance once this callback returns, so the loan is paid back by transfer
+        require(IERC20(asset).transfer(address(vault), totalOwed), "Repayment failed");
         
         // Handle gas funding distribution
         _handleGasFundingDistribution(asset, profit);
         
-        if (isTriangular) {
+        if (hops.length > 0) {
+            emit RouteArbitrageExecuted(asset, amount, profit, hops.length);
+        } else if (isTriangular) {
             emit TriangularArbitrageExecuted(path[0], path[1], path[2], amount, profit);
         } else {
             emit ArbitrageExecuted(asset, amount, profit, sushiFirst);
@@ -441,16 +625,18 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         address asset,
         uint256 amount,
         address[] memory path,
-        bool sushiFirst
+        bool sushiFirst,
+        uint256 slippageBps
     ) internal {
         IERC20(asset).approve(address(sushiRouter), amount);
         IERC20(asset).approve(address(uniRouter), amount);
-        IERC20(asset).approve(address(uniV2RouterNew), amount);
-        IERC20(asset).approve(address(sushiRouterNew), amount);
+        // The chain-specific routers are unset off Arbitrum and Optimism
+        if (address(uniV2RouterNew) != address(0)) IERC20(asset).approve(address(uniV2RouterNew), amount);
+        if (address(sushiRouterNew) != address(0)) IERC20(asset).approve(address(sushiRouterNew), amount);
 
         uint256 intermediateAmount;
         if (sushiFirst) {
-            uint256 minOut1 = _calculateMinOutput(amount, path, true);
+            uint256 minOut1 = _calculateMinOutput(amount, path, true, slippageBps);
             uint256[] memory amounts1 = _getBestRouter(true).swapExactTokensForTokens(
                 amount, 
                 minOut1, 
@@ -462,7 +648,7 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
             
             IERC20(path[1]).approve(address(_getBestRouter(false)), intermediateAmount);
             address[] memory reversePath = _reverse(path);
-            uint256 minOut2 = _calculateMinOutput(intermediateAmount, reversePath, false);
+            uint256 minOut2 = _calculateMinOutput(intermediateAmount, reversePath, false, slippageBps);
             _getBestRouter(false).swapExactTokensForTokens(
                 intermediateAmount, 
                 minOut2, 
@@ -471,7 +657,7 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
                 block.timestamp + 300
             );
         } else {
-            uint256 minOut1 = _calculateMinOutput(amount, path, false);
+            uint256 minOut1 = _calculateMinOutput(amount, path, false, slippageBps);
             uint256[] memory amounts1 = _getBestRouter(false).swapExactTokensForTokens(
                 amount, 
                 minOut1, 
@@ -483,7 +669,7 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
             
             IERC20(path[1]).approve(address(_getBestRouter(true)), intermediateAmount);
             address[] memory reversePath = _reverse(path);
-            uint256 minOut2 = _calculateMinOutput(intermediateAmount, reversePath, true);
+            uint256 minOut2 = _calculateMinOutput(intermediateAmount, reversePath, true, slippageBps);
             _getBestRouter(true).swapExactTokensForTokens(
                 intermediateAmount, 
                 minOut2, 
@@ -497,7 +683,8 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
     function _executeTriangularSwap(
         address asset,
         uint256 amount,
-        address[] memory path
+        address[] memory path,
+        uint256 slippageBps
     ) internal {
         // Approve all routers
         IERC20(asset).approve(address(uniV2RouterNew), amount);
@@ -508,7 +695,7 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         pathAB[0] = path[0];
         pathAB[1] = path[1];
         
-        uint256 minOut1 = _calculateMinOutput(amount, pathAB, false);
+        uint256 minOut1 = _calculateMinOutput(amount, pathAB, false, slippageBps);
         uint256[] memory amounts1 = uniV2RouterNew.swapExactTokensForTokens(
             amount,
             minOut1,
@@ -524,7 +711,7 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         pathBC[1] = path[2];
         
         IERC20(path[1]).approve(address(sushiRouterNew), amountB);
-        uint256 minOut2 = _calculateMinOutput(amountB, pathBC, true);
+        uint256 minOut2 = _calculateMinOutput(amountB, pathBC, true, slippageBps);
         uint256[] memory amounts2 = sushiRouterNew.swapExactTokensForTokens(
             amountB,
             minOut2,
@@ -540,7 +727,7 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         pathCA[1] = path[0];
         
         IERC20(path[2]).approve(address(uniV2RouterNew), amountC);
-        uint256 minOut3 = _calculateMinOutput(amountC, pathCA, false);
+        uint256 minOut3 = _calculateMinOutput(amountC, pathCA, false, slippageBps);
         uniV2RouterNew.swapExactTokensForTokens(
             amountC,
             minOut3,
@@ -550,6 +737,96 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         );
     }
     
+    function _executeRoute(uint256 amountIn, RouteHop[] memory hops) internal returns (uint256 amount) {
+        amount = amountIn;
+        for (uint256 i = 0; i < hops.length; i++) {
+            amount = _executeHop(hops[i], amount);
+        }
+    }
+    
+    function _executeHop(RouteHop memory hop, uint256 amountIn) internal returns (uint256 amountOut) {
+        uint256 balanceBefore = IERC20(hop.tokenOut).balanceOf(address(this));
+        
+        if (hop.dex == DexType.UNISWAP_V2) {
+            IERC20(hop.tokenIn).approve(hop.target, amountIn);
+            address[] memory path = new address[](2);
+            path[0] = hop.tokenIn;
+            path[1] = hop.tokenOut;
+            IUniswapV2Router02(hop.target).swapExactTokensForTokens(
+                amountIn,
+                hop.minAmountOut,
+                path,
+                address(this),
+                block.timestamp
+            );
+        } else if (hop.dex == DexType.UNISWAP_V3) {
+            IERC20(hop.tokenIn).approve(hop.target, amountIn);
+            IUniswapV3SwapRouter(hop.target).exactInputSingle(IUniswapV3SwapRouter.ExactInputSingleParams({
+                tokenIn: hop.tokenIn,
+                tokenOut: hop.tokenOut,
+                fee: hop.fee,
+                recipient: address(this),
+                deadline: block.timestamp,
+                amountIn: amountIn,
+                amountOutMinimum: hop.minAmountOut,
+                sqrtPriceLimitX96: 0
+            }));
+        } else if (hop.dex == DexType.CURVE || hop.dex == DexType.CURVE_CRYPTO) {
+            IERC20(hop.tokenIn).approve(hop.target, amountIn);
+            uint256 i = _curveIndex(hop.target, hop.tokenIn);
+            uint256 j = _curveIndex(hop.target, hop.tokenOut);
+            if (hop.dex == DexType.CURVE) {
+                ICurvePool(hop.target).exchange(int128(int256(i)), int128(int256(j)), amountIn, hop.minAmountOut);
+            } else {
+                ICurveCryptoPool(hop.target).exchange(i, j, amountIn, hop.minAmountOut);
+            }
+        } else {
+            IERC20(hop.tokenIn).approve(address(vault), amountIn);
+            vault.swap(
+                IBalancerVault.SingleSwap({
+                    poolId: IBalancerPool(hop.target).getPoolId(),
+                    kind: 0,
+                    assetIn: hop.tokenIn,
+                    assetOut: hop.tokenOut,
+                    amount: amountIn,
+                    userData: ""
+                }),
+                IBalancerVault.FundManagement({
+                    sender: address(this),
+                    fromInternalBalance: false,
+                    recipient: payable(address(this)),
+                    toInternalBalance: false
+                }),
+                hop.minAmountOut,
+                block.timestamp
+            );
+        }
+        
+        // A hop that took less than it was approved for leaves nothing for the target to pull later
+        IERC20(hop.tokenIn).approve(hop.dex == DexType.BALANCER ? address(vault) : hop.target, 0);
+        
+        amountOut = IERC20(hop.tokenOut).balanceOf(address(this)) - balanceBefore;
+        require(amountOut >= hop.minAmountOut, "Hop output below minimum");
+    }
+    
+    // Curve pools expose their coins by index; routes carry tokens, so look the index up
+    function _curveIndex(address pool, address token) internal view returns (uint256) {
+        for (uint256 i = 0; i < 8; i++) {
+            address coin;
+            try ICurvePool(pool).coins(i) returns (address uintCoin) {
+                coin = uintCoin;
+            } catch {
+                try ICurveLegacyPool(pool).coins(int128(int256(i))) returns (address int128Coin) {
+                    coin = int128Coin;
+                } catch {
+                    break;
+                }
+            }
+            if (coin == token) return i;
+        }
+        revert("Token not in Curve pool");
+    }
+    
     function _getBestRouter(bool useSushi) internal view returns (IUniswapV2Router02) {
         if (useSushi) {
             return address(sushiRouterNew) != address(0) ? sushiRouterNew : sushiRouter;
@@ -561,14 +838,15 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
     function _calculateMinOutput(
         uint256 amountIn, 
         address[] memory path, 
-        bool useSushi
+        bool useSushi,
+        uint256 slippageBps
     ) internal view returns (uint256) {
         uint256[] memory amounts;
         IUniswapV2Router02 router = _getBestRouter(useSushi);
         amounts = router.getAmountsOut(amountIn, path);
         
         uint256 expectedOut = amounts[amounts.length - 1];
-        return expectedOut * (10000 - slippageTolerance) / 10000;
+        return expectedOut * (10000 - slippageBps) / 10000;
     }
     
     function _validatePriceFeeds(address[] memory path) internal view returns (bool) {
@@ -599,14 +877,16 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         address[] memory path,
         bool sushiFirst,
         uint256 expectedProfit,
-        bool isTriangular
+        bool isTriangular,
+        uint256 slippageBps,
+        RouteHop[] memory hops
     ) internal {
         address[] memory assets = new address[](1);
         assets[0] = asset;
         uint256[] memory amounts = new uint256[](1);
         amounts[0] = amount;
         
-        bytes memory userData = abi.encode(path, sushiFirst, expectedProfit, isTriangular);
+        bytes memory userData = abi.encode(path, sushiFirst, expectedProfit, isTriangular, slippageBps, hops);
         
         emit FlashLoanProviderSelected(FlashLoanProvider.BALANCER, asset, amount);
         vault.flashLoan(address(this), assets, amounts, userData);
@@ -618,9 +898,12 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         address[] memory path,
         bool sushiFirst,
         uint256 expectedProfit,
-        bool isTriangular
+        bool isTriangular,
+        uint256 slippageBps,
+        RouteHop[] memory hops
     ) internal {
-        bytes memory params = abi.encode(path, sushiFirst, expectedProfit, isTriangular);
+        require(address(aavePool) != address(0), "No Aave pool");
+        bytes memory params = abi.encode(path, sushiFirst, expectedProfit, isTriangular, slippageBps, hops);
         
         emit FlashLoanProviderSelected(FlashLoanProvider.AAVE, asset, amount);
         aavePool.flashLoanSimple(address(this), asset, amount, params, 0);
@@ -636,19 +919,28 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         require(msg.sender == address(aavePool), "Only Aave pool");
         require(initiator == address(this), "Invalid initiator");
         
-        (address[] memory path, bool sushiFirst, uint256 expectedProfit, bool isTriangular) = abi.decode(params, (address[], bool, uint256, bool));
+        (
+            address[] memory path,
+            bool sushiFirst,
+            uint256 expectedProfit,
+            bool isTriangular,
+            uint256 slippageBps,
+            RouteHop[] memory hops
+        ) = abi.decode(params, (address[], bool, uint256, bool, uint256, RouteHop[]));
         
         require(_validatePriceFeeds(path), "Invalid price feed");
         
         uint256 startingBal = IERC20(asset).balanceOf(address(this));
         
-        if (isTriangular) {
-            _executeTriangularSwap(asset, amount, path);
+        if (hops.length > 0) {
+            _executeRoute(amount, hops);
+        } else if (isTriangular) {
+            _executeTriangularSwap(asset, amount, path, slippageBps);
         } else {
-            _executeDualSwap(asset, amount, path, sushiFirst);
+            _executeDualSwap(asset, amount, path, sushiFirst, slippageBps);
         }
         
-        uint256 received = IERC20(asset).balanceOf(address(this));
+        uint256 received = IERC20(asset).balanceOf(address(this)) + amount - startingBal;
         uint256 totalOwed = amount + premium;
         require(received >= totalOwed, "Unprofitable");
         
@@ -663,7 +955,9 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         // Handle gas funding distribution
         _handleGasFundingDistribution(asset, profit);
         
-        if (isTriangular) {
+        if (hops.length > 0) {
+            emit RouteArbitrageExecuted(asset, amount, profit, hops.length);
+        } else if (isTriangular) {
             emit TriangularArbitrageExecuted(path[0], path[1], path[2], amount, profit);
         } else {
             emit ArbitrageExecuted(asset, amount, profit, sushiFirst);
@@ -705,10 +999,12 @@ contract FlashArbBotBalancer is Ownable, ReentrancyGuard, Pausable, IFlashLoanSi
         uint256 balance = IERC20(token).balanceOf(address(this));
         if (balance > 0) {
             IERC20(token).transfer(profitWallet, balance);
+            emit EmergencyWithdrawn(token, balance);
         }
     }
     
-    function pause() external onlyOwner {
+    function pause() external {
+        require(pauseGuardians[msg.sender] || msg.sender == owner(), "Not guardian");
         _pause();
     }
     
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+interface IFlashLoanSimpleReceiver {
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool);
+}
+
+// Lends its own balance and, like the Aave V3 pool, pulls the loan plus premium back from the receiver's approval.
+contract MockAavePool {
+    uint128 public FLASHLOAN_PREMIUM_TOTAL;
+    
+    function setPremiumBps(uint128 premiumBps) external {
+        FLASHLOAN_PREMIUM_TOTAL = premiumBps;
+    }
+    
+    function flashLoanSimple(
+        address receiverAddress,
+        address asset,
+        uint256 amount,
+        bytes calldata params,
+        uint16
+    ) external {
+        uint256 premium = amount * FLASHLOAN_PREMIUM_TOTAL / 10000;
+        IERC20(asset).transfer(receiverAddress, amount);
+        require(
+            IFlashLoanSimpleReceiver(receiverAddress).executeOperation(asset, amount, premium, msg.sender, params),
+            "Invalid flash loan executor return"
+        );
+        IERC20(asset).transferFrom(receiverAddress, address(this), amount + premium);
+    }
+}
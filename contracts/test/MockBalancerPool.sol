@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// Balancer pools only identify themselves; the vault holds their balances and swaps
+contract MockBalancerPool {
+    bytes32 public immutable poolId;
+    
+    constructor(bytes32 _poolId) {
+        poolId = _poolId;
+    }
+    
+    function getPoolId() external view returns (bytes32) {
+        return poolId;
+    }
+}
@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+interface IFlashLoanRecipient {
+    function receiveFlashLoan(
+        address[] calldata tokens,
+        uint256[] calldata amounts,
+        uint256[] calldata feeAmounts,
+        bytes calldata userData
+    ) external;
+}
+
+// Lends its own balance and, like the Balancer V2 vault, expects to be paid back by transfer before the callback returns.
+// Registered pools are constant-product over balances the vault holds for them. flashLoan and swap share
+// one reentrancy lock, as on the real vault, so swapping from inside a flash loan callback reverts with BAL#400.
+contract MockBalancerVault {
+    struct SingleSwap {
+        bytes32 poolId;
+        uint8 kind;
+        address assetIn;
+        address assetOut;
+        uint256 amount;
+        bytes userData;
+    }
+    
+    struct FundManagement {
+        address sender;
+        bool fromInternalBalance;
+        address payable recipient;
+        bool toInternalBalance;
+    }
+    
+    uint256 public flashLoanFeeBps;
+    // poolBalances[poolId][token] is the pool's share of the vault's balance of token
+    mapping(bytes32 => mapping(address => uint256)) public poolBalances;
+    // Sum of pool balances per token; flash loans lend and are settled against the rest
+    mapping(address => uint256) public pooled;
+    uint256 public swapFeeBps;
+    bool private entered;
+    
+    modifier nonReentrant() {
+        require(!entered, "BAL#400");
+        entered = true;
+        _;
+        entered = false;
+    }
+    
+    function setFlashLoanFeeBps(uint256 feeBps) external {
+        flashLoanFeeBps = feeBps;
+    }
+    
+    function setSwapFeeBps(uint256 feeBps) external {
+        swapFeeBps = feeBps;
+    }
+    
+    // The vault must hold the balances it is given, on top of what it lends
+    function registerPool(bytes32 poolId, address tokenA, address tokenB, uint256 balanceA, uint256 balanceB) external {
+        pooled[tokenA] = pooled[tokenA] + balanceA - poolBalances[poolId][tokenA];
+        pooled[tokenB] = pooled[tokenB] + balanceB - poolBalances[poolId][tokenB];
+        poolBalances[poolId][tokenA] = balanceA;
+        poolBalances[poolId][tokenB] = balanceB;
+    }
+    
+    function getAmountOut(bytes32 poolId, uint256 amountIn, address tokenIn, address tokenOut) public view returns (uint256) {
+        uint256 balanceIn = poolBalances[poolId][tokenIn];
+        uint256 balanceOut = poolBalances[poolId][tokenOut];
+        require(balanceIn > 0 && balanceOut > 0, "BAL#521");
+        
+        uint256 amountInAfterFee = amountIn * (10000 - swapFeeBps) / 10000;
+        return (amountInAfterFee * balanceOut) / (balanceIn + amountInAfterFee);
+    }
+    
+    // GIVEN_IN only
+    function swap(
+        SingleSwap calldata singleSwap,
+        FundManagement calldata funds,
+        uint256 limit,
+        uint256 deadline
+    ) external nonReentrant returns (uint256 amountOut) {
+        require(block.timestamp <= deadline, "BAL#508");
+        require(singleSwap.kind == 0, "GIVEN_IN only");
+        amountOut = getAmountOut(singleSwap.poolId, singleSwap.amount, singleSwap.assetIn, singleSwap.assetOut);
+        require(amountOut >= limit, "BAL#507");
+        
+        IERC20(singleSwap.assetIn).transferFrom(funds.sender, address(this), singleSwap.amount);
+        poolBalances[singleSwap.poolId][singleSwap.assetIn] += singleSwap.amount;
+        poolBalances[singleSwap.poolId][singleSwap.assetOut] -= amountOut;
+        pooled[singleSwap.assetIn] += singleSwap.amount;
+        pooled[singleSwap.assetOut] -= amountOut;
+        IERC20(singleSwap.assetOut).transfer(funds.recipient, amountOut);
+    }
+    
+    function maxFlashLoan(address token) external view returns (uint256) {
+        return _lendable(token);
+    }
+    
+    function _lendable(address token) internal view returns (uint256) {
+        return IERC20(token).balanceOf(address(this)) - pooled[token];
+    }
+    
+    function flashLoan(
+        address recipient,
+        address[] calldata tokens,
+        uint256[] calldata amounts,
+        bytes calldata userData
+    ) external nonReentrant {
+        uint256[] memory feeAmounts = new uint256[](tokens.length);
+        uint256[] memory preLoanBalances = new uint256[](tokens.length);
+        
+        for (uint256 i = 0; i < tokens.length; i++) {
+            preLoanBalances[i] = _lendable(tokens[i]);
+            require(preLoanBalances[i] >= amounts[i], "Insufficient flash loan balance");
+            feeAmounts[i] = amounts[i] * flashLoanFeeBps / 10000;
+            IERC20(tokens[i]).transfer(recipient, amounts[i]);
+        }
+        
+        IFlashLoanRecipient(recipient).receiveFlashLoan(tokens, amounts, feeAmounts, userData);
+        
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 postLoanBalance = _lendable(tokens[i]);
+            require(postLoanBalance >= preLoanBalances[i] + feeAmounts[i], "Flash loan not repaid");
+        }
+    }
+}
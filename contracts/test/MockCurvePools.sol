@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+// Swaps its own coins at fixed rates and, like older Curve pools, returns nothing from exchange.
+// Each pool below exposes only the ABI of the Curve pool kind it stands in for.
+abstract contract MockCurvePoolBase {
+    address[] internal poolCoins;
+    // rates[i][j] is coin j received per coin i, scaled by 1e18
+    mapping(uint256 => mapping(uint256 => uint256)) public rates;
+    
+    constructor(address[] memory _coins) {
+        poolCoins = _coins;
+    }
+    
+    function setRate(uint256 i, uint256 j, uint256 rate) external {
+        rates[i][j] = rate;
+    }
+    
+    function A() external pure returns (uint256) {
+        return 100;
+    }
+    
+    function fee() external pure returns (uint256) {
+        return 4000000; // 0.04% at 1e10 precision
+    }
+    
+    function _coin(uint256 i) internal view returns (address) {
+        require(i < poolCoins.length, "No coin");
+        return poolCoins[i];
+    }
+    
+    function _balance(uint256 i) internal view returns (uint256) {
+        return IERC20(_coin(i)).balanceOf(address(this));
+    }
+    
+    function _getDy(uint256 i, uint256 j, uint256 dx) internal view returns (uint256) {
+        require(rates[i][j] > 0, "No rate");
+        return dx * rates[i][j] / 1e18;
+    }
+    
+    function _exchange(uint256 i, uint256 j, uint256 dx, uint256 minDy) internal {
+        uint256 dy = _getDy(i, j, dx);
+        require(dy >= minDy, "Exchange resulted in fewer coins than expected");
+        IERC20(_coin(i)).transferFrom(msg.sender, address(this), dx);
+        IERC20(_coin(j)).transfer(msg.sender, dy);
+    }
+}
+
+// Older StableSwap pool: every index is an int128
+contract MockCurveStableSwapPool is MockCurvePoolBase {
+    constructor(address[] memory _coins) MockCurvePoolBase(_coins) {}
+    
+    function coins(int128 i) external view returns (address) {
+        return _coin(uint256(int256(i)));
+    }
+    
+    function balances(int128 i) external view returns (uint256) {
+        return _balance(uint256(int256(i)));
+    }
+    
+    function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256) {
+        return _getDy(uint256(int256(i)), uint256(int256(j)), dx);
+    }
+    
+    function exchange(int128 i, int128 j, uint256 dx, uint256 minDy) external {
+        _exchange(uint256(int256(i)), uint256(int256(j)), dx, minDy);
+    }
+}
+
+// CryptoSwap pool: uint256 indices, and gamma() alongside A()
+contract MockCurveCryptoSwapPool is MockCurvePoolBase {
+    constructor(address[] memory _coins) MockCurvePoolBase(_coins) {}
+    
+    function coins(uint256 i) external view returns (address) {
+        return _coin(i);
+    }
+    
+    function balances(uint256 i) external view returns (uint256) {
+        return _balance(i);
+    }
+    
+    function gamma() external pure returns (uint256) {
+        return 11809167828997;
+    }
+    
+    function get_dy(uint256 i, uint256 j, uint256 dx) external view returns (uint256) {
+        return _getDy(i, j, dx);
+    }
+    
+    function exchange(uint256 i, uint256 j, uint256 dx, uint256 minDy) external {
+        _exchange(i, j, dx, minDy);
+    }
+}
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+// Constant-product pools with the 0.3% UniswapV2 fee, held by the router itself
+contract MockUniswapV2Router {
+    // reserves[token][counterpart] is the pool's balance of token
+    mapping(address => mapping(address => uint256)) public reserves;
+    
+    // The router must hold the reserves it is given
+    function setReserves(address tokenA, address tokenB, uint256 reserveA, uint256 reserveB) external {
+        reserves[tokenA][tokenB] = reserveA;
+        reserves[tokenB][tokenA] = reserveB;
+    }
+    
+    function getAmountOut(uint256 amountIn, address tokenIn, address tokenOut) public view returns (uint256) {
+        uint256 reserveIn = reserves[tokenIn][tokenOut];
+        uint256 reserveOut = reserves[tokenOut][tokenIn];
+        require(reserveIn > 0 && reserveOut > 0, "No liquidity");
+        
+        uint256 amountInWithFee = amountIn * 997;
+        return (amountInWithFee * reserveOut) / (reserveIn * 1000 + amountInWithFee);
+    }
+    
+    function getAmountsOut(uint256 amountIn, address[] calldata path)
+        public view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "Invalid path");
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            amounts[i + 1] = getAmountOut(amounts[i], path[i], path[i + 1]);
+        }
+    }
+    
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(block.timestamp <= deadline, "Expired");
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[amounts.length - 1] >= amountOutMin, "Insufficient output amount");
+        
+        IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn);
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            reserves[path[i]][path[i + 1]] += amounts[i];
+            reserves[path[i + 1]][path[i]] -= amounts[i + 1];
+        }
+        IERC20(path[path.length - 1]).transfer(to, amounts[amounts.length - 1]);
+    }
+}
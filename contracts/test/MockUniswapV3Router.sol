@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+// One constant-product pool per fee tier, charging that tier on the input, held by the router itself
+contract MockUniswapV3Router {
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 sqrtPriceLimitX96;
+    }
+    
+    // reserves[fee][token][counterpart] is the fee tier's pool balance of token
+    mapping(uint24 => mapping(address => mapping(address => uint256))) public reserves;
+    
+    // The router must hold the reserves it is given
+    function setReserves(uint24 fee, address tokenA, address tokenB, uint256 reserveA, uint256 reserveB) external {
+        reserves[fee][tokenA][tokenB] = reserveA;
+        reserves[fee][tokenB][tokenA] = reserveB;
+    }
+    
+    function getAmountOut(uint24 fee, uint256 amountIn, address tokenIn, address tokenOut) public view returns (uint256) {
+        uint256 reserveIn = reserves[fee][tokenIn][tokenOut];
+        uint256 reserveOut = reserves[fee][tokenOut][tokenIn];
+        require(reserveIn > 0 && reserveOut > 0, "No liquidity");
+        
+        uint256 amountInWithFee = amountIn * (1_000_000 - fee);
+        return (amountInWithFee * reserveOut) / (reserveIn * 1_000_000 + amountInWithFee);
+    }
+    
+    function exactInputSingle(ExactInputSingleParams calldata params) external returns (uint256 amountOut) {
+        require(block.timestamp <= params.deadline, "Transaction too old");
+        amountOut = getAmountOut(params.fee, params.amountIn, params.tokenIn, params.tokenOut);
+        require(amountOut >= params.amountOutMinimum, "Too little received");
+        
+        IERC20(params.tokenIn).transferFrom(msg.sender, address(this), params.amountIn);
+        reserves[params.fee][params.tokenIn][params.tokenOut] += params.amountIn;
+        reserves[params.fee][params.tokenOut][params.tokenIn] -= amountOut;
+        IERC20(params.tokenOut).transfer(params.recipient, amountOut);
+    }
+}
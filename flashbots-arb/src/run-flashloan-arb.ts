@@ -6,6 +6,7 @@ const chalk = require('chalk');
 import * as fs from "fs";
 import * as path from "path";
 import { Command } from "commander";
+import { AddressedSigner, SignerProvider } from "../../utils/signer-provider";
 
 // Simplified gas pricing for the simulation
 interface GasSettings {
@@ -87,7 +88,7 @@ class SimpleArbitragePathfinder {
 class SimpleSymbiosisIntegration {
   constructor(
     private providers: Record<string, ethers.JsonRpcProvider>,
-    private signers: Record<string, ethers.Wallet>
+    private signers: Record<string, AddressedSigner>
   ) {}
 
   async detectCrossChainArbitrage(tokens: string[], chains: number[]) {
@@ -175,7 +176,7 @@ interface SimulationResults {
 
 class FlashLoanArbSimulator {
   private providers: Map<number, ethers.JsonRpcProvider> = new Map();
-  private signers: Map<number, ethers.Wallet> = new Map();
+  private signers: Map<number, AddressedSigner> = new Map();
   private flashbotsProvider: FlashbotsBundleProvider | null = null;
   private symbiosisIntegration: SimpleSymbiosisIntegration | null = null;
   private pathfinders: Map<number, SimpleArbitragePathfinder> = new Map();
@@ -288,6 +289,7 @@ class FlashLoanArbSimulator {
     console.log(chalk.blue('🚀 Initializing Enhanced MEV Arbitrage Simulator...'));
     
     // Initialize providers and signers for each chain
+    const signerProvider = SignerProvider.fromEnv();
     for (const chainName of this.config.chains) {
       const chainConfig = this.CHAIN_CONFIGS.get(chainName);
       if (!chainConfig) continue;
@@ -297,7 +299,7 @@ class FlashLoanArbSimulator {
         chainId: chainConfig.chainId
       });
 
-      const signer = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
+      const signer = await signerProvider.signer('executor', provider);
       
       this.providers.set(chainConfig.chainId, provider);
       this.signers.set(chainConfig.chainId, signer);
@@ -317,7 +319,7 @@ class FlashLoanArbSimulator {
     // Initialize Flashbots (using Arbitrum as primary)
     if (this.providers.has(42161)) {
       const arbProvider = this.providers.get(42161)!;
-      const authSigner = new ethers.Wallet(process.env.FLASHBOTS_AUTH_KEY!, arbProvider);
+      const authSigner = await signerProvider.signer('flashbots-auth', arbProvider);
       
       try {
         this.flashbotsProvider = await FlashbotsBundleProvider.create(
@@ -335,7 +337,7 @@ class FlashLoanArbSimulator {
     // Initialize Symbiosis for cross-rollup arbitrage
     try {
       const providerMap: Record<string, ethers.JsonRpcProvider> = {};
-      const signerMap: Record<string, ethers.Wallet> = {};
+      const signerMap: Record<string, AddressedSigner> = {};
       
       for (const [chainId, provider] of this.providers) {
         const chainName = this.getChainName(chainId);
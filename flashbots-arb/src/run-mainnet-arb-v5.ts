@@ -5,6 +5,7 @@ const chalk = require('chalk');
 import * as fs from "fs";
 import * as path from "path";
 import { Command } from "commander";
+import { AddressedSigner, SignerProvider } from "../../utils/signer-provider";
 
 // Load environment from parent directory
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -35,7 +36,7 @@ interface SimulationOpportunity {
 
 class LeanMainnetArbBot {
   private providers: Map<number, ethers.providers.JsonRpcProvider> = new Map();
-  private signers: Map<number, ethers.Wallet> = new Map();
+  private signers: Map<number, AddressedSigner> = new Map();
   private simulationRunning = false;
   private config: SimulationConfig;
   private opportunities: SimulationOpportunity[] = [];
@@ -69,19 +70,14 @@ class LeanMainnetArbBot {
     console.log(chalk.blue('🚀 Initializing Lean Mainnet Arbitrage Bot...'));
     
     // Initialize providers and signers
+    const signerProvider = SignerProvider.fromEnv();
     for (const chainName of this.config.chains) {
       const chainConfig = this.CHAIN_CONFIGS[chainName as keyof typeof this.CHAIN_CONFIGS];
       if (!chainConfig) continue;
 
       const provider = new ethers.providers.JsonRpcProvider(chainConfig.rpcUrl);
       
-      // Validate private key
-      const privateKey = process.env.PRIVATE_KEY;
-      if (!privateKey || !privateKey.startsWith('0x') || privateKey.length !== 66) {
-        throw new Error(`Invalid private key format. Expected 0x + 64 hex chars, got: ${privateKey?.length || 0} chars`);
-      }
-      
-      const signer = new ethers.Wallet(privateKey, provider);
+      const signer = await signerProvider.signer('executor', provider);
       
       this.providers.set(chainConfig.chainId, provider);
       this.signers.set(chainConfig.chainId, signer);
@@ -0,0 +1,76 @@
+import axios from "axios";
+import winston from "winston";
+import { Alert } from "./production-monitor";
+
+/**
+ * Delivers alerts to Telegram and the email endpoint, whichever are configured. ProductionMonitor
+ * sends through it with its trading metrics attached; processes that do not trade, like the
+ * kill-switch watchdog, use it on its own so no metric timers run and no metric lines are sent.
+ */
+export class AlertNotifier {
+  private logger: winston.Logger;
+
+  constructor(logger?: winston.Logger) {
+    this.logger = logger ?? winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(winston.format.colorize(), winston.format.simple()),
+      transports: [new winston.transports.Console()]
+    });
+  }
+
+  /**
+   * Send to every configured channel; details are extra lines appended below the message
+   */
+  async sendAlert(alert: Alert, details: string[] = []): Promise<void> {
+    await Promise.allSettled([
+      this.sendTelegramAlert(alert, details),
+      this.sendEmailAlert(alert, details, new Date().toISOString())
+    ]);
+
+    this.logger.error(`🚨 ${alert.title}: ${alert.message}`);
+  }
+
+  private async sendTelegramAlert(alert: Alert, details: string[]): Promise<void> {
+    try {
+      if (!process.env.TELEGRAM_BOT_TOKEN || !process.env.TELEGRAM_CHAT_ID) {
+        return;
+      }
+
+      const footer = details.length > 0 ? `\n\n${details.join('\n')}` : '';
+      const message = `🤖 *ARBBot2025 Alert*\n\n*${alert.title}*\n${alert.message}${footer}`;
+
+      await axios.post(`https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/sendMessage`, {
+        chat_id: process.env.TELEGRAM_CHAT_ID,
+        text: message,
+        parse_mode: 'Markdown'
+      });
+    } catch (error) {
+      this.logger.error('Failed to send Telegram alert:', error);
+    }
+  }
+
+  private async sendEmailAlert(alert: Alert, details: string[], timestamp: string): Promise<void> {
+    try {
+      if (!process.env.EMAIL_ALERT_ENDPOINT || !process.env.ALERT_EMAIL) {
+        return;
+      }
+
+      const metrics = details.length > 0
+        ? `\n          Current Metrics:\n${details.map(line => `          - ${line}`).join('\n')}\n`
+        : '';
+      await axios.post(process.env.EMAIL_ALERT_ENDPOINT, {
+        to: process.env.ALERT_EMAIL,
+        subject: `🚨 ARBBot2025 Critical Alert: ${alert.title}`,
+        body: `
+          Alert: ${alert.title}
+          Message: ${alert.message}
+          Urgency: ${alert.urgency}
+          ${metrics}
+          Timestamp: ${timestamp}
+        `
+      });
+    } catch (error) {
+      this.logger.error('Failed to send email alert:', error);
+    }
+  }
+}
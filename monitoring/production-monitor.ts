@@ -2,6 +2,7 @@ import { ethers } from "ethers";
 import axios from "axios";
 import chalk from "chalk";
 import winston from "winston";
+import { AlertNotifier } from "./alert-notifier";
 
 interface SystemMetrics {
   totalProfitETH: number;
@@ -22,7 +23,7 @@ interface SystemMetrics {
   networkLatencyMs: number;
 }
 
-interface Alert {
+export interface Alert {
   title: string;
   message: string;
   urgency: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
@@ -51,6 +52,7 @@ export class ProductionMonitor {
   private alertThresholds!: AlertThresholds;
   private tradeHistory: TradeRecord[] = [];
   private logger!: winston.Logger;
+  private notifier!: AlertNotifier;
   private startTime: number;
 
   constructor() {
@@ -58,6 +60,7 @@ export class ProductionMonitor {
     this.initializeMetrics();
     this.setupAlertThresholds();
     this.setupLogger();
+    this.notifier = new AlertNotifier(this.logger);
     this.startMonitoring();
   }
 
@@ -197,66 +200,13 @@ export class ProductionMonitor {
     }
   }
 
-  private async sendAlert(alert: Alert): Promise<void> {
-    const alertData = {
-      ...alert,
-      timestamp: new Date().toISOString(),
-      metrics: this.metrics
-    };
-
-    // Send to multiple channels
-    await Promise.allSettled([
-      this.sendTelegramAlert(alertData),
-      this.sendEmailAlert(alertData)
+  async sendAlert(alert: Alert): Promise<void> {
+    await this.notifier.sendAlert(alert, [
+      `💰 Daily Profit: ${this.metrics.dailyProfitETH.toFixed(4)} ETH`,
+      `📊 Success Rate: ${(this.metrics.successRate24h * 100).toFixed(1)}%`,
+      `⚡ Gas Efficiency: ${this.metrics.gasEfficiencyRatio.toFixed(2)}:1`,
+      `🎯 Risk Score: ${this.metrics.riskScore}/100`
     ]);
-
-    this.logger.error(`🚨 ${alert.title}: ${alert.message}`);
-  }
-
-  private async sendTelegramAlert(alert: any): Promise<void> {
-    try {
-      if (!process.env.TELEGRAM_BOT_TOKEN || !process.env.TELEGRAM_CHAT_ID) {
-        return;
-      }
-
-      const message = `🤖 *ARBBot2025 Alert*\n\n*${alert.title}*\n${alert.message}\n\n💰 Daily Profit: ${alert.metrics.dailyProfitETH.toFixed(4)} ETH\n📊 Success Rate: ${(alert.metrics.successRate24h * 100).toFixed(1)}%\n⚡ Gas Efficiency: ${alert.metrics.gasEfficiencyRatio.toFixed(2)}:1`;
-      
-      await axios.post(`https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/sendMessage`, {
-        chat_id: process.env.TELEGRAM_CHAT_ID,
-        text: message,
-        parse_mode: 'Markdown'
-      });
-    } catch (error) {
-      this.logger.error('Failed to send Telegram alert:', error);
-    }
-  }
-
-  private async sendEmailAlert(alert: any): Promise<void> {
-    try {
-      if (!process.env.EMAIL_ALERT_ENDPOINT || !process.env.ALERT_EMAIL) {
-        return;
-      }
-
-      await axios.post(process.env.EMAIL_ALERT_ENDPOINT, {
-        to: process.env.ALERT_EMAIL,
-        subject: `🚨 ARBBot2025 Critical Alert: ${alert.title}`,
-        body: `
-          Alert: ${alert.title}
-          Message: ${alert.message}
-          Urgency: ${alert.urgency}
-          
-          Current Metrics:
-          - Daily Profit: ${alert.metrics.dailyProfitETH.toFixed(4)} ETH
-          - Success Rate: ${(alert.metrics.successRate24h * 100).toFixed(1)}%
-          - Gas Efficiency: ${alert.metrics.gasEfficiencyRatio.toFixed(2)}:1
-          - Risk Score: ${alert.metrics.riskScore}/100
-          
-          Timestamp: ${alert.timestamp}
-        `
-      });
-    } catch (error) {
-      this.logger.error('Failed to send email alert:', error);
-    }
   }
 
   async updateTradeMetrics(trade: {
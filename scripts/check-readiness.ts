@@ -5,6 +5,7 @@ import chalk from "chalk";
 import fs from "fs";
 import path from "path";
 import { execSync } from "child_process";
+import { SignerProvider } from "../utils/signer-provider";
 
 dotenv.config();
 
@@ -49,9 +50,13 @@ class ARBBotValidator {
   async validateEnvironmentVariables(): Promise<void> {
     console.log(chalk.cyan('\n🔍 Validating Environment Variables...\n'));
 
+    // Raw keys are only expected when the signer backend reads them from the environment
+    const rawKeys = !process.env.SIGNER_BACKEND || process.env.SIGNER_BACKEND === 'env';
     const requiredVars = [
-      { name: 'PRIVATE_KEY', pattern: /^0x[a-fA-F0-9]{64}$/, description: 'Private key (64 hex chars with 0x prefix)' },
-      { name: 'FLASHBOTS_AUTH_KEY', pattern: /^0x[a-fA-F0-9]{64}$/, description: 'Flashbots auth key (64 hex chars with 0x prefix)' },
+      ...(rawKeys ? [
+        { name: 'PRIVATE_KEY', pattern: /^0x[a-fA-F0-9]{64}$/, description: 'Private key (64 hex chars with 0x prefix)' },
+        { name: 'FLASHBOTS_AUTH_KEY', pattern: /^0x[a-fA-F0-9]{64}$/, description: 'Flashbots auth key (64 hex chars with 0x prefix)' }
+      ] : []),
       { name: 'ARB_RPC', pattern: /^https?:\/\/.+/, description: 'Arbitrum RPC URL' },
       { name: 'OPT_RPC', pattern: /^https?:\/\/.+/, description: 'Optimism RPC URL' },
       { name: 'MAINNET_RPC', pattern: /^https?:\/\/.+/, description: 'Mainnet RPC URL' },
@@ -183,15 +188,10 @@ class ARBBotValidator {
     console.log(chalk.cyan('\n👛 Validating Wallet Configuration...\n'));
 
     try {
-      const privateKey = process.env.PRIVATE_KEY;
-      if (!privateKey) {
-        this.addResult('Wallet', 'Private Key', 'fail', 'Private key not configured');
-        return;
-      }
-
-      // Test wallet derivation
-      const wallet = new ethers.Wallet(privateKey);
-      this.addResult('Wallet', 'Key Derivation', 'pass', 'Wallet created successfully', `Address: ${wallet.address}`);
+      // Test wallet derivation through the configured signer backend
+      const signers = SignerProvider.fromEnv();
+      const wallet = await signers.signer('executor');
+      this.addResult('Wallet', 'Key Derivation', 'pass', `Wallet unlocked from ${signers.kind} backend`, `Address: ${wallet.address}`);
 
       // Test balance checks on all networks
       const networks = [
@@ -221,13 +221,7 @@ class ARBBotValidator {
 
       // Test Flashbots authentication
       try {
-        const flashbotsAuthKey = process.env.FLASHBOTS_AUTH_KEY;
-        if (!flashbotsAuthKey) {
-          this.addResult('Wallet', 'Flashbots Auth', 'fail', 'Flashbots auth key not configured');
-          return;
-        }
-
-        const authWallet = new ethers.Wallet(flashbotsAuthKey);
+        const authWallet = await signers.signer('flashbots-auth');
         this.addResult('Wallet', 'Flashbots Auth Derivation', 'pass', 'Auth wallet created', `Address: ${authWallet.address}`);
 
         // Test Flashbots provider creation (without actually connecting)
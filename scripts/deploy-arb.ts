@@ -3,31 +3,25 @@ import { config } from "dotenv";
 import { isAddress, formatEther } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
+import { SignerProvider } from "../utils/signer-provider";
 
 config();
 
 interface DeploymentConfig {
-  privateKey: string;
   rpcUrl: string;
   uniV2Router: string;
   sushiRouter: string;
   balancerVault: string;
   botContractAddress?: string;
 }
-console.log("ARB PRIVATE_KEY:", process.env.PRIVATE_KEY);
 
 function validateConfig(): DeploymentConfig {
-  const privateKey = process.env.PRIVATE_KEY;
   const rpcUrl = process.env.ARB_RPC;
   const uniV2Router = process.env.UNI_V2_ROUTER_ARB;
   const sushiRouter = process.env.SUSHI_ROUTER_ARB;
   const balancerVault = process.env.BALANCER_VAULT_ADDRESS;
   const botContractAddress = process.env.BOT_CONTRACT_ADDRESS;
 
-  if (!privateKey || !privateKey.startsWith("0x") || privateKey.length !== 66) {
-    throw new Error("PRIVATE_KEY is missing or invalid format");
-  }
-
   if (!rpcUrl || !rpcUrl.startsWith("http")) {
     throw new Error("ARB_RPC is missing or invalid format");
   }
@@ -45,7 +39,6 @@ function validateConfig(): DeploymentConfig {
   }
 
   return {
-    privateKey,
     rpcUrl,
     uniV2Router,
     sushiRouter,
@@ -55,7 +48,7 @@ function validateConfig(): DeploymentConfig {
 }
 
 async function deployContract(config: DeploymentConfig) {
-  const [deployer] = await hre.ethers.getSigners();
+  const deployer = await SignerProvider.fromEnv().signer("executor", hre.ethers.provider);
   
   console.log("Deploying FlashArbBotBalancer to Arbitrum...");
   console.log("Deployer address:", deployer.address);
@@ -64,7 +57,7 @@ async function deployContract(config: DeploymentConfig) {
   const balance = await deployer.provider?.getBalance(deployer.address);
   console.log("Deployer balance:", balance ? formatEther(balance) : "0", "ETH");
 
-  const FlashArbBotBalancer = await hre.ethers.getContractFactory("FlashArbBotBalancer");
+  const FlashArbBotBalancer = await hre.ethers.getContractFactory("FlashArbBotBalancer", deployer);
   const flashArbBot = await FlashArbBotBalancer.deploy(
     config.balancerVault,
     config.sushiRouter,
@@ -77,7 +70,7 @@ async function deployContract(config: DeploymentConfig) {
 
   console.log("FlashArbBotBalancer deployed to:", contractAddress);
 
-  const provider = deployer.provider;
+  const provider = hre.ethers.provider;
   const deploymentBlock = await provider.getBlockNumber();
   console.log("Deployment block:", deploymentBlock);
 
@@ -2,6 +2,7 @@ import hre from "hardhat";
 import { formatEther } from "ethers";
 import { writeFileSync } from "fs";
 import chalk from "chalk";
+import { EnhancedDEXManager } from "../utils/dex-routers";
 
 async function deployToNetwork(networkName: string, addresses: any) {
   console.log(chalk.blue(`\n🚀 Deploying to ${networkName}...`));
@@ -38,6 +39,19 @@ async function deployToNetwork(networkName: string, addresses: any) {
   await bot.setAuthorizedCaller(deployer.address, true);
   console.log(chalk.green(`✅ Authorized caller set: ${deployer.address}`));
   
+  // The kill-switch watchdog's key, allowed to pause and nothing else
+  if (process.env.PAUSE_GUARDIAN_ADDRESS) {
+    await bot.setPauseGuardian(process.env.PAUSE_GUARDIAN_ADDRESS, true);
+    console.log(chalk.green(`✅ Pause guardian set: ${process.env.PAUSE_GUARDIAN_ADDRESS}`));
+  }
+  
+  // executeRoute only approves and calls listed routers and Curve pools; Balancer hops go through the vault
+  for (const router of EnhancedDEXManager.getAllRouters(Number(chainId))) {
+    if (router.executable === false || router.routerType === 'GMX' || router.routerType === 'BALANCER') continue;
+    await bot.setRouteTarget(router.address, true);
+    console.log(chalk.green(`✅ Route target listed: ${router.name} (${router.address})`));
+  }
+  
   return {
     contractAddress,
     owner,
@@ -9,11 +9,12 @@
  * - Testnet environment setup and validation
  */
 
-import { ethers, JsonRpcProvider, parseEther, formatEther, formatUnits, Wallet, ContractFactory } from 'ethers';
+import { ethers, JsonRpcProvider, parseEther, formatEther, formatUnits, ContractFactory } from 'ethers';
 import { config } from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
+import { SignerProvider } from '../utils/signer-provider';
 
 // Load environment variables
 config();
@@ -22,7 +23,6 @@ interface DeploymentConfig {
   network: string;
   chainId: number;
   rpcUrl: string;
-  privateKey: string;
   explorerUrl: string;
   uniV2Router: string;
   sushiRouter: string;
@@ -51,7 +51,6 @@ class SimpleTestnetDeployer {
       network: 'arbitrum-sepolia',
       chainId: 421614,
       rpcUrl: process.env.ARBITRUM_SEPOLIA_RPC || process.env.ARB_SEPOLIA_RPC || 'https://sepolia-rollup.arbitrum.io/rpc',
-      privateKey: process.env.PRIVATE_KEY!,
       explorerUrl: 'https://sepolia.arbiscan.io',
       uniV2Router: '0x4648a43B2C14Da09FdAb83dd5aB3120E74D4d39b',
       sushiRouter: '0x4648a43B2C14Da09FdAb83dd5aB3120E74D4d39b',
@@ -64,7 +63,6 @@ class SimpleTestnetDeployer {
       network: 'ethereum-sepolia',
       chainId: 11155111,
       rpcUrl: process.env.ETH_SEPOLIA_RPC || 'https://rpc.sepolia.org',
-      privateKey: process.env.PRIVATE_KEY!,
       explorerUrl: 'https://sepolia.etherscan.io',
       uniV2Router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
       sushiRouter: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
@@ -77,7 +75,6 @@ class SimpleTestnetDeployer {
       network: 'optimism-sepolia',
       chainId: 11155420,
       rpcUrl: process.env.OPT_SEPOLIA_RPC || 'https://sepolia.optimism.io',
-      privateKey: process.env.PRIVATE_KEY!,
       explorerUrl: 'https://sepolia-optimistic.etherscan.io',
       uniV2Router: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2',
       sushiRouter: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2',
@@ -94,10 +91,8 @@ class SimpleTestnetDeployer {
       throw new Error(`Network ${networkName} not configured`);
     }
 
-    // Validate private key
-    if (!config.privateKey || !config.privateKey.startsWith("0x") || config.privateKey.length !== 66) {
-      throw new Error("PRIVATE_KEY is missing or invalid format");
-    }
+    // Unlock the executor up front so a bad keystore or signer fails before any RPC work
+    await SignerProvider.fromEnv().address('executor');
 
     // Validate RPC URL
     if (!config.rpcUrl || !config.rpcUrl.startsWith("http")) {
@@ -125,7 +120,7 @@ class SimpleTestnetDeployer {
   async checkBalance(networkName: string): Promise<void> {
     const config = this.configs.get(networkName)!;
     const provider = new JsonRpcProvider(config.rpcUrl);
-    const wallet = new Wallet(config.privateKey, provider);
+    const wallet = await SignerProvider.fromEnv().signer('executor', provider);
     
     console.log(chalk.blue(`💰 Checking balance for deployment on ${networkName}...`));
     
@@ -174,7 +169,7 @@ class SimpleTestnetDeployer {
     
     // Setup provider and wallet
     const provider = new JsonRpcProvider(config.rpcUrl);
-    const wallet = new Wallet(config.privateKey, provider);
+    const wallet = await SignerProvider.fromEnv().signer('executor', provider);
     const balance = await provider.getBalance(wallet.address);
     
     console.log(chalk.white(`  Deployer address: ${wallet.address}`));
@@ -274,7 +269,7 @@ class SimpleTestnetDeployer {
       gasPrice: result.gasPrice,
       explorerUrl: `${config.explorerUrl}/address/${result.contractAddress}`,
       rpcUrl: config.rpcUrl,
-      deployerAddress: new Wallet(config.privateKey).address
+      deployerAddress: await SignerProvider.fromEnv().address('executor')
     };
 
     const reportPath = path.join(process.cwd(), `deployment-${networkName}-${Date.now()}.json`);
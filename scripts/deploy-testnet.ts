@@ -12,12 +12,13 @@
 
 import hre from "hardhat";
 import { config } from "dotenv";
-import { JsonRpcProvider, Wallet, parseEther, formatEther, isAddress, parseUnits, formatUnits } from "ethers";
+import { JsonRpcProvider, parseEther, formatEther, isAddress, parseUnits, formatUnits } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
 import chalk from 'chalk';
 import { TestnetAutomation } from './testnet-automation';
 import { RPCHarvester } from './rpc-harvester';
+import { SignerProvider } from '../utils/signer-provider';
 
 config();
 
@@ -26,7 +27,6 @@ interface TestnetDeploymentConfig {
   chainId: number;
   rpcUrl: string;
   explorerUrl: string;
-  privateKey: string;
   uniV2Router: string;
   sushiRouter: string;
   balancerVault: string;
@@ -62,7 +62,6 @@ class TestnetDeployer {
       chainId: 421614,
       rpcUrl: process.env.ARB_SEPOLIA_RPC || 'https://sepolia-rollup.arbitrum.io/rpc',
       explorerUrl: 'https://sepolia.arbiscan.io',
-      privateKey: process.env.PRIVATE_KEY!,
       uniV2Router: '0x4648a43B2C14Da09FdAb83dd5aB3120E74D4d39b', // Arbitrum Sepolia Uniswap V2
       sushiRouter: '0x4648a43B2C14Da09FdAb83dd5aB3120E74D4d39b', // Fallback to same
       balancerVault: '0xBA12222222228d8Ba445958a75a0704d566BF2C8', // Same on all networks
@@ -81,7 +80,6 @@ class TestnetDeployer {
       chainId: 11155111,
       rpcUrl: process.env.ETH_SEPOLIA_RPC || 'https://rpc.sepolia.org',
       explorerUrl: 'https://sepolia.etherscan.io',
-      privateKey: process.env.PRIVATE_KEY!,
       uniV2Router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', // Uniswap V2 Router
       sushiRouter: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', // SushiSwap Router
       balancerVault: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
@@ -100,7 +98,6 @@ class TestnetDeployer {
       chainId: 11155420,
       rpcUrl: process.env.OPT_SEPOLIA_RPC || 'https://sepolia.optimism.io',
       explorerUrl: 'https://sepolia-optimistic.etherscan.io',
-      privateKey: process.env.PRIVATE_KEY!,
       uniV2Router: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2', // Optimism Sepolia
       sushiRouter: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2', // Fallback
       balancerVault: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
@@ -121,10 +118,8 @@ class TestnetDeployer {
       throw new Error(`Network ${networkName} not configured`);
     }
 
-    // Validate private key
-    if (!config.privateKey || !config.privateKey.startsWith("0x") || config.privateKey.length !== 66) {
-      throw new Error("PRIVATE_KEY is missing or invalid format");
-    }
+    // Unlock the executor up front so a bad keystore or signer fails before any RPC work
+    await SignerProvider.fromEnv().address('executor');
 
     // Validate RPC URL
     if (!config.rpcUrl || !config.rpcUrl.startsWith("http")) {
@@ -161,7 +156,7 @@ class TestnetDeployer {
   async checkAndEnsureBalance(networkName: string): Promise<void> {
     const config = this.testnetConfigs.get(networkName)!;
     const provider = new JsonRpcProvider(config.rpcUrl);
-    const wallet = new Wallet(config.privateKey, provider);
+    const wallet = await SignerProvider.fromEnv().signer('executor', provider);
     
     console.log(chalk.blue(`💰 Checking balance for deployment on ${networkName}...`));
     
@@ -418,7 +413,7 @@ class TestnetDeployer {
       explorerUrl: `${config.explorerUrl}/address/${result.contractAddress}`,
       rpcUrl: config.rpcUrl,
       verified: result.verified,
-      deployerAddress: new Wallet(config.privateKey).address
+      deployerAddress: await SignerProvider.fromEnv().address('executor')
     };
 
     const reportPath = path.join(process.cwd(), `deployment-${networkName}-${Date.now()}.json`);
@@ -3,6 +3,7 @@ import dotenv from 'dotenv';
 import chalk from 'chalk';
 import fs from 'fs';
 import path from 'path';
+import { AddressedSigner, SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -50,11 +51,12 @@ interface DeploymentDryRunResult {
 
 export class DeploymentDryRunner {
   private provider: { [key: string]: ethers.JsonRpcProvider } = {};
-  private wallets: { [key: string]: ethers.Wallet } = {};
+  private wallets: { [key: string]: AddressedSigner } = {};
+  private walletsReady: Promise<void>;
   
   constructor() {
     this.initializeProviders();
-    this.initializeWallets();
+    this.walletsReady = this.initializeWallets();
   }
   
   private initializeProviders(): void {
@@ -67,23 +69,22 @@ export class DeploymentDryRunner {
     }
   }
   
-  private initializeWallets(): void {
-    if (process.env.PRIVATE_KEY && process.env.ARB_RPC) {
-      this.wallets.executor = new ethers.Wallet(
-        process.env.PRIVATE_KEY,
-        this.provider.arbitrum
-      );
-    }
-    
-    if (process.env.FLASHBOTS_AUTH_KEY && process.env.ARB_RPC) {
-      this.wallets.flashbots = new ethers.Wallet(
-        process.env.FLASHBOTS_AUTH_KEY,
-        this.provider.arbitrum
-      );
+  // A wallet the signer backend cannot provide stays unset and is reported as not configured
+  private async initializeWallets(): Promise<void> {
+    if (!process.env.ARB_RPC) return;
+    
+    const roles = [['executor', 'executor'], ['flashbots', 'flashbots-auth']] as const;
+    for (const [walletType, role] of roles) {
+      try {
+        this.wallets[walletType] = await SignerProvider.fromEnv().signer(role, this.provider.arbitrum);
+      } catch (error) {
+        console.log(chalk.yellow(`⚠️ ${walletType} signer not available: ${error instanceof Error ? error.message : error}`));
+      }
     }
   }
   
   async validateWallet(walletType: 'executor' | 'flashbots'): Promise<WalletValidationResult> {
+    await this.walletsReady;
     const wallet = this.wallets[walletType];
     
     if (!wallet) {
@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { AddressedSigner, SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -35,7 +36,7 @@ interface BridgeOperation {
 
 export class EnhancedCrossChainGasManager {
   private mainnetProvider: ethers.JsonRpcProvider;
-  private executorWallet: ethers.Wallet;
+  private executorWallet!: AddressedSigner; // Unlocked in initialize()
   private providers: { [chain: string]: ethers.JsonRpcProvider } = {};
   private isRunning: boolean = false;
   
@@ -77,13 +78,8 @@ export class EnhancedCrossChainGasManager {
   };
 
   constructor() {
-    if (!process.env.PRIVATE_KEY) {
-      throw new Error('PRIVATE_KEY environment variable is required');
-    }
-
-    // Initialize mainnet provider and wallet
+    // Initialize mainnet provider
     this.mainnetProvider = new ethers.JsonRpcProvider(this.CHAIN_CONFIGS.mainnet.rpcUrl);
-    this.executorWallet = new ethers.Wallet(process.env.PRIVATE_KEY, this.mainnetProvider);
 
     // Initialize providers for all chains
     for (const [chainName, config] of Object.entries(this.CHAIN_CONFIGS)) {
@@ -92,6 +88,8 @@ export class EnhancedCrossChainGasManager {
   }
 
   async initialize(): Promise<void> {
+    this.executorWallet = await SignerProvider.fromEnv().signer('executor', this.mainnetProvider);
+    
     console.log(chalk.blue('🚀 Enhanced Cross-Chain Gas Manager v2.0'));
     console.log(chalk.cyan(`👤 Executor Wallet: ${this.executorWallet.address}`));
     console.log(chalk.cyan(`⏱️ Monitor Interval: ${this.config.monitoringInterval / 1000 / 60} minutes`));
@@ -4,6 +4,7 @@ import dotenv from 'dotenv';
 import chalk from 'chalk';
 import fs from 'fs';
 import path from 'path';
+import { AddressedSigner, SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -26,12 +27,11 @@ interface ContractDeploymentTest {
 
 export class EnhancedDeploymentValidator {
   private providers: { [key: string]: ethers.JsonRpcProvider } = {};
-  private wallets: { [key: string]: ethers.Wallet } = {};
+  private wallets: { [key: string]: AddressedSigner } = {};
   private results: DeploymentValidationResult[] = [];
   
   constructor() {
     this.initializeProviders();
-    this.initializeWallets();
   }
   
   private initializeProviders(): void {
@@ -43,14 +43,18 @@ export class EnhancedDeploymentValidator {
     }
   }
   
-  private initializeWallets(): void {
-    if (process.env.PRIVATE_KEY) {
+  // Wallets stay unset when the signer backend is not configured; the checks report them missing
+  private async initializeWallets(): Promise<void> {
+    try {
+      const signers = SignerProvider.fromEnv();
       if (this.providers.arbitrum) {
-        this.wallets.arbitrum = new ethers.Wallet(process.env.PRIVATE_KEY, this.providers.arbitrum);
+        this.wallets.arbitrum = await signers.signer('executor', this.providers.arbitrum);
       }
       if (this.providers.optimism) {
-        this.wallets.optimism = new ethers.Wallet(process.env.PRIVATE_KEY, this.providers.optimism);
+        this.wallets.optimism = await signers.signer('executor', this.providers.optimism);
       }
+    } catch (error) {
+      console.log(chalk.yellow('⚠️ Executor signer not available:'), error instanceof Error ? error.message : error);
     }
   }
   
@@ -298,47 +302,24 @@ export class EnhancedDeploymentValidator {
     
     let allSecurityChecksPass = true;
     
-    // Check private key format
-    const privateKey = process.env.PRIVATE_KEY;
-    if (privateKey) {
-      if (privateKey.length === 66 && privateKey.startsWith('0x')) {
-        this.addResult('Private Key Format', true, 'Private key format is valid');
-      } else {
-        this.addResult('Private Key Format', false, 'Invalid private key format');
-        allSecurityChecksPass = false;
-      }
+    // Check that the signer backend unlocks both keys
+    try {
+      const signers = SignerProvider.fromEnv();
+      const executorAddress = await signers.address('executor');
+      const flashbotsAddress = await signers.address('flashbots-auth');
       
-      // Check if private key derives to expected address
-      try {
-        const wallet = new ethers.Wallet(privateKey);
-        this.addResult('Key Derivation', true, 'Private key derivation successful', {
-          derivedAddress: wallet.address
-        });
-      } catch (error) {
-        this.addResult('Key Derivation', false, 'Private key derivation failed', undefined, error instanceof Error ? error.message : 'Unknown error');
-        allSecurityChecksPass = false;
-      }
-    }
-    
-    // Check Flashbots key
-    const flashbotsKey = process.env.FLASHBOTS_AUTH_KEY;
-    if (flashbotsKey) {
-      if (flashbotsKey.length === 66 && flashbotsKey.startsWith('0x')) {
-        this.addResult('Flashbots Key Format', true, 'Flashbots key format is valid');
-        
-        try {
-          const flashbotsWallet = new ethers.Wallet(flashbotsKey);
-          this.addResult('Flashbots Key Derivation', true, 'Flashbots key derivation successful', {
-            derivedAddress: flashbotsWallet.address
-          });
-        } catch (error) {
-          this.addResult('Flashbots Key Derivation', false, 'Flashbots key derivation failed', undefined, error instanceof Error ? error.message : 'Unknown error');
-          allSecurityChecksPass = false;
-        }
-      } else {
-        this.addResult('Flashbots Key Format', false, 'Invalid Flashbots key format');
-        allSecurityChecksPass = false;
-      }
+      this.addResult('Signer Backend', true, signers.kind === 'env' ?
+        'Raw keys from the environment (development only)' :
+        `Keys held by the ${signers.kind} backend`);
+      this.addResult('Key Derivation', true, 'Executor signer available', {
+        derivedAddress: executorAddress
+      });
+      this.addResult('Flashbots Key Derivation', true, 'Flashbots auth signer available', {
+        derivedAddress: flashbotsAddress
+      });
+    } catch (error) {
+      this.addResult('Signer Backend', false, 'Signer backend could not provide both keys', undefined, error instanceof Error ? error.message : 'Unknown error');
+      allSecurityChecksPass = false;
     }
     
     // Check gas funding wallet configuration
@@ -386,6 +367,8 @@ export class EnhancedDeploymentValidator {
     console.log(chalk.blue('═══════════════════════════════════'));
     console.log(chalk.yellow(`Mode: ${dryRun ? 'DRY RUN (Safe)' : 'LIVE TEST (Real Deployment)'}`));
     
+    await this.initializeWallets();
+    
     // Phase 1: Pre-deployment checks
     const preDeploymentPassed = await this.validatePreDeploymentChecks();
     
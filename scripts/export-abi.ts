@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+
+// Contracts whose ABI the off-chain code imports from abi/
+const CONTRACTS = ['FlashArbBotBalancer'];
+
+/**
+ * Copy contract ABIs out of the Hardhat artifacts so the bot's bindings track the compiled contract.
+ * Run after `hardhat compile` whenever a contract's interface changes.
+ */
+function exportAbis(): void {
+  for (const name of CONTRACTS) {
+    const artifactPath = path.join(__dirname, '..', 'artifacts', 'contracts', `${name}.sol`, `${name}.json`);
+    const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+    const target = path.join(__dirname, '..', 'abi', `${name}.json`);
+    fs.writeFileSync(target, JSON.stringify(artifact.abi, null, 2) + '\n');
+    console.log(`Exported ${artifact.abi.length} ABI entries to ${path.relative(process.cwd(), target)}`);
+  }
+}
+
+if (require.main === module) {
+  exportAbis();
+}
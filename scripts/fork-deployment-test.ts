@@ -4,6 +4,7 @@ import dotenv from 'dotenv';
 import chalk from 'chalk';
 import fs from 'fs';
 import path from 'path';
+import { AddressedSigner, SignerProvider } from '../utils/signer-provider';
 
 // Import required hardhat ethers extensions
 import '@nomicfoundation/hardhat-ethers';
@@ -28,7 +29,7 @@ interface ForkTestResult {
 
 export class ForkDeploymentTester {
   private forkProvider!: ethers.JsonRpcProvider;
-  private wallet!: ethers.Wallet;
+  private wallet!: AddressedSigner;
   private results: ForkTestResult[] = [];
   
   async initializeForkEnvironment(network: 'arbitrum' | 'optimism'): Promise<void> {
@@ -57,11 +58,7 @@ export class ForkDeploymentTester {
     // Connect to the forked network
     this.forkProvider = new ethers.JsonRpcProvider('http://127.0.0.1:8545');
     
-    if (!process.env.PRIVATE_KEY) {
-      throw new Error('PRIVATE_KEY not configured');
-    }
-    
-    this.wallet = new ethers.Wallet(process.env.PRIVATE_KEY, this.forkProvider);
+    this.wallet = await SignerProvider.fromEnv().signer('executor', this.forkProvider);
     
     // Fund the wallet with ETH on the fork
     await this.fundWalletOnFork();
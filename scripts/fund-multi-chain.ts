@@ -1,6 +1,7 @@
 import { ethers, JsonRpcProvider, parseEther, formatEther, parseUnits } from "ethers";
 import { Symbiosis } from 'symbiosis-js-sdk';
 import * as dotenv from "dotenv";
+import { AddressedSigner, SignerProvider } from "../utils/signer-provider";
 const chalk = require('chalk');
 
 dotenv.config();
@@ -13,7 +14,7 @@ interface FundingConfig {
 
 class MultiChainFunder {
   private mainnetProvider: JsonRpcProvider;
-  private executorWallet: ethers.Wallet;
+  private executorWallet?: AddressedSigner;
   private symbiosis: Symbiosis | null = null;
   
   private readonly CHAIN_CONFIGS = {
@@ -35,10 +36,14 @@ class MultiChainFunder {
     this.mainnetProvider = new JsonRpcProvider(
       process.env.MAINNET_RPC || "https://eth.llamarpc.com"
     );
-    this.executorWallet = new ethers.Wallet(
-      process.env.PRIVATE_KEY!,
-      this.mainnetProvider
-    );
+  }
+
+  // Unlocked on first use, so the fallback instructions still work when initialize() failed
+  private async executor(): Promise<AddressedSigner> {
+    if (!this.executorWallet) {
+      this.executorWallet = await SignerProvider.fromEnv().signer('executor', this.mainnetProvider);
+    }
+    return this.executorWallet;
   }
 
   async initialize(): Promise<void> {
@@ -54,7 +59,8 @@ class MultiChainFunder {
     }
 
     // Check mainnet balance
-    const mainnetBalance = await this.mainnetProvider.getBalance(this.executorWallet.address);
+    const executor = await this.executor();
+    const mainnetBalance = await this.mainnetProvider.getBalance(executor.address);
     console.log(chalk.cyan(`💰 Mainnet balance: ${formatEther(mainnetBalance)} ETH`));
     
     if (mainnetBalance < parseEther("0.1")) {
@@ -90,7 +96,8 @@ class MultiChainFunder {
     try {
       // Check current balance on target chain
       const targetProvider = new JsonRpcProvider(chainConfig.rpcUrl);
-      const currentBalance = await targetProvider.getBalance(this.executorWallet.address);
+      const executor = await this.executor();
+      const currentBalance = await targetProvider.getBalance(executor.address);
       
       console.log(chalk.gray(`Current ${chainConfig.name} balance: ${formatEther(currentBalance)} ETH`));
       
@@ -102,8 +109,8 @@ class MultiChainFunder {
       if (simulate) {
         // Simulate the bridge transaction
         console.log(chalk.yellow(`🎭 SIMULATION: Would bridge ${amount} ETH to ${chainConfig.name}`));
-        console.log(chalk.gray(`   - From: Ethereum Mainnet (${this.executorWallet.address})`));
-        console.log(chalk.gray(`   - To: ${chainConfig.name} (${this.executorWallet.address})`));
+        console.log(chalk.gray(`   - From: Ethereum Mainnet (${executor.address})`));
+        console.log(chalk.gray(`   - To: ${chainConfig.name} (${executor.address})`));
         console.log(chalk.gray(`   - Amount: ${amount} ETH`));
         console.log(chalk.gray(`   - Estimated time: 10-20 minutes`));
         console.log(chalk.gray(`   - Estimated bridge fee: ~0.005-0.01 ETH`));
@@ -138,7 +145,7 @@ class MultiChainFunder {
       };
 
       console.log(chalk.blue('📤 Executing bridge transaction...'));
-      const receipt = await this.executorWallet.sendTransaction({
+      const receipt = await executor.sendTransaction({
         to: bridgeTx.to,
         data: bridgeTx.data,
         value: bridgeTx.value,
@@ -167,12 +174,13 @@ class MultiChainFunder {
     const checkInterval = 60 * 1000; // 1 minute
     const startTime = Date.now();
     
-    let initialBalance = await targetProvider.getBalance(this.executorWallet.address);
+    const executor = await this.executor();
+    let initialBalance = await targetProvider.getBalance(executor.address);
     
     while (Date.now() - startTime < maxWaitTime) {
       await new Promise(resolve => setTimeout(resolve, checkInterval));
       
-      const currentBalance = await targetProvider.getBalance(this.executorWallet.address);
+      const currentBalance = await targetProvider.getBalance(executor.address);
       
       if (currentBalance > initialBalance) {
         console.log(chalk.green(`✅ Bridge completed! New ${chainName} balance: ${formatEther(currentBalance)} ETH`));
@@ -194,14 +202,15 @@ class MultiChainFunder {
     console.log(chalk.white('├──────────────────┼─────────────────┤'));
 
     // Check mainnet
-    const mainnetBalance = await this.mainnetProvider.getBalance(this.executorWallet.address);
+    const executor = await this.executor();
+    const mainnetBalance = await this.mainnetProvider.getBalance(executor.address);
     console.log(chalk.white(`│ Ethereum         │ ${formatEther(mainnetBalance).padStart(15)} │`));
 
     // Check each target chain
     for (const [chainName, config] of Object.entries(this.CHAIN_CONFIGS)) {
       try {
         const provider = new JsonRpcProvider(config.rpcUrl);
-        const balance = await provider.getBalance(this.executorWallet.address);
+        const balance = await provider.getBalance(executor.address);
         const color = balance > parseEther("0.001") ? chalk.green : chalk.red;
         console.log(color(`│ ${config.name.padEnd(16)} │ ${formatEther(balance).padStart(15)} │`));
       } catch (error) {
@@ -221,7 +230,7 @@ class MultiChainFunder {
     console.log(chalk.gray('2. Connect your wallet'));
     console.log(chalk.gray('3. Select: Ethereum → Arbitrum/Base'));
     console.log(chalk.gray('4. Amount: 0.1-0.5 ETH per chain'));
-    console.log(chalk.gray(`5. Recipient: ${this.executorWallet.address}`));
+    console.log(chalk.gray(`5. Recipient: ${(await this.executor()).address}`));
     
     console.log(chalk.cyan('\n🌉 Option 2: Official Bridges'));
     console.log(chalk.gray('Arbitrum:'));
@@ -2,6 +2,7 @@ import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
 import EnhancedCrossChainGasManager from './enhanced-cross-chain-gas-manager';
+import { AddressedSigner, SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -24,19 +25,18 @@ interface GasFundingStats {
 
 export class GasFundingManager {
   private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
+  private wallet!: AddressedSigner; // Unlocked in initialize()
   private contract!: ethers.Contract; // Initialized in init()
   private config: GasFundingConfig;
   private isRunning: boolean = false;
   private crossChainManager?: EnhancedCrossChainGasManager;
 
   constructor() {
-    if (!process.env.ARB_RPC || !process.env.PRIVATE_KEY) {
+    if (!process.env.ARB_RPC) {
       throw new Error('Missing required environment variables');
     }
 
     this.provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-    this.wallet = new ethers.Wallet(process.env.PRIVATE_KEY, this.provider);
     
     // Default configuration - Updated for new wallet
     this.config = {
@@ -60,6 +60,7 @@ export class GasFundingManager {
       "event GasFundingTransfer(address indexed token, uint256 amount, address indexed gasFundingWallet)"
     ];
 
+    this.wallet = await SignerProvider.fromEnv().signer('executor', this.provider);
     this.contract = new ethers.Contract(contractAddress, contractABI, this.wallet);
     
     // Initialize enhanced cross-chain gas manager
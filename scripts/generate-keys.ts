@@ -28,6 +28,7 @@ interface WalletInfo {
 class SecureKeyGenerator {
   private readonly ENV_FILE = path.join(process.cwd(), '.env');
   private readonly BACKUP_DIR = path.join(process.cwd(), 'backups');
+  private readonly KEYSTORE_DIR = path.join(process.cwd(), 'keystore');
   private readonly ENTROPY_BYTES = 32;
   
   constructor() {
@@ -179,9 +180,22 @@ class SecureKeyGenerator {
   /**
    * Create .env file with generated keys
    */
-  async createEnvFile(walletInfo: WalletInfo): Promise<void> {
+  async createEnvFile(walletInfo: WalletInfo, useKeystore: boolean = false): Promise<void> {
     console.log(chalk.yellow("📝 Creating .env file..."));
     
+    // With keystores the raw keys never reach the .env file
+    const walletSection = useKeystore ? `# Keys live in encrypted keystores, unlocked at startup
+SIGNER_BACKEND=keystore
+KEYSTORE_DIR=${this.KEYSTORE_DIR}
+KEYSTORE_PASSWORD_FILE=
+
+# Executor Wallet (NEEDS FUNDING: ~0.1 ETH per chain): ${walletInfo.executorWallet.address}
+# Flashbots Auth Key (NO FUNDING NEEDED): ${walletInfo.flashbotsAuthKey.address}` : `# Executor Wallet (NEEDS FUNDING: ~0.1 ETH per chain)
+PRIVATE_KEY=${walletInfo.executorWallet.privateKey}
+
+# Flashbots Auth Key (NO FUNDING NEEDED)
+FLASHBOTS_AUTH_KEY=${walletInfo.flashbotsAuthKey.privateKey}`;
+    
     const envContent = `# ================================
 # MEV ARBITRAGE BOT CONFIGURATION
 # Generated: ${walletInfo.timestamp}
@@ -200,11 +214,7 @@ FORK_BLOCK_OPT=110000000
 # WALLET CONFIGURATION (SECURE)
 # ================================
 
-# Executor Wallet (NEEDS FUNDING: ~0.1 ETH per chain)
-PRIVATE_KEY=${walletInfo.executorWallet.privateKey}
-
-# Flashbots Auth Key (NO FUNDING NEEDED)
-FLASHBOTS_AUTH_KEY=${walletInfo.flashbotsAuthKey.privateKey}
+${walletSection}
 
 # Flashbots Configuration
 FLASHBOTS_RELAY_URL=https://relay.flashbots.net
@@ -367,6 +377,29 @@ REPORT_GAS=false
     }
   }
   
+  /**
+   * Write both keys as encrypted JSON keystores, the format SignerProvider's keystore backend unlocks
+   */
+  async createKeystores(walletInfo: WalletInfo, password: string): Promise<string> {
+    console.log(chalk.yellow("🔒 Encrypting keystores..."));
+    
+    if (!fs.existsSync(this.KEYSTORE_DIR)) {
+      fs.mkdirSync(this.KEYSTORE_DIR, { mode: 0o700 });
+    }
+    
+    const keystores: [string, KeyPair][] = [
+      ['executor.json', walletInfo.executorWallet],
+      ['flashbots-auth.json', walletInfo.flashbotsAuthKey]
+    ];
+    for (const [filename, keyPair] of keystores) {
+      const json = await new ethers.Wallet(keyPair.privateKey).encrypt(password);
+      fs.writeFileSync(path.join(this.KEYSTORE_DIR, filename), json, { mode: 0o600 });
+    }
+    
+    console.log(chalk.green("✅ Keystores created: "), this.KEYSTORE_DIR);
+    return this.KEYSTORE_DIR;
+  }
+  
   /**
    * Validate network connectivity
    */
@@ -468,7 +501,7 @@ REPORT_GAS=false
   /**
    * Main setup function
    */
-  async setupWallet(options: { createBackup?: boolean; password?: string; skipBalance?: boolean } = {}): Promise<void> {
+  async setupWallet(options: { createBackup?: boolean; keystore?: boolean; password?: string; skipBalance?: boolean } = {}): Promise<void> {
     try {
       console.log(chalk.green("🚀 MEV Bot Wallet Setup"));
       console.log(chalk.gray("========================================"));
@@ -479,8 +512,16 @@ REPORT_GAS=false
       // Display wallet information
       this.displayWalletInfo(walletInfo);
       
+      // Encrypt keystores if requested; the .env file then carries no raw keys
+      if (options.keystore) {
+        if (!options.password) {
+          throw new Error("--keystore needs --password to encrypt the keystores");
+        }
+        await this.createKeystores(walletInfo, options.password);
+      }
+      
       // Create .env file
-      await this.createEnvFile(walletInfo);
+      await this.createEnvFile(walletInfo, options.keystore);
       
       // Create backup if requested
       if (options.createBackup) {
@@ -520,6 +561,7 @@ async function main(): Promise<void> {
   
   const options = {
     createBackup: args.includes('--backup'),
+    keystore: args.includes('--keystore'),
     password: args.includes('--password') ? args[args.indexOf('--password') + 1] : undefined,
     skipBalance: args.includes('--skip-balance')
   };
@@ -529,12 +571,14 @@ async function main(): Promise<void> {
     console.log(chalk.white("\nUsage: ts-node scripts/generate-keys.ts [options]"));
     console.log(chalk.white("\nOptions:"));
     console.log(chalk.gray("  --backup           Create encrypted backup"));
-    console.log(chalk.gray("  --password <pwd>   Password for backup encryption"));
+    console.log(chalk.gray("  --keystore         Write encrypted keystores instead of raw keys in .env"));
+    console.log(chalk.gray("  --password <pwd>   Password for backup and keystore encryption"));
     console.log(chalk.gray("  --skip-balance     Skip balance checking"));
     console.log(chalk.gray("  --help, -h         Show this help"));
     console.log(chalk.white("\nExamples:"));
     console.log(chalk.cyan("  ts-node scripts/generate-keys.ts"));
     console.log(chalk.cyan("  ts-node scripts/generate-keys.ts --backup --password mypassword"));
+    console.log(chalk.cyan("  ts-node scripts/generate-keys.ts --keystore --password mypassword"));
     console.log(chalk.cyan("  ts-node scripts/generate-keys.ts --skip-balance"));
     return;
   }
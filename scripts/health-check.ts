@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
+import { SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -54,17 +55,20 @@ class HealthChecker {
 
   private async checkWalletBalance(): Promise<void> {
     try {
-      if (!process.env.PRIVATE_KEY) {
+      let address: string;
+      try {
+        address = await SignerProvider.fromEnv().address('executor');
+      } catch (error) {
         this.results.push({
           component: 'Wallet Balance',
           status: 'CRITICAL',
-          message: 'Private key not configured'
+          message: 'Executor signer not configured',
+          details: { error: error instanceof Error ? error.message : error }
         });
         return;
       }
 
-      const wallet = new ethers.Wallet(process.env.PRIVATE_KEY);
-      const balance = await this.provider.getBalance(wallet.address);
+      const balance = await this.provider.getBalance(address);
       const balanceETH = parseFloat(ethers.formatEther(balance));
 
       let status: 'HEALTHY' | 'WARNING' | 'CRITICAL' = 'HEALTHY';
@@ -82,7 +86,7 @@ class HealthChecker {
         component: 'Wallet Balance',
         status,
         message,
-        details: { address: wallet.address, balanceETH }
+        details: { address, balanceETH }
       });
     } catch (error) {
       this.results.push({
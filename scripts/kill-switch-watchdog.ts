@@ -0,0 +1,99 @@
+import chalk from "chalk";
+import dotenv from "dotenv";
+import { JsonRpcProvider, parseEther } from "ethers";
+import { AlertNotifier } from "../monitoring/alert-notifier";
+import { BotHeartbeat } from "../utils/bot-heartbeat";
+import { FlashArbBotFactory } from "../utils/flash-arb-bot";
+import { KillSwitchWatchdog, WatchdogAnomaly, WatchdogPause } from "../utils/kill-switch-watchdog";
+import { SignerProvider } from "../utils/signer-provider";
+
+// Load environment variables
+dotenv.config();
+
+interface WatchedChain {
+  chainId: number;
+  name: string;
+  rpc?: string;
+  bot?: string;
+  tokens: Array<string | undefined>;
+}
+
+const CHAINS: WatchedChain[] = [
+  {
+    chainId: 42161,
+    name: "Arbitrum",
+    rpc: process.env.ARB_RPC,
+    bot: process.env.BOT_CONTRACT_ADDRESS,
+    tokens: [process.env.WETH_ARB, process.env.USDC_ARB, process.env.USDT_ARB, process.env.WBTC_ARB]
+  },
+  {
+    chainId: 10,
+    name: "Optimism",
+    rpc: process.env.OPT_RPC,
+    bot: process.env.OPT_BOT_CONTRACT_ADDRESS,
+    tokens: [process.env.WETH_OPT, process.env.USDC_OPT, process.env.USDT_OPT, process.env.WBTC_OPT]
+  }
+];
+
+async function main() {
+  // The watchdog never holds the executor key, only its address
+  const executor = process.env.WATCHDOG_EXECUTOR_ADDRESS || process.env.REMOTE_SIGNER_EXECUTOR_ADDRESS;
+  if (!executor) {
+    throw new Error('set WATCHDOG_EXECUTOR_ADDRESS to the wallet the bot trades from');
+  }
+  const chains = CHAINS.filter(chain => chain.rpc && chain.bot);
+  if (chains.length === 0) {
+    throw new Error('no bot contract to watch; set BOT_CONTRACT_ADDRESS and ARB_RPC or OPT_BOT_CONTRACT_ADDRESS and OPT_RPC');
+  }
+
+  const signers = SignerProvider.fromEnv();
+  // Alerts only: the watchdog records no trades, so ProductionMonitor's metric checks would only raise false alarms
+  const notifier = new AlertNotifier();
+  const watchdogs: KillSwitchWatchdog[] = [];
+
+  for (const chain of chains) {
+    const provider = new JsonRpcProvider(chain.rpc);
+    const guardian = await signers.signer('guardian', provider);
+
+    // A watchdog that cannot pause is worse than none, since it looks like protection
+    const bot = FlashArbBotFactory.connect(chain.bot!, provider);
+    if (!(await bot.pauseGuardians(guardian.address)) && (await bot.owner()).toLowerCase() !== guardian.address.toLowerCase()) {
+      throw new Error(`${guardian.address} is not a pause guardian of ${chain.bot} on ${chain.name}; the owner has to call setPauseGuardian first`);
+    }
+
+    const watchdog = new KillSwitchWatchdog(chain.chainId, provider, guardian, chain.bot!, executor, notifier, {
+      tokens: chain.tokens.filter((token): token is string => !!token),
+      expectedProfitWallet: process.env.PROFIT_WALLET_ADDRESS,
+      maxExecutorOutflowWei: parseEther(process.env.WATCHDOG_MAX_EXECUTOR_OUTFLOW || "0.05"),
+      maxReverts: parseInt(process.env.WATCHDOG_MAX_REVERTS || "3"),
+      windowMs: parseInt(process.env.WATCHDOG_WINDOW_MS || "600000"),
+      heartbeatPath: process.env.BOT_HEARTBEAT_PATH || BotHeartbeat.DEFAULT_PATH,
+      maxHeartbeatAgeMs: parseInt(process.env.WATCHDOG_HEARTBEAT_MAX_AGE_MS || "120000"),
+      pollIntervalMs: parseInt(process.env.WATCHDOG_POLL_INTERVAL_MS || "15000")
+    });
+    watchdog.on('anomaly', (anomaly: WatchdogAnomaly) => {
+      console.log(chalk.red(`🚨 ${chain.name} block ${anomaly.blockNumber} ${anomaly.trigger}: ${anomaly.reason}`));
+    });
+    watchdog.on('paused', (pause: WatchdogPause) => {
+      console.log(chalk.red(`⏸️ ${chain.name} bot contract paused in ${pause.txHash}`));
+    });
+
+    // The first poll sets the baseline later polls are compared with
+    await watchdog.check();
+    watchdog.watch();
+    watchdogs.push(watchdog);
+    console.log(chalk.green(`🐕 Watching ${chain.bot} on ${chain.name} as guardian ${guardian.address}`));
+  }
+
+  const shutdown = () => {
+    watchdogs.forEach(watchdog => watchdog.unwatch());
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(chalk.red("❌ Kill-switch watchdog failed to start:"), error instanceof Error ? error.message : error);
+  process.exit(1);
+});
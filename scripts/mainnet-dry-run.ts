@@ -752,7 +752,7 @@ class DryRunOrchestrator {
         this.dynamicSlippage = new DynamicSlippageManager(providers);
         this.adaptiveProfit = new AdaptiveProfitManager(providers);
         this.riskManager = new AdvancedRiskManager(parseEther("100")); // 100 ETH initial capital
-        this.oracleValidator = new OraclePriceValidator(providers);
+        this.oracleValidator = new OraclePriceValidator(providers, this.dataFetcher.batcher);
         
         console.log(chalk.green('✅ Phase 3 optimization modules initialized'));
       } catch (error) {
@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { AddressedSigner, SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -24,7 +25,7 @@ interface WithdrawalConfig {
 
 export class ProfitWithdrawalAutomation {
   private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
+  private wallet!: AddressedSigner; // Unlocked in initialize()
   private contract!: ethers.Contract; // Initialized in init()
   private config: WithdrawalConfig;
   private isRunning: boolean = false;
@@ -38,12 +39,11 @@ export class ProfitWithdrawalAutomation {
   };
 
   constructor() {
-    if (!process.env.ARB_RPC || !process.env.PRIVATE_KEY) {
+    if (!process.env.ARB_RPC) {
       throw new Error('Missing required environment variables');
     }
 
     this.provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-    this.wallet = new ethers.Wallet(process.env.PRIVATE_KEY, this.provider);
     
     // Default withdrawal configuration
     this.config = {
@@ -76,6 +76,7 @@ export class ProfitWithdrawalAutomation {
       "function balanceOf(address) external view returns (uint256)"
     ];
 
+    this.wallet = await SignerProvider.fromEnv().signer('executor', this.provider);
     this.contract = new ethers.Contract(contractAddress, contractABI, this.wallet);
     
     // Verify we're the owner
@@ -0,0 +1,107 @@
+import chalk from "chalk";
+import dotenv from "dotenv";
+import fs from "fs";
+import { formatEther } from "ethers";
+import { RiskJournal, RiskJournalEntry } from "../utils/risk-journal";
+
+// Load environment variables
+dotenv.config();
+
+function inspect(journal: RiskJournal, tail: number): void {
+  const entries = journal.read();
+  if (entries.length === 0) {
+    console.log(chalk.yellow(`📒 ${journal.filePath} is empty or missing`));
+    return;
+  }
+
+  const counts = entries.reduce((acc, entry) => {
+    acc[entry.type] = (acc[entry.type] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<RiskJournalEntry['type'], number>>);
+  const state = RiskJournal.fold(entries)!;
+  const drawdown = state.peakBalance > 0n ?
+    Number(state.peakBalance - state.currentBalance) / Number(state.peakBalance) : 0;
+
+  console.log(chalk.blue(`📒 Risk journal ${journal.filePath}`));
+  console.log(`  Size:            ${fs.statSync(journal.filePath).size} bytes`);
+  console.log(`  Entries:         ${Object.entries(counts).map(([type, count]) => `${count} ${type}`).join(', ')}`);
+  console.log(`  Initial capital: ${formatEther(state.initialCapital)} ETH`);
+  console.log(`  Balance:         ${formatEther(state.currentBalance)} ETH`);
+  console.log(`  Peak:            ${formatEther(state.peakBalance)} ETH`);
+  console.log(`  Net flows:       ${formatEther(state.netFlows)} ETH (deposits less withdrawals)`);
+  console.log(`  Drawdown:        ${(drawdown * 100).toFixed(2)}%`);
+  console.log(`  Trades retained: ${state.trades.length} (last 30 days)`);
+
+  const breaker = state.circuitBreaker;
+  if (breaker.isActive) {
+    console.log(chalk.red(`  Circuit breaker: ACTIVE since ${new Date(breaker.activatedAt!).toISOString()}`));
+    console.log(chalk.red(`                   ${breaker.reasons.join(', ')}`));
+  } else {
+    console.log(chalk.green("  Circuit breaker: inactive"));
+  }
+
+  if (tail > 0) {
+    console.log(chalk.blue(`\nLast ${Math.min(tail, entries.length)} entries:`));
+    for (const entry of entries.slice(-tail)) {
+      const at = new Date(entry.timestamp).toISOString();
+      switch (entry.type) {
+        case 'open':
+          console.log(`  ${at} open      capital ${formatEther(entry.capital)} ETH`);
+          break;
+        case 'snapshot':
+          console.log(`  ${at} snapshot  balance ${formatEther(entry.state.currentBalance)} ETH, ${entry.state.trades.length} trades`);
+          break;
+        case 'trade':
+          console.log(`  ${at} trade     ${entry.trade.success ? 'ok' : entry.trade.failureCategory} ${entry.trade.strategy} ` +
+            `${entry.trade.tokenPair} on ${entry.trade.chainId}: ${formatEther(entry.trade.profit)} ETH net`);
+          break;
+        case 'balance':
+          console.log(`  ${at} balance   ${formatEther(entry.balance)} ETH (portfolio valuation)`);
+          break;
+        case 'flow':
+          console.log(`  ${at} flow      ${formatEther(entry.amount)} ETH to ${formatEther(entry.balance)} ETH (${entry.note})`);
+          break;
+        case 'breaker':
+          console.log(`  ${at} breaker   ${entry.status.isActive ? `ACTIVE: ${entry.status.reasons.join(', ')}` : 'reset'}`);
+          break;
+      }
+    }
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  const pathIndex = args.indexOf('--path');
+  const tailIndex = args.indexOf('--tail');
+  const journal = new RiskJournal(
+    pathIndex >= 0 ? args[pathIndex + 1] : process.env.RISK_JOURNAL_PATH || RiskJournal.DEFAULT_PATH
+  );
+
+  switch (command) {
+    case 'inspect':
+      inspect(journal, tailIndex >= 0 ? parseInt(args[tailIndex + 1]) : 10);
+      break;
+
+    case 'compact': {
+      // Compaction rewrites the file; a running bot appending meanwhile would lose entries
+      console.log(chalk.yellow("⚠️ Make sure the bot is stopped before compacting"));
+      const { entriesBefore, tradesKept } = journal.compact();
+      console.log(chalk.green(`✅ Compacted ${journal.filePath}: ${entriesBefore} entries into one snapshot holding ${tradesKept} trades`));
+      break;
+    }
+
+    default:
+      console.log(chalk.blue("📒 Risk Journal Tool\n"));
+      console.log("Usage:");
+      console.log("  npm run risk:inspect                 # Balance, peak, breaker and the last 10 entries");
+      console.log("  npm run risk:inspect -- --tail 50    # Show the last 50 entries");
+      console.log("  npm run risk:compact                 # Fold the journal into a snapshot (bot stopped)");
+      console.log("  ... --path <file>                    # Journal other than RISK_JOURNAL_PATH");
+  }
+}
+
+main().catch((error) => {
+  console.error(chalk.red("❌ Risk journal tool failed:"), error);
+  process.exit(1);
+});
@@ -2,8 +2,14 @@
 
 import { program } from 'commander';
 import { config } from 'dotenv';
+import { JsonRpcProvider, Provider } from 'ethers';
 import { WorkerManager } from '../utils/WorkerManager';
 import { PerformanceReporter } from '../utils/PerformanceReporter';
+import { NonceManager } from '../utils/nonce-manager';
+import { SignerProvider } from '../utils/signer-provider';
+import { TradingHalt } from '../utils/trading-halt';
+import { MulticallBatcher } from '../utils/multicall';
+import { ChainlinkFeedRegistry, SequencerStatus } from '../utils/chainlink-feeds';
 import chalk from 'chalk';
 
 // Load environment variables
@@ -38,7 +44,9 @@ interface ExecutionStats {
 }
 
 class ParallelArbitrageBot {
-  private workerManager: WorkerManager;
+  private workerManager!: WorkerManager;
+  private tradingHalt!: TradingHalt;
+  private chainlinkFeeds!: ChainlinkFeedRegistry;
   private performanceReporter: PerformanceReporter;
   private config: BotConfig;
   private stats: ExecutionStats = {} as ExecutionStats;
@@ -46,14 +54,45 @@ class ParallelArbitrageBot {
 
   constructor(config: BotConfig) {
     this.config = config;
-    this.workerManager = new WorkerManager(
-      config.workers,
-      config.scanInterval,
-      config.reportInterval
-    );
     this.performanceReporter = new PerformanceReporter(config.verbose);
     this.initializeStats();
-    this.setupEventHandlers();
+  }
+
+  /**
+   * Workers all sign as the executor, so its nonces on every worker chain come from one shared sequence
+   */
+  private async createNonceManager(): Promise<NonceManager | undefined> {
+    if (!process.env.SIGNER_BACKEND && !process.env.PRIVATE_KEY) return undefined;
+    const address = await SignerProvider.fromEnv().address('executor');
+    return NonceManager.create([42161, 10, 8453, 1, 137].map(chainId => ({ chainId, address })));
+  }
+
+  /**
+   * Hold trading while a rollup sequencer is down and through its grace period, as run-bot does;
+   * the workers check the same halt before executing
+   */
+  private async watchSequencers(): Promise<void> {
+    const providers = new Map<number, Provider>([
+      [42161, new JsonRpcProvider(process.env.ARB_RPC)],
+      [10, new JsonRpcProvider(process.env.OPT_RPC)]
+    ]);
+    this.chainlinkFeeds = new ChainlinkFeedRegistry(
+      new MulticallBatcher(providers),
+      process.env.CHAINLINK_FEEDS_PATH || ChainlinkFeedRegistry.DEFAULT_PATH
+    );
+    const holdForSequencer = (status: SequencerStatus) => {
+      if (status.gated) {
+        this.tradingHalt.hold(`sequencer:${status.chainId}`, [status.reason || `sequencer on chain ${status.chainId} gated`]);
+      } else {
+        this.tradingHalt.release(`sequencer:${status.chainId}`);
+      }
+    };
+    this.chainlinkFeeds.on('sequencer', holdForSequencer);
+
+    // An outage already in progress holds trading before the workers start; the poll reports changes after that
+    const statuses = await Promise.all(this.chainlinkFeeds.gatedChains.map(chainId => this.chainlinkFeeds.sequencerStatus(chainId)));
+    statuses.filter(status => status.gated).forEach(holdForSequencer);
+    this.chainlinkFeeds.watchSequencers();
   }
 
   private initializeStats(): void {
@@ -84,6 +123,11 @@ class ParallelArbitrageBot {
 
     // Handle execution results
     this.workerManager.on('execution', (result) => {
+      if (result.success) {
+        this.tradingHalt.recordExecutionSuccess();
+      } else if (!result.skipped) {
+        this.tradingHalt.recordExecutionError(result.error);
+      }
       this.stats.totalExecutions++;
       if (result.success) {
         this.stats.totalProfit = (
@@ -128,6 +172,10 @@ class ParallelArbitrageBot {
     );
 
     if (profitableOpportunities.length === 0) return;
+    if (this.tradingHalt.isHalted()) {
+      console.log(chalk.red(`🛑 Trading halted - ${profitableOpportunities.length} opportunities not executed`));
+      return;
+    }
 
     // Execute top opportunities in parallel
     const executionPromises = profitableOpportunities
@@ -198,6 +246,23 @@ class ParallelArbitrageBot {
     console.log('');
 
     try {
+      // Simulated failures must not halt the live bot, so a simulation keeps its halt in memory
+      this.tradingHalt = new TradingHalt(
+        this.config.simulate ? null : process.env.TRADING_HALT_PATH || TradingHalt.DEFAULT_PATH,
+        { maxConsecutiveErrors: parseInt(process.env.MAX_CONSECUTIVE_EXECUTION_ERRORS || '5') }
+      );
+      this.tradingHalt.watch();
+      await this.watchSequencers();
+      
+      // The executor address, and with it the shared nonce sequence, needs the signer backend unlocked
+      this.workerManager = new WorkerManager(
+        this.config.workers,
+        this.config.scanInterval,
+        this.config.reportInterval,
+        await this.createNonceManager(),
+        this.tradingHalt
+      );
+      this.setupEventHandlers();
       await this.workerManager.start();
       
       // Run for specified duration
@@ -231,6 +296,8 @@ class ParallelArbitrageBot {
     this.stats.endTime = Date.now();
 
     try {
+      this.tradingHalt.unwatch();
+      this.chainlinkFeeds?.unwatchSequencers();
       await this.workerManager.stop();
       this.generateFinalReport();
       process.exit(0);
@@ -288,8 +355,8 @@ async function main(): Promise<void> {
   const options = program.opts();
   
   // Validate configuration
-  if (!process.env.PRIVATE_KEY && !options.simulate) {
-    console.error(chalk.red('Error: PRIVATE_KEY environment variable is required for live execution'));
+  if (!process.env.SIGNER_BACKEND && !process.env.PRIVATE_KEY && !options.simulate) {
+    console.error(chalk.red('Error: SIGNER_BACKEND (or PRIVATE_KEY in development) is required for live execution'));
     process.exit(1);
   }
 
@@ -1,4 +1,4 @@
-import { ethers, JsonRpcProvider, parseEther, formatEther, parseUnits, formatUnits, Wallet } from "ethers";
+import { ethers, JsonRpcProvider, parseEther, formatEther, parseUnits, formatUnits } from "ethers";
 import { FlashbotsBundleProvider, FlashbotsBundleTransaction, FlashbotsBundleResolution } from "@flashbots/ethers-provider-bundle";
 import MevShareClient from "@flashbots/mev-share-client";
 import dotenv from "dotenv";
@@ -10,7 +10,31 @@ import axios from "axios";
 import { DynamicGasPricer } from "../utils/gas-pricing";
 import { VolatileTokenTracker } from "../utils/volatile-tokens";
 import { EnhancedDEXManager, DEXRouter } from "../utils/dex-routers";
-import { EnhancedArbitragePathfinder } from "../utils/arbitrage-pathfinder";
+import { ArbitrageEdge, EnhancedArbitragePathfinder, TradeSizeBounds } from "../utils/arbitrage-pathfinder";
+import { PoolStateReader } from "../utils/pool-state";
+import { MulticallBatcher } from "../utils/multicall";
+import { PoolEventSync } from "../utils/pool-event-sync";
+import { PoolRegistry } from "../utils/pool-registry";
+import { PoolDiscoveryService } from "../utils/pool-discovery";
+import { TokenRegistry } from "../utils/token-registry";
+import { ForkRpc, TokenBehaviorProbe } from "../utils/token-probe";
+import { BundleOutcome, FlashbotsBundleSubmitter } from "../utils/bundle-submitter";
+import {
+  ExecutionChannel,
+  ExecutionChannelKind,
+  PrivateRpcChannel,
+  PrivateRpcOptions,
+  SequencerChannel,
+  TimeboostChannel
+} from "../utils/execution-channels";
+import { FlashArbBotBalancer, FlashArbBotFactory, RouteHopStruct } from "../utils/flash-arb-bot";
+import { ArbitrageCall, FlashArbCalldataBuilder } from "../utils/flash-arb-calldata";
+import { RouteEncoder } from "../utils/route-encoder";
+import { PreflightSimulator } from "../utils/preflight-simulator";
+import { ClassifiedFailure, FailureTaxonomy, RevertDecoder } from "../utils/revert-decoder";
+import { NonceManager } from "../utils/nonce-manager";
+import { AddressedSigner, SignerProvider } from "../utils/signer-provider";
+import { LifecycleRecord, TransactionLifecycleTracker } from "../utils/tx-lifecycle-tracker";
 import { GasOptimizer } from "../utils/gas-optimizer";
 import { L2GasManager } from "../utils/l2-gas-manager";
 import { MEVBundleOptimizer } from "../utils/mev-bundle-optimizer";
@@ -18,8 +42,15 @@ import { TriangularArbManager } from "../strategies/triangular-arbitrage";
 import { DynamicSlippageManager } from "../utils/dynamic-slippage-manager";
 import { AdaptiveProfitManager } from "../utils/adaptive-profit-manager";
 import { AdvancedRiskManager } from "../utils/advanced-risk-manager";
+import { RiskJournal } from "../utils/risk-journal";
+import { HaltAcknowledgement, HaltStatus, TradingHalt } from "../utils/trading-halt";
+import { TradingPolicy } from "../utils/trading-policy";
+import { BotHeartbeat } from "../utils/bot-heartbeat";
+import { ChainlinkFeedRegistry, SequencerStatus } from "../utils/chainlink-feeds";
 import { OraclePriceValidator } from "../utils/oracle-price-validator";
+import { PortfolioChain, PortfolioValuation, PortfolioValuationService } from "../utils/portfolio-valuation";
 import { OptimizationCoordinator } from "../src/optimization/optimization-coordinator";
+import { ProductionMonitor } from "../monitoring/production-monitor";
 
 import balancerVaultABI from "../abi/BalancerVault.json";
 import uniswapV2RouterABI from "../abi/UniswapV2Router.json";
@@ -63,11 +94,17 @@ interface ArbitrageOpportunity {
   id: string;
   tokenA: string;
   tokenB: string;
-  amountIn: string;
-  expectedProfit: string;
-  netProfit: string;
+  amountIn: string; // Start token units
+  amountInNative: string; // amountIn valued in native wei
+  tokenDecimals: number; // Decimals of the start token
+  minProfit: string; // Gross profit in start token units, passed to the contract as its minimum
+  expectedProfit: string; // Native wei
+  netProfit: string; // Native wei
   sushiFirst: boolean;
   path: string[];
+  route?: RouteHopStruct[]; // Hops as simulated; absent when a venue on the path cannot be executed hop by hop
+  pools?: string[]; // Pool priced for each hop
+  dexes?: string[]; // DEX of each hop
   gasEstimate: string;
   gasCost: string;
   timestamp: number;
@@ -111,9 +148,7 @@ interface TokenPair {
   tokenB: string;
   symbolA: string;
   symbolB: string;
-  decimalsA: number;
-  decimalsB: number;
-  minAmount: string;
+  minAmount: string; // In tokenA, e.g. "0.1"; scaled by the decimals the token registry resolves
   maxAmount: string;
 }
 
@@ -130,12 +165,19 @@ class EnhancedMEVBot {
   // Provider setup
   private arbitrumProvider!: JsonRpcProvider;
   private optimismProvider!: JsonRpcProvider;
-  private executorSigner!: ethers.Wallet;
-  private authSigner!: ethers.Wallet;
-  private optimismExecutor!: ethers.Wallet;
+  private signerProvider!: SignerProvider;
+  private executorSigner!: AddressedSigner;
+  private authSigner!: AddressedSigner;
+  private optimismExecutor!: AddressedSigner;
+  private nonceManager!: NonceManager;
   
   // Flashbots integration
   private flashbotsProvider!: FlashbotsBundleProvider;
+  private bundleSubmitter!: FlashbotsBundleSubmitter;
+  private executionChannels = new Map<number, ExecutionChannel>();
+  private preflightSimulators = new Map<number, PreflightSimulator>();
+  private txTrackers = new Map<number, TransactionLifecycleTracker>();
+  private productionMonitor: ProductionMonitor | null = null;
   private mevShareClient!: MevShareClient;
   
   // OPTIMIZATION MODULES
@@ -148,14 +190,29 @@ class EnhancedMEVBot {
   private dynamicSlippageManager!: DynamicSlippageManager;
   private adaptiveProfitManager!: AdaptiveProfitManager;
   private advancedRiskManager!: AdvancedRiskManager;
+  private tradingHalt!: TradingHalt;
+  private tradingPolicy!: TradingPolicy;
   private oraclePriceValidator!: OraclePriceValidator;
+  private portfolioValuation!: PortfolioValuationService;
+  private heartbeat?: BotHeartbeat;
+  private chainlinkFeeds!: ChainlinkFeedRegistry;
+  private poolStateReader!: PoolStateReader;
+  private arbPoolSync!: PoolEventSync;
+  private optPoolSync!: PoolEventSync;
+  private arbPathfinder!: EnhancedArbitragePathfinder;
+  private optPathfinder!: EnhancedArbitragePathfinder;
+  private poolRegistry!: PoolRegistry;
+  private poolDiscovery!: PoolDiscoveryService;
+  private poolDiscoveryTimer?: NodeJS.Timeout;
+  private poolDiscoveryRunning = false;
+  private tokenRegistry!: TokenRegistry;
   
   // MARKET OPTIMIZATION PROTOCOL
   private optimizationCoordinator!: OptimizationCoordinator;
   
   // Contract instances
-  private arbBotContract!: ethers.Contract;
-  private optBotContract!: ethers.Contract;
+  private arbBotContract!: FlashArbBotBalancer;
+  private optBotContract!: FlashArbBotBalancer;
   private arbBalancerVault!: ethers.Contract;
   private optBalancerVault!: ethers.Contract;
   private arbAavePool!: ethers.Contract;
@@ -213,20 +270,16 @@ class EnhancedMEVBot {
       tokenB: this.TOKENS_ARB.USDT,
       symbolA: "WETH",
       symbolB: "USDT",
-      decimalsA: 18,
-      decimalsB: 6,
-      minAmount: parseEther("0.1").toString(),
-      maxAmount: parseEther("10").toString()
+      minAmount: "0.1",
+      maxAmount: "10"
     },
     {
       tokenA: this.TOKENS_ARB.WBTC,
       tokenB: this.TOKENS_ARB.WETH,
       symbolA: "WBTC",
       symbolB: "WETH",
-      decimalsA: 8,
-      decimalsB: 18,
-      minAmount: parseUnits("0.01", 8).toString(),
-      maxAmount: parseUnits("1", 8).toString()
+      minAmount: "0.01",
+      maxAmount: "1"
     }
   ];
   
@@ -240,6 +293,8 @@ class EnhancedMEVBot {
   private readonly GAS_LIMIT = 800000n;
   private readonly MAX_PRIORITY_FEE = parseUnits("3", "gwei");
   private readonly COOLDOWN_PERIOD = 15000; // 15 seconds
+  private readonly POOL_DISCOVERY_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly MIN_POOL_TVL_USD = parseFloat(process.env.MIN_POOL_TVL_USD || "50000");
   
   // State management
   private lastExecutionTime = 0;
@@ -248,7 +303,6 @@ class EnhancedMEVBot {
   private triangularEnabled = false;
   private simulationMode = false;
   private verboseMode = false;
-  private circuitBreakerTripped = false;
   private totalProfit = BigInt(0);
   private totalLoss = BigInt(0);
   private executionCount = 0;
@@ -263,9 +317,6 @@ class EnhancedMEVBot {
   constructor(cliConfig?: Partial<CLIConfig>) {
     this.initializeConfiguration(cliConfig);
     this.setupProviders();
-    this.setupSigners();
-    this.initializeContracts();
-    this.initializeOptimizationModules();
   }
   
   private initializeConfiguration(cliConfig?: Partial<CLIConfig>): void {
@@ -299,15 +350,29 @@ class EnhancedMEVBot {
       chainId: 10
     });
     
+    this.preflightSimulators.set(42161, new PreflightSimulator(this.arbitrumProvider));
+    this.preflightSimulators.set(10, new PreflightSimulator(this.optimismProvider));
+    
+    const confirmations = parseInt(process.env.TX_CONFIRMATIONS || "3");
+    this.txTrackers.set(42161, new TransactionLifecycleTracker(42161, this.arbitrumProvider, { confirmations }));
+    this.txTrackers.set(10, new TransactionLifecycleTracker(10, this.optimismProvider, { confirmations }));
+    
     logger.info(chalk.green("✅ Providers initialized"));
   }
   
-  private setupSigners(): void {
-    this.executorSigner = new Wallet(process.env.PRIVATE_KEY!, this.arbitrumProvider);
-    this.authSigner = new Wallet(process.env.FLASHBOTS_AUTH_KEY!, this.arbitrumProvider);
-    this.optimismExecutor = new Wallet(process.env.PRIVATE_KEY!, this.optimismProvider);
+  private async setupSigners(): Promise<void> {
+    // Keys come from the configured backend (keystore, remote signer or, in development, the environment)
+    this.signerProvider = SignerProvider.fromEnv();
+    this.executorSigner = await this.signerProvider.signer('executor', this.arbitrumProvider);
+    this.authSigner = await this.signerProvider.signer('flashbots-auth', this.arbitrumProvider);
+    this.optimismExecutor = await this.signerProvider.signer('executor', this.optimismProvider);
+    this.nonceManager = NonceManager.create([
+      { chainId: 42161, address: this.executorSigner.address },
+      { chainId: 10, address: this.optimismExecutor.address }
+    ]);
     
     logger.info(chalk.green("✅ Signers configured"), {
+      backend: this.signerProvider.kind,
       executor: this.executorSigner.address,
       auth: this.authSigner.address
     });
@@ -315,11 +380,7 @@ class EnhancedMEVBot {
   
   private initializeContracts(): void {
     // Arbitrum contracts
-    this.arbBotContract = new ethers.Contract(
-      process.env.BOT_CONTRACT_ADDRESS!,
-      [], // ABI would be loaded from compilation
-      this.executorSigner
-    );
+    this.arbBotContract = FlashArbBotFactory.connect(process.env.BOT_CONTRACT_ADDRESS!, this.executorSigner);
     
     this.arbBalancerVault = new ethers.Contract(
       process.env.BALANCER_VAULT_ADDRESS!,
@@ -358,11 +419,7 @@ class EnhancedMEVBot {
     
     // Optimism contracts (if cross-chain enabled)
     if (this.crossChainEnabled && process.env.OPT_BOT_CONTRACT_ADDRESS) {
-      this.optBotContract = new ethers.Contract(
-        process.env.OPT_BOT_CONTRACT_ADDRESS,
-        [],
-        this.optimismExecutor
-      );
+      this.optBotContract = FlashArbBotFactory.connect(process.env.OPT_BOT_CONTRACT_ADDRESS, this.optimismExecutor);
       
       this.optBalancerVault = new ethers.Contract(
         process.env.OPT_BALANCER_VAULT_ADDRESS!,
@@ -402,7 +459,7 @@ class EnhancedMEVBot {
     logger.info(chalk.green("✅ Contracts initialized"));
   }
   
-  private initializeOptimizationModules(): void {
+  private async initializeOptimizationModules(): Promise<void> {
     // Initialize gas optimization modules
     this.gasOptimizer = new GasOptimizer(
       process.env.ARB_RPC!,
@@ -420,13 +477,8 @@ class EnhancedMEVBot {
       this.gasOptimizer,
       this.l2GasManager,
       this.arbitrumProvider,
-      this.executorSigner
-    );
-    
-    this.triangularArbManager = new TriangularArbManager(
-      this.arbitrumProvider,
-      new EnhancedDEXManager(),
-      this.gasOptimizer
+      this.executorSigner,
+      process.env.BOT_CONTRACT_ADDRESS
     );
     
     // PHASE 3: Initialize advanced optimization modules
@@ -435,13 +487,117 @@ class EnhancedMEVBot {
       [10, this.optimismProvider]
     ]);
     
+    // One batcher for every scanner so a block's pool, quoter and oracle reads share Multicall3 calls
+    const multicall = new MulticallBatcher(providers);
+    
+    // Shared across scans so resolved pool addresses, token decimals and tick snapshots stay cached
+    this.poolStateReader = new PoolStateReader(providers, multicall);
+    
+    // Pathfinders keep their graphs between scans; the event syncs tell them which pools changed
+    this.arbPoolSync = new PoolEventSync(42161, this.arbitrumProvider, this.poolStateReader);
+    this.optPoolSync = new PoolEventSync(10, this.optimismProvider, this.poolStateReader);
+    this.arbPathfinder = new EnhancedArbitragePathfinder(
+      new Map([[42161, this.arbitrumProvider]]),
+      this.poolStateReader
+    );
+    this.arbPathfinder.attachEventSync(this.arbPoolSync);
+    this.optPathfinder = new EnhancedArbitragePathfinder(
+      new Map([[10, this.optimismProvider]]),
+      this.poolStateReader
+    );
+    this.optPathfinder.attachEventSync(this.optPoolSync);
+    
+    // Chainlink feeds with their heartbeats, and the sequencer uptime feeds that gate prices and trading on the rollups
+    this.chainlinkFeeds = new ChainlinkFeedRegistry(multicall, process.env.CHAINLINK_FEEDS_PATH || ChainlinkFeedRegistry.DEFAULT_PATH);
+    
+    // Factory events feed an on-disk pool registry; the pathfinders build V2/V3 edges from its pools above the TVL floor
+    this.poolRegistry = new PoolRegistry(process.env.POOL_REGISTRY_PATH || PoolRegistry.DEFAULT_PATH);
+    const startBlocks: { [chainId: number]: number } = {};
+    if (process.env.POOL_DISCOVERY_START_BLOCK_ARB) startBlocks[42161] = parseInt(process.env.POOL_DISCOVERY_START_BLOCK_ARB);
+    if (process.env.POOL_DISCOVERY_START_BLOCK_OPT) startBlocks[10] = parseInt(process.env.POOL_DISCOVERY_START_BLOCK_OPT);
+    this.poolDiscovery = new PoolDiscoveryService(providers, this.poolRegistry, multicall, {
+      startBlocks,
+      priceUsd: async (chainId, token) => (await this.chainlinkFeeds.read(chainId, token))?.price ?? null
+    });
+    this.arbPathfinder.attachPoolRegistry(this.poolRegistry, this.MIN_POOL_TVL_USD);
+    this.optPathfinder.attachPoolRegistry(this.poolRegistry, this.MIN_POOL_TVL_USD);
+    
+    // Token metadata replaces hardcoded decimals; new tokens are probed on a local fork when one is configured
+    const forks = new Map<number, ForkRpc>();
+    if (process.env.FORK_RPC_ARB) forks.set(42161, new JsonRpcProvider(process.env.FORK_RPC_ARB));
+    if (process.env.FORK_RPC_OPT) forks.set(10, new JsonRpcProvider(process.env.FORK_RPC_OPT));
+    this.tokenRegistry = new TokenRegistry(
+      multicall,
+      process.env.TOKEN_REGISTRY_PATH || TokenRegistry.DEFAULT_PATH,
+      forks.size > 0 ? new TokenBehaviorProbe(forks) : undefined
+    );
+    this.arbPathfinder.attachTokenRegistry(this.tokenRegistry);
+    this.optPathfinder.attachTokenRegistry(this.tokenRegistry);
+    
+    this.triangularArbManager = new TriangularArbManager(
+      this.arbitrumProvider,
+      new EnhancedDEXManager(),
+      this.gasOptimizer,
+      this.poolStateReader
+    );
+    
+    // Operator allow/deny rules, re-read on edit; scans drop what they reject and execution checks again
+    this.tradingPolicy = new TradingPolicy(process.env.TRADING_POLICY_PATH || TradingPolicy.DEFAULT_PATH);
+    this.arbPathfinder.attachPolicy(this.tradingPolicy);
+    this.optPathfinder.attachPolicy(this.tradingPolicy);
+    this.triangularArbManager.attachPolicy(this.tradingPolicy);
+    logger.info(chalk.cyan(`📜 Trading policy: ${this.tradingPolicy.ruleCount} rules from ${this.tradingPolicy.filePath}`));
+    
     this.dynamicSlippageManager = new DynamicSlippageManager(providers);
     this.adaptiveProfitManager = new AdaptiveProfitManager(providers);
-    this.oraclePriceValidator = new OraclePriceValidator(providers);
+    this.oraclePriceValidator = new OraclePriceValidator(providers, multicall, this.chainlinkFeeds);
+    
+    // Capital is what the executors and bot contracts hold, valued through the oracle feeds
+    this.portfolioValuation = new PortfolioValuationService(
+      multicall,
+      this.tokenRegistry,
+      (chainId, token) => this.oraclePriceValidator.getUsdPrice(token, chainId),
+      this.getPortfolioChains(),
+      parseInt(process.env.PORTFOLIO_REFRESH_MS || "60000"),
+      (chainId, token) => this.getEthPrice(chainId, token)
+    );
+    
+    // Simulated trades size against notional capital and stay out of the journal
+    let initialCapital = parseEther("10");
+    if (!this.simulationMode) {
+      const valuation = await this.portfolioValuation.refresh();
+      initialCapital = valuation.totalEth;
+      logger.info(chalk.cyan(`💰 Portfolio valued at ${formatEther(valuation.totalEth)} ETH ($${valuation.totalUsd.toFixed(2)})`));
+    }
+    this.advancedRiskManager = new AdvancedRiskManager(
+      initialCapital,
+      this.simulationMode ? undefined : new RiskJournal(process.env.RISK_JOURNAL_PATH || RiskJournal.DEFAULT_PATH)
+    );
+    this.tradingHalt = new TradingHalt(
+      this.simulationMode ? null : process.env.TRADING_HALT_PATH || TradingHalt.DEFAULT_PATH,
+      { maxConsecutiveErrors: parseInt(process.env.MAX_CONSECUTIVE_EXECUTION_ERRORS || "5") }
+    );
+    // Clearing the halt is the operator's acknowledgement of the risk breaker behind it too
+    this.tradingHalt.on('cleared', async (status: HaltStatus) => {
+      const { operator, transfer } = status.clearedBy!;
+      if (transfer) {
+        await this.advancedRiskManager.resetPeak(operator);
+      }
+      this.advancedRiskManager.acknowledgeCircuitBreaker(operator);
+    });
+    // A sequencer outage holds all trading until the grace period after recovery ends; no acknowledgement needed
+    this.chainlinkFeeds.on('sequencer', (status: SequencerStatus) => this.holdForSequencer(status));
     
-    // Initialize risk manager with starting capital
-    const initialCapital = parseEther("10"); // 10 ETH starting capital
-    this.advancedRiskManager = new AdvancedRiskManager(initialCapital);
+    // Size every opportunity against the Balancer flash loan (no fee), the configured pair ranges and the risk cap;
+    // routes through the Balancer vault borrow from Aave and pay its 0.05% premium
+    for (const pathfinder of [this.arbPathfinder, this.optPathfinder]) {
+      pathfinder.configureSizing({
+        flashLoanFeeBps: 0,
+        vaultSwapFlashLoanFeeBps: 5,
+        maxTradeSize: (tokenPair, chainId) => this.advancedRiskManager.getMaxTradeSize(tokenPair, chainId),
+        tradeBounds: (tokenIn, chainId) => this.getTradeBounds(tokenIn, chainId)
+      });
+    }
     
     // MARKET OPTIMIZATION PROTOCOL: Initialize coordination layer
     this.optimizationCoordinator = new OptimizationCoordinator(
@@ -591,6 +747,23 @@ class EnhancedMEVBot {
   
   async initialize(): Promise<void> {
     try {
+      // Unlocking the keys is asynchronous, so everything bound to a signer is built here
+      await this.setupSigners();
+      this.initializeContracts();
+      await this.initializeOptimizationModules();
+      // A breaker tripped before a restart stays tripped
+      const restored = await this.advancedRiskManager.rehydrate();
+      if (!this.simulationMode) {
+        // The journal's balance is the last run's. Nothing traded while the bot was stopped, so the difference
+        // from what is held now is taken as deposits or withdrawals and moves the peak with it
+        const valuation = this.portfolioValuation.getLatest()!;
+        if (restored) {
+          await this.advancedRiskManager.recordExternalFlow(valuation.totalEth, 'change while the bot was stopped');
+        }
+        await this.applyPortfolioValuation(valuation);
+        this.portfolioValuation.on('valuation', (valuation: PortfolioValuation) => this.applyPortfolioValuation(valuation));
+      }
+      
       // Initialize Flashbots provider
       this.flashbotsProvider = await FlashbotsBundleProvider.create(
         this.arbitrumProvider,
@@ -598,11 +771,18 @@ class EnhancedMEVBot {
         process.env.FLASHBOTS_RELAY_URL || "https://relay.flashbots.net",
         "mainnet"
       );
+      this.bundleSubmitter = new FlashbotsBundleSubmitter(this.flashbotsProvider, this.arbitrumProvider, {
+        maxPriorityFeePerGas: this.MAX_PRIORITY_FEE
+      });
+      
+      // Neither rollup has a bundle relay; each chain submits through the channel configured for it
+      this.executionChannels.set(42161, this.createExecutionChannel(42161));
+      this.executionChannels.set(10, this.createExecutionChannel(10));
       
       // Initialize MEV-Share client (use mainnet for MEV-Share)
       try {
         const mainnetProvider = new JsonRpcProvider(process.env.MAINNET_RPC || "https://eth-mainnet.g.alchemy.com/v2/demo");
-        const mainnetSigner = new Wallet(process.env.FLASHBOTS_AUTH_KEY!, mainnetProvider);
+        const mainnetSigner = await this.signerProvider.signer('flashbots-auth', mainnetProvider);
         const mainnetNetwork = await mainnetProvider.getNetwork();
         this.mevShareClient = MevShareClient.fromNetwork(
           mainnetSigner,
@@ -612,6 +792,19 @@ class EnhancedMEVBot {
         logger.warn("MEV-Share client initialization failed, continuing without MEV-Share", error);
       }
       
+      // Nonces come from the manager only once it agrees with each chain's pending count
+      await this.reconcileNonces(42161);
+      if (this.crossChainEnabled) await this.reconcileNonces(10);
+      
+      // Every sent transaction is followed to finality and settles into the performance records
+      if (process.env.PERFORMANCE_MONITORING === "true") {
+        this.productionMonitor = new ProductionMonitor();
+      }
+      for (const [chainId, tracker] of this.txTrackers) {
+        tracker.on('settled', (record: LifecycleRecord) => this.recordSettledTrade(record, chainId));
+        tracker.start(parseInt(process.env.TX_POLL_INTERVAL_MS || "2000"));
+      }
+      
       // Verify balances
       const arbBalance = await this.arbitrumProvider.getBalance(this.executorSigner.address);
       const optBalance = this.crossChainEnabled ? 
@@ -628,7 +821,7 @@ class EnhancedMEVBot {
       logger.info(chalk.green("🚀 Enhanced MEV Bot initialized"), {
         arbitrumBalance: formatEther(arbBalance),
         optimismBalance: formatEther(optBalance),
-        flashbotsEnabled: true,
+        executionChannels: Object.fromEntries([...this.executionChannels].map(([chainId, channel]) => [chainId, channel.kind])),
         mevShareEnabled: !!this.mevShareClient,
         optimizationEnabled: this.optimizationCoordinator?.getOptimizationStatus().isRunning || false
       });
@@ -650,15 +843,28 @@ class EnhancedMEVBot {
         return false;
       }
       
-      if (this.circuitBreakerTripped) {
-        logger.error(chalk.red("🚨 Circuit breaker tripped - execution disabled"));
+      if (this.tradingHalt.isHalted()) {
+        logger.error(chalk.red(`🚨 Trading halted - execution disabled: ${this.tradingHalt.summary()}`), this.tradingHalt.status());
+        return false;
+      }
+      
+      // The rules may have been edited since the scan
+      const policyDecision = this.tradingPolicy.check('execution', opportunity.id, {
+        chainId: opportunity.chainId,
+        tokens: opportunity.path,
+        pools: opportunity.pools,
+        dexes: opportunity.dexes,
+        notionalWei: BigInt(opportunity.amountInNative)
+      });
+      if (!policyDecision.allowed) {
+        logger.warn(chalk.red(`❌ Trade rejected by trading policy: ${policyDecision.reason}`));
         return false;
       }
       
       // PHASE 3: Advanced Risk Assessment
       const riskAssessment = await this.advancedRiskManager.assessTradeRisk(
         [opportunity.tokenA, opportunity.tokenB],
-        BigInt(opportunity.amountIn),
+        BigInt(opportunity.amountInNative),
         BigInt(opportunity.expectedProfit),
         BigInt(opportunity.gasCost),
         opportunity.isTriangular ? 'triangular' : 'dual_dex',
@@ -711,7 +917,7 @@ class EnhancedMEVBot {
       // PHASE 3: Adaptive Profit Threshold
       const profitThreshold = await this.adaptiveProfitManager.calculateOptimalThreshold(
         [opportunity.tokenA, opportunity.tokenB],
-        BigInt(opportunity.amountIn),
+        BigInt(opportunity.amountInNative),
         BigInt(opportunity.gasCost),
         opportunity.chainId
       );
@@ -784,6 +990,7 @@ class EnhancedMEVBot {
           chainId: opportunity.chainId,
           tradeSize: BigInt(opportunity.amountIn)
         });
+        await this.checkCircuitBreaker();
         
         return true;
       }
@@ -792,19 +999,38 @@ class EnhancedMEVBot {
       const bundle = await this.createMEVBundle(opportunity);
       if (!bundle) return false;
       
-      // Submit bundle to Flashbots
-      const success = await this.submitMEVBundle(bundle);
+      // Nothing is submitted without a passing pre-flight of the exact transaction
+      if (!(await this.runPreflight(bundle, opportunity))) {
+        this.releaseNonce(bundle, opportunity.chainId);
+        return false;
+      }
+      
+      // Submit through the chain's execution channel
+      const outcome = await this.submitMEVBundle(bundle, opportunity.chainId);
+      await this.settleNonce(bundle, outcome, opportunity.chainId);
+      this.trackSubmission(bundle, outcome, opportunity);
+      const success = outcome.included;
+      const failure = success ? undefined : await this.classifyFailure(outcome, opportunity.chainId);
       
-      // Update risk manager with actual results
+      // Update risk manager with actual results; a bundle that never lands costs no gas
       await this.advancedRiskManager.updateMetricsAndCheckLimits({
         profit: success ? BigInt(opportunity.expectedProfit) : 0n,
-        gasCost: BigInt(opportunity.gasCost),
+        gasCost: outcome.gasCost,
         success,
+        failureCategory: failure?.category,
         strategy: opportunity.isTriangular ? 'triangular' : 'dual_dex',
         tokenPair: `${opportunity.tokenA}-${opportunity.tokenB}`,
         chainId: opportunity.chainId,
         tradeSize: BigInt(opportunity.amountIn)
       });
+      // Only a landed bundle ends an error streak; reverts and relay failures extend it, while lost races
+      // and nonce clashes say nothing about the executor either way
+      if (success) {
+        this.tradingHalt.recordExecutionSuccess();
+      } else if (outcome.status === 'REVERTED' || outcome.status === 'RELAY_ERROR') {
+        this.tradingHalt.recordExecutionError(new Error(`bundle ${outcome.status} (${failure!.category}): ${failure!.reason}`));
+      }
+      await this.checkCircuitBreaker();
       
       if (success) {
         this.lastExecutionTime = now;
@@ -820,11 +1046,21 @@ class EnhancedMEVBot {
         return true;
       }
       
+      if (failure) {
+        const fallback = await this.mevBundleOptimizer.handleBundleFailure(bundle.transactions, failure, bundle.targetBlockNumber);
+        logger.warn(chalk.yellow(`🔁 Bundle failed (${failure.category}), fallback: ${fallback.fallbackStrategy}`), {
+          id: opportunity.id,
+          reason: failure.reason,
+          reasoning: fallback.reasoning
+        });
+      }
+      
       return false;
       
     } catch (error) {
       logger.error(chalk.red("❌ Failed to execute arbitrage"), error);
       this.totalLoss += BigInt(opportunity.gasCost);
+      this.tradingHalt.recordExecutionError(error);
       await this.checkCircuitBreaker();
       return false;
     }
@@ -841,43 +1077,35 @@ class EnhancedMEVBot {
           id: opportunity.id,
           tokenA: opportunity.tokenA,
           tokenB: opportunity.tokenB,
-          amountIn: formatEther(opportunity.amountIn),
+          amountIn: formatUnits(opportunity.amountIn, opportunity.tokenDecimals),
           expectedProfit: formatEther(opportunity.expectedProfit)
         });
       }
       
       // Use callStatic to simulate contract calls without execution
-      if (opportunity.isTriangular) {
-        const result = await botContract.executeTriangularArb.staticCall(
-          opportunity.tokenA,
-          opportunity.amountIn,
-          opportunity.path,
-          opportunity.expectedProfit
-        );
+      const call = this.buildArbitrageCall(opportunity);
+      if (call.method === 'executeRoute') {
+        await botContract.executeRoute.staticCall(...call.args);
         
         if (this.verboseMode) {
-          logger.debug(chalk.green("✅ Triangular arbitrage static call successful"), {
-            result: result.toString()
-          });
+          logger.debug(chalk.green("✅ Route arbitrage static call successful"), { hops: call.args[2].length });
+        }
+      } else if (call.method === 'executeTriangularArb') {
+        await botContract.executeTriangularArb.staticCall(...call.args);
+        
+        if (this.verboseMode) {
+          logger.debug(chalk.green("✅ Triangular arbitrage static call successful"), { path: call.args[2] });
         }
       } else {
-        const result = await botContract.executeArb.staticCall(
-          opportunity.tokenA,
-          opportunity.amountIn,
-          opportunity.path,
-          opportunity.sushiFirst,
-          opportunity.expectedProfit
-        );
+        await botContract.executeArb.staticCall(...call.args);
         
         if (this.verboseMode) {
-          logger.debug(chalk.green("✅ Dual router arbitrage static call successful"), {
-            result: result.toString()
-          });
+          logger.debug(chalk.green("✅ Dual router arbitrage static call successful"), { path: call.args[2] });
         }
       }
       
-      // Simulate Flashbots bundle creation and simulation
-      if (this.verboseMode) {
+      // Simulate Flashbots bundle creation and simulation where the chain actually submits to a relay
+      if (this.verboseMode && this.executionChannels.get(opportunity.chainId)?.kind === 'flashbots') {
         const bundle = await this.createMEVBundle(opportunity);
         if (bundle) {
           logger.debug(chalk.blue("📦 MEV Bundle created for simulation"), {
@@ -885,12 +1113,17 @@ class EnhancedMEVBot {
             gasLimit: opportunity.gasEstimate
           });
           
-          // Simulate bundle without submission
-          const signedBundle = await this.flashbotsProvider.signBundle(bundle.transactions);
-          const simulation = await this.flashbotsProvider.simulate(
-            signedBundle,
-            bundle.targetBlockNumber
-          );
+          // Simulate bundle without submission; the bundle's nonce goes back even when signing or simulation throws
+          let simulation;
+          try {
+            const signedBundle = await this.flashbotsProvider.signBundle(bundle.transactions);
+            simulation = await this.flashbotsProvider.simulate(
+              signedBundle,
+              bundle.targetBlockNumber
+            );
+          } finally {
+            this.releaseNonce(bundle, opportunity.chainId);
+          }
           
           if ('error' in simulation) {
             logger.debug(chalk.yellow("⚠️ Bundle simulation warning"), simulation.error);
@@ -920,6 +1153,48 @@ class EnhancedMEVBot {
     }
   }
   
+  /**
+   * Simulates the bundle's arbitrage transaction against the pending block and refuses it when it
+   * reverts or realizes less than the 95% of expectedProfit the contract itself requires
+   */
+  private async runPreflight(bundle: MEVBundle, opportunity: ArbitrageOpportunity): Promise<boolean> {
+    const simulator = this.preflightSimulators.get(opportunity.chainId);
+    if (!simulator) {
+      logger.warn(chalk.red(`❌ No pre-flight simulator for chain ${opportunity.chainId}`));
+      return false;
+    }
+    
+    const { signer, transaction } = bundle.transactions[bundle.transactions.length - 1];
+    const result = await simulator.simulate({
+      from: await signer.getAddress(),
+      to: String(transaction.to),
+      data: String(transaction.data),
+      gasLimit: BigInt(transaction.gasLimit!),
+      maxFeePerGas: BigInt(transaction.maxFeePerGas!)
+    });
+    
+    if (!result.ok) {
+      logger.warn(chalk.red("❌ Pre-flight simulation rejected trade"), {
+        id: opportunity.id,
+        method: result.method,
+        reason: result.reason,
+        simulatedProfit: result.profit.toString(),
+        minProfit: result.minProfit.toString()
+      });
+      return false;
+    }
+    
+    if (this.verboseMode) {
+      logger.debug(chalk.green("✅ Pre-flight simulation passed"), {
+        id: opportunity.id,
+        simulatedProfit: result.profit.toString(),
+        expectedProfit: result.expectedProfit.toString(),
+        gasUsed: result.gasUsed.toString()
+      });
+    }
+    return true;
+  }
+  
   private updateSimulationStats(opportunity: ArbitrageOpportunity): void {
     this.simulationStats.opportunitiesDetected++;
     this.simulationStats.potentialProfit += BigInt(opportunity.netProfit);
@@ -948,21 +1223,19 @@ class EnhancedMEVBot {
     
     try {
       // Scan Arbitrum opportunities
-      const arbPathfinder = new EnhancedArbitragePathfinder(new Map([[42161, this.arbitrumProvider]]));
-      const arbOpportunities = await arbPathfinder.findArbitrageOpportunities(42161, 4, 0.005);
+      const arbOpportunities = await this.arbPathfinder.findArbitrageOpportunities(42161, 4, 0.005);
       
       for (const opportunity of arbOpportunities) {
-        const arbOpp = this.convertToLegacyFormat(opportunity, 42161);
+        const arbOpp = await this.convertToLegacyFormat(opportunity, 42161);
         if (arbOpp) opportunities.push(arbOpp);
       }
       
       // Scan Optimism opportunities if cross-chain enabled
       if (this.crossChainEnabled) {
-        const optPathfinder = new EnhancedArbitragePathfinder(new Map([[10, this.optimismProvider]]));
-        const optOpportunities = await optPathfinder.findArbitrageOpportunities(10, 4, 0.005);
+        const optOpportunities = await this.optPathfinder.findArbitrageOpportunities(10, 4, 0.005);
         
         for (const opportunity of optOpportunities) {
-          const optOpp = this.convertToLegacyFormat(opportunity, 10);
+          const optOpp = await this.convertToLegacyFormat(opportunity, 10);
           if (optOpp) opportunities.push(optOpp);
         }
       }
@@ -1037,37 +1310,45 @@ class EnhancedMEVBot {
       return [];
     }
   }
+  /**
+   * Contract arguments for an opportunity; throws when the route is not one the contract can execute
+   */
+  private buildArbitrageCall(opportunity: ArbitrageOpportunity): ArbitrageCall {
+    return FlashArbCalldataBuilder.build({
+      asset: opportunity.path[0], // The flash loan is taken in the route's start token, which amountIn is denominated in
+      amountIn: opportunity.amountIn,
+      path: opportunity.path,
+      minProfit: opportunity.minProfit,
+      sushiFirst: opportunity.sushiFirst,
+      route: opportunity.route
+    });
+  }
+  
   private async createMEVBundle(opportunity: ArbitrageOpportunity): Promise<MEVBundle | null> {
     try {
       const provider = opportunity.chainId === 42161 ? this.arbitrumProvider : this.optimismProvider;
       const botContract = opportunity.chainId === 42161 ? this.arbBotContract : this.optBotContract;
       const signer = opportunity.chainId === 42161 ? this.executorSigner : this.optimismExecutor;
       
-      let tx;
-      
-      if (opportunity.isTriangular) {
-        tx = await botContract.executeTriangularArb.populateTransaction(
-          opportunity.tokenA,
-          opportunity.amountIn,
-          opportunity.path,
-          opportunity.expectedProfit
-        );
-      } else {
-        tx = await botContract.executeArb.populateTransaction(
-          opportunity.tokenA,
-          opportunity.amountIn,
-          opportunity.path,
-          opportunity.sushiFirst,
-          opportunity.expectedProfit
-        );
+      // The contract assumes exact transfers; never build calldata through a token that breaks that
+      const unsupported = await this.tokenRegistry.findUnsupported(opportunity.chainId, opportunity.path);
+      if (unsupported.length > 0) {
+        logger.warn(chalk.red("❌ Refusing bundle through unsupported tokens"), { id: opportunity.id, tokens: unsupported });
+        return null;
       }
       
+      const call = this.buildArbitrageCall(opportunity);
+      const tx = call.method === 'executeRoute'
+        ? await botContract.executeRoute.populateTransaction(...call.args)
+        : call.method === 'executeTriangularArb'
+          ? await botContract.executeTriangularArb.populateTransaction(...call.args)
+          : await botContract.executeArb.populateTransaction(...call.args);
+      
       // Set gas parameters with dynamic pricing (high urgency for MEV)
       const gasSettings = await this.estimateGasSettings(opportunity.chainId, 'high');
       tx.gasLimit = gasSettings.gasLimit;
       tx.maxFeePerGas = gasSettings.maxFeePerGas;
       tx.maxPriorityFeePerGas = gasSettings.maxPriorityFeePerGas;
-      tx.nonce = await provider.getTransactionCount(signer.address);
       tx.chainId = BigInt(opportunity.chainId);
       
       if (this.verboseMode) {
@@ -1077,6 +1358,9 @@ class EnhancedMEVBot {
       const currentBlock = await provider.getBlockNumber();
       const targetBlockNumber = currentBlock + 1;
       
+      // Allocated last: every bundle that gets this far must release or settle its nonce
+      tx.nonce = this.nonceManager.allocate(opportunity.chainId, signer.address);
+      
       const bundleTransaction: FlashbotsBundleTransaction = {
         signer: signer,
         transaction: tx
@@ -1094,7 +1378,232 @@ class EnhancedMEVBot {
       return null;
     }
   }
-  private async submitMEVBundle(bundle: MEVBundle): Promise<boolean> { return false; }
+  /**
+   * Syncs the executor's nonce window with the chain and cancels gaps left by dropped transactions
+   */
+  private async reconcileNonces(chainId: number): Promise<void> {
+    const signer = chainId === 42161 ? this.executorSigner : this.optimismExecutor;
+    const provider = chainId === 42161 ? this.arbitrumProvider : this.optimismProvider;
+    try {
+      const snapshot = await this.nonceManager.reconcile(chainId, signer.address, provider);
+      if (snapshot.gaps.length > 0) {
+        const gasSettings = await this.estimateGasSettings(chainId, 'high');
+        const hashes = await this.nonceManager.repairGaps(signer, gasSettings);
+        logger.warn(chalk.yellow(`🕳️ Cancelled ${hashes.length} nonce gap(s) on chain ${chainId}`), { gaps: snapshot.gaps, hashes });
+      }
+      if (this.verboseMode) {
+        logger.debug(chalk.cyan(`🔢 Nonces reconciled on chain ${chainId}`), snapshot);
+      }
+    } catch (error) {
+      logger.error(chalk.red(`Error reconciling nonces on chain ${chainId}`), error);
+    }
+  }
+  
+  private releaseNonce(bundle: MEVBundle, chainId: number): void {
+    const signer = chainId === 42161 ? this.executorSigner : this.optimismExecutor;
+    const { transaction } = bundle.transactions[bundle.transactions.length - 1];
+    this.nonceManager.release(chainId, signer.address, Number(transaction.nonce));
+  }
+  
+  /**
+   * Landed or reverted transactions consume their nonce; a submission that never reached the chain
+   * gives it back; anything else may or may not be in a mempool, so the chain decides
+   */
+  private async settleNonce(bundle: MEVBundle, outcome: BundleOutcome, chainId: number): Promise<void> {
+    const signer = chainId === 42161 ? this.executorSigner : this.optimismExecutor;
+    const nonce = Number(bundle.transactions[bundle.transactions.length - 1].transaction.nonce);
+    if (outcome.included || outcome.status === 'REVERTED') {
+      this.nonceManager.markConfirmed(chainId, signer.address, nonce);
+    } else if (outcome.submissions === 0) {
+      this.nonceManager.release(chainId, signer.address, nonce);
+    } else {
+      this.nonceManager.markSent(chainId, signer.address, nonce, outcome.txHash);
+      await this.reconcileNonces(chainId);
+    }
+  }
+  
+  /**
+   * Hands the arbitrage transaction to the chain's lifecycle tracker once it has a hash
+   */
+  private trackSubmission(bundle: MEVBundle, outcome: BundleOutcome, opportunity: ArbitrageOpportunity): void {
+    const tracker = this.txTrackers.get(opportunity.chainId);
+    if (!tracker || !outcome.txHash) return;
+    
+    const signer = opportunity.chainId === 42161 ? this.executorSigner : this.optimismExecutor;
+    const { transaction } = bundle.transactions[bundle.transactions.length - 1];
+    tracker.track({
+      hash: outcome.txHash,
+      from: signer.address,
+      nonce: Number(transaction.nonce),
+      to: String(transaction.to),
+      data: String(transaction.data),
+      gasLimit: BigInt(transaction.gasLimit!),
+      maxFeePerGas: BigInt(transaction.maxFeePerGas!),
+      maxPriorityFeePerGas: BigInt(transaction.maxPriorityFeePerGas!)
+    }, {
+      id: opportunity.id,
+      expectedProfit: BigInt(opportunity.expectedProfit),
+      bundleAttempted: this.executionChannels.get(opportunity.chainId)?.kind === 'flashbots',
+      parameters: { amountIn: opportunity.amountIn, path: opportunity.path, isTriangular: opportunity.isTriangular },
+      marketConditions: { chainId: opportunity.chainId, targetBlock: bundle.targetBlockNumber }
+    });
+  }
+  
+  private async recordSettledTrade(record: LifecycleRecord, chainId: number): Promise<void> {
+    try {
+      // Execution events report profit in each trade's borrowed asset; expectedProfit is already native wei
+      const realizedProfit = await this.realizedProfitNative(record, chainId);
+      logger.info(chalk.cyan(`🧾 Transaction settled on chain ${chainId}: ${record.resolution}`), {
+        id: record.id,
+        hash: record.hash,
+        block: record.blockNumber,
+        realizedProfit: realizedProfit === null ? 'unpriced' : formatEther(realizedProfit),
+        expectedProfit: formatEther(record.expectedProfit),
+        gasCost: formatEther(record.gasCost),
+        l1DataFee: formatEther(record.l1DataFee)
+      });
+      
+      if (realizedProfit === null) {
+        logger.warn(chalk.yellow(`Settled trade ${record.id} left out of performance metrics: no native price for its borrowed asset`));
+      } else {
+        const settled = { ...record, profit: realizedProfit };
+        this.optimizationCoordinator?.recordTrade(settled);
+        await this.productionMonitor?.updateTradeMetrics(settled);
+      }
+      
+      // The node forgot it, so its nonce is free again
+      if (record.resolution === 'DROPPED') {
+        await this.reconcileNonces(chainId);
+      }
+    } catch (error) {
+      logger.error(chalk.red(`Failed to record settled transaction ${record.id} on chain ${chainId}`), error);
+    }
+  }
+  
+  /**
+   * Realized profit of a settled transaction in native wei, converted per execution event at the pathfinder's
+   * rate; null when a borrowed asset has no pool against the wrapped native token
+   */
+  private async realizedProfitNative(record: LifecycleRecord, chainId: number): Promise<bigint | null> {
+    if (record.profit === 0n) return 0n;
+    
+    const pathfinder = chainId === 42161 ? this.arbPathfinder : this.optPathfinder;
+    let total = 0n;
+    for (const event of record.events) {
+      let asset: string;
+      if (event.name === 'ArbitrageExecuted' || event.name === 'RouteArbitrageExecuted') {
+        asset = event.asset;
+      } else if (event.name === 'TriangularArbitrageExecuted') {
+        asset = event.tokenA;
+      } else {
+        continue;
+      }
+      const profit = await pathfinder.convertToNative(chainId, asset, event.profit);
+      if (profit === null) return null;
+      total += profit;
+    }
+    return total;
+  }
+  
+  /**
+   * Failure category of a submission that did not land; receipts carry no revert reason, so reverted transactions are traced
+   */
+  private async classifyFailure(outcome: BundleOutcome, chainId: number): Promise<ClassifiedFailure> {
+    const provider = chainId === 42161 ? this.arbitrumProvider : this.optimismProvider;
+    const revert = outcome.status === 'REVERTED' && outcome.txHash
+      ? await RevertDecoder.decodeTransaction(provider, outcome.txHash)
+      : undefined;
+    return FailureTaxonomy.fromOutcome(outcome, revert);
+  }
+  
+  private async submitMEVBundle(bundle: MEVBundle, chainId: number): Promise<BundleOutcome> {
+    try {
+      const channel = this.executionChannels.get(chainId);
+      if (!channel) {
+        throw new Error(`No execution channel for chain ${chainId}`);
+      }
+      const outcome = await channel.submit(bundle.transactions);
+      bundle.bundleHash = outcome.bundleHash;
+      bundle.gasUsed = outcome.gasUsed.toString();
+      
+      if (outcome.included) {
+        logger.info(chalk.green(`📦 Bundle included via ${channel.kind}`), {
+          block: outcome.blockNumber,
+          txHash: outcome.txHash,
+          gasUsed: outcome.gasUsed.toString(),
+          gasCost: formatEther(outcome.gasCost),
+          rounds: outcome.rounds
+        });
+      } else {
+        logger.warn(chalk.yellow(`📦 Bundle not included via ${channel.kind}: ${outcome.status}`), {
+          submissions: outcome.submissions,
+          rounds: outcome.rounds,
+          error: outcome.error
+        });
+      }
+      return outcome;
+    } catch (error) {
+      logger.error(chalk.red("Error submitting MEV bundle"), error);
+      return {
+        status: 'RELAY_ERROR',
+        included: false,
+        rounds: 0,
+        submissions: 0,
+        gasUsed: 0n,
+        gasCost: 0n,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+  
+  /**
+   * Pick the submission path for a chain from EXECUTION_CHANNEL_ARB / EXECUTION_CHANNEL_OPT.
+   * Anything misconfigured falls back to plain sequencer submission.
+   */
+  private createExecutionChannel(chainId: number): ExecutionChannel {
+    const suffix = chainId === 42161 ? "ARB" : "OPT";
+    const provider = chainId === 42161 ? this.arbitrumProvider : this.optimismProvider;
+    const kind = (process.env[`EXECUTION_CHANNEL_${suffix}`] || "sequencer") as ExecutionChannelKind;
+    const endpoint = (url: string) => new JsonRpcProvider(url, chainId, { staticNetwork: true });
+    
+    // Arbitrum exposes its sequencer directly; OP Stack RPCs forward raw transactions to theirs
+    const sequencer = chainId === 42161
+      ? endpoint(process.env.ARB_SEQUENCER_RPC || "https://arb1-sequencer.arbitrum.io/rpc")
+      : provider;
+    
+    switch (kind) {
+      case 'flashbots':
+        return this.bundleSubmitter;
+      case 'private-rpc': {
+        const url = process.env[`PRIVATE_RPC_${suffix}`];
+        if (!url) {
+          logger.warn(chalk.yellow(`PRIVATE_RPC_${suffix} not set, submitting to the sequencer`));
+          break;
+        }
+        return new PrivateRpcChannel(endpoint(url), provider, {
+          method: (process.env.PRIVATE_RPC_METHOD || "eth_sendPrivateTransaction") as PrivateRpcOptions['method']
+        });
+      }
+      case 'timeboost': {
+        const auctionContract = process.env.TIMEBOOST_AUCTION_CONTRACT;
+        if (chainId !== 42161 || !auctionContract) {
+          logger.warn(chalk.yellow(`Timeboost unavailable on chain ${chainId}, submitting to the sequencer`));
+          break;
+        }
+        const auctioneer = process.env.TIMEBOOST_AUCTIONEER_RPC ? endpoint(process.env.TIMEBOOST_AUCTIONEER_RPC) : null;
+        return new TimeboostChannel(sequencer, auctioneer, provider, this.executorSigner, {
+          chainId,
+          auctionContract,
+          bidAmount: parseEther(process.env.TIMEBOOST_BID_ETH || "0")
+        });
+      }
+      case 'sequencer':
+        break;
+      default:
+        logger.warn(chalk.yellow(`Unknown execution channel ${kind} for chain ${chainId}, submitting to the sequencer`));
+    }
+    return new SequencerChannel(sequencer, provider);
+  }
   
   private async estimateGasSettings(chainId: number, urgency: 'low' | 'medium' | 'high' = 'high'): Promise<GasSettings> {
     try {
@@ -1121,17 +1630,61 @@ class EnhancedMEVBot {
       return await DynamicGasPricer.calculateOptimalGas(provider, chainId, urgency);
     }
   }
-  private convertToLegacyFormat(opportunity: any, chainId: number): ArbitrageOpportunity | null {
+  /**
+   * Input range configured in TRADING_PAIRS for a start token; the pairs are Arbitrum addresses
+   */
+  private getTradeBounds(tokenIn: string, chainId: number): TradeSizeBounds | undefined {
+    if (chainId !== 42161) return undefined;
+    const pair = this.TRADING_PAIRS.find(p => p.tokenA.toLowerCase() === tokenIn.toLowerCase());
+    const token = this.tokenRegistry.get(chainId, tokenIn);
+    if (!pair || !token) return undefined;
+    return {
+      minAmountIn: parseUnits(pair.minAmount, token.decimals),
+      maxAmountIn: parseUnits(pair.maxAmount, token.decimals)
+    };
+  }
+  
+  private async convertToLegacyFormat(opportunity: any, chainId: number): Promise<ArbitrageOpportunity | null> {
     try {
+      const tokenIn: string = opportunity.bestPath.path[0];
+      const token = await this.tokenRegistry.resolve(chainId, tokenIn);
+      if (!token) return null;
+      
+      // Sizing is in the start token's own units; risk and profit checks compare native wei
+      const pathfinder = chainId === 42161 ? this.arbPathfinder : this.optPathfinder;
+      const [amountInNative, expectedProfit, netProfit, flashLoanFee] = await Promise.all(
+        [opportunity.amountIn, opportunity.sizing.grossProfit, opportunity.netProfit, opportunity.sizing.flashLoanFee]
+          .map((amount: bigint) => pathfinder.convertToNative(chainId, tokenIn, amount))
+      );
+      if (amountInNative === null || expectedProfit === null || netProfit === null || flashLoanFee === null) {
+        return null;
+      }
+      
+      // Execute the venues, pools and fee tiers that were priced rather than the contract's default routers
+      const slippage = 0.01;
+      const legs = await pathfinder.simulateRoute(opportunity.bestPath, opportunity.amountIn);
+      let route: RouteHopStruct[] | undefined;
+      try {
+        route = legs ? RouteEncoder.encode(legs, Math.round(slippage * 10000)) : undefined;
+      } catch (error) {
+        logger.debug(chalk.gray(`Route for ${opportunity.id} is not executable hop by hop: ${(error as Error).message}`));
+      }
+      
       return {
         id: opportunity.id,
         tokenA: opportunity.tokenPair.tokenA.address,
         tokenB: opportunity.tokenPair.tokenB.address,
         amountIn: opportunity.amountIn.toString(),
-        expectedProfit: opportunity.expectedAmountOut.toString(),
-        netProfit: opportunity.netProfit.toString(),
+        amountInNative: amountInNative.toString(),
+        tokenDecimals: token.decimals,
+        minProfit: opportunity.sizing.grossProfit.toString(),
+        expectedProfit: expectedProfit.toString(),
+        netProfit: netProfit.toString(),
         sushiFirst: Math.random() > 0.5,
         path: opportunity.bestPath.path,
+        route,
+        pools: opportunity.bestPath.edges.map((edge: ArbitrageEdge) => edge.pool),
+        dexes: opportunity.bestPath.routers.map((router: DEXRouter) => router.name),
         gasEstimate: opportunity.bestPath.totalGasCost.toString(),
         gasCost: formatEther(opportunity.bestPath.totalGasCost * BigInt(50000000)), // 0.05 gwei
         timestamp: Date.now(),
@@ -1139,16 +1692,43 @@ class EnhancedMEVBot {
         chainId,
         priority: Math.floor(opportunity.confidence * 10),
         spread: opportunity.bestPath.profitMargin,
-        slippage: 0.01,
+        slippage,
         flashLoanProvider: 'BALANCER' as const,
-        flashLoanFee: "0"
+        flashLoanFee: flashLoanFee.toString()
       };
     } catch (error) {
       return null;
     }
   }
   
-  private async checkCircuitBreaker(): Promise<void> {}
+  /**
+   * Fold the risk manager's breakers and any operator change to the halt file into the trading halt
+   */
+  private async checkCircuitBreaker(): Promise<void> {
+    try {
+      this.tradingHalt.refresh();
+      this.tradingHalt.syncRiskBreaker(this.advancedRiskManager.getCircuitBreakerStatus());
+    } catch (error) {
+      logger.error(chalk.red("❌ Failed to check the trading halt"), error);
+    }
+  }
+  
+  private holdForSequencer(status: SequencerStatus): void {
+    if (status.gated) {
+      this.tradingHalt.hold(`sequencer:${status.chainId}`, [status.reason || `sequencer on chain ${status.chainId} gated`]);
+    } else {
+      this.tradingHalt.release(`sequencer:${status.chainId}`);
+    }
+  }
+  
+  haltTrading(reason: string, operator: string): void {
+    this.tradingHalt.trip('operator', [`${reason} (${operator})`]);
+  }
+  
+  acknowledgeHalt(acknowledgement: HaltAcknowledgement): void {
+    this.tradingHalt.clear(acknowledgement);
+  }
+  
   async monitorAndExecute(): Promise<void> {
     if (this.isRunning) return;
     
@@ -1201,7 +1781,10 @@ class EnhancedMEVBot {
         try {
           const combinedOpportunities = [...opportunities, ...triangularOpportunities];
           
-          if (combinedOpportunities.length > 0) {
+          // Scanning goes on while halted, but nothing is handed on towards execution
+          if (this.tradingHalt.isHalted()) {
+            logger.warn(chalk.red(`🛑 Trading halted - not bundling: ${this.tradingHalt.summary()}`));
+          } else if (combinedOpportunities.length > 0) {
             const targetBlock = await this.arbitrumProvider.getBlockNumber() + 2;
             const bundleResult = await this.mevBundleOptimizer.createOptimalBundle(
               combinedOpportunities,
@@ -1220,8 +1803,11 @@ class EnhancedMEVBot {
               }
             }
             
-            // Simulate bundle if profitable
-            if (bundleResult.profitAfterGas > parseUnits("0.005", 18)) { // > 0.005 ETH profit
+            // Simulate bundle if profitable; relay simulation only exists for a Flashbots channel
+            if (
+              bundleResult.profitAfterGas > parseUnits("0.005", 18) && // > 0.005 ETH profit
+              this.executionChannels.get(42161)?.kind === 'flashbots'
+            ) {
               const simulation = await this.mevBundleOptimizer.simulateBundle(
                 bundleResult.bundle,
                 targetBlock
@@ -1273,15 +1859,58 @@ class EnhancedMEVBot {
       
       logger.info(chalk.cyan(`🔥 Volatile pairs: ${volatilePairs}`));
       logger.info(chalk.cyan(`🏪 DEX coverage: ${Object.keys(arbStats.routerTypes).join(', ')}`));
-      logger.info(chalk.cyan(`🧠 Pathfinding: Enhanced Bellman-Ford + Line Graph`));
+      logger.info(chalk.cyan(`🧠 Pathfinding: Bellman-Ford negative-cycle search`));
     }
     
+    // Follow pool events from here on instead of re-reading every pool each scan
+    this.tradingHalt.watch();
+    this.tradingPolicy.watch();
+    // An outage already in progress holds trading before the first scan; the poll reports changes after that
+    const sequencers = await Promise.all(this.chainlinkFeeds.gatedChains.map(chainId => this.chainlinkFeeds.sequencerStatus(chainId)));
+    sequencers.filter(status => status.gated).forEach(status => this.holdForSequencer(status));
+    this.chainlinkFeeds.watchSequencers();
+    if (!this.simulationMode) {
+      this.portfolioValuation.start();
+      // The kill-switch watchdog pauses the contract if these stop
+      this.heartbeat = new BotHeartbeat(process.env.BOT_HEARTBEAT_PATH || BotHeartbeat.DEFAULT_PATH);
+      this.heartbeat.start();
+    }
+    this.arbPoolSync.start();
+    if (this.crossChainEnabled) {
+      this.optPoolSync.start();
+    }
+    
+    // Scans use whatever the registry already holds while discovery catches up in the background
+    await this.poolRegistry.load();
+    logger.info(chalk.cyan(`🗂️  Pool registry loaded: ${this.poolRegistry.size} pools`));
+    await this.tokenRegistry.load();
+    await Promise.all(this.TRADING_PAIRS.map(pair => this.tokenRegistry.resolve(42161, pair.tokenA)));
+    logger.info(chalk.cyan(`🪙 Token registry loaded: ${this.tokenRegistry.size} tokens`));
+    this.refreshPoolRegistry();
+    this.poolDiscoveryTimer = setInterval(() => this.refreshPoolRegistry(), this.POOL_DISCOVERY_INTERVAL);
+    
     logger.info(chalk.green("✅ Enhanced MEV bot started successfully"));
   }
   
   async stop(): Promise<void> {
     logger.info(chalk.yellow("🛑 Stopping Enhanced MEV Bot..."));
     
+    this.arbPoolSync?.stop();
+    this.optPoolSync?.stop();
+    this.txTrackers.forEach(tracker => tracker.stop());
+    this.tradingHalt?.unwatch();
+    this.tradingPolicy?.unwatch();
+    this.chainlinkFeeds?.unwatchSequencers();
+    this.portfolioValuation?.stop();
+    this.heartbeat?.stop();
+    
+    if (this.poolDiscoveryTimer) {
+      clearInterval(this.poolDiscoveryTimer);
+      this.poolDiscoveryTimer = undefined;
+    }
+    await this.poolRegistry?.save().catch(error => logger.warn(chalk.yellow("⚠️ Failed to save pool registry"), error));
+    await this.tokenRegistry?.save().catch(error => logger.warn(chalk.yellow("⚠️ Failed to save token registry"), error));
+    
     // Stop Market Optimization Protocol
     try {
       await this.optimizationCoordinator?.stop();
@@ -1297,7 +1926,8 @@ class EnhancedMEVBot {
       totalLoss: formatEther(this.totalLoss),
       netProfit: formatEther(this.totalProfit - this.totalLoss),
       executionCount: this.executionCount,
-      circuitBreakerTripped: this.circuitBreakerTripped,
+      tradingHalted: this.tradingHalt?.isHalted() ?? false,
+      policyRejections: this.tradingPolicy?.getRejectionCounts() ?? {},
       optimizationsPerformed: optimizationStatus?.totalOptimizations || 0,
       performanceImprovement: optimizationStatus?.performanceImprovement || 0
     });
@@ -1310,20 +1940,84 @@ class EnhancedMEVBot {
     }
   }
 
-  // Phase 3 Integration Methods
-  private async getCurrentCapital(): Promise<bigint> {
+  /**
+   * Index new factory pools and refresh TVLs; skipped while a previous run (e.g. the first backfill) is still going
+   */
+  private async refreshPoolRegistry(): Promise<void> {
+    if (this.poolDiscoveryRunning) return;
+    this.poolDiscoveryRunning = true;
+    
     try {
-      const arbBalance = await this.arbitrumProvider.getBalance(this.executorSigner.address);
-      const optBalance = this.crossChainEnabled ? 
-        await this.optimismProvider.getBalance(this.optimismExecutor.address) : 0n;
-      
-      return arbBalance + optBalance;
+      const chains = this.crossChainEnabled ? [42161, 10] : [42161];
+      for (const chainId of chains) {
+        await this.poolDiscovery.sync(chainId);
+      }
+    } catch (error) {
+      logger.error(chalk.red("Pool discovery failed"), error);
+    } finally {
+      this.poolDiscoveryRunning = false;
+    }
+  }
+
+  /**
+   * The executor wallet and bot contract on each traded chain, with the tokens the bot trades there
+   */
+  private getPortfolioChains(): PortfolioChain[] {
+    const chains: PortfolioChain[] = [{
+      chainId: 42161,
+      weth: this.TOKENS_ARB.WETH,
+      holders: [this.executorSigner.address, process.env.BOT_CONTRACT_ADDRESS || ""],
+      tokens: Object.values(this.TOKENS_ARB)
+    }];
+    if (this.crossChainEnabled) {
+      chains.push({
+        chainId: 10,
+        weth: this.TOKENS_OPT.WETH,
+        holders: [this.optimismExecutor.address, process.env.OPT_BOT_CONTRACT_ADDRESS || ""],
+        tokens: Object.values(this.TOKENS_OPT)
+      });
+    }
+    return chains;
+  }
+  
+  /**
+   * Move the risk manager onto a new valuation; a drawdown it reveals halts trading like a losing trade would
+   */
+  private async applyPortfolioValuation(valuation: PortfolioValuation): Promise<void> {
+    try {
+      const unpriced = [...new Set(valuation.unpriced.map(holding => `${holding.symbol} on ${holding.chainId}`))];
+      await this.advancedRiskManager.updatePortfolioValue(valuation.totalEth, unpriced);
+      await this.checkCircuitBreaker();
+      if (this.verboseMode) {
+        const chains = [...valuation.byChain].map(([chainId, value]) => `${chainId}: ${formatEther(value)}`).join(', ');
+        logger.info(chalk.cyan(`💰 Portfolio ${formatEther(valuation.totalEth)} ETH ($${valuation.totalUsd.toFixed(2)}) - ${chains}`));
+      }
     } catch (error) {
-      logger.error('Error getting current capital:', error);
-      return 0n;
+      logger.error(chalk.red("Failed to apply portfolio valuation"), error);
     }
   }
 
+  /**
+   * Whole ETH per whole token for holdings without a USD feed: an ETH-quoted Chainlink feed, else the
+   * deepest WETH pool in the pathfinder's graph
+   */
+  private async getEthPrice(chainId: number, token: string): Promise<number | null> {
+    const feedPrice = await this.oraclePriceValidator.getEthPrice(token, chainId);
+    if (feedPrice !== null) return feedPrice;
+    
+    const metadata = await this.tokenRegistry.resolve(chainId, token);
+    if (!metadata) return null;
+    const pathfinder = chainId === 42161 ? this.arbPathfinder : this.optPathfinder;
+    const valueWei = await pathfinder.convertToNative(chainId, token, 10n ** BigInt(metadata.decimals));
+    return valueWei === null ? null : Number(formatEther(valueWei));
+  }
+
+  // Phase 3 Integration Methods
+  private getCurrentCapital(): bigint {
+    // Kept current by the portfolio valuations; notional capital when simulating
+    return this.advancedRiskManager.getRiskMetrics().currentBalance;
+  }
+
   private async estimateGasCost(opportunity: any): Promise<bigint> {
     try {
       // Use L2GasManager for accurate gas estimation
@@ -1350,7 +2044,7 @@ class EnhancedMEVBot {
       logger.info(chalk.cyan('🚀 Executing with Phase 3 optimization'));
 
       // Get current capital for position sizing
-      const currentCapital = await this.getCurrentCapital();
+      const currentCapital = this.getCurrentCapital();
       
       // Estimate precise gas costs
       const estimatedGas = await this.estimateGasCost(opportunity);
@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -22,17 +23,17 @@ interface SecurityAuditResult {
 
 export class SecurityAuditor {
   private provider: ethers.JsonRpcProvider;
-  private executorWallet: ethers.Wallet;
+  private signers: SignerProvider;
   private gasFundingWalletAddress: string;
   private suspiciousAddress: string;
 
   constructor() {
-    if (!process.env.ARB_RPC || !process.env.PRIVATE_KEY) {
+    if (!process.env.ARB_RPC) {
       throw new Error('Missing required environment variables');
     }
 
     this.provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-    this.executorWallet = new ethers.Wallet(process.env.PRIVATE_KEY, this.provider);
+    this.signers = SignerProvider.fromEnv();
     this.gasFundingWalletAddress = '0xF68c01BaE2Daa708C004F485631C7213b45d1Cac';
     this.suspiciousAddress = '0x541b9034c82d7fb564f12ca07037947ff5b4ef2f';
   }
@@ -95,7 +96,7 @@ export class SecurityAuditor {
 
     try {
       // Check if executor wallet has been drained
-      const executorBalance = await this.provider.getBalance(this.executorWallet.address);
+      const executorBalance = await this.provider.getBalance(await this.signers.address('executor'));
       if (executorBalance < ethers.parseEther('0.001')) {
         issues.push(`⚠️ Executor wallet balance critically low: ${ethers.formatEther(executorBalance)} ETH`);
       }
@@ -147,7 +148,7 @@ export class SecurityAuditor {
     console.log(chalk.blue('═══════════════════════════════'));
 
     // Audit all wallets
-    const executorWallet = await this.auditWallet(this.executorWallet.address);
+    const executorWallet = await this.auditWallet(await this.signers.address('executor'));
     const gasFundingWallet = await this.auditWallet(this.gasFundingWalletAddress);
     const suspiciousAddress = await this.auditWallet(this.suspiciousAddress);
 
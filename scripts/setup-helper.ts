@@ -3,6 +3,7 @@ import chalk from "chalk";
 import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
+import { SignerProvider } from "../utils/signer-provider";
 
 // Load environment variables
 dotenv.config();
@@ -58,10 +59,10 @@ class SetupHelper {
     }
   }
 
-  static async checkWalletBalance(privateKey: string, rpcUrl: string): Promise<void> {
+  static async checkWalletBalance(rpcUrl: string): Promise<void> {
     try {
       const provider = new ethers.JsonRpcProvider(rpcUrl);
-      const wallet = new ethers.Wallet(privateKey, provider);
+      const wallet = await SignerProvider.fromEnv().signer('executor', provider);
       const balance = await provider.getBalance(wallet.address);
       
       console.log(chalk.green(`\n💰 Wallet Balance Check:`));
@@ -148,8 +149,8 @@ class SetupHelper {
     }
     
     // Check wallet balance
-    if (allValid && process.env.PRIVATE_KEY && process.env.ARB_RPC) {
-      await this.checkWalletBalance(process.env.PRIVATE_KEY, process.env.ARB_RPC);
+    if (allValid && process.env.ARB_RPC) {
+      await this.checkWalletBalance(process.env.ARB_RPC);
     }
     
     return allValid;
@@ -6,6 +6,7 @@ import { ethers } from 'ethers';
 import { FlashbotsBundleProvider, SimulationResponse } from '@flashbots/ethers-provider-bundle';
 import { WorkerManager } from '../utils/WorkerManager';
 import { PerformanceReporter } from '../utils/PerformanceReporter';
+import { SignerProvider } from '../utils/signer-provider';
 import chalk from 'chalk';
 
 config();
@@ -48,6 +49,7 @@ class FlashbotsParallelSimulator {
   private workerManager: WorkerManager;
   private performanceReporter: PerformanceReporter;
   private flashbotsProvider!: FlashbotsBundleProvider;
+  private signers = SignerProvider.fromEnvOrEphemeral();
   private config: FlashbotsConfig;
   private stats: SimulationStats = {} as SimulationStats;
   private isRunning = false;
@@ -78,7 +80,7 @@ class FlashbotsParallelSimulator {
   private async initializeFlashbots(): Promise<void> {
     try {
       const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC || 'https://cloudflare-eth.com');
-      const signer = new ethers.Wallet(process.env.PRIVATE_KEY || ethers.Wallet.createRandom().privateKey, provider);
+      const signer = await this.signers.signer('flashbots-auth', provider);
       
       this.flashbotsProvider = await FlashbotsBundleProvider.create(
         provider,
@@ -200,7 +202,7 @@ class FlashbotsParallelSimulator {
     try {
       // Create a mock arbitrage transaction
       const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC);
-      const signer = new ethers.Wallet(process.env.PRIVATE_KEY || ethers.Wallet.createRandom().privateKey, provider);
+      const signer = await this.signers.signer('executor', provider);
       
       const gasPrice = await provider.getFeeData();
       
@@ -225,7 +227,7 @@ class FlashbotsParallelSimulator {
       const targetBlock = currentBlock + 1;
       
       // Create signed transactions
-      const signer = new ethers.Wallet(process.env.PRIVATE_KEY || ethers.Wallet.createRandom().privateKey, provider);
+      const signer = await this.signers.signer('executor', provider);
       const signedTransactions = await Promise.all(
         transactions.map(tx => signer.signTransaction(tx))
       );
@@ -410,8 +412,8 @@ program
 async function main(): Promise<void> {
   const options = program.opts();
   
-  if (!process.env.PRIVATE_KEY) {
-    console.error(chalk.red('Error: PRIVATE_KEY environment variable is required'));
+  if (!process.env.SIGNER_BACKEND && !process.env.PRIVATE_KEY) {
+    console.error(chalk.red('Error: SIGNER_BACKEND (or PRIVATE_KEY in development) is required'));
     process.exit(1);
   }
 
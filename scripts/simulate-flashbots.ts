@@ -5,6 +5,7 @@ import chalk from "chalk";
 import fs from "fs";
 import path from "path";
 import { DynamicGasPricer } from "../utils/gas-pricing";
+import { AddressedSigner, SignerProvider } from "../utils/signer-provider";
 
 dotenv.config();
 
@@ -22,16 +23,14 @@ interface SimulationResult {
 
 class FlashbotsSimulator {
   private provider: ethers.JsonRpcProvider;
-  private authSigner: ethers.Wallet;
-  private executorSigner: ethers.Wallet;
+  private authSigner!: AddressedSigner;
+  private executorSigner!: AddressedSigner;
   private flashbotsProvider: FlashbotsBundleProvider | null = null;
   private resultsDir: string;
 
   constructor() {
-    // Initialize providers and signers
+    // Initialize providers; signers are unlocked in initialize()
     this.provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-    this.authSigner = new ethers.Wallet(process.env.FLASHBOTS_AUTH_KEY!, this.provider);
-    this.executorSigner = new ethers.Wallet(process.env.PRIVATE_KEY!, this.provider);
     
     // Create results directory
     this.resultsDir = path.join(process.cwd(), 'simulation-results');
@@ -40,8 +39,6 @@ class FlashbotsSimulator {
     }
     
     console.log(chalk.blue("🤖 Flashbots Simulator Initialized"));
-    console.log(chalk.gray(`Auth Signer: ${this.authSigner.address}`));
-    console.log(chalk.gray(`Executor: ${this.executorSigner.address}`));
   }
 
   /**
@@ -49,6 +46,12 @@ class FlashbotsSimulator {
    */
   async initialize(): Promise<void> {
     try {
+      const signers = SignerProvider.fromEnv();
+      this.authSigner = await signers.signer('flashbots-auth', this.provider);
+      this.executorSigner = await signers.signer('executor', this.provider);
+      console.log(chalk.gray(`Auth Signer: ${this.authSigner.address}`));
+      console.log(chalk.gray(`Executor: ${this.executorSigner.address}`));
+      
       console.log(chalk.yellow("🔗 Connecting to Flashbots relay..."));
       
       this.flashbotsProvider = await FlashbotsBundleProvider.create(
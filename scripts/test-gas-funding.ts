@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -8,13 +9,13 @@ async function testGasFundingSystem() {
   console.log(chalk.blue('🧪 Testing Gas Funding System'));
   console.log(chalk.blue('═══════════════════════════════'));
 
-  if (!process.env.ARB_RPC || !process.env.PRIVATE_KEY) {
+  if (!process.env.ARB_RPC) {
     console.error(chalk.red('❌ Missing required environment variables'));
     return;
   }
 
   const provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-  const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+  const wallet = await SignerProvider.fromEnv().signer('executor', provider);
   
   // Gas funding wallet address - Updated for new wallet
   const gasFundingWallet = '0xF68c01BaE2Daa708C004F485631C7213b45d1Cac';
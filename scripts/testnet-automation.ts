@@ -16,6 +16,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
 import { config } from 'dotenv';
+import { SignerProvider } from '../utils/signer-provider';
 
 config();
 
@@ -98,20 +99,11 @@ class TestnetAutomation {
     }
   ];
 
-  constructor() {
-    // Initialize wallet address from environment
-    if (process.env.PRIVATE_KEY) {
-      const wallet = new ethers.Wallet(process.env.PRIVATE_KEY);
-      this.walletAddress = wallet.address;
-    }
-  }
-
   async initialize(): Promise<void> {
     console.log(chalk.blue('🚀 Initializing Testnet Automation System'));
     
-    if (!this.walletAddress) {
-      throw new Error('PRIVATE_KEY not found in environment');
-    }
+    // The executor address from the configured signer backend receives the faucet funds
+    this.walletAddress = await SignerProvider.fromEnv().address('executor');
     
     console.log(chalk.cyan(`💼 Wallet Address: ${this.walletAddress}`));
     
@@ -0,0 +1,78 @@
+import chalk from "chalk";
+import dotenv from "dotenv";
+import { TradingHalt } from "../utils/trading-halt";
+
+// Load environment variables
+dotenv.config();
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printStatus(halt: TradingHalt): void {
+  const status = halt.status();
+  if (!status.halted) {
+    console.log(chalk.green("✅ Trading is running"));
+    if (status.clearedBy) {
+      console.log(chalk.gray(`   Halt #${status.clearedBy.haltId} cleared by ${status.clearedBy.operator} at ${new Date(status.clearedBy.at).toISOString()}` +
+        (status.clearedBy.note ? `: ${status.clearedBy.note}` : '')));
+    }
+    return;
+  }
+
+  console.log(chalk.red(`🛑 Trading halted (#${status.haltId})`));
+  for (const source of status.sources) {
+    console.log(chalk.red(`   ${source.source} since ${new Date(source.since).toISOString()}: ${source.reasons.join(', ')}`));
+  }
+  console.log(chalk.yellow(`\nTo resume: npm run trading:resume -- --id ${status.haltId} --operator <name> [--note <text>]`));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  // A running bot picks up changes to the file within a few seconds
+  const halt = new TradingHalt(option(args, '--path') || process.env.TRADING_HALT_PATH || TradingHalt.DEFAULT_PATH);
+
+  switch (command) {
+    case 'status':
+      printStatus(halt);
+      break;
+
+    case 'halt': {
+      const reason = option(args, '--reason');
+      const operator = option(args, '--operator');
+      if (!reason || !operator) {
+        throw new Error('halt needs --reason and --operator');
+      }
+      halt.trip('operator', [`${reason} (${operator})`]);
+      printStatus(halt);
+      break;
+    }
+
+    case 'resume': {
+      const id = option(args, '--id');
+      const operator = option(args, '--operator');
+      if (!id || !operator) {
+        printStatus(halt);
+        throw new Error('resume needs --id of the halt being acknowledged and --operator');
+      }
+      halt.clear({ haltId: parseInt(id), operator, note: option(args, '--note'), transfer: args.includes('--transfer') || undefined });
+      break;
+    }
+
+    default:
+      console.log(chalk.blue("🛑 Trading Halt Control\n"));
+      console.log("Usage:");
+      console.log("  npm run trading:status                                          # Show whether and why trading is halted");
+      console.log("  npm run trading:halt -- --reason <text> --operator <name>       # Halt every bot sharing the halt file");
+      console.log("  npm run trading:resume -- --id <haltId> --operator <name>       # Acknowledge halt <haltId> and resume");
+      console.log("  ... --transfer                                                  # The drawdown was a withdrawal: reset the risk peak");
+      console.log("  ... --path <file>                                               # Halt file other than TRADING_HALT_PATH");
+  }
+}
+
+main().catch((error) => {
+  console.error(chalk.red("❌ Trading halt control failed:"), error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -2,6 +2,7 @@ import chalk from "chalk";
 import { ethers } from "ethers";
 import fs from "fs";
 import { execSync } from "child_process";
+import { SignerProvider } from "../utils/signer-provider";
 
 interface ValidationResult {
   category: string;
@@ -25,11 +26,11 @@ async function validateProductionReadiness(): Promise<boolean> {
     checks: []
   };
   
+  // Production signs through a keystore or remote signer, never raw keys in the environment
   const requiredEnvVars = [
-    'PRIVATE_KEY',
+    'SIGNER_BACKEND',
     'ARB_RPC',
     'OPT_RPC',
-    'FLASHBOTS_AUTH_KEY',
     'ARB_BOT_CONTRACT_ADDRESS',
     'OPT_BOT_CONTRACT_ADDRESS'
   ];
@@ -134,11 +135,11 @@ async function validateProductionReadiness(): Promise<boolean> {
     checks: []
   };
   
-  if (process.env.PRIVATE_KEY && process.env.ARB_RPC) {
+  if (process.env.ARB_RPC) {
     try {
       const provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-      const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
-      const balance = await provider.getBalance(wallet.address);
+      const address = await SignerProvider.fromEnv().address('executor');
+      const balance = await provider.getBalance(address);
       const balanceETH = Number(ethers.formatEther(balance));
       
       if (balanceETH < 0.1) {
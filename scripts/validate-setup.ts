@@ -4,6 +4,7 @@ import path from "path";
 import chalk from "chalk";
 import dotenv from "dotenv";
 import { FlashbotsBundleProvider } from "@flashbots/ethers-provider-bundle";
+import { AddressedSigner, SignerProvider } from "../utils/signer-provider";
 
 // Load environment variables
 dotenv.config();
@@ -21,35 +22,37 @@ interface NetworkInfo {
   chainId: number;
   rpc: string;
   provider: ethers.JsonRpcProvider;
-  wallet: ethers.Wallet;
+  wallet: AddressedSigner;
 }
 
 class SetupValidator {
   private results: ValidationResult[] = [];
   private networks: NetworkInfo[] = [];
+  private signers: SignerProvider | null = null;
   
-  constructor() {
-    this.initializeNetworks();
-  }
-  
-  private initializeNetworks(): void {
-    if (process.env.ARB_RPC && process.env.PRIVATE_KEY) {
+  // Networks need the executor signer, so they are set up once validateSigners() has unlocked it
+  private async initializeNetworks(): Promise<void> {
+    if (!this.signers) return;
+    
+    if (process.env.ARB_RPC) {
+      const provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
       this.networks.push({
         name: "Arbitrum",
         chainId: 42161,
         rpc: process.env.ARB_RPC,
-        provider: new ethers.JsonRpcProvider(process.env.ARB_RPC),
-        wallet: new ethers.Wallet(process.env.PRIVATE_KEY, new ethers.JsonRpcProvider(process.env.ARB_RPC))
+        provider,
+        wallet: await this.signers.signer('executor', provider)
       });
     }
     
-    if (process.env.OPT_RPC && process.env.PRIVATE_KEY) {
+    if (process.env.OPT_RPC) {
+      const provider = new ethers.JsonRpcProvider(process.env.OPT_RPC);
       this.networks.push({
         name: "Optimism",
         chainId: 10,
         rpc: process.env.OPT_RPC,
-        provider: new ethers.JsonRpcProvider(process.env.OPT_RPC),
-        wallet: new ethers.Wallet(process.env.PRIVATE_KEY, new ethers.JsonRpcProvider(process.env.OPT_RPC))
+        provider,
+        wallet: await this.signers.signer('executor', provider)
       });
     }
   }
@@ -97,9 +100,10 @@ class SetupValidator {
    * Validate required environment variables
    */
   validateEnvironmentVariables(): void {
+    // Raw keys are only expected when the signer backend reads them from the environment
+    const rawKeys = !process.env.SIGNER_BACKEND || process.env.SIGNER_BACKEND === 'env';
     const requiredVars = [
-      'PRIVATE_KEY',
-      'FLASHBOTS_AUTH_KEY',
+      ...(rawKeys ? ['PRIVATE_KEY', 'FLASHBOTS_AUTH_KEY'] : []),
       'ARB_RPC',
       'OPT_RPC',
       'BALANCER_VAULT_ADDRESS',
@@ -146,28 +150,23 @@ class SetupValidator {
   }
   
   /**
-   * Validate private key format and derivation
+   * Validate that the signer backend unlocks both keys
    */
-  validatePrivateKeys(): void {
-    const privateKey = process.env.PRIVATE_KEY;
-    const flashbotsKey = process.env.FLASHBOTS_AUTH_KEY;
-    
-    if (!privateKey || !flashbotsKey) {
-      this.addResult('Keys', 'Key Validation', 'fail', 'Missing private keys');
-      return;
-    }
-    
+  async validateSigners(): Promise<void> {
     try {
+      const signers = SignerProvider.fromEnv();
+      
       // Validate executor key
-      const executorWallet = new ethers.Wallet(privateKey);
-      this.addResult('Keys', 'Executor Key', 'pass', `Valid key, Address: ${executorWallet.address}`);
+      const executorAddress = await signers.address('executor');
+      this.addResult('Keys', 'Executor Key', 'pass', `Valid ${signers.kind} signer, Address: ${executorAddress}`);
       
       // Validate Flashbots key
-      const flashbotsWallet = new ethers.Wallet(flashbotsKey);
-      this.addResult('Keys', 'Flashbots Key', 'pass', `Valid key, Address: ${flashbotsWallet.address}`);
+      const flashbotsAddress = await signers.address('flashbots-auth');
+      this.addResult('Keys', 'Flashbots Key', 'pass', `Valid ${signers.kind} signer, Address: ${flashbotsAddress}`);
+      this.signers = signers;
       
       // Ensure keys are different
-      if (privateKey === flashbotsKey) {
+      if (executorAddress === flashbotsAddress) {
         this.addResult('Keys', 'Key Uniqueness', 'fail', 'Executor and Flashbots keys are identical', {
           solution: 'Generate separate keys for each purpose'
         });
@@ -176,7 +175,7 @@ class SetupValidator {
       }
       
     } catch (error) {
-      this.addResult('Keys', 'Key Validation', 'fail', 'Invalid private key format', error);
+      this.addResult('Keys', 'Key Validation', 'fail', 'Signer backend could not provide both keys', error);
     }
   }
   
@@ -289,7 +288,7 @@ class SetupValidator {
    * Validate Flashbots connectivity
    */
   async validateFlashbotsConnectivity(): Promise<void> {
-    if (!process.env.FLASHBOTS_AUTH_KEY) {
+    if (!this.signers) {
       this.addResult('Flashbots', 'Auth Key', 'fail', 'Flashbots auth key not configured');
       return;
     }
@@ -301,7 +300,7 @@ class SetupValidator {
         return;
       }
       
-      const authSigner = new ethers.Wallet(process.env.FLASHBOTS_AUTH_KEY, network.provider);
+      const authSigner = await this.signers.signer('flashbots-auth', network.provider);
       
       // Test Flashbots provider creation
       const flashbotsProvider = await FlashbotsBundleProvider.create(
@@ -476,10 +475,11 @@ class SetupValidator {
     // Environment validation
     this.validateEnvironmentFile();
     this.validateEnvironmentVariables();
-    this.validatePrivateKeys();
+    await this.validateSigners();
     this.validateBotConfiguration();
     
     // Network validation
+    await this.initializeNetworks();
     await this.validateNetworkConnectivity();
     await this.validateWalletBalances();
     await this.validateContractAddresses();
@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -8,24 +9,19 @@ async function verifyWalletAddresses() {
   console.log(chalk.blue('🔍 VERIFYING WALLET ADDRESSES'));
   console.log(chalk.blue('════════════════════════════'));
 
-  if (!process.env.PRIVATE_KEY) {
-    console.error(chalk.red('❌ PRIVATE_KEY not found in environment'));
-    return;
-  }
-
   if (!process.env.ARB_RPC) {
     console.error(chalk.red('❌ ARB_RPC not found in environment'));
     return;
   }
 
   try {
-    // Create wallet from private key
-    const wallet = new ethers.Wallet(process.env.PRIVATE_KEY);
+    // Resolve the executor through the configured signer backend
+    const signers = SignerProvider.fromEnv();
     const provider = new ethers.JsonRpcProvider(process.env.ARB_RPC);
-    const connectedWallet = wallet.connect(provider);
+    const wallet = await signers.signer('executor', provider);
 
     console.log(chalk.cyan('\n📋 WALLET CONFIGURATION'));
-    console.log(chalk.white(`Private Key: ${process.env.PRIVATE_KEY.substring(0, 10)}...`));
+    console.log(chalk.white(`Signer Backend: ${signers.kind}`));
     console.log(chalk.white(`Derived Address: ${wallet.address}`));
     console.log(chalk.white(`Gas Funding Wallet (configured): 0xF68c01BaE2Daa708C004F485631C7213b45d1Cac`));
     console.log(chalk.white(`Testnet Wallet (configured): ${process.env.TESTNET_WALLET_ADDRESS || 'Not set'}`));
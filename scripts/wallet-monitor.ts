@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { SignerProvider } from '../utils/signer-provider';
 
 dotenv.config();
 
@@ -45,17 +46,7 @@ export class WalletMonitor {
   }
 
   private initializeMonitoredWallets(): void {
-    // Add executor wallet
-    if (process.env.PRIVATE_KEY) {
-      const executorWallet = new ethers.Wallet(process.env.PRIVATE_KEY);
-      this.monitoredWallets.push({
-        address: executorWallet.address,
-        name: 'Executor Wallet',
-        lastBalance: 0n,
-        lastTxCount: 0,
-        threshold: ethers.parseEther('0.001') // Alert if balance changes by 0.001 ETH
-      });
-    }
+    // The executor wallet is added in initializeBaselines() once its signer backend answers
 
     // Add gas funding wallet (now same as executor wallet)
     this.monitoredWallets.push({
@@ -66,9 +57,8 @@ export class WalletMonitor {
       threshold: ethers.parseEther('0.001')
     });
 
-    // Add testnet wallet if different from executor wallet
-    if (process.env.TESTNET_WALLET_ADDRESS && 
-        process.env.TESTNET_WALLET_ADDRESS !== this.monitoredWallets[0]?.address) {
+    // Add testnet wallet (dropped again if it turns out to be the executor wallet)
+    if (process.env.TESTNET_WALLET_ADDRESS) {
       this.monitoredWallets.push({
         address: process.env.TESTNET_WALLET_ADDRESS,
         name: 'Testnet Wallet',
@@ -82,6 +72,23 @@ export class WalletMonitor {
   async initializeBaselines(): Promise<void> {
     console.log(chalk.blue('🔍 Initializing wallet monitoring baselines...'));
 
+    // Add executor wallet
+    try {
+      const executorAddress = await SignerProvider.fromEnv().address('executor');
+      this.monitoredWallets = this.monitoredWallets.filter(wallet =>
+        wallet.name !== 'Testnet Wallet' || wallet.address !== executorAddress
+      );
+      this.monitoredWallets.unshift({
+        address: executorAddress,
+        name: 'Executor Wallet',
+        lastBalance: 0n,
+        lastTxCount: 0,
+        threshold: ethers.parseEther('0.001') // Alert if balance changes by 0.001 ETH
+      });
+    } catch (error) {
+      console.error(chalk.yellow('⚠️ Executor wallet not monitored:'), error);
+    }
+
     for (const wallet of this.monitoredWallets) {
       try {
         const balance = await this.provider.getBalance(wallet.address);
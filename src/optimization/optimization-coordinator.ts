@@ -10,6 +10,7 @@ import { MarketOptimizationEngine } from "./market-optimization-engine";
 import { OptimizedParameters, OptimizationResult } from "./types";
 import { ParameterValidator, ValidationResult } from "./parameter-validator";
 import { OptimizationMonitor } from "./optimization-monitor";
+import { TradeRecord } from "./performance-tracker";
 
 // Import existing optimizers
 import { AdaptiveProfitManager } from "../../utils/adaptive-profit-manager";
@@ -485,6 +486,13 @@ export class OptimizationCoordinator {
     this.logger.info('Optimization configuration updated', newConfig);
   }
   
+  /**
+   * Settled trades feed the engine's performance tracker, which the optimization loop reads back
+   */
+  recordTrade(trade: TradeRecord): void {
+    this.marketOptimizer.recordTrade(trade);
+  }
+  
   getMonitor(): OptimizationMonitor {
     return this.monitor;
   }
@@ -1,6 +1,11 @@
 import { JsonRpcProvider, Contract, parseUnits, formatUnits } from "ethers";
 import { EnhancedDEXManager, DEXRouter } from "../utils/dex-routers";
 import { GasOptimizer } from "../utils/gas-optimizer";
+import { PoolStateReader } from "../utils/pool-state";
+import { FlashArbBotFactory } from "../utils/flash-arb-bot";
+import { ArbitrageCall, FlashArbCalldataBuilder } from "../utils/flash-arb-calldata";
+import { RouteEncoder, RouteLeg } from "../utils/route-encoder";
+import { TradingPolicy } from "../utils/trading-policy";
 
 export interface TriangularPath {
     path: [string, string, string]; // [TokenA, TokenB, TokenC] where C -> A completes the cycle
@@ -13,6 +18,7 @@ export interface TriangularPath {
     profitability: number; // in basis points
     executionTime: number; // estimated seconds
     riskScore: number; // 0-100, lower is safer
+    legs?: RouteLeg[]; // Set when every hop was quoted from pool state, which is what makes the path executable
 }
 
 export interface TriangularOpportunity {
@@ -42,6 +48,11 @@ export class TriangularArbManager {
     private provider: JsonRpcProvider;
     private dexManager: EnhancedDEXManager;
     private gasOptimizer: GasOptimizer;
+    private poolStateReader?: PoolStateReader;
+    private policy?: TradingPolicy;
+    private scanBlockNumber: number = 0;
+    
+    private static readonly ROUTE_SLIPPAGE_BPS = 100;
     
     // High-volume, low-competition token paths
     private readonly PREFERRED_PATHS = [
@@ -79,11 +90,18 @@ export class TriangularArbManager {
     constructor(
         provider: JsonRpcProvider,
         dexManager: EnhancedDEXManager,
-        gasOptimizer: GasOptimizer
+        gasOptimizer: GasOptimizer,
+        poolStateReader?: PoolStateReader
     ) {
         this.provider = provider;
         this.dexManager = dexManager;
         this.gasOptimizer = gasOptimizer;
+        this.poolStateReader = poolStateReader;
+    }
+
+    // Opportunities the trading policy rejects are dropped from scans, with the rule recorded
+    attachPolicy(policy: TradingPolicy): void {
+        this.policy = policy;
     }
 
     // MAIN FUNCTION: Scan for triangular arbitrage opportunities
@@ -98,6 +116,9 @@ export class TriangularArbManager {
             // Get available DEX routers for this chain
             const routers = EnhancedDEXManager.getAllRouters(chainId);
             
+            // Pin every swap simulation in this scan to the same block
+            this.scanBlockNumber = await this.provider.getBlockNumber();
+            
             // Generate all possible triangular paths
             const pathCombinations = this.generateTriangularPaths(chainId, routers);
             
@@ -133,8 +154,8 @@ export class TriangularArbManager {
         try {
             const path = opportunity.bestPath;
             
-            // Prepare transaction data for smart contract execution
-            const txData = this.prepareTriangularTxData(path, opportunity.chainId);
+            // Execute the hops exactly as they were simulated
+            const call = this.buildRouteCall(path);
             
             // Get optimal gas settings
             const gasSettings = await this.gasOptimizer.getGasStrategyForOpportunity(
@@ -144,20 +165,11 @@ export class TriangularArbManager {
             );
             
             // Create contract instance
-            const contract = new Contract(
-                contractAddress,
-                ['function executeTriangularArb(address,uint256,address[],address[],bool[],uint256) external'],
-                this.provider
-            );
+            const contract = new Contract(contractAddress, FlashArbBotFactory.abi, this.provider);
             
             // Execute the transaction
-            const tx = await contract.executeTriangularArb(
-                path.path[0], // Starting token
-                path.inputAmount,
-                path.path, // Token path
-                path.routers.map(r => r.address), // Router addresses
-                [true, false, true], // sushiFirst flags (example)
-                Math.floor(Date.now() / 1000) + 300, // 5 minute deadline
+            const tx = await contract[call.method](
+                ...call.args,
                 {
                     gasLimit: gasSettings.gasLimit,
                     maxFeePerGas: gasSettings.maxFeePerGas,
@@ -290,8 +302,23 @@ export class TriangularArbManager {
                 confidenceScore
             );
             
+            const id = `tri_${chainId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+            // The input amount is in the start token's units, so it is only a notional in wei when that token is WETH;
+            // otherwise the notional limits are left unchecked rather than compared against the wrong unit
+            const weth = this.TOKEN_ADDRESSES[chainId as keyof typeof this.TOKEN_ADDRESSES]?.WETH;
+            const startsFromWeth = weth !== undefined && bestPath.path[0].toLowerCase() === weth.toLowerCase();
+            if (this.policy && !this.policy.check('triangular', id, {
+                chainId,
+                tokens: bestPath.path,
+                pools: bestPath.legs?.every(leg => leg.pool) ? bestPath.legs.map(leg => leg.pool!.address) : undefined,
+                dexes: bestPath.routers.map(router => router.name),
+                notionalWei: startsFromWeth ? bestPath.inputAmount : undefined
+            }).allowed) {
+                return null;
+            }
+            
             return {
-                id: `tri_${chainId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                id,
                 paths,
                 bestPath,
                 chainId,
@@ -316,21 +343,23 @@ export class TriangularArbManager {
         chainId: number
     ): Promise<TriangularPath | null> {
         try {
+            const legs: RouteLeg[] = [];
+            
             // Simulate: TokenA -> TokenB
             const amountB = await this.simulateSwap(
-                tokens[0], tokens[1], inputAmount, routers[0], chainId
+                tokens[0], tokens[1], inputAmount, routers[0], chainId, legs
             );
             if (amountB === 0n) return null;
             
             // Simulate: TokenB -> TokenC  
             const amountC = await this.simulateSwap(
-                tokens[1], tokens[2], amountB, routers[1], chainId
+                tokens[1], tokens[2], amountB, routers[1], chainId, legs
             );
             if (amountC === 0n) return null;
             
             // Simulate: TokenC -> TokenA (completing the triangle)
             const finalAmount = await this.simulateSwap(
-                tokens[2], tokens[0], amountC, routers[2], chainId
+                tokens[2], tokens[0], amountC, routers[2], chainId, legs
             );
             if (finalAmount === 0n) return null;
             
@@ -357,7 +386,8 @@ export class TriangularArbManager {
                 gasEstimate,
                 profitability,
                 executionTime: 45, // Estimated seconds for 3 swaps
-                riskScore
+                riskScore,
+                legs: legs.length === 3 ? legs : undefined
             };
             
         } catch (error) {
@@ -372,11 +402,25 @@ export class TriangularArbManager {
         tokenOut: string,
         amountIn: bigint,
         router: DEXRouter,
-        chainId: number
+        chainId: number,
+        legs: RouteLeg[]
     ): Promise<bigint> {
         try {
-            // This would call the actual router's getAmountsOut function
-            // For now, simulate with estimated slippage
+            // OPTIMIZATION: Exact offline quote from cached pool state when available
+            if (this.poolStateReader && this.scanBlockNumber > 0) {
+                const poolState = await this.poolStateReader.getPoolState(
+                    tokenIn, tokenOut, router, this.scanBlockNumber
+                );
+                if (poolState) {
+                    const quoted = await this.poolStateReader.quoteExactInput(poolState, tokenIn, tokenOut, amountIn);
+                    if (quoted !== null) {
+                        legs.push({ router, tokenIn, tokenOut, amountOut: quoted, pool: poolState });
+                        return quoted;
+                    }
+                }
+            }
+            
+            // Fall back to estimated slippage for pools we cannot quote
             const slippage = this.estimateSlippage(amountIn, router.liquidityScore);
             const slippageMultiplier = (10000n - BigInt(slippage * 100)) / 10000n;
             
@@ -475,10 +519,19 @@ export class TriangularArbManager {
         }
     }
 
-    private prepareTriangularTxData(path: TriangularPath, chainId: number): string {
-        // Prepare the transaction data for contract execution
-        // This would encode the actual function call parameters
-        return "0x"; // Placeholder
+    private buildRouteCall(path: TriangularPath): ArbitrageCall {
+        // Estimated hops have no pool behind them to execute against
+        if (!path.legs) {
+            throw new Error('Triangular path was not quoted from pool state');
+        }
+        return FlashArbCalldataBuilder.build({
+            asset: path.path[0],
+            amountIn: path.inputAmount,
+            path: [...path.path, path.path[0]],
+            minProfit: path.expectedOutput - path.inputAmount,
+            sushiFirst: false,
+            route: RouteEncoder.encode(path.legs, TriangularArbManager.ROUTE_SLIPPAGE_BPS)
+        });
     }
 
     private calculateActualProfit(logs: any[]): bigint {
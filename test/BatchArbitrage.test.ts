@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { Signer, parseEther, parseUnits } from "ethers";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { BatchArbitragePacker, BatchCandidate } from "../utils/batch-packer";
+import { FlashArbBotFactory } from "../utils/flash-arb-bot";
+
+describe("Batch Arbitrage", function () {
+  let bot: any;
+  let owner: Signer;
+  let vault: any;
+  let uniRouter: any;
+  let sushiRouter: any;
+  let weth: any;
+  let usdc: any;
+  let arb: any;
+  let dai: any;
+  let candidates: BatchCandidate[];
+
+  const deadline = async () => BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 60);
+
+  // Profit of each ArbitrageExecuted and the BatchArbitrageExecuted total, from one receipt
+  const executionProfits = async (tx: any) => {
+    const receipt = await tx.wait();
+    const events = FlashArbBotFactory.parseLogs(receipt.logs, await bot.getAddress());
+    return {
+      trades: events.flatMap(event => event.name === "ArbitrageExecuted" ? [event.profit] : []),
+      batch: events.flatMap(event => event.name === "BatchArbitrageExecuted" ? [event.totalProfit] : [])
+    };
+  };
+
+  beforeEach(async function () {
+    [owner] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    weth = await MockERC20.deploy("Wrapped Ether", "WETH", 18);
+    usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+    arb = await MockERC20.deploy("Arbitrum", "ARB", 18);
+    dai = await MockERC20.deploy("Dai Stablecoin", "DAI", 18);
+
+    vault = await (await ethers.getContractFactory("MockBalancerVault")).deploy();
+    await vault.setFlashLoanFeeBps(5);
+    const MockRouter = await ethers.getContractFactory("MockUniswapV2Router");
+    uniRouter = await MockRouter.deploy();
+    sushiRouter = await MockRouter.deploy();
+
+    const FlashArbBotBalancer = await ethers.getContractFactory("FlashArbBotBalancer");
+    bot = await FlashArbBotBalancer.deploy(
+      await vault.getAddress(),
+      await sushiRouter.getAddress(),
+      await uniRouter.getAddress(),
+      ethers.ZeroAddress
+    );
+
+    await weth.mint(await vault.getAddress(), parseEther("50"));
+    await arb.mint(await vault.getAddress(), parseEther("50000"));
+
+    // WETH is dearer on Sushi, ARB is dearer on Uniswap
+    const pools: [any, any, any, bigint, bigint][] = [
+      [uniRouter, weth, usdc, parseEther("100"), parseUnits("200000", 6)],
+      [sushiRouter, weth, usdc, parseEther("100"), parseUnits("210000", 6)],
+      [uniRouter, arb, dai, parseEther("100000"), parseEther("110000")],
+      [sushiRouter, arb, dai, parseEther("100000"), parseEther("100000")]
+    ];
+    for (const [router, tokenA, tokenB, reserveA, reserveB] of pools) {
+      await tokenA.mint(await router.getAddress(), reserveA);
+      await tokenB.mint(await router.getAddress(), reserveB);
+      await router.setReserves(await tokenA.getAddress(), await tokenB.getAddress(), reserveA, reserveB);
+    }
+
+    const [WETH, USDC, ARB, DAI] = await Promise.all([weth, usdc, arb, dai].map(token => token.getAddress()));
+    candidates = [
+      { id: "weth-usdc", asset: WETH, amountIn: parseEther("1"), path: [WETH, USDC, WETH], minProfit: parseEther("0.01"), sushiFirst: true },
+      { id: "arb-dai", asset: ARB, amountIn: parseEther("1000"), path: [ARB, DAI, ARB], minProfit: parseEther("50"), sushiFirst: false }
+    ];
+  });
+
+  it("Should pack non-overlapping opportunities and skip the rest", async function () {
+    const [WETH, USDC, ARB, DAI] = await Promise.all([weth, usdc, arb, dai].map(token => token.getAddress()));
+    const batch = BatchArbitragePacker.pack([
+      ...candidates,
+      { id: "weth-dai", asset: WETH, amountIn: parseEther("1"), path: [WETH, DAI, WETH], minProfit: parseEther("0.01"), sushiFirst: false },
+      { id: "triangle", asset: USDC, amountIn: 1_000_000n, path: [USDC, ARB, DAI, USDC], minProfit: 1n, sushiFirst: false },
+      { id: "loose", asset: DAI, amountIn: parseEther("1"), path: [DAI, USDC, DAI], minProfit: 1n, sushiFirst: false, slippageBps: 900 },
+      { id: "dust", asset: DAI, amountIn: parseEther("1"), path: [DAI, USDC, DAI], minProfit: parseEther("0.00009"), sushiFirst: false }
+    ], { deadline: 1_700_000_000, slippageBps: 100 });
+
+    expect(batch.included).to.deep.equal(["weth-usdc", "arb-dai"]);
+    expect(batch.skipped.map(skipped => skipped.id)).to.deep.equal(["weth-dai", "triangle", "loose", "dust"]);
+    expect(batch.skipped[0].reason).to.match(/shares a token/);
+    expect(batch.skipped[3].reason).to.match(/under 1 bps/);
+    expect(batch.params.trades[0]).to.deep.equal({
+      asset: WETH, amount: parseEther("1"), tokenA: WETH, tokenB: USDC, sushiFirst: true, slippageBps: 100, minProfitBps: 100n
+    });
+    expect(batch.params.trades[1].minProfitBps).to.equal(500n);
+
+    expect(() => BatchArbitragePacker.pack(candidates, { deadline: 0, slippageBps: 100 })).to.throw(/deadline/);
+    expect(() => BatchArbitragePacker.encode({ trades: [], deadline: 1 })).to.throw(/no trades/);
+  });
+
+  it("Should realize the same total profit as its trades executed one by one", async function () {
+    const snapshot = await network.provider.send("evm_snapshot");
+    const separate: bigint[] = [];
+    for (const candidate of candidates) {
+      const [asset, amount, path, sushiFirst] = [candidate.asset, candidate.amountIn, candidate.path.slice(0, 2), candidate.sushiFirst];
+      const { trades } = await executionProfits(await bot.executeArb(asset, amount, path, sushiFirst, candidate.minProfit));
+      separate.push(...trades);
+    }
+    await network.provider.send("evm_revert", [snapshot]);
+
+    const batch = BatchArbitragePacker.pack(candidates, { deadline: await deadline(), slippageBps: 200 });
+    const tx = await owner.sendTransaction({ to: await bot.getAddress(), data: BatchArbitragePacker.encode(batch.params) });
+    const { trades, batch: [totalProfit] } = await executionProfits(tx);
+
+    expect(separate).to.have.length(2);
+    expect(trades).to.deep.equal(separate);
+    expect(totalProfit).to.equal(separate[0] + separate[1]);
+
+    // Profits stay on the bot; the vault got its loans back with the fee
+    expect(await weth.balanceOf(await bot.getAddress())).to.equal(separate[0]);
+    expect(await arb.balanceOf(await bot.getAddress())).to.equal(separate[1]);
+    expect(await weth.balanceOf(await vault.getAddress())).to.equal(parseEther("50") + parseEther("1") * 5n / 10000n);
+  });
+
+  it("Should revert the whole batch when one trade misses its profit floor or the deadline passes", async function () {
+    const greedy = candidates.map(candidate => candidate.id === "arb-dai" ? { ...candidate, minProfit: parseEther("500") } : candidate);
+    const batch = BatchArbitragePacker.pack(greedy, { deadline: await deadline(), slippageBps: 200 });
+    await expect(bot.executeBatchArbitrage(batch.params)).to.be.revertedWith("Profit deviation too high");
+    expect(await weth.balanceOf(await bot.getAddress())).to.equal(0n);
+
+    const expired = BatchArbitragePacker.pack(candidates, { deadline: 1, slippageBps: 200 });
+    await expect(bot.executeBatchArbitrage(expired.params)).to.be.revertedWith("Transaction expired");
+  });
+
+  it("Should reject trades that do not start in the borrowed asset", async function () {
+    const [WETH, USDC] = await Promise.all([weth.getAddress(), usdc.getAddress()]);
+    const trade = { asset: USDC, amount: 1_000_000n, tokenA: WETH, tokenB: USDC, sushiFirst: true, slippageBps: 100, minProfitBps: 10 };
+    await expect(bot.executeBatchArbitrage({ trades: [trade], deadline: await deadline() }))
+      .to.be.revertedWith("Trade must start in the borrowed asset");
+  });
+});
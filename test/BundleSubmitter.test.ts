@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { JsonRpcProvider, Provider, Transaction, Wallet, keccak256, parseUnits, toBeHex } from "ethers";
+import { FlashbotsBundleProvider } from "@flashbots/ethers-provider-bundle";
+import { FlashbotsBundleSubmitter } from "../utils/bundle-submitter";
+import { JsonRpcStandIn, mockBlock, mockReceipt } from "./utils/jsonRpcStandIn";
+
+const BASE_FEE = parseUnits("1", "gwei");
+
+interface ReceivedBundle {
+  txs: string[];
+  blockNumber: number;
+}
+
+/**
+ * Local stand-in serving both the relay (eth_sendBundle) and the chain the provider watches.
+ * Blocks are mined on a timer; a bundle lands in its target block when `accept` says so.
+ */
+class MockRelayChain {
+  public bundles: ReceivedBundle[] = [];
+  public blockNumber = 100;
+  public accountNonce = 5;
+  public includedBlock: number | null = null;
+  public accept: (bundle: ReceivedBundle) => boolean = () => false;
+  public onBundle: (bundle: ReceivedBundle) => void = () => undefined;
+
+  private rpc = new JsonRpcStandIn();
+  private blocks = new Map<number, string[]>();
+  private receipts = new Map<string, any>();
+  private miner?: NodeJS.Timeout;
+
+  constructor() {
+    this.rpc
+      .handle("eth_chainId", () => "0x1")
+      .handle("eth_blockNumber", () => toBeHex(this.blockNumber))
+      .handle("eth_getBlockByNumber", ([tag]) => {
+        const number = tag === "latest" ? this.blockNumber : Number(tag);
+        return mockBlock(number, this.blocks.get(number) || [], BASE_FEE);
+      })
+      .handle("eth_getTransactionCount", () => toBeHex(this.accountNonce))
+      .handle("eth_getTransactionReceipt", ([hash]) => this.receipts.get(hash) || null)
+      .handle("eth_sendBundle", ([{ txs, blockNumber }]) => {
+        const bundle = { txs, blockNumber: Number(blockNumber) };
+        this.bundles.push(bundle);
+        this.onBundle(bundle);
+        return { bundleHash: keccak256(txs[0]) };
+      });
+  }
+
+  async start(blockTimeMs: number): Promise<string> {
+    const url = await this.rpc.start();
+    this.miner = setInterval(() => this.mine(), blockTimeMs);
+    return url;
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.miner);
+    await this.rpc.stop();
+  }
+
+  private mine(): void {
+    const number = ++this.blockNumber;
+    const hashes: string[] = [];
+    for (const bundle of this.bundles) {
+      // A bundle lands once; later targets for the same transactions find the nonce spent
+      if (this.includedBlock !== null || bundle.blockNumber !== number || !this.accept(bundle)) continue;
+      for (const [index, raw] of bundle.txs.entries()) {
+        const receipt = mockReceipt(raw, number, index, BASE_FEE);
+        hashes.push(receipt.transactionHash);
+        this.receipts.set(receipt.transactionHash, receipt);
+      }
+      this.accountNonce++;
+      this.includedBlock = number;
+    }
+    this.blocks.set(number, hashes);
+  }
+}
+
+describe("FlashbotsBundleSubmitter", function () {
+  this.timeout(20_000);
+
+  let chain: MockRelayChain;
+  let provider: Provider;
+  let flashbots: FlashbotsBundleProvider;
+  const signer = new Wallet("0x" + "11".repeat(32));
+
+  const transaction = {
+    to: "0x0000000000000000000000000000000000000a11",
+    data: "0x",
+    nonce: 5,
+    gasLimit: 21_000n,
+    chainId: 1n,
+    type: 2,
+    maxFeePerGas: parseUnits("3", "gwei"),
+    maxPriorityFeePerGas: parseUnits("1", "gwei")
+  };
+
+  async function setup(blockTimeMs: number) {
+    chain = new MockRelayChain();
+    const url = await chain.start(blockTimeMs);
+    provider = new JsonRpcProvider(url, 1, { staticNetwork: true, pollingInterval: 10, batchMaxCount: 1 });
+    flashbots = await FlashbotsBundleProvider.create(provider, Wallet.createRandom(), url, 1);
+  }
+
+  afterEach(async function () {
+    provider.destroy();
+    await chain.stop();
+  });
+
+  it("Should re-price a bundle that missed its blocks and report where it landed", async function () {
+    await setup(40);
+    // Only a bumped tip is competitive
+    chain.accept = bundle => Transaction.from(bundle.txs[0]).maxPriorityFeePerGas! > parseUnits("1", "gwei");
+
+    const submitter = new FlashbotsBundleSubmitter(flashbots, provider, { blocksAhead: 2, maxRounds: 3 });
+    const outcome = await submitter.submit([{ signer, transaction }]);
+
+    expect(outcome).to.include({ status: 'INCLUDED', included: true, rounds: 2, submissions: 4 });
+    expect(outcome.blockNumber).to.equal(chain.includedBlock);
+
+    const landed = Transaction.from(chain.bundles[2].txs[0]);
+    expect(landed.maxPriorityFeePerGas).to.equal(parseUnits("1.15", "gwei"));
+    expect(landed.maxFeePerGas! >= FlashbotsBundleProvider.getMaxBaseFeeInFutureBlock(BASE_FEE, 2) + landed.maxPriorityFeePerGas!)
+      .to.equal(true);
+    expect(outcome.txHash).to.equal(landed.hash);
+    expect(outcome.gasUsed).to.equal(21_000n);
+    expect(outcome.gasCost).to.equal(21_000n * (BASE_FEE + parseUnits("1.15", "gwei")));
+  });
+
+  it("Should stop resubmitting once the signer's nonce is consumed elsewhere", async function () {
+    await setup(60);
+    // The same nonce goes out through the public mempool as soon as the bundle is sent
+    chain.onBundle = () => { chain.accountNonce = 6; };
+
+    const submitter = new FlashbotsBundleSubmitter(flashbots, provider, { blocksAhead: 3, maxRounds: 3 });
+    const outcome = await submitter.submit([{ signer, transaction }]);
+
+    expect(outcome).to.include({ status: 'NONCE_TOO_HIGH', included: false, rounds: 1, submissions: 3 });
+    expect(outcome.gasCost).to.equal(0n);
+    expect(chain.bundles).to.have.length(3);
+  });
+
+  it("Should leave nothing watching the chain once a round settles", async function () {
+    await setup(30);
+    // Lands in the first of three targets, so two targets are still ahead when submit returns
+    chain.accept = () => true;
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => { rejections.push(reason); };
+    process.on("unhandledRejection", onRejection);
+
+    try {
+      const submitter = new FlashbotsBundleSubmitter(flashbots, provider, { blocksAhead: 3, maxRounds: 1 });
+      const outcome = await submitter.submit([{ signer, transaction }]);
+      expect(outcome).to.include({ status: 'INCLUDED', rounds: 1, submissions: 3 });
+      expect(outcome.blockNumber).to.equal(chain.bundles[0].blockNumber);
+      expect(await provider.listenerCount("block")).to.equal(0);
+
+      // Blocks for the losing targets keep coming after the provider is gone
+      provider.destroy();
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(rejections).to.deep.equal([]);
+    } finally {
+      process.off("unhandledRejection", onRejection);
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AbiCoder, Interface, Provider } from "ethers";
+import { ChainlinkFeedRegistry, SequencerStatus } from "../utils/chainlink-feeds";
+import { MulticallBatcher } from "../utils/multicall";
+import { TradingHalt } from "../utils/trading-halt";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const WETH = "0x0000000000000000000000000000000000000e01";
+const USDC = "0x0000000000000000000000000000000000000e02";
+const WETH_FEED = "0x0000000000000000000000000000000000000f01";
+const USDC_FEED = "0x0000000000000000000000000000000000000f02";
+const SEQUENCER_FEED = "0x0000000000000000000000000000000000000f03";
+
+const FEED = new Interface([
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+]);
+
+interface Round {
+  answer: bigint;
+  startedAt: number; // s
+  updatedAt: number; // s
+}
+
+/**
+ * Chain stand-in without Multicall3 aggregation, serving the latest round of each feed
+ */
+class FeedProvider {
+  public rounds = new Map<string, Round>();
+
+  async call(tx: { to: string; data: string }): Promise<string> {
+    const round = this.rounds.get(tx.to.toLowerCase());
+    if (!round || !FEED.parseTransaction({ data: tx.data })) throw new Error("execution reverted");
+    return coder.encode(
+      ["uint80", "int256", "uint256", "uint256", "uint80"],
+      [7n, round.answer, round.startedAt, round.updatedAt, 7n]
+    );
+  }
+}
+
+describe("ChainlinkFeeds", function () {
+  let dir: string;
+  let chain: FeedProvider;
+  let feeds: ChainlinkFeedRegistry;
+  const start = 1_700_000_000;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "chainlink-feeds-"));
+    const file = path.join(dir, "chainlink-feeds.json");
+    fs.writeFileSync(file, JSON.stringify({
+      version: 1,
+      stalenessMarginSec: 60,
+      chains: {
+        "42161": {
+          sequencerUptimeFeed: { address: SEQUENCER_FEED, gracePeriodSec: 3600 },
+          feeds: [
+            { symbol: "WETH", token: WETH, quote: "USD", address: WETH_FEED, decimals: 8, heartbeatSec: 3600, deviationBps: 5 },
+            { symbol: "USDC", token: USDC, quote: "USD", address: USDC_FEED, decimals: 8, heartbeatSec: 86400, deviationBps: 10 }
+          ]
+        }
+      }
+    }));
+
+    chain = new FeedProvider();
+    chain.rounds.set(SEQUENCER_FEED, { answer: 0n, startedAt: start - 86400, updatedAt: start - 86400 });
+    chain.rounds.set(USDC_FEED, { answer: 100000000n, startedAt: start, updatedAt: start });
+    feeds = new ChainlinkFeedRegistry(new MulticallBatcher(new Map([[42161, chain as unknown as Provider]])), file);
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should refuse answers older than the feed's heartbeat plus the margin", async function () {
+    chain.rounds.set(WETH_FEED, { answer: 300012345678n, startedAt: start, updatedAt: start });
+
+    const reading = await feeds.read(42161, WETH.replace("e01", "E01"), "USD", start * 1000);
+    expect(reading).to.deep.include({ answer: 300012345678n, price: 3000.12345678, roundId: 7n, updatedAt: start * 1000 });
+    expect(reading!.feed.heartbeatSec).to.equal(3600);
+
+    // Within the margin past the heartbeat the answer still counts; beyond it the feed is stale
+    expect(await feeds.read(42161, WETH, "USD", (start + 3650) * 1000)).to.not.equal(null);
+    expect(await feeds.read(42161, WETH, "USD", (start + 3700) * 1000)).to.equal(null);
+    // The slower stablecoin feed is still within its own heartbeat
+    expect(await feeds.read(42161, USDC, "USD", (start + 3700) * 1000)).to.not.equal(null);
+
+    chain.rounds.set(WETH_FEED, { answer: 0n, startedAt: start, updatedAt: start });
+    expect(await feeds.read(42161, WETH, "USD", start * 1000)).to.equal(null);
+    expect(await feeds.read(42161, WETH, "ETH", start * 1000)).to.equal(null);
+    expect(await feeds.read(10, WETH, "USD", start * 1000)).to.equal(null);
+  });
+
+  it("Should hold trading while the sequencer is down and through the grace period without an acknowledgement", async function () {
+    const halt = new TradingHalt(null);
+    const statuses: SequencerStatus[] = [];
+    feeds.on("sequencer", (status: SequencerStatus) => {
+      statuses.push(status);
+      if (status.gated) halt.hold(`sequencer:${status.chainId}`, [status.reason!]);
+      else halt.release(`sequencer:${status.chainId}`);
+    });
+
+    expect(await feeds.read(42161, USDC, "USD", start * 1000)).to.not.equal(null);
+    expect(statuses).to.deep.equal([]);
+
+    // Down: prices are refused and trading is held
+    chain.rounds.set(SEQUENCER_FEED, { answer: 1n, startedAt: start + 10, updatedAt: start + 10 });
+    expect(await feeds.read(42161, USDC, "USD", (start + 20) * 1000)).to.equal(null);
+    expect(statuses.map(status => status.gated)).to.deep.equal([true]);
+    expect(statuses[0].reason).to.match(/down since/);
+    expect(halt.isHalted()).to.equal(true);
+    expect(halt.status().halted).to.equal(false);
+
+    // Back up, but within the grace period: still held
+    chain.rounds.set(SEQUENCER_FEED, { answer: 0n, startedAt: start + 600, updatedAt: start + 600 });
+    const recovering = await feeds.sequencerStatus(42161, (start + 700) * 1000);
+    expect(recovering).to.deep.include({ up: true, gated: true });
+    expect(statuses.map(status => status.gated)).to.deep.equal([true, true]);
+    expect(halt.summary()).to.match(/sequencer:42161: sequencer on chain 42161 recovered 100s ago/);
+
+    // The grace period over, the hold lifts by itself
+    expect(await feeds.read(42161, USDC, "USD", (start + 4300) * 1000)).to.not.equal(null);
+    expect(statuses.map(status => status.gated)).to.deep.equal([true, true, false]);
+    expect(halt.isHalted()).to.equal(false);
+    expect(halt.holds).to.deep.equal([]);
+
+    // An operator halt outlives a released hold
+    halt.trip("operator", ["investigating"]);
+    halt.hold("sequencer:42161", ["down"]);
+    halt.release("sequencer:42161");
+    expect(halt.isHalted()).to.equal(true);
+  });
+});
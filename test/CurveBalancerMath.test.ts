@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import {
+  CurveStableSwapMath,
+  BalancerWeightedMath,
+  BalancerStableMath,
+  LogExpMath
+} from "../utils/curve-balancer-math";
+import { EnhancedDEXManager } from "../utils/dex-routers";
+
+const E18 = 10n ** 18n;
+const E6 = 10n ** 6n;
+
+function relativeError(actual: number, expected: number): number {
+  return Math.abs(actual / expected - 1);
+}
+
+describe("Curve and Balancer pool math", function () {
+  describe("Curve StableSwap", function () {
+    const rates = CurveStableSwapMath.ratesFromDecimals([6, 6]);
+    const amp = 2000n * CurveStableSwapMath.A_PRECISION;
+    const fee = 4000000n; // 0.04%
+
+    it("Should quote close to 1:1 less the fee on a balanced pool", function () {
+      const balances = [50_000_000n * E6, 50_000_000n * E6];
+      const dy = CurveStableSwapMath.getDy(0, 1, 1000n * E6, balances, rates, amp, fee);
+
+      expect(dy).to.be.lessThan(1000n * E6 * 9996n / 10000n);
+      expect(dy).to.be.greaterThan(1000n * E6 * 9995n / 10000n);
+    });
+
+    it("Should keep the invariant when the fee is zero", function () {
+      const balances = [40_000_000n * E6, 55_000_000n * E6];
+      const dx = 5_000_000n * E6;
+      const dy = CurveStableSwapMath.getDy(0, 1, dx, balances, rates, amp, 0n);
+
+      const xpBefore = balances.map((b, k) => (b * rates[k]) / CurveStableSwapMath.PRECISION);
+      const xpAfter = [
+        ((balances[0] + dx) * rates[0]) / CurveStableSwapMath.PRECISION,
+        ((balances[1] - dy) * rates[1]) / CurveStableSwapMath.PRECISION
+      ];
+      const dBefore = CurveStableSwapMath.getD(xpBefore, amp);
+      const dAfter = CurveStableSwapMath.getD(xpAfter, amp);
+
+      // Rounding always favours the pool
+      expect(dAfter >= dBefore).to.equal(true);
+      expect(Number(dAfter - dBefore) / Number(dBefore)).to.be.lessThan(1e-12);
+    });
+
+    it("Should pay more for the scarcer coin", function () {
+      const balances = [30_000_000n * E6, 70_000_000n * E6];
+      const scarceOut = CurveStableSwapMath.getDy(1, 0, 1000n * E6, balances, rates, amp, fee);
+      const plentifulOut = CurveStableSwapMath.getDy(0, 1, 1000n * E6, balances, rates, amp, fee);
+
+      expect(plentifulOut > scarceOut).to.equal(true);
+    });
+  });
+
+  describe("Balancer LogExpMath", function () {
+    it("Should match floating point pow within 1e-14", function () {
+      const cases: [bigint, bigint][] = [
+        [2n * E18, E18 / 2n],
+        [(E18 * 95n) / 100n, 3n * E18],
+        [5n * E18, (E18 * 13n) / 10n],
+        [E18 / 3n, (E18 * 7n) / 3n]
+      ];
+
+      for (const [x, y] of cases) {
+        const expected = Math.pow(Number(x) / 1e18, Number(y) / 1e18);
+        expect(relativeError(Number(LogExpMath.pow(x, y)) / 1e18, expected)).to.be.lessThan(1e-14);
+      }
+    });
+  });
+
+  describe("Balancer weighted pools", function () {
+    it("Should match the closed-form 80/20 out-given-in", function () {
+      const amountOut = BalancerWeightedMath.calcOutGivenIn(
+        1000n * E18, (8n * E18) / 10n,
+        100n * E18, (2n * E18) / 10n,
+        10n * E18, (3n * E18) / 1000n
+      );
+      const expected = 100 * (1 - Math.pow(1000 / (1000 + 10 * 0.997), 4));
+
+      expect(relativeError(Number(amountOut) / 1e18, expected)).to.be.lessThan(1e-12);
+    });
+
+    it("Should scale tokens with fewer than 18 decimals", function () {
+      const amountOut = BalancerWeightedMath.calcOutGivenIn(
+        1000n * E18, E18 / 2n,
+        2_000_000n * E6, E18 / 2n,
+        E18, (3n * E18) / 1000n,
+        1n, 10n ** 12n
+      );
+      const expected = 2_000_000 * (1 - 1000 / (1000 + 0.997));
+
+      expect(relativeError(Number(amountOut) / 1e6, expected)).to.be.lessThan(1e-6);
+    });
+
+    it("Should reject swaps above the max in ratio", function () {
+      expect(() => BalancerWeightedMath.calcOutGivenIn(
+        100n * E18, E18 / 2n, 100n * E18, E18 / 2n, 50n * E18, 0n
+      )).to.throw();
+    });
+  });
+
+  describe("Balancer stable pools", function () {
+    it("Should quote near parity across mixed decimals", function () {
+      const amountOut = BalancerStableMath.calcOutGivenIn(
+        200n * BalancerStableMath.AMP_PRECISION,
+        [1_000_000n * E6, 1_000_000n * E18],
+        0, 1,
+        1000n * E6,
+        E18 / 10000n,
+        [10n ** 12n, 1n]
+      );
+
+      expect(Number(amountOut) / 1e18).to.be.within(999.8, 999.9);
+    });
+  });
+
+  describe("Curve slippage model", function () {
+    it("Should grow with trade size and stay below constant-product impact", function () {
+      const curve = EnhancedDEXManager.getAllRouters(42161).find(r => r.routerType === 'CURVE')!;
+      const depth = 100_000_000n * E18;
+
+      const small = EnhancedDEXManager.calculateExpectedSlippage(curve, 10_000n * E18, depth);
+      const large = EnhancedDEXManager.calculateExpectedSlippage(curve, 10_000_000n * E18, depth);
+      const constantProduct = 10_000_000 / (50_000_000 + 10_000_000);
+
+      expect(large).to.be.greaterThan(small);
+      expect(large).to.be.lessThan(constantProduct);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { expect } from "chai";
+import {
+  Interface,
+  JsonRpcProvider,
+  Provider,
+  Transaction,
+  Wallet,
+  ZeroAddress,
+  concat,
+  getBytes,
+  id,
+  parseUnits,
+  toBeHex,
+  verifyMessage,
+  verifyTypedData,
+  zeroPadValue
+} from "ethers";
+import { PrivateRpcChannel, SequencerChannel, TimeboostChannel } from "../utils/execution-channels";
+import { JsonRpcStandIn, mockReceipt } from "./utils/jsonRpcStandIn";
+
+const BASE_FEE = parseUnits("0.01", "gwei");
+const AUCTION = "0x0000000000000000000000000000000000000a0c";
+const RIVAL = "0x0000000000000000000000000000000000000b0b";
+
+const AUCTION_ABI = new Interface([
+  "function roundTimingInfo() view returns (int64 offsetTimestamp, uint64 roundDurationSeconds, uint64 auctionClosingSeconds, uint64 reserveSubmissionSeconds)",
+  "function resolvedRounds() view returns (tuple(address expressLaneController, uint64 round), tuple(address expressLaneController, uint64 round))"
+]);
+
+/**
+ * Arbitrum stand-in: the sequencer mines every transaction it accepts into the next block,
+ * the private endpoint drops what it is given, and each eth_blockNumber read advances the chain
+ */
+class MockRollup {
+  public rpc = new JsonRpcStandIn();
+  public blockNumber = 500;
+  public accountNonce = 5;
+  public revert = false;
+  public laneController = RIVAL;
+  public roundOffset = Math.floor(Date.now() / 1000) - 5; // Round 0 started five seconds ago
+
+  private receipts = new Map<string, any>();
+
+  constructor() {
+    this.rpc
+      .handle("eth_chainId", () => toBeHex(42161))
+      .handle("eth_blockNumber", () => toBeHex(this.blockNumber++))
+      .handle("eth_getTransactionCount", () => toBeHex(this.accountNonce))
+      .handle("eth_getTransactionReceipt", ([hash]) => this.receipts.get(hash) || null)
+      .handle("eth_sendRawTransaction", ([raw]) => this.mine(raw))
+      .handle("eth_sendPrivateTransaction", () => "0x")
+      .handle("timeboost_sendExpressLaneTransaction", ([submission]) => {
+        this.mine(submission.transaction);
+        return null;
+      })
+      .handle("auctioneer_submitBid", () => null)
+      .handle("eth_call", ([{ data }]) => {
+        const call = AUCTION_ABI.parseTransaction({ data })!;
+        return call.name === "roundTimingInfo"
+          ? AUCTION_ABI.encodeFunctionResult(call.fragment, [this.roundOffset, 60, 15, 15])
+          : AUCTION_ABI.encodeFunctionResult(call.fragment, [[this.laneController, 0], [ZeroAddress, 0]]);
+      });
+  }
+
+  private mine(raw: string): string {
+    const receipt = mockReceipt(raw, this.blockNumber + 1, 0, BASE_FEE, this.revert ? 0 : 1);
+    this.receipts.set(receipt.transactionHash, receipt);
+    this.accountNonce++;
+    return receipt.transactionHash;
+  }
+}
+
+describe("ExecutionChannels", function () {
+  this.timeout(20_000);
+
+  let rollup: MockRollup;
+  let provider: Provider;
+  const signer = new Wallet("0x" + "22".repeat(32));
+
+  const arbitrage = (nonce: number) => ({
+    signer,
+    transaction: {
+      to: "0x0000000000000000000000000000000000000a11",
+      data: "0x1234",
+      nonce,
+      gasLimit: 300_000n,
+      chainId: 42161n,
+      type: 2,
+      maxFeePerGas: parseUnits("0.1", "gwei"),
+      maxPriorityFeePerGas: parseUnits("0.01", "gwei")
+    }
+  });
+
+  beforeEach(async function () {
+    rollup = new MockRollup();
+    const url = await rollup.rpc.start();
+    provider = new JsonRpcProvider(url, 42161, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1 });
+  });
+
+  afterEach(async function () {
+    provider.destroy();
+    await rollup.rpc.stop();
+  });
+
+  it("Should send raw transactions to the sequencer and report realized gas", async function () {
+    const channel = new SequencerChannel(provider as any, provider, { pollIntervalMs: 1 });
+    const outcome = await channel.submit([arbitrage(5)]);
+
+    const [[raw]] = rollup.rpc.callsTo("eth_sendRawTransaction");
+    expect(outcome).to.include({ status: 'INCLUDED', included: true, submissions: 1, txHash: Transaction.from(raw).hash });
+    expect(outcome.gasCost).to.equal(300_000n * (BASE_FEE + parseUnits("0.01", "gwei")));
+
+    // Published transactions can land and revert, and still pay for gas
+    rollup.revert = true;
+    const reverted = await channel.submit([arbitrage(6)]);
+    expect(reverted).to.include({ status: 'REVERTED', included: false });
+    expect(reverted.gasCost > 0n).to.equal(true);
+
+    // The sequencer never drops what it accepted, so a transaction still unmined at the deadline is left open
+    rollup.rpc.handle("eth_sendRawTransaction", ([raw]) => Transaction.from(raw).hash);
+    const unmined = await new SequencerChannel(provider as any, provider, { maxBlocks: 3, pollIntervalMs: 1 }).submit([arbitrage(7)]);
+    expect(unmined).to.include({ status: 'PENDING_UNKNOWN', included: false, submissions: 1 });
+  });
+
+  it("Should bound private submissions by block and tell a dropped transaction from a spent nonce", async function () {
+    const channel = new PrivateRpcChannel(provider as any, provider, { maxBlocks: 3, pollIntervalMs: 1 });
+    const dropped = await channel.submit([arbitrage(5)]);
+
+    const [[{ tx, maxBlockNumber }]] = rollup.rpc.callsTo("eth_sendPrivateTransaction");
+    expect(Transaction.from(tx).nonce).to.equal(5);
+    expect(Number(maxBlockNumber)).to.equal(503);
+    expect(dropped).to.include({ status: 'NOT_INCLUDED', included: false, submissions: 1 });
+    expect(dropped.gasCost).to.equal(0n);
+
+    rollup.rpc.handle("eth_sendPrivateTransaction", () => { throw new Error("nonce too low"); });
+    expect(await channel.submit([arbitrage(5)])).to.include({ status: 'NONCE_TOO_HIGH', submissions: 0 });
+  });
+
+  it("Should bid for the next round and fall back to the sequencer queue without the express lane", async function () {
+    const channel = new TimeboostChannel(provider as any, provider as any, provider, signer, {
+      chainId: 42161,
+      auctionContract: AUCTION,
+      bidAmount: parseUnits("0.001", "ether"),
+      pollIntervalMs: 1
+    });
+
+    expect(await channel.submit([arbitrage(5)])).to.include({ status: 'INCLUDED' });
+    expect(rollup.rpc.callsTo("eth_sendRawTransaction")).to.have.length(1);
+    expect(rollup.rpc.callsTo("timeboost_sendExpressLaneTransaction")).to.have.length(0);
+
+    const [[bid]] = rollup.rpc.callsTo("auctioneer_submitBid");
+    expect(bid).to.include({ round: "0x01", expressLaneController: signer.address });
+    const recovered = verifyTypedData(
+      { name: "ExpressLaneAuction", version: "1", chainId: 42161, verifyingContract: AUCTION },
+      { Bid: [{ name: "round", type: "uint64" }, { name: "expressLaneController", type: "address" }, { name: "amount", type: "uint256" }] },
+      { round: 1n, expressLaneController: signer.address, amount: parseUnits("0.001", "ether") },
+      bid.signature
+    );
+    expect(recovered).to.equal(signer.address);
+
+    // One bid per round
+    await channel.submit([arbitrage(6)]);
+    expect(rollup.rpc.callsTo("auctioneer_submitBid")).to.have.length(1);
+  });
+
+  it("Should sign express lane submissions with gapless sequence numbers while holding the lane", async function () {
+    rollup.laneController = signer.address;
+    const channel = new TimeboostChannel(provider as any, null, provider, signer, {
+      chainId: 42161,
+      auctionContract: AUCTION,
+      pollIntervalMs: 1
+    });
+
+    expect(await channel.submit([arbitrage(5)])).to.include({ status: 'INCLUDED' });
+    expect(await channel.submit([arbitrage(6)])).to.include({ status: 'INCLUDED' });
+    expect(rollup.rpc.callsTo("eth_sendRawTransaction")).to.have.length(0);
+
+    const submissions = rollup.rpc.callsTo("timeboost_sendExpressLaneTransaction").map(([submission]) => submission);
+    expect(submissions.map(submission => submission.sequenceNumber)).to.deep.equal(["0x00", "0x01"]);
+    for (const submission of submissions) {
+      const message = concat([
+        id("TIMEBOOST_BID"),
+        zeroPadValue(toBeHex(42161), 32),
+        AUCTION,
+        zeroPadValue(submission.round, 8),
+        zeroPadValue(submission.sequenceNumber, 8),
+        submission.transaction
+      ]);
+      expect(verifyMessage(getBytes(message), submission.signature)).to.equal(signer.address);
+    }
+  });
+});
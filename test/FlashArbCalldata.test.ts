@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { Interface } from "ethers";
+import artifact from "../artifacts/contracts/FlashArbBotBalancer.sol/FlashArbBotBalancer.json";
+import { FlashArbBotFactory } from "../utils/flash-arb-bot";
+import { FlashArbCalldataBuilder } from "../utils/flash-arb-calldata";
+
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const ARB = "0x912CE59144191C1204E64559FE8253a0e49E6548";
+const WBTC = "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f";
+const BOT = "0x0000000000000000000000000000000000000b07";
+
+describe("FlashArbBotBalancer bindings", function () {
+  const compiled = new Interface(artifact.abi);
+
+  it("Should match the compiled artifact", function () {
+    expect(FlashArbBotFactory.abi).to.deep.equal(artifact.abi);
+
+    const bound = FlashArbBotFactory.createInterface();
+    for (const method of ["executeArb", "executeTriangularArb", "executeBatchArbitrage", "simulateArbitrage", "setAuthorizedCaller", "pause"]) {
+      expect(bound.getFunction(method)!.format("full")).to.equal(compiled.getFunction(method)!.format("full"));
+    }
+  });
+
+  it("Should build executeArb arguments from a round trip and encode them for the contract", function () {
+    const call = FlashArbCalldataBuilder.build({
+      asset: WETH.toLowerCase(),
+      amountIn: "1000000000000000000",
+      path: [WETH, USDC, WETH],
+      minProfit: 5_000_000_000_000_000n,
+      sushiFirst: true
+    });
+
+    expect(call.method).to.equal("executeArb");
+    // The contract swaps back along the reverse of the outbound leg
+    expect(call.args).to.deep.equal([WETH, 10n ** 18n, [WETH, USDC], true, 5_000_000_000_000_000n]);
+
+    const decoded = compiled.decodeFunctionData("executeArb", FlashArbCalldataBuilder.encode(call));
+    expect(decoded.asset).to.equal(WETH);
+    expect(decoded.path).to.deep.equal([WETH, USDC]);
+    expect(decoded.expectedProfit).to.equal(5_000_000_000_000_000n);
+  });
+
+  it("Should close triangular routes back to the asset", function () {
+    const call = FlashArbCalldataBuilder.build({ asset: USDC, amountIn: 5_000_000n, path: [USDC, WETH, ARB], minProfit: 1n, sushiFirst: false });
+
+    expect(call.method).to.equal("executeTriangularArb");
+    const decoded = compiled.decodeFunctionData("executeTriangularArb", FlashArbCalldataBuilder.encode(call));
+    expect(decoded.path).to.deep.equal([USDC, WETH, ARB, USDC]);
+    expect(decoded.amount).to.equal(5_000_000n);
+  });
+
+  it("Should reject arguments the contract would revert on", function () {
+    const valid = { asset: WETH, amountIn: 10n ** 18n, path: [WETH, USDC, WETH], minProfit: 1n, sushiFirst: false };
+    const cases: [Partial<typeof valid>, RegExp][] = [
+      [{ path: [USDC, WETH, USDC] }, /not the flash-loaned asset/],
+      [{ amountIn: 0n }, /amountIn out of range/],
+      [{ minProfit: 0n }, /minProfit out of range/],
+      [{ path: [WETH, USDC, ARB, WBTC, WETH] }, /got 4 hops/],
+      [{ path: [WETH, WETH, USDC] }, /repeated token/],
+      [{ path: [WETH, "0x1234", WETH] }, /path\[1\] is not an address/],
+      [{ asset: "0x0000000000000000000000000000000000000000", path: ["0x0000000000000000000000000000000000000000", USDC] }, /zero address/]
+    ];
+
+    for (const [override, message] of cases) {
+      expect(() => FlashArbCalldataBuilder.build({ ...valid, ...override })).to.throw(message);
+    }
+  });
+
+  it("Should decode the bot's execution events and skip foreign logs", function () {
+    const event = compiled.getEvent("ArbitrageExecuted")!;
+    const { data, topics } = compiled.encodeEventLog(event, [WETH, 10n ** 18n, 3n * 10n ** 15n, true]);
+
+    const events = FlashArbBotFactory.parseLogs([
+      { address: BOT, topics, data } as any,
+      { address: USDC, topics, data } as any
+    ], BOT);
+
+    expect(events).to.deep.equal([
+      { name: "ArbitrageExecuted", asset: WETH, amount: 10n ** 18n, profit: 3n * 10n ** 15n, sushiFirst: true }
+    ]);
+  });
+
+  it("Should decode every execution and profit wallet event and skip the bot's other events", function () {
+    const WALLET = "0x0000000000000000000000000000000000000c01";
+    const log = (name: string, values: unknown[]) => {
+      const { data, topics } = compiled.encodeEventLog(compiled.getEvent(name)!, values);
+      return { address: BOT, topics, data } as any;
+    };
+
+    const events = FlashArbBotFactory.parseLogs([
+      log("TriangularArbitrageExecuted", [USDC, WETH, ARB, 5_000_000n, 20_000n]),
+      log("RouteArbitrageExecuted", [WETH, 10n ** 18n, 4n * 10n ** 15n, 3n]),
+      log("BatchArbitrageExecuted", [2n, 7n * 10n ** 15n]),
+      log("GasFundingTransfer", [WETH, 10n ** 14n, WALLET]),
+      log("ProfitWithdrawn", [USDC, 1_000_000n]),
+      log("EmergencyWithdrawn", [WETH, 2n * 10n ** 18n]),
+      log("ProfitWalletUpdated", [BOT, WALLET]),
+      log("RouteTargetUpdated", [USDC, true]),
+      log("Paused", [WALLET])
+    ], BOT);
+
+    expect(events).to.deep.equal([
+      { name: "TriangularArbitrageExecuted", tokenA: USDC, tokenB: WETH, tokenC: ARB, amount: 5_000_000n, profit: 20_000n },
+      { name: "RouteArbitrageExecuted", asset: WETH, amount: 10n ** 18n, profit: 4n * 10n ** 15n, hops: 3n },
+      { name: "BatchArbitrageExecuted", tradesCount: 2n, totalProfit: 7n * 10n ** 15n },
+      { name: "GasFundingTransfer", token: WETH, amount: 10n ** 14n, gasFundingWallet: WALLET },
+      { name: "ProfitWithdrawn", token: USDC, amount: 1_000_000n },
+      { name: "EmergencyWithdrawn", token: WETH, amount: 2n * 10n ** 18n },
+      { name: "ProfitWalletUpdated", oldWallet: BOT, newWallet: WALLET }
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { parseEther } from "ethers";
+import "@nomicfoundation/hardhat-chai-matchers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Alert } from "../monitoring/production-monitor";
+import { KillSwitchWatchdog, WatchdogPause } from "../utils/kill-switch-watchdog";
+
+describe("KillSwitchWatchdog", function () {
+  let bot: any;
+  let weth: any;
+  let owner: any;
+  let executor: any;
+  let guardian: any;
+  let stranger: any;
+  let alerts: Alert[];
+  let dir: string;
+  let heartbeatPath: string;
+  let watchdog: KillSwitchWatchdog;
+
+  beforeEach(async function () {
+    [owner, executor, guardian, stranger] = await ethers.getSigners();
+    weth = await (await ethers.getContractFactory("MockERC20")).deploy("Wrapped Ether", "WETH", 18);
+    const vault = await (await ethers.getContractFactory("MockBalancerVault")).deploy();
+    const router = await (await ethers.getContractFactory("MockUniswapV2Router")).deploy();
+    bot = await (await ethers.getContractFactory("FlashArbBotBalancer")).deploy(
+      await vault.getAddress(),
+      await router.getAddress(),
+      await router.getAddress(),
+      ethers.ZeroAddress
+    );
+    await bot.setAuthorizedCaller(executor.address, true);
+    await bot.setPauseGuardian(guardian.address, true);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "kill-switch-"));
+    heartbeatPath = path.join(dir, "bot-heartbeat.json");
+    alerts = [];
+    watchdog = new KillSwitchWatchdog(31337, ethers.provider, guardian, await bot.getAddress(), executor.address,
+      { sendAlert: async (alert: Alert) => { alerts.push(alert); } },
+      { tokens: [await weth.getAddress()], maxReverts: 3, heartbeatPath, maxHeartbeatAgeMs: 60000 });
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Triggers of the anomalies one action causes; the owner unpauses afterwards
+  const triggersOf = async (action: () => Promise<unknown>): Promise<string[]> => {
+    await watchdog.check();
+    await action();
+    const anomalies = await watchdog.check();
+    if (await bot.paused()) await bot.unpause();
+    return anomalies.map(anomaly => anomaly.trigger);
+  };
+
+  it("Should pause from the guardian key when the profit wallet changes and leave unpausing to the owner", async function () {
+    const paused: WatchdogPause[] = [];
+    watchdog.on("paused", (pause: WatchdogPause) => paused.push(pause));
+
+    expect(await watchdog.check()).to.deep.equal([]);
+    await bot.setProfitWallet(stranger.address);
+    const anomalies = await watchdog.check();
+
+    expect(anomalies.map(anomaly => anomaly.trigger)).to.deep.equal(["profit-wallet"]);
+    expect(await bot.paused()).to.equal(true);
+    expect(paused[0].txHash).to.match(/^0x/);
+    expect(alerts.map(alert => alert.title)).to.deep.equal([
+      "Kill switch: pausing bot contract on chain 31337",
+      "Bot contract paused on chain 31337"
+    ]);
+    expect(alerts[0].message).to.include(`Profit wallet changed from ${owner.address} to ${stranger.address}`);
+
+    // Nothing more is raised while paused, and the guardian cannot resume
+    expect(await watchdog.check()).to.deep.equal([]);
+    await expect(bot.connect(guardian).unpause()).to.be.revertedWith("Ownable: caller is not the owner");
+    await expect(bot.connect(stranger).pause()).to.be.revertedWith("Not guardian");
+  });
+
+  it("Should pause on unexplained outflows, repeated reverts and a stale heartbeat", async function () {
+    const botAddress = await bot.getAddress();
+    await weth.mint(botAddress, parseEther("2"));
+
+    // Withdrawals the contract reports are expected, emergency ones included; a balance that just vanishes is not
+    expect(await triggersOf(() => bot.withdraw(weth.getAddress()))).to.deep.equal([]);
+    await weth.mint(botAddress, parseEther("2"));
+    expect(await triggersOf(() => bot.emergencyWithdraw(weth.getAddress()))).to.deep.equal([]);
+    await ethers.provider.send("hardhat_setBalance", [botAddress, "0x1bc16d674ec80000"]);
+    await ethers.provider.send("evm_mine", []);
+    expect(await triggersOf(async () => {
+      await ethers.provider.send("hardhat_setBalance", [botAddress, "0x0"]);
+      await ethers.provider.send("evm_mine", []);
+    })).to.deep.equal(["outflow"]);
+    expect(alerts[0].message).to.include(`Bot contract lost ${parseEther("2")} base units of ETH`);
+
+    expect(await triggersOf(() => executor.sendTransaction({ to: stranger.address, value: parseEther("1") }))).to.deep.equal(["outflow"]);
+
+    // Executor transactions elsewhere use nonces but are not executions
+    const transfer = () => executor.sendTransaction({ to: stranger.address, value: 0 });
+    expect(await triggersOf(async () => { await transfer(); await transfer(); await transfer(); })).to.deep.equal([]);
+
+    // Executor transactions to the bot that fail; Hardhat mines them and then throws
+    const revert = () => executor.sendTransaction({ to: botAddress, data: "0xdeadbeef", gasLimit: 100000 }).catch(() => undefined);
+    expect(await triggersOf(async () => { await revert(); await revert(); })).to.deep.equal([]);
+    expect(await triggersOf(revert)).to.deep.equal(["reverts"]);
+
+    fs.writeFileSync(heartbeatPath, JSON.stringify({ version: 1, pid: 1, timestamp: Date.now() - 90000 }));
+    expect((await watchdog.check()).map(anomaly => anomaly.trigger)).to.deep.equal(["heartbeat"]);
+    expect(await bot.paused()).to.equal(true);
+    await bot.unpause();
+    // A bot that shut down cleanly is not hung
+    fs.writeFileSync(heartbeatPath, JSON.stringify({ version: 1, pid: 1, timestamp: Date.now() - 90000, stopped: true }));
+    expect(await watchdog.check()).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,234 @@
+import { expect } from "chai";
+import { AbiCoder, Interface, Provider, id } from "ethers";
+import { MulticallBatcher } from "../utils/multicall";
+import { PoolStateReader } from "../utils/pool-state";
+import { DEXRouter } from "../utils/dex-routers";
+
+const ERC20_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+const MULTICALL3 = new Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+]);
+const ERC20 = new Interface(ERC20_ABI);
+const coder = AbiCoder.defaultAbiCoder();
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const REVERTING = "0x00000000000000000000000000000000000000bb";
+const HOLDER = "0x00000000000000000000000000000000000000cc";
+
+type Handler = (callData: string, blockTag: any) => string;
+
+/**
+ * Minimal stand-in for a node with Multicall3 deployed: answers eth_call from per-address handlers
+ */
+class StubProvider {
+  public requests: Array<{ to: string; blockTag: any; calls: number }> = [];
+  public multicallAvailable = true;
+  private handlers = new Map<string, Handler>();
+
+  setHandler(address: string, handler: Handler): void {
+    this.handlers.set(address.toLowerCase(), handler);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return 100;
+  }
+
+  async call(tx: { to: string; data: string; blockTag?: any }): Promise<string> {
+    if (tx.to.toLowerCase() === MulticallBatcher.MULTICALL3_ADDRESS.toLowerCase()) {
+      if (!this.multicallAvailable) throw new Error("execution reverted");
+      const [calls] = MULTICALL3.decodeFunctionData("aggregate3", tx.data);
+      this.requests.push({ to: tx.to, blockTag: tx.blockTag, calls: calls.length });
+      const results = calls.map((call: any) => {
+        try {
+          return [true, this.execute(call.target, call.callData, tx.blockTag)];
+        } catch (error) {
+          return [false, "0x"];
+        }
+      });
+      return MULTICALL3.encodeFunctionResult("aggregate3", [results]);
+    }
+
+    this.requests.push({ to: tx.to, blockTag: tx.blockTag, calls: 1 });
+    return this.execute(tx.to, tx.data, tx.blockTag);
+  }
+
+  private execute(target: string, callData: string, blockTag: any): string {
+    const handler = this.handlers.get(target.toLowerCase());
+    if (!handler) throw new Error("execution reverted");
+    return handler(callData, blockTag);
+  }
+}
+
+function setupBatcher(maxCallsPerBatch?: number) {
+  const stub = new StubProvider();
+  stub.setHandler(TOKEN, (callData) => {
+    const [owner] = ERC20.decodeFunctionData("balanceOf", callData);
+    return ERC20.encodeFunctionResult("balanceOf", [BigInt(owner)]);
+  });
+  stub.setHandler(REVERTING, () => {
+    throw new Error("execution reverted");
+  });
+
+  const providers = new Map<number, Provider>([[42161, stub as unknown as Provider]]);
+  const batcher = new MulticallBatcher(providers, maxCallsPerBatch ? { maxCallsPerBatch } : {});
+  return { stub, batcher };
+}
+
+function holder(n: number): string {
+  return "0x" + n.toString(16).padStart(40, "0");
+}
+
+describe("MulticallBatcher", function () {
+  it("Should fold concurrent reads into a single aggregate3 call", async function () {
+    const { stub, batcher } = setupBatcher();
+
+    const balances = await Promise.all(
+      [1, 2, 3, 4, 5].map(n => batcher.call(42161, TOKEN, ERC20_ABI, "balanceOf", [holder(n)], 100))
+    );
+
+    expect(balances.map(result => result[0])).to.deep.equal([1n, 2n, 3n, 4n, 5n]);
+    expect(stub.requests).to.have.length(1);
+    expect(stub.requests[0]).to.include({ calls: 5, blockTag: 100 });
+  });
+
+  it("Should fail only the reverting call in a batch", async function () {
+    const { stub, batcher } = setupBatcher();
+
+    const [ok, failed, tolerant] = await Promise.allSettled([
+      batcher.call(42161, TOKEN, ERC20_ABI, "balanceOf", [HOLDER]),
+      batcher.call(42161, REVERTING, ERC20_ABI, "balanceOf", [HOLDER]),
+      batcher.tryCall(42161, REVERTING, ERC20_ABI, "balanceOf", [HOLDER])
+    ]);
+
+    expect(ok.status).to.equal("fulfilled");
+    expect(failed.status).to.equal("rejected");
+    expect((failed as PromiseRejectedResult).reason.code).to.equal("CALL_EXCEPTION");
+    expect(tolerant).to.deep.equal({ status: "fulfilled", value: null });
+    expect(stub.requests).to.have.length(1);
+  });
+
+  it("Should chunk large batches and keep results in order", async function () {
+    const { stub, batcher } = setupBatcher(2);
+
+    const balances = await Promise.all(
+      [1, 2, 3, 4, 5].map(n => batcher.call(42161, TOKEN, ERC20_ABI, "balanceOf", [holder(n)]))
+    );
+
+    expect(balances.map(result => result[0])).to.deep.equal([1n, 2n, 3n, 4n, 5n]);
+    expect(stub.requests.map(request => request.calls)).to.deep.equal([2, 2, 1]);
+  });
+
+  it("Should batch separately per block and send duplicate reads once", async function () {
+    const { stub, batcher } = setupBatcher();
+
+    await Promise.all([
+      batcher.call(42161, TOKEN, ERC20_ABI, "balanceOf", [HOLDER], 100),
+      batcher.call(42161, TOKEN, ERC20_ABI, "balanceOf", [HOLDER], 100),
+      batcher.call(42161, TOKEN, ERC20_ABI, "balanceOf", [HOLDER], 101)
+    ]);
+
+    expect(stub.requests.map(request => [request.blockTag, request.calls])).to.deep.equal([[100, 1], [101, 1]]);
+    expect(batcher.getStats().dedupedCalls).to.equal(1);
+  });
+
+  it("Should fall back to individual eth_calls when aggregate3 is unavailable", async function () {
+    const { stub, batcher } = setupBatcher();
+    stub.multicallAvailable = false;
+
+    const [ok, failed] = await Promise.all([
+      batcher.tryCall(42161, TOKEN, ERC20_ABI, "balanceOf", [HOLDER]),
+      batcher.tryCall(42161, REVERTING, ERC20_ABI, "balanceOf", [HOLDER])
+    ]);
+
+    expect(ok![0]).to.equal(BigInt(HOLDER));
+    expect(failed).to.equal(null);
+    expect(batcher.getStats().fallbackRequests).to.equal(2);
+  });
+});
+
+describe("PoolStateReader batching", function () {
+  const ROUTER = "0x0000000000000000000000000000000000000a01";
+  const FACTORY = "0x0000000000000000000000000000000000000f01";
+  const PAIR = "0x0000000000000000000000000000000000000b01";
+  const TOKEN0 = "0x0000000000000000000000000000000000000c01";
+  const TOKEN1 = "0x0000000000000000000000000000000000000c02";
+
+  const router: DEXRouter = {
+    name: "Stub V2",
+    address: ROUTER,
+    chainId: 42161,
+    routerType: "UNISWAP_V2",
+    feeStructure: "0.3%",
+    gasLimit: 150000n,
+    liquidityScore: 5
+  };
+
+  it("Should read a known pair's state for a new block in one round trip", async function () {
+    const stub = new StubProvider();
+    stub.setHandler(ROUTER, () => coder.encode(["address"], [FACTORY]));
+    stub.setHandler(FACTORY, () => coder.encode(["address"], [PAIR]));
+    stub.setHandler(PAIR, (callData, blockTag) => {
+      const selector = callData.slice(0, 10);
+      const pair = new Interface([
+        "function token0() view returns (address)",
+        "function token1() view returns (address)",
+        "function getReserves() view returns (uint112, uint112, uint32)"
+      ]);
+      if (selector === pair.getFunction("token0")!.selector) return coder.encode(["address"], [TOKEN0]);
+      if (selector === pair.getFunction("token1")!.selector) return coder.encode(["address"], [TOKEN1]);
+      return coder.encode(["uint112", "uint112", "uint32"], [1000n * BigInt(blockTag), 2000n, 0]);
+    });
+
+    const providers = new Map<number, Provider>([[42161, stub as unknown as Provider]]);
+    const reader = new PoolStateReader(providers, new MulticallBatcher(providers));
+
+    const first = await reader.getPoolState(TOKEN0, TOKEN1, router, 100);
+    const requestsAfterFirst = stub.requests.length;
+
+    // Both directions of the pair at the next block resolve from one aggregate3 call
+    const [forward, backward] = await Promise.all([
+      reader.getPoolState(TOKEN0, TOKEN1, router, 101),
+      reader.getPoolState(TOKEN1, TOKEN0, router, 101)
+    ]);
+
+    expect(first).to.include({ kind: "UNISWAP_V2", reserve0: 100000n, reserve1: 2000n });
+    expect(forward).to.include({ reserve0: 101000n });
+    expect(forward!.address.toLowerCase()).to.equal(PAIR);
+    expect(backward).to.equal(forward);
+    expect(stub.requests.length - requestsAfterFirst).to.equal(1);
+    expect(stub.requests[stub.requests.length - 1].calls).to.equal(3);
+  });
+
+  it("Should prune cached state per chain, since block heights differ between chains", async function () {
+    const pairStub = () => {
+      const stub = new StubProvider();
+      stub.setHandler(ROUTER, () => coder.encode(["address"], [FACTORY]));
+      stub.setHandler(FACTORY, () => coder.encode(["address"], [PAIR]));
+      stub.setHandler(PAIR, callData => {
+        const selector = callData.slice(0, 10);
+        if (selector === id("token0()").slice(0, 10)) return coder.encode(["address"], [TOKEN0]);
+        if (selector === id("token1()").slice(0, 10)) return coder.encode(["address"], [TOKEN1]);
+        return coder.encode(["uint112", "uint112", "uint32"], [1000n, 2000n, 0]);
+      });
+      return stub;
+    };
+    const [arbitrum, optimism] = [pairStub(), pairStub()];
+    const providers = new Map<number, Provider>([
+      [42161, arbitrum as unknown as Provider],
+      [10, optimism as unknown as Provider]
+    ]);
+    const reader = new PoolStateReader(providers, new MulticallBatcher(providers));
+    const optimismRouter: DEXRouter = { ...router, chainId: 10 };
+
+    // Arbitrum is millions of blocks ahead of Optimism
+    await reader.getPoolState(TOKEN0, TOKEN1, router, 200_000_000);
+    await reader.getPoolState(TOKEN0, TOKEN1, optimismRouter, 120_000_000);
+    reader.pruneBefore(42161, 200_000_001);
+
+    const [arbitrumRequests, optimismRequests] = [arbitrum.requests.length, optimism.requests.length];
+    await reader.getPoolState(TOKEN0, TOKEN1, optimismRouter, 120_000_000);
+    expect(optimism.requests.length).to.equal(optimismRequests);
+    await reader.getPoolState(TOKEN0, TOKEN1, router, 200_000_000);
+    expect(arbitrum.requests.length).to.be.greaterThan(arbitrumRequests);
+  });
+});
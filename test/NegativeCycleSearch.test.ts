@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { CycleEdge, NegativeCycleDetector } from "../utils/negative-cycle-search";
+import { buildSyntheticGraph } from "../scripts/benchmark-cycle-search";
+
+const WETH = "0x0000000000000000000000000000000000000e01";
+const USDC = "0x0000000000000000000000000000000000000e02";
+const ARB = "0x0000000000000000000000000000000000000e03";
+const GMX = "0x0000000000000000000000000000000000000e04";
+const DAI = "0x0000000000000000000000000000000000000e05";
+
+const DEPTH = 10n ** 24n;
+
+function edge(from: string, to: string, rate: number, pool: string, liquidityDepth: bigint = DEPTH): CycleEdge {
+  return { from, to, pool, rate, weight: -Math.log(rate), liquidityDepth };
+}
+
+function graphOf(edges: CycleEdge[]): Map<string, CycleEdge[]> {
+  const graph = new Map<string, CycleEdge[]>();
+  for (const e of edges) {
+    if (!graph.has(e.from)) graph.set(e.from, []);
+    graph.get(e.from)!.push(e);
+  }
+  return graph;
+}
+
+// Fairly priced WETH/USDC/ARB market with a 0.3% fee on every hop; ARB only sells into WETH directly
+function fairMarket(): CycleEdge[] {
+  return [
+    edge(WETH, USDC, 2000 * 0.997, "weth-usdc"),
+    edge(USDC, WETH, (1 / 2000) * 0.997, "weth-usdc"),
+    edge(USDC, ARB, 2 * 0.997, "usdc-arb"),
+    edge(ARB, USDC, 0.5 * 0.997, "usdc-arb"),
+    edge(ARB, WETH, (1 / 4000) * 0.997, "arb-weth")
+  ];
+}
+
+describe("NegativeCycleDetector", function () {
+  it("Should find nothing in a fairly priced market", function () {
+    expect(NegativeCycleDetector.findCycles(graphOf(fairMarket()))).to.deep.equal([]);
+  });
+
+  it("Should find a mispriced triangle with its pool sequence", function () {
+    // ARB trades 2% rich against WETH on one venue
+    const edges = [...fairMarket(), edge(ARB, WETH, (1 / 4000) * 1.02 * 0.997, "arb-weth-cheap")];
+
+    const cycles = NegativeCycleDetector.findCycles(graphOf(edges), { sources: [WETH] });
+
+    expect(cycles).to.have.length(1);
+    expect(cycles[0].tokens).to.deep.equal([WETH, USDC, ARB, WETH]);
+    expect(cycles[0].edges.map(e => e.pool)).to.deep.equal(["weth-usdc", "usdc-arb", "arb-weth-cheap"]);
+    expect(cycles[0].profitMargin).to.be.closeTo(1.02 * 0.997 ** 3 - 1, 1e-9);
+  });
+
+  it("Should report a cycle once when it is reachable from several sources", function () {
+    const edges = [...fairMarket(), edge(ARB, WETH, (1 / 4000) * 1.02 * 0.997, "arb-weth-cheap")];
+
+    const cycles = NegativeCycleDetector.findCycles(graphOf(edges));
+
+    expect(cycles).to.have.length(1);
+  });
+
+  it("Should find both of two cycles that reach the same token on the same hop", function () {
+    // DAI mirrors USDC slightly worse, so WETH -> USDC -> ARB is the lightest two-hop walk to ARB;
+    // both triangles close through the rich ARB -> WETH pool
+    const edges = [
+      ...fairMarket(),
+      edge(WETH, DAI, 2000 * 0.996, "weth-dai"),
+      edge(DAI, WETH, (1 / 2000) * 0.997, "weth-dai"),
+      edge(DAI, ARB, 2 * 0.997, "dai-arb"),
+      edge(ARB, DAI, 0.5 * 0.997, "dai-arb"),
+      edge(ARB, WETH, (1 / 4000) * 1.02 * 0.997, "arb-weth-cheap")
+    ];
+
+    const cycles = NegativeCycleDetector.findCycles(graphOf(edges), { sources: [WETH] });
+
+    expect(cycles.map(cycle => cycle.tokens)).to.deep.equal([
+      [WETH, USDC, ARB, WETH],
+      [WETH, DAI, ARB, WETH]
+    ]);
+    expect(cycles[1].profitMargin).to.be.closeTo(1.02 * 0.996 * 0.997 ** 2 - 1, 1e-9);
+  });
+
+  it("Should respect the hop bound", function () {
+    // Only a four-hop loop through GMX is profitable
+    const edges = [
+      ...fairMarket(),
+      edge(ARB, GMX, 0.01 * 0.997, "arb-gmx"),
+      edge(GMX, WETH, (1 / 40) * 1.03 * 0.997, "gmx-weth")
+    ];
+
+    expect(NegativeCycleDetector.findCycles(graphOf(edges), { maxHops: 3 })).to.deep.equal([]);
+
+    const cycles = NegativeCycleDetector.findCycles(graphOf(edges), { maxHops: 4 });
+    expect(cycles).to.have.length(1);
+    expect(cycles[0].edges).to.have.length(4);
+  });
+
+  it("Should cap capacity by the shallowest hop in start token wei", function () {
+    const decimals = new Map([[WETH, 18], [USDC, 6], [ARB, 18]]);
+    // The USDC -> ARB pool only holds 1000 ARB, so at most 100 ARB (10%) may leave it
+    const edges = [
+      ...fairMarket().filter(e => e.pool !== "usdc-arb" || e.from !== USDC),
+      edge(USDC, ARB, 2 * 0.997, "usdc-arb", 1000n * 10n ** 18n),
+      edge(ARB, WETH, (1 / 4000) * 1.02 * 0.997, "arb-weth-cheap")
+    ];
+
+    const [cycle] = NegativeCycleDetector.findCycles(graphOf(edges), { sources: [WETH], decimals });
+
+    // 100 ARB is about 0.025 WETH after the two fees on the way in
+    const expected = 100 / (4000 * 0.997 * 0.997);
+    expect(Number(cycle.capacity) / 1e18).to.be.closeTo(expected, 1e-9);
+
+    const filtered = NegativeCycleDetector.findCycles(graphOf(edges), {
+      sources: [WETH],
+      decimals,
+      minCapacity: 10n ** 17n
+    });
+    expect(filtered).to.deep.equal([]);
+  });
+
+  it("Should find every planted loop in a 200-token graph with work linear in the edges", function () {
+    const { graph, tokens, plantedCycles } = buildSyntheticGraph(200);
+    const edgeCount = [...graph.values()].reduce((acc, edges) => acc + edges.length, 0);
+
+    const { cycles, relaxations } = NegativeCycleDetector.search(graph, { maxHops: 4, maxCycles: 1000, walksPerNode: 4 });
+
+    const found = new Set(cycles.map(cycle => [...cycle.tokens.slice(0, -1)].sort().join(",")));
+    for (const planted of plantedCycles) {
+      expect(found.has([...planted].sort().join(","))).to.equal(true);
+    }
+    // Each hop relaxes the out-edges of at most walksPerNode walks per token, never every path
+    expect(relaxations).to.be.at.most(tokens.length * 4 * 4 * edgeCount);
+    // A single source, as the pathfinder searches, stays within a few passes over the edges
+    const single = NegativeCycleDetector.search(graph, { maxHops: 4, sources: [tokens[0]], walksPerNode: 4 });
+    expect(single.relaxations).to.be.at.most(4 * 4 * edgeCount);
+  });
+});
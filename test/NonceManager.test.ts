@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { JsonRpcProvider, Provider, Wallet, toQuantity } from "ethers";
+import { Worker } from "worker_threads";
+import path from "path";
+import { NonceManager, SharedNonceState } from "../utils/nonce-manager";
+import { JsonRpcStandIn } from "./utils/jsonRpcStandIn";
+
+const EXECUTOR = new Wallet("0x" + "44".repeat(32)).address;
+
+// Draws `count` nonces from the shared state inside a real worker thread
+const allocateInWorker = (shared: SharedNonceState, chainId: number, count: number): Promise<number[]> => {
+  const worker = new Worker(`
+    require("ts-node").register({ transpileOnly: true });
+    const { parentPort, workerData } = require("worker_threads");
+    const { NonceManager } = require(workerData.module);
+    const manager = NonceManager.attach(workerData.shared);
+    const nonces = [];
+    for (let i = 0; i < workerData.count; i++) nonces.push(manager.allocate(workerData.chainId, workerData.address));
+    parentPort.postMessage(nonces);
+  `, { eval: true, workerData: { module: path.resolve(__dirname, "../utils/nonce-manager.ts"), shared, chainId, address: EXECUTOR, count } });
+  return new Promise((resolve, reject) => {
+    worker.once("message", resolve);
+    worker.once("error", reject);
+  });
+};
+
+describe("NonceManager", function () {
+  let rpc: JsonRpcStandIn;
+  let provider: Provider;
+  let counts: { latest: number; pending: number };
+
+  beforeEach(async function () {
+    counts = { latest: 5, pending: 5 };
+    rpc = new JsonRpcStandIn().handle("eth_getTransactionCount", ([, blockTag]) =>
+      toQuantity(blockTag === "pending" ? counts.pending : counts.latest)
+    );
+    provider = new JsonRpcProvider(await rpc.start(), 42161, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1 });
+  });
+
+  afterEach(async function () {
+    await rpc.stop();
+  });
+
+  it("Should hand out each nonce once across worker threads", async function () {
+    this.timeout(60000);
+    const manager = NonceManager.create([{ chainId: 42161, address: EXECUTOR }]);
+    expect(() => manager.allocate(42161, EXECUTOR)).to.throw(/has not been reconciled/);
+    await manager.reconcile(42161, EXECUTOR, provider);
+
+    const [first, second] = await Promise.all([
+      allocateInWorker(manager.shared, 42161, 60),
+      allocateInWorker(manager.shared, 42161, 60)
+    ]);
+    const local = Array.from({ length: 20 }, () => manager.allocate(42161, EXECUTOR));
+
+    const all = [...first, ...second, ...local].sort((a, b) => a - b);
+    expect(all).to.deep.equal(Array.from({ length: 140 }, (_, i) => 5 + i));
+    expect(manager.entries(42161, EXECUTOR).every(entry => entry.status === "ALLOCATED")).to.equal(true);
+    expect(() => NonceManager.attach(manager.shared).allocate(10, EXECUTOR)).to.throw(/no nonce slot for 10:/);
+  });
+
+  it("Should reuse released nonces and refuse to run past its window", async function () {
+    const manager = NonceManager.create([{ chainId: 42161, address: EXECUTOR }], 4);
+    await manager.reconcile(42161, EXECUTOR, provider);
+
+    const [a, b, c] = [0, 1, 2].map(() => manager.allocate(42161, EXECUTOR));
+    manager.markSent(42161, EXECUTOR, b, "0x" + "bb".repeat(32));
+    manager.release(42161, EXECUTOR, a);
+    manager.release(42161, EXECUTOR, c);
+
+    // The top one is simply handed out again; the one below a pending transaction is a gap
+    expect(manager.entries(42161, EXECUTOR)).to.deep.equal([
+      { nonce: 5, status: "RELEASED" },
+      { nonce: 6, status: "PENDING", hash: "0x" + "bb".repeat(32) }
+    ]);
+    expect(manager.gaps(42161, EXECUTOR)).to.deep.equal([5]);
+    expect(manager.allocate(42161, EXECUTOR)).to.equal(5);
+    expect(manager.gaps(42161, EXECUTOR)).to.deep.equal([]);
+
+    manager.allocate(42161, EXECUTOR);
+    manager.allocate(42161, EXECUTOR);
+    expect(() => manager.allocate(42161, EXECUTOR)).to.throw(/4 nonces outstanding/);
+
+    manager.markConfirmed(42161, EXECUTOR, 6);
+    expect(manager.entries(42161, EXECUTOR).map(entry => entry.nonce)).to.deep.equal([7, 8]);
+    expect(manager.allocate(42161, EXECUTOR)).to.equal(9);
+  });
+
+  it("Should reconcile with the node's latest and pending counts", async function () {
+    const manager = NonceManager.create([{ chainId: 42161, address: EXECUTOR }]);
+    counts = { latest: 5, pending: 7 };
+
+    // Two transactions from elsewhere are already in the node's pool
+    expect(await manager.reconcile(42161, EXECUTOR, provider)).to.deep.equal({ latest: 5, pending: 7, next: 7, gaps: [] });
+    expect(manager.entries(42161, EXECUTOR)).to.deep.equal([{ nonce: 5, status: "PENDING" }, { nonce: 6, status: "PENDING" }]);
+
+    for (const nonce of [manager.allocate(42161, EXECUTOR), manager.allocate(42161, EXECUTOR)]) {
+      manager.markSent(42161, EXECUTOR, nonce);
+    }
+    // 5 and 6 are mined, but the node never counted 7: it was dropped and 8 waits behind it
+    counts = { latest: 7, pending: 7 };
+    const snapshot = await manager.reconcile(42161, EXECUTOR, provider);
+    expect(snapshot).to.deep.equal({ latest: 7, pending: 7, next: 9, gaps: [7] });
+    expect(manager.entries(42161, EXECUTOR)).to.deep.equal([{ nonce: 7, status: "DROPPED" }, { nonce: 8, status: "PENDING" }]);
+    expect(manager.allocate(42161, EXECUTOR)).to.equal(7);
+
+    expect(rpc.callsTo("eth_getTransactionCount").map(([, blockTag]) => blockTag)).to.have.members(["latest", "pending", "latest", "pending"]);
+  });
+
+  it("Should cancel a gap with a zero-value self-transfer so queued transactions mine", async function () {
+    const [, signer] = await ethers.getSigners();
+    const manager = NonceManager.create([{ chainId: 31337, address: signer.address }]);
+    const { next } = await manager.reconcile(31337, signer.address, ethers.provider);
+    const fees = { maxFeePerGas: ethers.parseUnits("100", "gwei"), maxPriorityFeePerGas: ethers.parseUnits("1", "gwei") };
+
+    await network.provider.send("evm_setAutomine", [false]);
+    try {
+      const skipped = manager.allocate(31337, signer.address);
+      const queued = manager.allocate(31337, signer.address);
+      const tx = await signer.sendTransaction({ to: EXECUTOR, value: 1n, nonce: queued, gasLimit: 21000n, ...fees });
+      manager.markSent(31337, signer.address, queued, tx.hash);
+      // The transaction for `skipped` was never sent
+      manager.release(31337, signer.address, skipped);
+      expect(manager.gaps(31337, signer.address)).to.deep.equal([next]);
+
+      const [hash] = await manager.repairGaps(signer, fees);
+      await network.provider.send("evm_mine", []);
+
+      const cancel = await ethers.provider.getTransaction(hash);
+      expect(cancel).to.deep.include({ to: signer.address, from: signer.address, value: 0n, nonce: next, gasLimit: 21000n });
+      expect((await tx.wait())!.status).to.equal(1);
+    } finally {
+      await network.provider.send("evm_setAutomine", [true]);
+    }
+
+    const snapshot = await manager.reconcile(31337, signer.address, ethers.provider);
+    expect(snapshot).to.deep.include({ latest: next + 2, gaps: [] });
+    expect(manager.entries(31337, signer.address)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import { AbiCoder, Interface, Provider, id, zeroPadValue, toBeHex } from "ethers";
+import { PoolRegistry } from "../utils/pool-registry";
+import { PoolDiscoveryService } from "../utils/pool-discovery";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+// Arbitrum Uniswap V2 / V3 routers from EnhancedDEXManager; every other router reverts on factory()
+const V2_ROUTER = "0x4752ba5DBc23f44D87826276BF6Fd6b1C372ad24";
+const V3_ROUTER = "0xE592427A0AEce92De3Edee1F18E0157C05861564";
+const V2_FACTORY = "0x0000000000000000000000000000000000000f02";
+const V3_FACTORY = "0x0000000000000000000000000000000000000f03";
+
+const WETH = "0x0000000000000000000000000000000000000e01";
+const TOKEN = "0x0000000000000000000000000000000000000e02";
+const OTHER = "0x0000000000000000000000000000000000000e03";
+const V2_PAIR = "0x0000000000000000000000000000000000000b02";
+const V3_POOL = "0x0000000000000000000000000000000000000b03";
+const DUST_PAIR = "0x0000000000000000000000000000000000000b04";
+
+const ERC20 = new Interface([
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)"
+]);
+
+interface StubLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+}
+
+/**
+ * Node stand-in without Multicall3, so every read falls back to a plain eth_call
+ */
+class StubProvider {
+  public blockNumber = 1000;
+  public logs: StubLog[] = [];
+  public logQueries: Array<{ fromBlock: number; toBlock: number }> = [];
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+
+  async getLogs(filter: { address: string; topics: string[]; fromBlock: number; toBlock: number }) {
+    this.logQueries.push({ fromBlock: filter.fromBlock, toBlock: filter.toBlock });
+    return this.logs.filter(log =>
+      log.address.toLowerCase() === filter.address.toLowerCase() &&
+      log.topics[0] === filter.topics[0] &&
+      log.blockNumber >= filter.fromBlock &&
+      log.blockNumber <= filter.toBlock
+    );
+  }
+
+  async call(tx: { to: string; data: string }): Promise<string> {
+    const to = tx.to.toLowerCase();
+    const selector = tx.data.slice(0, 10);
+
+    if (to === V2_ROUTER.toLowerCase()) return coder.encode(["address"], [V2_FACTORY]);
+    if (to === V3_ROUTER.toLowerCase()) return coder.encode(["address"], [V3_FACTORY]);
+    if (to === V2_PAIR) return coder.encode(["uint112", "uint112", "uint32"], [100n * 10n ** 18n, 5000n * 10n ** 18n, 0]);
+    if (to === DUST_PAIR) return coder.encode(["uint112", "uint112", "uint32"], [10n ** 18n, 10n ** 18n, 0]);
+
+    if (to === WETH || to === TOKEN) {
+      if (selector === ERC20.getFunction("decimals")!.selector) return coder.encode(["uint8"], [18]);
+      const [owner] = ERC20.decodeFunctionData("balanceOf", tx.data);
+      const balance = owner.toLowerCase() === V3_POOL ? 10n ** 18n : 0n;
+      return coder.encode(["uint256"], [balance]);
+    }
+
+    throw new Error("execution reverted");
+  }
+}
+
+function addressTopic(address: string): string {
+  return zeroPadValue(address, 32);
+}
+
+function pairCreated(token0: string, token1: string, pair: string, blockNumber: number): StubLog {
+  return {
+    address: V2_FACTORY,
+    topics: [id("PairCreated(address,address,address,uint256)"), addressTopic(token0), addressTopic(token1)],
+    data: coder.encode(["address", "uint256"], [pair, 1n]),
+    blockNumber
+  };
+}
+
+function poolCreated(token0: string, token1: string, fee: number, pool: string, blockNumber: number): StubLog {
+  return {
+    address: V3_FACTORY,
+    topics: [
+      id("PoolCreated(address,address,uint24,int24,address)"),
+      addressTopic(token0),
+      addressTopic(token1),
+      zeroPadValue(toBeHex(fee), 32)
+    ],
+    data: coder.encode(["int24", "address"], [10, pool]),
+    blockNumber
+  };
+}
+
+describe("PoolDiscoveryService", function () {
+  let registryPath: string;
+
+  beforeEach(async function () {
+    registryPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "pool-registry-")), "registry.json");
+  });
+
+  function setup(stub: StubProvider, registry: PoolRegistry, startBlocks: { [chainId: number]: number } = { 42161: 1 }) {
+    const providers = new Map<number, Provider>([[42161, stub as unknown as Provider]]);
+    return new PoolDiscoveryService(providers, registry, undefined, {
+      maxBlocksPerQuery: 500,
+      startBlocks,
+      priceUsd: async (chainId, token) => token.toLowerCase() === WETH ? 2000 : null
+    });
+  }
+
+  it("Should index V2 and V3 creation events and resume from the persisted cursor", async function () {
+    const stub = new StubProvider();
+    stub.logs.push(pairCreated(WETH, TOKEN, V2_PAIR, 50), poolCreated(WETH, TOKEN, 500, V3_POOL, 80));
+
+    const registry = new PoolRegistry(registryPath);
+    expect(await setup(stub, registry).sync(42161)).to.equal(2);
+
+    const v2 = registry.getPool(42161, V2_PAIR)!;
+    const v3 = registry.getPool(42161, V3_POOL)!;
+    expect(v2).to.include({ dex: "Uniswap V2", kind: "UNISWAP_V2", feeTier: 3000, createdBlock: 50 });
+    expect(v2.token0.toLowerCase()).to.equal(WETH);
+    expect(v3).to.include({ dex: "Uniswap V3", kind: "UNISWAP_V3", feeTier: 500, createdBlock: 80 });
+
+    // A new process picks up the saved registry and only scans blocks past the confirmed cursor
+    stub.blockNumber = 1010;
+    stub.logs.push(pairCreated(TOKEN, OTHER, DUST_PAIR, 995));
+    stub.logQueries = [];
+
+    const reloaded = new PoolRegistry(registryPath);
+    await reloaded.load();
+    expect(reloaded.size).to.equal(2);
+    expect(reloaded.getCursor(42161, V2_FACTORY)).to.equal(990);
+
+    expect(await setup(stub, reloaded).discover(42161)).to.equal(1);
+    expect(stub.logQueries.every(query => query.fromBlock === 991 && query.toBlock === 1000)).to.equal(true);
+  });
+
+  it("Should refuse to backfill a fresh registry from genesis without a start block", async function () {
+    const stub = new StubProvider();
+    stub.logs.push(pairCreated(WETH, TOKEN, V2_PAIR, 50));
+
+    const registry = new PoolRegistry(registryPath);
+    let error: Error | undefined;
+    await setup(stub, registry, {}).discover(42161).catch(caught => { error = caught; });
+    expect(error?.message).to.match(/no start block for chain 42161/);
+    expect(stub.logQueries).to.deep.equal([]);
+
+    // Once a factory has a cursor, it resumes from there without one
+    await setup(stub, registry).discover(42161);
+    stub.logQueries = [];
+    stub.blockNumber += 100;
+    await setup(stub, registry, {}).discover(42161);
+    expect(stub.logQueries.length).to.be.greaterThan(0);
+  });
+
+  it("Should value pools in USD and filter them by minimum TVL", async function () {
+    const stub = new StubProvider();
+    stub.logs.push(
+      pairCreated(WETH, TOKEN, V2_PAIR, 50),
+      poolCreated(WETH, TOKEN, 500, V3_POOL, 80),
+      pairCreated(TOKEN, OTHER, DUST_PAIR, 90)
+    );
+
+    const registry = new PoolRegistry(registryPath);
+    await setup(stub, registry).sync(42161);
+
+    // 100 WETH in the V2 pair at $2000 counts twice; the V3 pool only holds 1 WETH; nothing prices the dust pair
+    expect(registry.getPool(42161, V2_PAIR)!.tvlUsd).to.equal(400_000);
+    expect(registry.getPool(42161, V3_POOL)!.tvlUsd).to.equal(4000);
+    expect(registry.getPool(42161, DUST_PAIR)!.tvlUsd).to.equal(null);
+
+    expect(registry.getPools(42161).length).to.equal(3);
+    expect(registry.getPools(42161, 10_000).map(pool => pool.address.toLowerCase())).to.deep.equal([V2_PAIR]);
+    expect(registry.getTokens(42161, 10_000).map(token => token.toLowerCase()).sort()).to.deep.equal([WETH, TOKEN]);
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { AbiCoder, Provider, id, zeroPadValue, toBeHex } from "ethers";
+import { PoolEventSync, PoolReorgEvent } from "../utils/pool-event-sync";
+import { PoolStateReader, V2PoolState, V3PoolState } from "../utils/pool-state";
+import { DEXRouter } from "../utils/dex-routers";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const V2_POOL = "0x00000000000000000000000000000000000000a2";
+const V3_POOL = "0x00000000000000000000000000000000000000a3";
+const TOKEN0 = "0x0000000000000000000000000000000000000c01";
+const TOKEN1 = "0x0000000000000000000000000000000000000c02";
+const OWNER = "0x0000000000000000000000000000000000000d01";
+
+const router: DEXRouter = {
+  name: "Stub",
+  address: "0x0000000000000000000000000000000000000a01",
+  chainId: 42161,
+  routerType: "UNISWAP_V2",
+  gasLimit: 150000n,
+  feeStructure: "0.3%",
+  liquidityScore: 5
+};
+
+interface StubLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  index: number;
+}
+
+/**
+ * Chain stand-in whose block hashes and logs can be rewritten to simulate reorgs
+ */
+class StubChain {
+  public hashes = new Map<number, string>();
+  public logs: StubLog[] = [];
+
+  mine(blockNumber: number, fork: string = "a"): void {
+    this.hashes.set(blockNumber, id(`${fork}:${blockNumber}`));
+  }
+
+  addLog(address: string, topics: string[], data: string, blockNumber: number): void {
+    this.logs.push({ address, topics, data, blockNumber, blockHash: this.hashes.get(blockNumber)!, index: this.logs.length });
+  }
+
+  async getBlock(blockNumber: number) {
+    const hash = this.hashes.get(blockNumber);
+    return hash ? { number: blockNumber, hash } : null;
+  }
+
+  async getLogs(filter: { address: string[]; fromBlock: number; toBlock: number }) {
+    const addresses = filter.address.map(a => a.toLowerCase());
+    return this.logs.filter(log =>
+      log.blockNumber >= filter.fromBlock &&
+      log.blockNumber <= filter.toBlock &&
+      addresses.includes(log.address.toLowerCase())
+    );
+  }
+
+  async call(): Promise<string> {
+    throw new Error("unexpected eth_call");
+  }
+
+  on(): void {}
+  off(): void {}
+}
+
+function syncLog(chain: StubChain, reserve0: bigint, reserve1: bigint, blockNumber: number): void {
+  chain.addLog(V2_POOL, [id("Sync(uint112,uint112)")], coder.encode(["uint112", "uint112"], [reserve0, reserve1]), blockNumber);
+}
+
+function int24Topic(value: number): string {
+  return zeroPadValue(toBeHex(BigInt.asUintN(256, BigInt(value))), 32);
+}
+
+function v2State(blockNumber: number): V2PoolState {
+  return {
+    kind: "UNISWAP_V2",
+    chainId: 42161,
+    address: V2_POOL,
+    router,
+    blockNumber,
+    tokens: [TOKEN0, TOKEN1],
+    fee: 0.003,
+    reserve0: 1000n,
+    reserve1: 2000n
+  };
+}
+
+function v3State(blockNumber: number): V3PoolState {
+  return {
+    kind: "UNISWAP_V3",
+    chainId: 42161,
+    address: V3_POOL,
+    router: { ...router, name: "Stub V3", routerType: "UNISWAP_V3" },
+    blockNumber,
+    tokens: [TOKEN0, TOKEN1],
+    fee: 0.0005,
+    feeTier: 500,
+    sqrtPriceX96: 2n ** 96n,
+    tick: 0,
+    liquidity: 10_000n
+  };
+}
+
+function setup(reorgDepth?: number) {
+  const chain = new StubChain();
+  for (let block = 100; block <= 105; block++) chain.mine(block);
+
+  const providers = new Map<number, Provider>([[42161, chain as unknown as Provider]]);
+  const reader = new PoolStateReader(providers);
+  const sync = new PoolEventSync(42161, chain as unknown as Provider, reader, reorgDepth ? { reorgDepth } : {});
+  return { chain, reader, sync };
+}
+
+describe("PoolEventSync", function () {
+  it("Should apply V2 Sync logs and serve the synced state from cache", async function () {
+    const { chain, reader, sync } = setup();
+    sync.track(v2State(100));
+    syncLog(chain, 1100n, 1900n, 101);
+    syncLog(chain, 1200n, 1800n, 102);
+
+    const revision = sync.getRevision();
+    await sync.syncTo(103);
+
+    expect(sync.getSyncedBlock()).to.equal(103);
+    expect(sync.getPoolState(V2_POOL)).to.include({ reserve0: 1200n, reserve1: 1800n, blockNumber: 102 });
+    expect([...sync.getChangedPoolsSince(revision)!]).to.deep.equal([V2_POOL]);
+
+    // The stub rejects eth_call, so this only succeeds from the primed cache
+    const cached = await reader.getPoolState(TOKEN1, TOKEN0, router, 103);
+    expect(cached).to.include({ reserve0: 1200n, blockNumber: 103 });
+  });
+
+  it("Should follow V3 Swap, Mint and Burn logs", async function () {
+    const { chain, sync } = setup();
+    sync.track(v3State(100));
+
+    chain.addLog(
+      V3_POOL,
+      [id("Swap(address,address,int256,int256,uint160,uint128,int24)"), zeroPadValue(OWNER, 32), zeroPadValue(OWNER, 32)],
+      coder.encode(["int256", "int256", "uint160", "uint128", "int24"], [100n, -99n, 2n ** 96n + 1000n, 12_000n, 5]),
+      101
+    );
+    // In range of tick 5: adds liquidity
+    chain.addLog(
+      V3_POOL,
+      [id("Mint(address,address,int24,int24,uint128,uint256,uint256)"), zeroPadValue(OWNER, 32), int24Topic(-60), int24Topic(60)],
+      coder.encode(["address", "uint128", "uint256", "uint256"], [OWNER, 500n, 1n, 1n]),
+      102
+    );
+    // Out of range: only changes liquidityNet at its ticks
+    chain.addLog(
+      V3_POOL,
+      [id("Burn(address,int24,int24,uint128,uint256,uint256)"), zeroPadValue(OWNER, 32), int24Topic(120), int24Topic(180)],
+      coder.encode(["uint128", "uint256", "uint256"], [300n, 1n, 0n]),
+      102
+    );
+
+    await sync.syncTo(102);
+
+    expect(sync.getPoolState(V3_POOL)).to.include({
+      sqrtPriceX96: 2n ** 96n + 1000n,
+      tick: 5,
+      liquidity: 12_500n
+    });
+  });
+
+  it("Should roll back to the last common block on a reorg", async function () {
+    const { chain, sync } = setup();
+    const reorgs: PoolReorgEvent[] = [];
+    sync.on("reorg", event => reorgs.push(event));
+    sync.track(v2State(100));
+
+    syncLog(chain, 1100n, 1900n, 101);
+    syncLog(chain, 1200n, 1800n, 102);
+    await sync.syncTo(102);
+
+    // Block 102 is replaced by a sibling with a different swap
+    chain.logs = chain.logs.filter(log => log.blockNumber !== 102);
+    chain.mine(102, "b");
+    chain.mine(103, "b");
+    syncLog(chain, 1050n, 1950n, 102);
+
+    await sync.syncTo(103);
+
+    expect(reorgs).to.have.length(1);
+    expect(reorgs[0]).to.include({ fromBlock: 102, commonBlock: 101 });
+    expect(sync.getPoolState(V2_POOL)).to.include({ reserve0: 1050n, reserve1: 1950n });
+    expect(sync.getSyncedBlock()).to.equal(103);
+  });
+
+  it("Should reset when a reorg is deeper than the undo journal", async function () {
+    const { chain, sync } = setup(2);
+    sync.track(v2State(100));
+    const revision = sync.getRevision();
+
+    syncLog(chain, 1100n, 1900n, 101);
+    await sync.syncTo(105);
+
+    for (let block = 101; block <= 105; block++) chain.mine(block, "b");
+    await sync.syncTo(105);
+
+    expect(sync.isTracked(V2_POOL)).to.equal(false);
+    expect(sync.getSyncedBlock()).to.equal(0);
+    expect(sync.getChangedPoolsSince(revision)).to.equal(null);
+  });
+});
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AbiCoder, Interface, Provider, parseEther, parseUnits } from "ethers";
+import { AdvancedRiskManager } from "../utils/advanced-risk-manager";
+import { MulticallBatcher } from "../utils/multicall";
+import { PortfolioValuation, PortfolioValuationService } from "../utils/portfolio-valuation";
+import { RiskJournal } from "../utils/risk-journal";
+import { TokenRegistry } from "../utils/token-registry";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const EXECUTOR = "0x0000000000000000000000000000000000000a01";
+const BOT = "0x0000000000000000000000000000000000000a02";
+const WETH = "0x0000000000000000000000000000000000000e01";
+const USDC = "0x0000000000000000000000000000000000000e02";
+const MEME = "0x0000000000000000000000000000000000000e03";
+
+const CALLS = new Interface([
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)"
+]);
+
+const TOKENS: { [address: string]: { symbol: string; decimals: number } } = {
+  [WETH]: { symbol: "WETH", decimals: 18 },
+  [USDC]: { symbol: "USDC", decimals: 6 },
+  [MEME]: { symbol: "MEME", decimals: 18 }
+};
+
+/**
+ * Chain stand-in without Multicall3 aggregation, serving balances and token metadata
+ */
+class HoldingsProvider {
+  public native = new Map<string, bigint>();
+  public balances = new Map<string, bigint>(); // `${token}:${holder}`
+
+  async call(tx: { to: string; data: string }): Promise<string> {
+    const to = tx.to.toLowerCase();
+    const call = CALLS.parseTransaction({ data: tx.data });
+    if (!call) throw new Error("execution reverted");
+
+    switch (call.name) {
+      case "getEthBalance":
+        return coder.encode(["uint256"], [this.native.get(call.args[0].toLowerCase()) || 0n]);
+      case "balanceOf":
+        return coder.encode(["uint256"], [this.balances.get(`${to}:${call.args[0].toLowerCase()}`) || 0n]);
+      case "decimals":
+        return coder.encode(["uint8"], [TOKENS[to].decimals]);
+      default:
+        return coder.encode(["string"], [TOKENS[to].symbol]);
+    }
+  }
+}
+
+describe("PortfolioValuation", function () {
+  let chain: HoldingsProvider;
+  let registry: TokenRegistry;
+  let prices: Map<string, number | null>;
+  let portfolio: PortfolioValuationService;
+
+  beforeEach(function () {
+    chain = new HoldingsProvider();
+    chain.native.set(EXECUTOR, parseEther("1"));
+    chain.balances.set(`${WETH}:${BOT}`, parseEther("0.5"));
+    chain.balances.set(`${USDC}:${BOT}`, parseUnits("3000", 6));
+    chain.balances.set(`${MEME}:${EXECUTOR}`, parseEther("1000"));
+
+    const multicall = new MulticallBatcher(new Map([[42161, chain as unknown as Provider]]));
+    registry = new TokenRegistry(multicall, path.join(os.tmpdir(), "portfolio-token-registry.json"));
+    prices = new Map([[WETH, 3000], [USDC, 1]]);
+    portfolio = new PortfolioValuationService(
+      multicall,
+      registry,
+      async (chainId, token) => prices.get(token.toLowerCase()) ?? null,
+      [{ chainId: 42161, weth: WETH, holders: [EXECUTOR, BOT, ""], tokens: [WETH, USDC] }]
+    );
+  });
+
+  it("Should value native ETH and every held token in ETH and USD", async function () {
+    // A token the bot traded through is picked up from the registry
+    await registry.resolve(42161, MEME);
+
+    const emitted: PortfolioValuation[] = [];
+    portfolio.on("valuation", (valuation: PortfolioValuation) => emitted.push(valuation));
+    const valuation = await portfolio.refresh();
+
+    expect(emitted).to.deep.equal([valuation]);
+    expect(valuation).to.deep.include({ ethUsd: 3000, totalEth: parseEther("2.5"), totalUsd: 7500 });
+    expect([...valuation.byChain]).to.deep.equal([[42161, parseEther("2.5")]]);
+    expect(Object.fromEntries(valuation.byToken)).to.deep.equal({
+      ETH: parseEther("1"), WETH: parseEther("0.5"), USDC: parseEther("1")
+    });
+    expect(valuation.unpriced).to.deep.equal([
+      { chainId: 42161, holder: EXECUTOR, token: MEME, symbol: "MEME", amount: parseEther("1000") }
+    ]);
+
+    // A feed that stops answering keeps its last price instead of dropping the balance
+    prices.set(USDC, null);
+    const next = await portfolio.refresh();
+    expect(next.totalEth).to.equal(parseEther("2.5"));
+    expect(next.holdings.find(holding => holding.symbol === "USDC")!.priceAge).to.be.a("number");
+  });
+
+  it("Should price tokens without a USD feed in ETH and hand the rest to the risk manager", async function () {
+    await registry.resolve(42161, MEME);
+    const ethPrices = new Map<string, number>();
+    const multicall = new MulticallBatcher(new Map([[42161, chain as unknown as Provider]]));
+    const withEth = new PortfolioValuationService(
+      multicall,
+      registry,
+      async (chainId, token) => prices.get(token.toLowerCase()) ?? null,
+      [{ chainId: 42161, weth: WETH, holders: [EXECUTOR, BOT], tokens: [WETH, USDC] }],
+      60_000,
+      async (chainId, token) => ethPrices.get(token.toLowerCase()) ?? null
+    );
+
+    const unpriced = await withEth.refresh();
+    expect(unpriced.unpriced.map(holding => holding.symbol)).to.deep.equal(["MEME"]);
+    const risk = new AdvancedRiskManager(unpriced.totalEth);
+    await risk.updatePortfolioValue(unpriced.totalEth, unpriced.unpriced.map(holding => `${holding.symbol} on ${holding.chainId}`));
+    expect(risk.getRiskMetrics().unpricedHoldings).to.deep.equal(["MEME on 42161"]);
+    expect(risk.generateRiskReport().recommendations.join()).to.match(/Unpriced holdings left out of capital: MEME on 42161/);
+
+    // 1000 MEME at 0.0005 ETH each, valued at the WETH feed's USD price
+    ethPrices.set(MEME, 0.0005);
+    const priced = await withEth.refresh();
+    expect(priced.unpriced).to.deep.equal([]);
+    expect(priced).to.deep.include({ totalEth: parseEther("3"), totalUsd: 9000 });
+    expect(priced.byToken.get("MEME")).to.equal(parseEther("0.5"));
+    await risk.updatePortfolioValue(priced.totalEth, []);
+    expect(risk.getRiskMetrics()).to.deep.include({ currentBalance: parseEther("3"), unpricedHoldings: [] });
+  });
+
+  it("Should drive the risk manager's drawdown and position limits from the valuation", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "portfolio-"));
+    try {
+      const journalPath = path.join(dir, "risk-journal.jsonl");
+      const first = await portfolio.refresh();
+      const risk = new AdvancedRiskManager(first.totalEth, new RiskJournal(journalPath));
+      await risk.rehydrate();
+
+      // Half the executor's ETH leaves the wallet
+      chain.native.set(EXECUTOR, parseEther("0.5"));
+      await risk.updatePortfolioValue((await portfolio.refresh()).totalEth);
+      expect(risk.getRiskMetrics()).to.deep.include({ currentBalance: parseEther("2"), peakBalance: parseEther("2.5") });
+      expect(risk.getCircuitBreakerStatus().reasons).to.deep.equal(["Drawdown limit exceeded: 20.0%"]);
+      expect(risk.getMaxTradeSize(["WETH", "USDC"], 42161)).to.equal(parseEther("0.3"));
+
+      // A restart resumes from the valued balance and the peak before it
+      expect(new RiskJournal(journalPath).replay()).to.deep.include({
+        initialCapital: parseEther("2.5"), currentBalance: parseEther("2"), peakBalance: parseEther("2.5")
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
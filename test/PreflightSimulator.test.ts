@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { AbiCoder, JsonRpcProvider, Wallet, concat, getAddress, parseEther, toQuantity } from "ethers";
+import { FlashArbBotFactory } from "../utils/flash-arb-bot";
+import { FlashArbCalldataBuilder } from "../utils/flash-arb-calldata";
+import { PreflightSimulator } from "../utils/preflight-simulator";
+import { JsonRpcStandIn } from "./utils/jsonRpcStandIn";
+
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const BOT = "0x0000000000000000000000000000000000000b07";
+const EXECUTOR = new Wallet("0x" + "33".repeat(32)).address;
+
+const iface = FlashArbBotFactory.createInterface();
+
+// ArbitrageExecuted as the bot emits it, in eth_simulateV1 / callTracer log shape
+const executionLog = (profit: bigint, address = BOT) => {
+  const { data, topics } = iface.encodeEventLog(iface.getEvent("ArbitrageExecuted")!, [WETH, parseEther("1"), profit, true]);
+  return { address, topics, data };
+};
+
+const revertData = (reason: string) => concat(["0x08c379a0", AbiCoder.defaultAbiCoder().encode(["string"], [reason])]);
+
+describe("PreflightSimulator", function () {
+  let rpc: JsonRpcStandIn;
+  let simulator: PreflightSimulator;
+
+  // expectedProfit of 0.01 WETH, so the contract's floor is 0.0095
+  const tx = {
+    from: EXECUTOR,
+    to: BOT,
+    data: FlashArbCalldataBuilder.encode(FlashArbCalldataBuilder.build({
+      asset: WETH, amountIn: parseEther("1"), path: [WETH, USDC, WETH], minProfit: parseEther("0.01"), sushiFirst: true
+    })),
+    gasLimit: 800_000n,
+    maxFeePerGas: 100_000_000n
+  };
+
+  const simulateV1 = (call: any) => rpc.handle("eth_simulateV1", () => [{ calls: [{ gasUsed: toQuantity(412_000), logs: [], ...call }] }]);
+
+  beforeEach(async function () {
+    rpc = new JsonRpcStandIn();
+    const provider = new JsonRpcProvider(await rpc.start(), 42161, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1 });
+    simulator = new PreflightSimulator(provider);
+  });
+
+  afterEach(async function () {
+    await rpc.stop();
+  });
+
+  it("Should simulate the exact calldata against the pending block with the executor funded", async function () {
+    simulateV1({ status: "0x1", logs: [executionLog(parseEther("0.012")), executionLog(parseEther("5"), USDC)] });
+
+    const tokenOverride = PreflightSimulator.tokenBalance(USDC, BOT, 1n, 9);
+    const result = await simulator.simulate(tx, tokenOverride);
+
+    expect(result).to.include({ ok: true, method: "executeArb", expectedProfit: parseEther("0.01"), minProfit: parseEther("0.0095") });
+    // The other contract's event is not the bot's profit
+    expect(result.profit).to.equal(parseEther("0.012"));
+    expect(result.gasUsed).to.equal(412_000n);
+
+    const [[{ blockStateCalls: [{ stateOverrides, calls: [call] }] }, blockTag]] = rpc.callsTo("eth_simulateV1");
+    expect(blockTag).to.equal("pending");
+    expect(call).to.deep.include({ from: EXECUTOR, to: getAddress(BOT), data: tx.data, gas: toQuantity(800_000n) });
+    expect(stateOverrides[EXECUTOR].balance).to.equal(toQuantity(800_000n * 100_000_000n));
+    expect(stateOverrides[getAddress(USDC)]).to.deep.equal(tokenOverride[getAddress(USDC)]);
+  });
+
+  it("Should abort below 95% of the expected profit, as the contract does", async function () {
+    simulateV1({ status: "0x1", logs: [executionLog(parseEther("0.0095"))] });
+    expect((await simulator.simulate(tx)).ok).to.equal(true);
+
+    simulateV1({ status: "0x1", logs: [executionLog(parseEther("0.0095") - 1n)] });
+    const short = await simulator.simulate(tx);
+    expect(short.ok).to.equal(false);
+    expect(short.reason).to.match(/below 9500000000000000 \(95% of 10000000000000000\)/);
+
+    simulateV1({ status: "0x1", logs: [] });
+    expect((await simulator.simulate(tx)).reason).to.match(/no execution event/);
+  });
+
+  it("Should report the revert reason of a failing simulation", async function () {
+    simulateV1({ status: "0x0", returnData: revertData("Profit too low"), error: { code: 3, message: "execution reverted", data: revertData("Profit too low") } });
+
+    const result = await simulator.simulate(tx);
+    expect(result).to.include({ ok: false, profit: 0n, reason: "reverted: Profit too low" });
+  });
+
+  it("Should fall back to the call tracer and read logs from nested frames", async function () {
+    rpc.handle("debug_traceCall", () => ({
+      gasUsed: toQuantity(400_000),
+      logs: [{ ...executionLog(parseEther("0.02")), position: "0x1" }],
+      calls: [{ gasUsed: "0x0", logs: [{ ...executionLog(parseEther("1"), USDC), position: "0x0" }] }]
+    }));
+
+    const result = await simulator.simulate(tx);
+    expect(result).to.include({ ok: true, profit: parseEther("0.02"), gasUsed: 400_000n });
+
+    const [[call, blockTag, config]] = rpc.callsTo("debug_traceCall");
+    expect(call.data).to.equal(tx.data);
+    expect(blockTag).to.equal("pending");
+    expect(config.tracer).to.equal("callTracer");
+    expect(config.tracerConfig).to.deep.equal({ withLog: true });
+    expect(config.stateOverrides[EXECUTOR].balance).to.equal(toQuantity(800_000n * 100_000_000n));
+
+    rpc.handle("debug_traceCall", () => ({ gasUsed: toQuantity(90_000), error: "execution reverted", output: revertData("Unprofitable") }));
+    expect((await simulator.simulate(tx)).reason).to.equal("reverted: Unprofitable");
+  });
+
+  it("Should fail closed when the node cannot simulate or the calldata is not an arbitrage", async function () {
+    const unsupported = await simulator.simulate(tx);
+    expect(unsupported.ok).to.equal(false);
+    expect(unsupported.reason).to.match(/simulation unavailable/);
+
+    const pause = await simulator.simulate({ ...tx, data: iface.encodeFunctionData("pause", []) });
+    expect(pause.reason).to.match(/not a bot arbitrage entry point/);
+    // A batch carries no expected profit to hold the simulation against
+    const batch = await simulator.simulate({ ...tx, data: iface.encodeFunctionData("executeBatchArbitrage", [{ trades: [], deadline: 0 }]) });
+    expect(batch.reason).to.match(/not a bot arbitrage entry point/);
+  });
+
+  it("Should override ERC20 balances and allowances at their mapping slots", async function () {
+    // OpenZeppelin ERC20 keeps _balances at slot 0 and _allowances at slot 1
+    const token: any = await (await ethers.getContractFactory("MockERC20")).deploy("Wrapped Ether", "WETH", 18);
+    const address = await token.getAddress();
+    const overrides = PreflightSimulator.mergeOverrides(
+      PreflightSimulator.tokenBalance(address, EXECUTOR, parseEther("3"), 0),
+      PreflightSimulator.tokenAllowance(address, EXECUTOR, BOT, parseEther("2"), 1)
+    );
+
+    const stateDiff = overrides[getAddress(address)].stateDiff!;
+    expect(Object.keys(stateDiff)).to.have.length(2);
+    for (const [slot, value] of Object.entries(stateDiff)) {
+      await network.provider.send("hardhat_setStorageAt", [address, toQuantity(slot), value]);
+    }
+    expect(await token.balanceOf(EXECUTOR)).to.equal(parseEther("3"));
+    expect(await token.allowance(EXECUTOR, BOT)).to.equal(parseEther("2"));
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AbiCoder, Interface, Wallet, concat, parseEther } from "ethers";
+import { AdvancedRiskManager } from "../utils/advanced-risk-manager";
+import { MEVBundleOptimizer } from "../utils/mev-bundle-optimizer";
+import { FailureCategory, FailureTaxonomy, RevertDecoder } from "../utils/revert-decoder";
+
+const errorData = (reason: string) => concat(["0x08c379a0", AbiCoder.defaultAbiCoder().encode(["string"], [reason])]);
+const panicData = (code: number) => concat(["0x4e487b71", AbiCoder.defaultAbiCoder().encode(["uint256"], [code])]);
+
+describe("RevertDecoder and FailureTaxonomy", function () {
+
+  it("Should decode Error(string), Panic and custom errors", function () {
+    expect(RevertDecoder.decode(errorData("Profit too low"))).to.deep.equal({ kind: "Error", reason: "Profit too low", selector: "0x08c379a0" });
+    expect(RevertDecoder.decode(panicData(0x11))).to.include({ kind: "Panic", reason: "arithmetic overflow or underflow", panicCode: 0x11 });
+
+    const oz = new Interface(["error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)"]);
+    const sender = Wallet.createRandom().address;
+    const custom = RevertDecoder.decode(oz.encodeErrorResult("ERC20InsufficientBalance", [sender, 1n, 2n]));
+    expect(custom).to.include({ kind: "Custom", reason: "ERC20InsufficientBalance" });
+    expect(custom.args).to.deep.equal([sender, 1n, 2n]);
+
+    expect(RevertDecoder.decode("0xdeadbeef")).to.include({ kind: "Custom", reason: "custom error 0xdeadbeef" });
+    expect(RevertDecoder.decode("0x")).to.include({ kind: "Empty" });
+    expect(RevertDecoder.decode("execution reverted: Invalid price feed")).to.include({ kind: "Error", reason: "Invalid price feed" });
+    expect(RevertDecoder.decode({ error: { message: "nonce too low", code: -32000 } })).to.include({ kind: "Message", reason: "nonce too low" });
+  });
+
+  it("Should decode the reason from a real eth_call revert", async function () {
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token = await MockERC20.deploy("Dai Stablecoin", "DAI", 18);
+    const pool: any = await (await ethers.getContractFactory("MockCurveCryptoSwapPool")).deploy([await token.getAddress(), await token.getAddress()]);
+
+    const error = await pool.exchange.staticCall(0, 1, parseEther("1"), 0).catch((caught: unknown) => caught);
+    expect(RevertDecoder.decode(error)).to.include({ kind: "Error", reason: "No rate" });
+  });
+
+  it("Should take a trace's revert from the frame that failed", function () {
+    const frame = {
+      error: "execution reverted",
+      calls: [
+        { output: "0x" },
+        { error: "execution reverted", calls: [{ error: "execution reverted", output: errorData("Too little received") }] }
+      ]
+    };
+    expect(RevertDecoder.decodeFrame(frame)).to.include({ kind: "Error", reason: "Too little received" });
+    expect(RevertDecoder.decodeFrame({ error: "out of gas" })).to.include({ kind: "Message", reason: "out of gas" });
+  });
+
+  it("Should classify contract, venue and node failures", function () {
+    const cases: [string, FailureCategory][] = [
+      [errorData("Unprofitable"), "STALE_QUOTE"],
+      [errorData("Profit too low"), "STALE_QUOTE"],
+      [errorData("Profit deviation too high"), "STALE_QUOTE"],
+      [errorData("Transaction expired"), "STALE_QUOTE"],
+      [errorData("Invalid price feed"), "ORACLE_GUARD"],
+      [errorData("Price too old"), "ORACLE_GUARD"],
+      [errorData("Hop output below minimum"), "SLIPPAGE"],
+      [errorData("UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT"), "SLIPPAGE"],
+      [errorData("BAL#507"), "SLIPPAGE"],
+      ["nonce too low: next nonce 7, tx nonce 6", "NONCE"],
+      ["intrinsic gas too low", "OUT_OF_GAS"],
+      ["replacement transaction underpriced", "COMPETITION"],
+      ["gas price too low", "COMPETITION"],
+      [panicData(0x12), "UNKNOWN"],
+      [errorData("Not authorized"), "UNKNOWN"]
+    ];
+    for (const [source, category] of cases) {
+      expect(FailureTaxonomy.classify(source).category, source).to.equal(category);
+    }
+  });
+
+  it("Should classify submission outcomes by status and decoded revert", function () {
+    const outcome = { included: false, rounds: 1, submissions: 1, gasUsed: 0n, gasCost: 0n };
+    expect(FailureTaxonomy.fromOutcome({ ...outcome, status: "NOT_INCLUDED" }).category).to.equal("COMPETITION");
+    expect(FailureTaxonomy.fromOutcome({ ...outcome, status: "PENDING_UNKNOWN" }).reason).to.match(/may still be/);
+    expect(FailureTaxonomy.fromOutcome({ ...outcome, status: "NONCE_TOO_HIGH" }).category).to.equal("NONCE");
+    expect(FailureTaxonomy.fromOutcome({ ...outcome, status: "REVERTED" }).category).to.equal("UNKNOWN");
+    expect(FailureTaxonomy.fromOutcome({ ...outcome, status: "REVERTED" }, RevertDecoder.decode(errorData("Profit too low"))).category)
+      .to.equal("STALE_QUOTE");
+    expect(FailureTaxonomy.fromOutcome({ ...outcome, status: "RELAY_ERROR", error: "block full" }).category).to.equal("COMPETITION");
+  });
+
+  it("Should pick the bundle fallback from the failure category", async function () {
+    const optimizer = new MEVBundleOptimizer(null as any, null as any, null as any, null as any, null as any);
+    const bundle: any[] = [{ signer: null, transaction: { to: "0x0000000000000000000000000000000000000b07", data: "0x12345678", maxFeePerGas: 100n, maxPriorityFeePerGas: 10n } }];
+
+    expect((await optimizer.handleBundleFailure(bundle, FailureTaxonomy.classify(errorData("Profit too low")), 1)).fallbackStrategy).to.equal("skip-opportunity");
+    expect((await optimizer.handleBundleFailure(bundle, FailureTaxonomy.classify(errorData("Invalid price feed")), 1)).fallbackStrategy).to.equal("skip-opportunity");
+    expect(await optimizer.handleBundleFailure(bundle, "nonce too low", 1)).to.include({ fallbackStrategy: "retry-bundle", recommendedGasIncrease: 0 });
+    expect(await optimizer.handleBundleFailure(bundle, "out of gas", 1)).to.include({ fallbackStrategy: "retry-bundle", recommendedGasLimitIncrease: 30 });
+
+    // Outbid: raise the tip, then leave the relay once this bundle type keeps losing
+    const other: any[] = [{ ...bundle[0], transaction: { ...bundle[0].transaction, data: "0x87654321" } }];
+    expect(await optimizer.handleBundleFailure(other, "gas price too low", 1)).to.include({ fallbackStrategy: "retry-bundle", recommendedGasIncrease: 25 });
+    await optimizer.handleBundleFailure(other, "gas price too low", 2);
+    const fallback = await optimizer.handleBundleFailure(other, "gas price too low", 3);
+    expect(fallback.fallbackStrategy).to.equal("public-mempool");
+    expect(fallback.adjustedTransactions![0].maxFeePerGas).to.equal(130n);
+  });
+
+  it("Should keep lost races out of the failure streak and trip on repeated oracle guards", async function () {
+    const risk = new AdvancedRiskManager(parseEther("10"));
+    const trade = { profit: 0n, gasCost: 0n, success: false, strategy: "dual_dex", tokenPair: "WETH-USDC", chainId: 42161, tradeSize: parseEther("1") };
+
+    for (let i = 0; i < 6; i++) {
+      await risk.updateMetricsAndCheckLimits({ ...trade, failureCategory: i % 2 === 0 ? "COMPETITION" : "NONCE" });
+    }
+    expect(risk.getRiskMetrics().consecutiveFailures).to.equal(0);
+    expect(risk.getCircuitBreakerStatus().isActive).to.equal(false);
+
+    await risk.updateMetricsAndCheckLimits({ ...trade, failureCategory: "SLIPPAGE" });
+    await risk.updateMetricsAndCheckLimits({ ...trade });
+    expect(risk.getRiskMetrics().consecutiveFailures).to.equal(2);
+    expect(risk.getRiskMetrics().failuresByCategory).to.deep.equal({ COMPETITION: 3, NONCE: 3, SLIPPAGE: 1, UNKNOWN: 1 });
+
+    for (let i = 0; i < 3; i++) {
+      await risk.updateMetricsAndCheckLimits({ ...trade, failureCategory: "ORACLE_GUARD" });
+    }
+    expect(risk.getCircuitBreakerStatus().reasons).to.include("Oracle guard tripped 3 times in 1h");
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AdvancedRiskManager } from "../utils/advanced-risk-manager";
+import { RiskJournal } from "../utils/risk-journal";
+
+const trade = { gasCost: 0n, strategy: "dual_dex", tokenPair: "WETH-USDC", chainId: 42161, tradeSize: parseEther("1") };
+
+describe("RiskJournal", function () {
+  let dir: string;
+  let file: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "risk-journal-"));
+    file = path.join(dir, "risk-journal.jsonl");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should keep a tripped breaker and the drawdown peak across a restart", async function () {
+    const risk = new AdvancedRiskManager(parseEther("10"), new RiskJournal(file));
+    expect(await risk.rehydrate()).to.equal(false);
+    await risk.updateMetricsAndCheckLimits({ ...trade, profit: parseEther("2"), success: true });
+    await risk.updateMetricsAndCheckLimits({ ...trade, profit: parseEther("-1"), success: false, failureCategory: "SLIPPAGE" });
+    const tripped = risk.getCircuitBreakerStatus();
+    expect(tripped.isActive).to.equal(true);
+    expect(tripped.reasons).to.include("Drawdown limit exceeded: 8.3%");
+
+    // The restarted process is configured with the same capital, but the journal wins
+    const restarted = new AdvancedRiskManager(parseEther("10"), new RiskJournal(file));
+    expect(await restarted.rehydrate()).to.equal(true);
+    expect(restarted.getCircuitBreakerStatus()).to.deep.equal(tripped);
+    expect(restarted.getRiskMetrics()).to.deep.include({
+      currentBalance: parseEther("11"), peakBalance: parseEther("12"), totalTradesCount: 2, consecutiveFailures: 1
+    });
+    expect(restarted.getRiskMetrics().currentDrawdown).to.be.closeTo(1 / 12, 1e-9);
+
+    // A reset is journaled too
+    (restarted as any).circuitBreakerStatus.canOverride = true;
+    expect(restarted.forceCircuitBreakerReset()).to.equal(true);
+    expect(new RiskJournal(file).replay()!.circuitBreaker.isActive).to.equal(false);
+    expect(new RiskJournal(file).read().map(entry => entry.type)).to.deep.equal(["open", "trade", "trade", "breaker", "breaker"]);
+  });
+
+  it("Should move the peak with deposits and withdrawals instead of counting them as drawdown", async function () {
+    // The journal was opened against notional capital; the real portfolio is far smaller
+    const notional = new AdvancedRiskManager(parseEther("10"), new RiskJournal(file));
+    await notional.rehydrate();
+
+    const risk = new AdvancedRiskManager(parseEther("0.5"), new RiskJournal(file));
+    expect(await risk.rehydrate()).to.equal(true);
+    await risk.recordExternalFlow(parseEther("0.5"), "change while the bot was stopped");
+    await risk.updatePortfolioValue(parseEther("0.5"));
+    expect(risk.getCircuitBreakerStatus().isActive).to.equal(false);
+    expect(risk.getRiskMetrics()).to.deep.include({
+      currentBalance: parseEther("0.5"), peakBalance: parseEther("0.5"), netExternalFlows: parseEther("-9.5")
+    });
+
+    // Price ticks under 10 bps stay out of the journal; the move that matters is written
+    await risk.updatePortfolioValue(parseEther("0.5001"));
+    await risk.updatePortfolioValue(parseEther("0.5002"));
+    await risk.updatePortfolioValue(parseEther("0.51"));
+
+    // A withdrawal trips the drawdown breaker until the operator confirms it was one
+    await risk.updatePortfolioValue(parseEther("0.3"));
+    expect(risk.getCircuitBreakerStatus().isActive).to.equal(true);
+    await risk.resetPeak("alice");
+    risk.acknowledgeCircuitBreaker("alice");
+    await risk.updatePortfolioValue(parseEther("0.2999"));
+    expect(risk.getCircuitBreakerStatus().isActive).to.equal(false);
+    expect(risk.getRiskMetrics().peakBalance).to.equal(parseEther("0.3"));
+
+    const journal = new RiskJournal(file);
+    expect(journal.read().map(entry => entry.type)).to.deep.equal(
+      ["open", "flow", "balance", "balance", "breaker", "flow", "breaker"]);
+    const state = journal.replay()!;
+    expect(state).to.deep.include({ peakBalance: parseEther("0.3"), netFlows: parseEther("-9.71") });
+    // The compacted snapshot keeps the flows too
+    journal.compact();
+    expect(journal.replay()!.netFlows).to.equal(parseEther("-9.71"));
+  });
+
+  it("Should compact into a snapshot that keeps the peak but drops expired trades", function () {
+    const journal = new RiskJournal(file);
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    journal.recordOpen(parseEther("10"));
+    journal.recordTrade({ ...trade, timestamp: now - 40 * day, profit: parseEther("5"), success: true, balance: parseEther("15") });
+    journal.recordTrade({ ...trade, timestamp: now - day, profit: parseEther("-2"), success: false, failureCategory: "SLIPPAGE", balance: parseEther("13") });
+    journal.recordBreaker({ isActive: true, activatedAt: now, reasons: ["Drawdown limit exceeded: 13.3%"], canOverride: false, overrideConditions: [] });
+
+    const before = journal.replay(now);
+    expect(journal.compact(now)).to.deep.equal({ entriesBefore: 4, tradesKept: 1 });
+    expect(journal.read().map(entry => entry.type)).to.deep.equal(["snapshot"]);
+    expect(journal.replay(now)).to.deep.equal(before);
+    expect(before).to.deep.include({ initialCapital: parseEther("10"), currentBalance: parseEther("13"), peakBalance: parseEther("15") });
+    expect(before!.trades[0]).to.include({ profit: parseEther("-2"), failureCategory: "SLIPPAGE" });
+  });
+
+  it("Should skip a torn last line and refuse damage before it", function () {
+    const journal = new RiskJournal(file);
+    journal.recordOpen(parseEther("10"));
+    fs.appendFileSync(file, '{"type":"trade","timestamp":1');
+    expect(journal.read()).to.have.length(1);
+
+    // Appending cuts the torn line first rather than fusing onto it
+    new RiskJournal(file).recordBreaker({ isActive: false, reasons: [], canOverride: false, overrideConditions: [] });
+    expect(journal.read().map(entry => entry.type)).to.deep.equal(["open", "breaker"]);
+
+    fs.writeFileSync(file, "not json\n" + fs.readFileSync(file, "utf8"));
+    expect(() => journal.read()).to.throw(/corrupt entry on line 1/);
+    fs.writeFileSync(file, '{"type":"open","version":2,"timestamp":1,"capital":"1"}\n');
+    expect(() => journal.read()).to.throw(/Unsupported risk journal version 2/);
+  });
+});
@@ -0,0 +1,244 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { parseEther, parseUnits, keccak256, toUtf8Bytes } from "ethers";
+import "@nomicfoundation/hardhat-chai-matchers";
+import { DEXRouter } from "../utils/dex-routers";
+import { PoolState, PoolStateReader } from "../utils/pool-state";
+import { DexType, FlashArbBotFactory } from "../utils/flash-arb-bot";
+import { FlashArbCalldataBuilder } from "../utils/flash-arb-calldata";
+import { RouteEncoder, RouteLeg } from "../utils/route-encoder";
+
+const router = (routerType: DEXRouter['routerType'], address: string): DEXRouter => ({
+  name: routerType, address, chainId: 31337, routerType, gasLimit: 200000n, feeStructure: "", liquidityScore: 1
+});
+
+describe("Route Execution", function () {
+  let bot: any;
+  let vault: any;
+  let aavePool: any;
+  let v3Router: any;
+  let stablePool: any;
+  let cryptoPool: any;
+  let balancerPool: any;
+  let reader: PoolStateReader;
+  let weth: any;
+  let usdc: any;
+  let dai: any;
+  let poolId: string;
+  let WETH: string;
+  let USDC: string;
+  let DAI: string;
+
+  beforeEach(async function () {
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    weth = await MockERC20.deploy("Wrapped Ether", "WETH", 18);
+    usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+    dai = await MockERC20.deploy("Dai Stablecoin", "DAI", 18);
+    [WETH, USDC, DAI] = await Promise.all([weth, usdc, dai].map(token => token.getAddress()));
+
+    vault = await (await ethers.getContractFactory("MockBalancerVault")).deploy();
+    await vault.setFlashLoanFeeBps(5);
+    await vault.setSwapFeeBps(10);
+    const MockV2Router = await ethers.getContractFactory("MockUniswapV2Router");
+    const uniRouter = await MockV2Router.deploy();
+    const sushiRouter = await MockV2Router.deploy();
+
+    bot = await (await ethers.getContractFactory("FlashArbBotBalancer")).deploy(
+      await vault.getAddress(),
+      await sushiRouter.getAddress(),
+      await uniRouter.getAddress(),
+      ethers.ZeroAddress
+    );
+    await weth.mint(await vault.getAddress(), parseEther("50"));
+    
+    // Routes that swap through the vault borrow from Aave instead
+    aavePool = await (await ethers.getContractFactory("MockAavePool")).deploy();
+    await aavePool.setPremiumBps(9);
+    await weth.mint(await aavePool.getAddress(), parseEther("50"));
+    await bot.setAavePool(await aavePool.getAddress());
+
+    // WETH sells for 2000 USDC on the 0.05% V3 pool and buys for 1900 DAI on Balancer and the 0.3% V3 pool;
+    // both Curve pools swap USDC to DAI at par
+    v3Router = await (await ethers.getContractFactory("MockUniswapV3Router")).deploy();
+    await weth.mint(await v3Router.getAddress(), parseEther("2000"));
+    await usdc.mint(await v3Router.getAddress(), parseUnits("2000000", 6));
+    await dai.mint(await v3Router.getAddress(), parseEther("1900000"));
+    await v3Router.setReserves(500, WETH, USDC, parseEther("1000"), parseUnits("2000000", 6));
+    await v3Router.setReserves(3000, DAI, WETH, parseEther("1900000"), parseEther("1000"));
+
+    stablePool = await (await ethers.getContractFactory("MockCurveStableSwapPool")).deploy([DAI, USDC]);
+    cryptoPool = await (await ethers.getContractFactory("MockCurveCryptoSwapPool")).deploy([DAI, USDC]);
+    for (const pool of [stablePool, cryptoPool]) {
+      await dai.mint(await pool.getAddress(), parseEther("1000000"));
+      await pool.setRate(1, 0, parseEther("1") * 10n ** 12n);
+    }
+    reader = new PoolStateReader(new Map([[31337, ethers.provider]]));
+
+    poolId = keccak256(toUtf8Bytes("WETH/DAI"));
+    balancerPool = await (await ethers.getContractFactory("MockBalancerPool")).deploy(poolId);
+    await weth.mint(await vault.getAddress(), parseEther("1000"));
+    await dai.mint(await vault.getAddress(), parseEther("1900000"));
+    await vault.registerPool(poolId, WETH, DAI, parseEther("1000"), parseEther("1900000"));
+    await allowTargets(bot);
+  });
+
+  const allowTargets = async (target: any) => {
+    for (const listed of [v3Router, stablePool, cryptoPool]) {
+      await target.setRouteTarget(await listed.getAddress(), true);
+    }
+  };
+
+  // Curve hops carry the pool state the reader finds on-chain, as in a scan; each hop is quoted from the mocks' own pricing
+  const curveLeg = async (pool: any, amountIn: bigint): Promise<RouteLeg> => {
+    const curveRouter = router("CURVE", await pool.getAddress());
+    const state = await reader.getPoolState(USDC, DAI, curveRouter, await ethers.provider.getBlockNumber());
+    expect(state).to.not.equal(null);
+    return { router: curveRouter, tokenIn: USDC, tokenOut: DAI, amountOut: await pool.get_dy(1, 0, amountIn), pool: state! };
+  };
+  
+  // WETH -> USDC on V3, USDC -> DAI on the StableSwap pool, DAI -> WETH on Balancer
+  const simulate = async (amountIn: bigint): Promise<RouteLeg[]> => {
+    const usdcOut = await v3Router.getAmountOut(500, amountIn, WETH, USDC);
+    const curve = await curveLeg(stablePool, usdcOut);
+    const wethOut = await vault.getAmountOut(poolId, curve.amountOut, DAI, WETH);
+    return [
+      { router: router("UNISWAP_V3", await v3Router.getAddress()), tokenIn: WETH, tokenOut: USDC, amountOut: usdcOut, pool: { kind: "UNISWAP_V3", feeTier: 500 } as PoolState },
+      curve,
+      { router: router("BALANCER", await vault.getAddress()), tokenIn: DAI, tokenOut: WETH, amountOut: wethOut, pool: { kind: "BALANCER", address: await balancerPool.getAddress() } as PoolState }
+    ];
+  };
+  
+  // WETH -> USDC on V3, USDC -> DAI on the CryptoSwap pool, DAI -> WETH on V3
+  const simulateCrypto = async (amountIn: bigint): Promise<RouteLeg[]> => {
+    const usdcOut = await v3Router.getAmountOut(500, amountIn, WETH, USDC);
+    const curve = await curveLeg(cryptoPool, usdcOut);
+    const wethOut = await v3Router.getAmountOut(3000, curve.amountOut, DAI, WETH);
+    return [
+      { router: router("UNISWAP_V3", await v3Router.getAddress()), tokenIn: WETH, tokenOut: USDC, amountOut: usdcOut, pool: { kind: "UNISWAP_V3", feeTier: 500 } as PoolState },
+      curve,
+      { router: router("UNISWAP_V3", await v3Router.getAddress()), tokenIn: DAI, tokenOut: WETH, amountOut: wethOut, pool: { kind: "UNISWAP_V3", feeTier: 3000 } as PoolState }
+    ];
+  };
+  
+  const execute = async (amount: bigint, legs: RouteLeg[], flashLoanFeeBps: bigint) => {
+    const simulatedProfit = legs[2].amountOut - amount - amount * flashLoanFeeBps / 10000n;
+    expect(simulatedProfit > 0n).to.equal(true);
+    
+    const call = FlashArbCalldataBuilder.build({
+      asset: WETH, amountIn: amount, path: [WETH, USDC, DAI, WETH], minProfit: simulatedProfit, sushiFirst: false,
+      route: RouteEncoder.encode(legs, 100)
+    });
+    expect(call.method).to.equal("executeRoute");
+    
+    const receipt = await (await bot.executeRoute(...call.args)).wait();
+    const events = FlashArbBotFactory.parseLogs(receipt.logs, await bot.getAddress());
+    expect(events).to.deep.equal([
+      { name: "RouteArbitrageExecuted", asset: WETH, amount, profit: simulatedProfit, hops: 3n }
+    ]);
+    expect(await weth.balanceOf(await bot.getAddress())).to.equal(simulatedProfit);
+    // Every hop's approval is spent or withdrawn
+    expect(await usdc.allowance(await bot.getAddress(), await stablePool.getAddress())).to.equal(0n);
+    expect(await usdc.allowance(await bot.getAddress(), await cryptoPool.getAddress())).to.equal(0n);
+    expect(await dai.allowance(await bot.getAddress(), await vault.getAddress())).to.equal(0n);
+  };
+
+  it("Should execute a V3, StableSwap and Balancer route on an Aave loan for exactly the simulated profit", async function () {
+    const amount = parseEther("1");
+    const legs = await simulate(amount);
+    expect(legs[1].pool).to.include({ int128Indices: true, cryptoPool: false });
+    
+    // The vault is locked while it lends, so its flash loan cannot pay for a swap through it
+    const bare = await (await ethers.getContractFactory("FlashArbBotBalancer")).deploy(
+      await vault.getAddress(), await v3Router.getAddress(), await v3Router.getAddress(), ethers.ZeroAddress
+    );
+    await allowTargets(bare);
+    await expect(bare.executeRoute(WETH, amount, RouteEncoder.encode(legs, 100), 1n)).to.be.revertedWith("No Aave pool");
+    
+    const aaveBalance = await weth.balanceOf(await aavePool.getAddress());
+    await execute(amount, legs, 9n);
+    expect(await weth.balanceOf(await aavePool.getAddress())).to.equal(aaveBalance + amount * 9n / 10000n);
+  });
+  
+  it("Should execute a V3, CryptoSwap and V3 route on a Balancer loan for exactly the simulated profit", async function () {
+    const amount = parseEther("1");
+    const legs = await simulateCrypto(amount);
+    expect(legs[1].pool).to.include({ int128Indices: false, cryptoPool: true });
+    
+    const lendable = await vault.maxFlashLoan(WETH);
+    await execute(amount, legs, 5n);
+    expect(await vault.maxFlashLoan(WETH)).to.equal(lendable + amount * 5n / 10000n);
+  });
+
+  it("Should revert a hop that returns less than its encoded minimum", async function () {
+    const amount = parseEther("1");
+    const legs = await simulate(amount);
+    const route = RouteEncoder.encode(legs, 0);
+    // Curve moves against the route after it was priced
+    await stablePool.setRate(1, 0, parseEther("0.99") * 10n ** 12n);
+
+    await expect(bot.executeRoute(WETH, amount, route, 1n))
+      .to.be.revertedWith("Exchange resulted in fewer coins than expected");
+  });
+
+  it("Should reject routes that are not closed chains of known hops", async function () {
+    const route = RouteEncoder.encode(await simulate(parseEther("1")), 100);
+    const cases: [any[], string][] = [
+      [route.slice(0, 1), "Invalid route length"],
+      [route.slice(1), "Route must start in the borrowed asset"],
+      [route.slice(0, 2), "Route must end in the borrowed asset"],
+      [[route[0], { ...route[1], tokenIn: WETH }, route[2]], "Route hops are not chained"],
+      [[route[0], { ...route[1], target: ethers.ZeroAddress }, route[2]], "Invalid hop target"],
+      // A target the owner never listed would be handed the bot's approval
+      [[route[0], { ...route[1], target: await usdc.getAddress() }, route[2]], "Route target not allowed"]
+    ];
+
+    for (const [hops, message] of cases) {
+      await expect(bot.executeRoute(WETH, parseEther("1"), hops, 1n)).to.be.revertedWith(message);
+    }
+
+    // Delisting a target stops its routes; only the owner manages the list
+    const [, outsider] = await ethers.getSigners();
+    await expect(bot.connect(outsider).setRouteTarget(await stablePool.getAddress(), true))
+      .to.be.revertedWith("Ownable: caller is not the owner");
+    await expect(bot.setRouteTarget(await stablePool.getAddress(), false))
+      .to.emit(bot, "RouteTargetUpdated").withArgs(await stablePool.getAddress(), false);
+    await expect(bot.executeRoute(WETH, parseEther("1"), route, 1n)).to.be.revertedWith("Route target not allowed");
+  });
+
+  it("Should encode each venue's hop from the pool it was quoted on", function () {
+    const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+    const leg = (routerType: DEXRouter['routerType'], tokenIn: string, tokenOut: string, pool?: Partial<PoolState>): RouteLeg => ({
+      router: router(routerType, address(0xabc)), tokenIn, tokenOut, amountOut: 10_000n, pool: pool as PoolState
+    });
+    const [A, B, C] = [address(1), address(2), address(3)];
+
+    const hops = RouteEncoder.encode([
+      leg("UNISWAP_V3", A, B, { kind: "UNISWAP_V3", feeTier: 3000 }),
+      leg("CURVE", B, C, { kind: "CURVE", address: address(0xc0), int128Indices: false, cryptoPool: true }),
+      leg("BALANCER", C, A, { kind: "BALANCER", address: address(0xba) })
+    ], 50);
+    expect(hops.map(hop => [hop.dex, hop.target, hop.fee, hop.minAmountOut])).to.deep.equal([
+      [DexType.UNISWAP_V3, address(0xabc), 3000, 9_950n],
+      [DexType.CURVE_CRYPTO, address(0xc0), 0, 9_950n],
+      [DexType.BALANCER, address(0xba), 0, 9_950n]
+    ]);
+    expect(RouteEncoder.encode([leg("UNISWAP_V2", A, B), leg("CURVE", B, A)], 0).map(hop => hop.dex))
+      .to.deep.equal([DexType.UNISWAP_V2, DexType.CURVE]);
+    // StableSwap pools indexed by uint256, like the Arbitrum 2pool, still swap through exchange(int128, ...)
+    expect(RouteEncoder.encode([leg("UNISWAP_V2", A, B), leg("CURVE", B, A, { kind: "CURVE", address: address(0xc1), int128Indices: false, cryptoPool: false })], 0)
+      .map(hop => hop.dex)).to.deep.equal([DexType.UNISWAP_V2, DexType.CURVE]);
+
+    const cases: [RouteLeg[], RegExp][] = [
+      [[leg("UNISWAP_V2", A, B), leg("GMX", B, A)], /GMX\) hops are not executable/],
+      [[leg("UNISWAP_V2", A, B), { ...leg("UNISWAP_V2", B, A), router: { ...router("UNISWAP_V2", address(0xca)), name: "Camelot", executable: false } }],
+        /Camelot \(UNISWAP_V2\) hops are not executable/],
+      [[leg("UNISWAP_V3", A, B), leg("UNISWAP_V2", B, A)], /no V3 pool state/],
+      [[leg("UNISWAP_V2", A, B), leg("UNISWAP_V2", C, A)], /hop 1 does not continue/],
+      [[leg("UNISWAP_V2", A, B), leg("UNISWAP_V2", B, C)], /does not return to its start/],
+      [[leg("UNISWAP_V2", A, B)], /got 1/]
+    ];
+    for (const [legs, message] of cases) {
+      expect(() => RouteEncoder.encode(legs, 50)).to.throw(message);
+    }
+  });
+});
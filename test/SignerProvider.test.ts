@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { JsonRpcProvider, SigningKey, Transaction, Wallet, ZeroAddress, getBytes, hashMessage, parseEther, verifyMessage } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { KeystoreBackend, RemoteSigner, SignerProvider } from "../utils/signer-provider";
+import { JsonRpcStandIn } from "./utils/jsonRpcStandIn";
+
+const EXECUTOR_KEY = "0x" + "66".repeat(32);
+const AUTH_KEY = "0x" + "77".repeat(32);
+
+// Answers eth_signTransaction and eth_sign the way Web3Signer does, holding `key`
+const remoteSigner = (key: string, signingKey = new SigningKey(key)) => new JsonRpcStandIn()
+  .handle("eth_signTransaction", ([rpc]) => {
+    const tx = Transaction.from({
+      type: Number(rpc.type), to: rpc.to, data: rpc.data, value: rpc.value, nonce: Number(rpc.nonce),
+      gasLimit: rpc.gas, maxFeePerGas: rpc.maxFeePerGas, maxPriorityFeePerGas: rpc.maxPriorityFeePerGas, chainId: rpc.chainId
+    });
+    tx.signature = signingKey.sign(tx.unsignedHash);
+    return tx.serialized;
+  })
+  .handle("eth_sign", ([, data]) => signingKey.sign(hashMessage(getBytes(data))).serialized);
+
+describe("SignerProvider", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should unlock encrypted keystores with the password file", async function () {
+    this.timeout(60000);
+    fs.writeFileSync(path.join(dir, "executor.json"), await new Wallet(EXECUTOR_KEY).encrypt("hunter2"));
+    fs.writeFileSync(path.join(dir, "flashbots-auth.json"), await new Wallet(AUTH_KEY).encrypt("hunter2"));
+    fs.writeFileSync(path.join(dir, "password"), "hunter2\n");
+
+    const signers = SignerProvider.fromEnv({ SIGNER_BACKEND: "keystore", KEYSTORE_DIR: dir, KEYSTORE_PASSWORD_FILE: path.join(dir, "password") });
+    expect(signers.kind).to.equal("keystore");
+    expect(await signers.address("executor")).to.equal(new Wallet(EXECUTOR_KEY).address);
+
+    const auth = await signers.signer("flashbots-auth", ethers.provider);
+    expect(auth.provider).to.equal(ethers.provider);
+    expect(verifyMessage("bundle", await auth.signMessage("bundle"))).to.equal(new Wallet(AUTH_KEY).address);
+
+    const locked = new KeystoreBackend(dir, "wrong");
+    await expect(locked.signer("executor")).to.be.rejectedWith(/incorrect password/);
+    fs.rmSync(path.join(dir, "executor.json"));
+    await expect(new KeystoreBackend(dir, "hunter2").signer("executor")).to.be.rejectedWith(/no keystore for executor/);
+  });
+
+  it("Should send transactions signed by a remote signer", async function () {
+    const held = new Wallet(EXECUTOR_KEY);
+    const rpc = remoteSigner(EXECUTOR_KEY);
+    const url = await rpc.start();
+    try {
+      const signers = SignerProvider.fromEnv({ SIGNER_BACKEND: "remote", REMOTE_SIGNER_URL: url, REMOTE_SIGNER_EXECUTOR_ADDRESS: held.address });
+      const executor = await signers.signer("executor", ethers.provider);
+      const [funder] = await ethers.getSigners();
+      await (await funder.sendTransaction({ to: held.address, value: parseEther("1") })).wait();
+
+      const tx = await executor.sendTransaction({ to: funder.address, value: 1234n });
+      expect((await tx.wait())!.status).to.equal(1);
+      expect(tx.from).to.equal(held.address);
+      expect(rpc.callsTo("eth_signTransaction")[0][0]).to.deep.include({ from: held.address, to: funder.address, value: "0x4d2" });
+
+      expect(verifyMessage("hello", await executor.signMessage("hello"))).to.equal(held.address);
+      await expect(signers.signer("flashbots-auth")).to.be.rejectedWith(/no remote signer address configured for flashbots-auth/);
+    } finally {
+      await rpc.stop();
+    }
+  });
+
+  it("Should reject signatures from a different key than the configured address", async function () {
+    const rpc = remoteSigner(AUTH_KEY);
+    const url = await rpc.start();
+    try {
+      const signer = new RemoteSigner(new JsonRpcProvider(url, 1, { staticNetwork: true }), new Wallet(EXECUTOR_KEY).address);
+      const tx = { type: 2, to: ZeroAddress, nonce: 0, gasLimit: 21000n, maxFeePerGas: 1n, maxPriorityFeePerGas: 1n, chainId: 1n };
+
+      await expect(signer.signTransaction(tx)).to.be.rejectedWith(/endpoint signed as .* instead of/);
+      await expect(signer.signTransaction({ ...tx, from: new Wallet(AUTH_KEY).address })).to.be.rejectedWith(/cannot be signed by/);
+    } finally {
+      await rpc.stop();
+    }
+  });
+
+  it("Should refuse raw environment keys in production", async function () {
+    expect(() => SignerProvider.fromEnv({ NODE_ENV: "production", PRIVATE_KEY: EXECUTOR_KEY })).to.throw(/not allowed in production/);
+    expect(() => SignerProvider.fromEnv({ SIGNER_BACKEND: "keystore" })).to.throw(/KEYSTORE_PASSWORD/);
+
+    const development = SignerProvider.fromEnv({ PRIVATE_KEY: EXECUTOR_KEY });
+    expect(development.kind).to.equal("env");
+    expect(await development.address("executor")).to.equal(new Wallet(EXECUTOR_KEY).address);
+    await expect(development.signer("flashbots-auth")).to.be.rejectedWith(/FLASHBOTS_AUTH_KEY is not set/);
+  });
+});
@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import { AbiCoder, Interface, Provider, ZeroHash, encodeBytes32String, id, zeroPadValue } from "ethers";
+import { MulticallBatcher } from "../utils/multicall";
+import { TokenRegistry } from "../utils/token-registry";
+import { ForkRpc, TokenBehaviorProbe } from "../utils/token-probe";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const USDC = "0x0000000000000000000000000000000000000e01";
+const MKR = "0x0000000000000000000000000000000000000e02";
+const NOT_A_TOKEN = "0x0000000000000000000000000000000000000e03";
+const TAXED = "0x0000000000000000000000000000000000000e04";
+const PROXY = "0x0000000000000000000000000000000000000e05";
+const IMPLEMENTATION = "0x0000000000000000000000000000000000000e06";
+const POOL = "0x0000000000000000000000000000000000000b01";
+
+const ERC20 = new Interface([
+  "function balanceOf(address owner) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)"
+]);
+
+/**
+ * Chain stand-in without Multicall3 serving decimals() and symbol() for a few tokens
+ */
+class MetadataProvider {
+  public calls = 0;
+
+  async call(tx: { to: string; data: string }): Promise<string> {
+    const to = tx.to.toLowerCase();
+    const selector = tx.data.slice(0, 10);
+    if (to === MulticallBatcher.MULTICALL3_ADDRESS.toLowerCase() || to === NOT_A_TOKEN) {
+      throw new Error("execution reverted");
+    }
+
+    this.calls++;
+    if (selector === ERC20.getFunction("decimals")!.selector) {
+      return coder.encode(["uint8"], [to === USDC ? 6 : 18]);
+    }
+    return to === MKR
+      ? coder.encode(["bytes32"], [encodeBytes32String("MKR")])
+      : coder.encode(["string"], [to === USDC ? "USDC" : "TAX"]);
+  }
+}
+
+interface FakeToken {
+  balances: Map<string, bigint>;
+  feeBps: bigint; // Taken from every transfer
+  rebaseBps: bigint; // Added to every balance when time moves forward
+}
+
+/**
+ * In-memory fork holding a few tokens: balances, snapshots, impersonation and time travel
+ */
+class FakeFork implements ForkRpc {
+  public tokens = new Map<string, FakeToken>();
+  public implementationCode: string | null = null;
+  private snapshots: Map<string, Map<string, bigint>>[] = [];
+  private impersonated = new Set<string>();
+  private pendingTime = 0;
+
+  addToken(address: string, holderBalance: bigint, feeBps: bigint = 0n, rebaseBps: bigint = 0n): void {
+    this.tokens.set(address, { balances: new Map([[POOL, holderBalance]]), feeBps, rebaseBps });
+  }
+
+  async send(method: string, params: any[]): Promise<any> {
+    switch (method) {
+      case "eth_getCode":
+        return params[0].toLowerCase() === IMPLEMENTATION ? this.implementationCode : "0x6080604052";
+      case "eth_getStorageAt":
+        return this.implementationCode ? zeroPadValue(IMPLEMENTATION, 32) : ZeroHash;
+      case "eth_call": {
+        const [owner] = ERC20.decodeFunctionData("balanceOf", params[0].data);
+        return coder.encode(["uint256"], [this.balanceOf(params[0].to, owner)]);
+      }
+      case "evm_snapshot":
+        this.snapshots.push(new Map([...this.tokens].map(([address, token]) => [address, new Map(token.balances)])));
+        return `0x${this.snapshots.length}`;
+      case "evm_revert":
+        for (const [address, balances] of this.snapshots[Number(params[0]) - 1]) {
+          this.tokens.get(address)!.balances = balances;
+        }
+        return true;
+      case "hardhat_impersonateAccount":
+        this.impersonated.add(params[0].toLowerCase());
+        return true;
+      case "hardhat_stopImpersonatingAccount":
+        this.impersonated.delete(params[0].toLowerCase());
+        return true;
+      case "hardhat_setBalance":
+        return true;
+      case "eth_sendTransaction": {
+        const tx = params[0];
+        if (!this.impersonated.has(tx.from.toLowerCase())) throw new Error("unknown account");
+        const token = this.tokens.get(tx.to.toLowerCase())!;
+        const [to, amount] = ERC20.decodeFunctionData("transfer", tx.data);
+        const fee = (amount * token.feeBps) / 10_000n;
+        token.balances.set(tx.from.toLowerCase(), this.balanceOf(tx.to, tx.from) - amount);
+        token.balances.set(to.toLowerCase(), this.balanceOf(tx.to, to) + amount - fee);
+        return "0x01";
+      }
+      case "eth_getTransactionReceipt":
+        return { status: "0x1" };
+      case "evm_increaseTime":
+        this.pendingTime += params[0];
+        return true;
+      case "evm_mine":
+        for (const token of this.pendingTime > 0 ? this.tokens.values() : []) {
+          for (const [owner, balance] of token.balances) {
+            token.balances.set(owner, balance + (balance * token.rebaseBps) / 10_000n);
+          }
+        }
+        this.pendingTime = 0;
+        return true;
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  private balanceOf(token: string, owner: string): bigint {
+    return this.tokens.get(token.toLowerCase())?.balances.get(owner.toLowerCase()) ?? 0n;
+  }
+}
+
+function push4(signature: string): string {
+  return "63" + id(signature).slice(2, 10);
+}
+
+describe("TokenRegistry", function () {
+  let registryPath: string;
+
+  beforeEach(async function () {
+    registryPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "token-registry-")), "tokens.json");
+  });
+
+  function setup(forks: Map<number, ForkRpc> = new Map()) {
+    const chain = new MetadataProvider();
+    const multicall = new MulticallBatcher(new Map([[42161, chain as unknown as Provider]]));
+    const probe = forks.size > 0 ? new TokenBehaviorProbe(forks) : undefined;
+    return { chain, multicall, registry: new TokenRegistry(multicall, registryPath, probe) };
+  }
+
+  it("Should resolve decimals and symbols once and reload them from disk", async function () {
+    const { chain, multicall, registry } = setup();
+
+    const [usdc, again, mkr, missing] = await Promise.all([
+      registry.resolve(42161, USDC),
+      registry.resolve(42161, USDC),
+      registry.resolve(42161, MKR),
+      registry.resolve(42161, NOT_A_TOKEN)
+    ]);
+
+    expect(usdc).to.include({ symbol: "USDC", decimals: 6, classifiedAt: null });
+    expect(again).to.equal(usdc);
+    expect(mkr).to.include({ symbol: "MKR", decimals: 18 });
+    expect(missing).to.equal(null);
+
+    const callsAfterFirstSight = chain.calls;
+    expect(await registry.getDecimals(42161, USDC)).to.equal(6);
+    expect(chain.calls).to.equal(callsAfterFirstSight);
+
+    await registry.save();
+    const reloaded = new TokenRegistry(multicall, registryPath);
+    await reloaded.load();
+    expect(reloaded.size).to.equal(2);
+    expect(reloaded.get(42161, MKR)!.symbol).to.equal("MKR");
+  });
+
+  it("Should classify a plain ERC20 as supported and leave the fork untouched", async function () {
+    const fork = new FakeFork();
+    fork.addToken(USDC, 1_000_000n);
+    const { registry } = setup(new Map([[42161, fork]]));
+
+    expect(await registry.findUnsupported(42161, [USDC], [NOT_A_TOKEN, POOL])).to.deep.equal([]);
+    expect(registry.get(42161, USDC)!.classifiedAt).to.be.a("number");
+    expect(fork.tokens.get(USDC)!.balances.get(POOL)).to.equal(1_000_000n);
+  });
+
+  it("Should flag fee-on-transfer and rebasing tokens", async function () {
+    const fork = new FakeFork();
+    fork.addToken(USDC, 1_000_000n);
+    fork.addToken(TAXED, 1_000_000n, 100n);
+    fork.addToken(MKR, 1_000_000n, 0n, 10n);
+    const { registry } = setup(new Map([[42161, fork]]));
+
+    // Probes share one fork and run concurrently from the caller's side
+    const unsupported = await registry.findUnsupported(42161, [USDC, TAXED, MKR, USDC], [POOL]);
+
+    expect(unsupported).to.deep.equal([TAXED, MKR]);
+    expect(registry.get(42161, TAXED)!.behaviors).to.deep.equal(['FEE_ON_TRANSFER']);
+    expect(registry.get(42161, MKR)!.behaviors).to.deep.equal(['REBASING']);
+    expect(registry.isSupported(42161, USDC)).to.equal(true);
+    expect(registry.isSupported(42161, TAXED)).to.equal(false);
+  });
+
+  it("Should find blacklist hooks through an EIP-1967 proxy without blocking the token", async function () {
+    const fork = new FakeFork();
+    fork.addToken(PROXY, 1_000_000n);
+    fork.implementationCode = "0x6080" + push4("transfer(address,uint256)") + "14" + push4("isBlacklisted(address)") + "14";
+
+    const probe = new TokenBehaviorProbe(new Map([[42161, fork]]));
+    expect(await probe.probe(42161, PROXY, [POOL])).to.deep.equal(['BLACKLISTABLE']);
+
+    // A USDC-style blacklist hook is recorded, but the token still transfers exactly and stays routable
+    const { registry } = setup(new Map([[42161, fork]]));
+    expect(await registry.findUnsupported(42161, [PROXY], [POOL])).to.deep.equal([]);
+    expect(registry.get(42161, PROXY)!.behaviors).to.deep.equal(['BLACKLISTABLE']);
+    expect(registry.isSupported(42161, PROXY)).to.equal(true);
+
+    // The same selector inside PUSH32 data is not a function dispatch
+    fork.implementationCode = "0x7f" + id("isBlacklisted(address)").slice(2);
+    expect(await probe.probe(42161, PROXY, [POOL])).to.deep.equal([]);
+  });
+
+  it("Should leave a token unclassified when no holder can fund the probe", async function () {
+    const fork = new FakeFork();
+    fork.addToken(USDC, 0n);
+    const { registry } = setup(new Map([[42161, fork]]));
+
+    expect(await registry.findUnsupported(42161, [USDC], [POOL])).to.deep.equal([]);
+    expect(registry.get(42161, USDC)!.classifiedAt).to.equal(null);
+  });
+});
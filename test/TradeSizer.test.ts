@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ConstantProductHop, TradeSizer } from "../utils/trade-sizer";
+import { CurveStableSwapMath } from "../utils/curve-balancer-math";
+
+const ONE = 10n ** 18n;
+
+function getAmountOut(hop: ConstantProductHop, amountIn: bigint): bigint {
+  const amountInWithFee = amountIn * (1_000_000n - hop.feePips);
+  return (amountInWithFee * hop.reserveOut) / (hop.reserveIn * 1_000_000n + amountInWithFee);
+}
+
+function quoteHops(hops: ConstantProductHop[]) {
+  return async (amountIn: bigint) => hops.reduce((amount, hop) => getAmountOut(hop, amount), amountIn);
+}
+
+// WETH -> USDC on a cheap pool, USDC -> WETH on one priced 2% higher
+const CHEAP: ConstantProductHop = { reserveIn: 1_000n * ONE, reserveOut: 2_000_000n * ONE, feePips: 3000n };
+const RICH: ConstantProductHop = { reserveIn: 1_960_000n * ONE, reserveOut: 1_000n * ONE, feePips: 3000n };
+
+async function bruteForceOptimum(hops: ConstantProductHop[], maxAmountIn: bigint, steps: number, feeBps = 0) {
+  const quote = quoteHops(hops);
+  let best = { amountIn: 0n, profit: 0n };
+  for (let i = 1; i <= steps; i++) {
+    const amountIn = (maxAmountIn * BigInt(i)) / BigInt(steps);
+    const profit = (await quote(amountIn)) - amountIn - (amountIn * BigInt(feeBps)) / 10_000n;
+    if (profit > best.profit) best = { amountIn, profit };
+  }
+  return best;
+}
+
+describe("TradeSizer", function () {
+  const unbounded = { minAmountIn: 1n, maxAmountIn: 1_000n * ONE, flashLoanFeeBps: 0, gasCost: 0n };
+
+  it("Should match the brute-force optimum for two V2 pools in closed form", async function () {
+    const hops = [CHEAP, RICH];
+    const result = await TradeSizer.optimize(quoteHops(hops), unbounded, hops);
+    const brute = await bruteForceOptimum(hops, 20n * ONE, 2000);
+
+    expect(result!.method).to.equal("closed-form");
+    expect(result!.evaluations).to.equal(1);
+    expect(result!.netProfit >= brute.profit).to.equal(true);
+    const distance = result!.amountIn > brute.amountIn ? result!.amountIn - brute.amountIn : brute.amountIn - result!.amountIn;
+    expect(distance <= (20n * ONE) / 2000n).to.equal(true);
+  });
+
+  it("Should find no size for an unprofitable cycle", async function () {
+    const hops = [CHEAP, { ...RICH, reserveIn: 2_010_000n * ONE }];
+    expect(TradeSizer.optimalTwoPoolInput(hops[0], hops[1])).to.equal(0n);
+    expect(await TradeSizer.optimize(quoteHops(hops), unbounded, hops)).to.equal(null);
+  });
+
+  it("Should shrink the optimum as the flash-loan fee grows and net it out of profit", async function () {
+    const hops = [CHEAP, RICH];
+    const free = await TradeSizer.optimize(quoteHops(hops), unbounded, hops);
+    const paid = await TradeSizer.optimize(quoteHops(hops), { ...unbounded, flashLoanFeeBps: 9, gasCost: ONE / 1000n }, hops);
+    const brute = await bruteForceOptimum(hops, 20n * ONE, 2000, 9);
+
+    expect(paid!.amountIn < free!.amountIn).to.equal(true);
+    expect(paid!.flashLoanFee).to.equal((paid!.amountIn * 9n) / 10_000n);
+    expect(paid!.netProfit).to.equal(paid!.grossProfit - paid!.flashLoanFee - ONE / 1000n);
+    expect(paid!.netProfit + ONE / 1000n >= brute.profit - ONE / 100_000n).to.equal(true);
+  });
+
+  it("Should clamp to the risk cap and the configured minimum", async function () {
+    const hops = [CHEAP, RICH];
+    const capped = await TradeSizer.optimize(quoteHops(hops), { ...unbounded, maxAmountIn: ONE }, hops);
+    const floored = await TradeSizer.optimize(quoteHops(hops), { ...unbounded, minAmountIn: 15n * ONE }, hops);
+
+    expect(capped!.amountIn).to.equal(ONE);
+    expect(floored!.amountIn).to.equal(15n * ONE);
+  });
+
+  it("Should search a mixed V2 and Curve path with golden-section", async function () {
+    // WETH -> USDC on a V2 pool, USDC -> USDT on a stable pool, USDT -> WETH on a rich V2 pool
+    const stableBalances = [5_000_000n * ONE, 5_000_000n * ONE];
+    const rates = [ONE, ONE];
+    const quote = async (amountIn: bigint) => {
+      const usdc = getAmountOut(CHEAP, amountIn);
+      const usdt = CurveStableSwapMath.getDy(0, 1, usdc, stableBalances, rates, 200_000n, 4_000_000n);
+      return getAmountOut(RICH, usdt);
+    };
+
+    const result = await TradeSizer.optimize(quote, { ...unbounded, maxAmountIn: 100n * ONE });
+    let bruteProfit = 0n;
+    for (let i = 1; i <= 400; i++) {
+      const amountIn = (20n * ONE * BigInt(i)) / 400n;
+      const profit = (await quote(amountIn)) - amountIn;
+      if (profit > bruteProfit) bruteProfit = profit;
+    }
+
+    expect(result!.method).to.equal("golden-section");
+    expect(result!.evaluations <= 48).to.equal(true);
+    expect(result!.netProfit >= bruteProfit - bruteProfit / 1000n).to.equal(true);
+  });
+
+  it("Should treat unquotable sizes as losses", async function () {
+    const hops = [CHEAP, RICH];
+    const inner = quoteHops(hops);
+    // Quotes beyond 2 WETH fail, as when a V3 walk leaves the loaded tick range
+    const quote = async (amountIn: bigint) => amountIn > 2n * ONE ? null : inner(amountIn);
+
+    const result = await TradeSizer.optimize(quote, unbounded);
+
+    expect(result!.amountIn <= 2n * ONE).to.equal(true);
+    expect(result!.amountIn > (19n * ONE) / 10n).to.equal(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { Worker } from "worker_threads";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AdvancedRiskManager } from "../utils/advanced-risk-manager";
+import { CrossRollupFlashLoan } from "../utils/CrossRollupFlashLoan";
+import { HaltStatus, SharedHaltState, TradingHalt } from "../utils/trading-halt";
+
+const trade = { gasCost: 0n, strategy: "dual_dex", tokenPair: "WETH-USDC", chainId: 42161, tradeSize: parseEther("1") };
+
+// Reads the halt flag the way a WorkerManager worker does
+const haltedInWorker = (shared: SharedHaltState): Promise<boolean> => {
+  const worker = new Worker(`
+    require("ts-node").register({ transpileOnly: true });
+    const { parentPort, workerData } = require("worker_threads");
+    const { TradingHalt } = require(workerData.module);
+    parentPort.postMessage(TradingHalt.attach(workerData.shared).isHalted());
+  `, { eval: true, workerData: { module: path.resolve(__dirname, "../utils/trading-halt.ts"), shared } });
+  return new Promise((resolve, reject) => {
+    worker.once("message", resolve);
+    worker.once("error", reject);
+  });
+};
+
+describe("TradingHalt", function () {
+  let dir: string;
+  let file: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "trading-halt-"));
+    file = path.join(dir, "trading-halt.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should hold a risk breaker halt until an operator acknowledges it by id", async function () {
+    this.timeout(60000);
+    const risk = new AdvancedRiskManager(parseEther("10"));
+    const halt = new TradingHalt(file);
+    halt.on("cleared", (status: HaltStatus) => risk.acknowledgeCircuitBreaker(status.clearedBy!.operator));
+
+    await risk.updateMetricsAndCheckLimits({ ...trade, profit: parseEther("-1"), success: false });
+    halt.syncRiskBreaker(risk.getCircuitBreakerStatus());
+    expect(halt.status()).to.deep.include({ halted: true, haltId: 1 });
+    expect(halt.status().sources[0]).to.deep.include({
+      source: "risk", reasons: ["Drawdown limit exceeded: 10.0%", "Daily loss limit exceeded: 11.1%"]
+    });
+    expect(await haltedInWorker(halt.shared)).to.equal(true);
+
+    // A second source is news the operator has to see, so the old id no longer clears it
+    halt.trip("operator", ["Investigating (alice)"]);
+    expect(() => halt.clear({ haltId: 1, operator: "alice" })).to.throw(/names halt #1, but the current halt is #2/);
+    expect(() => halt.clear({ haltId: 2, operator: " " })).to.throw(/must name the operator/);
+
+    // The bot restarts still halted
+    const restarted = new TradingHalt(file);
+    expect(restarted.isHalted()).to.equal(true);
+
+    halt.clear({ haltId: 2, operator: "alice", note: "limits reviewed" });
+    expect(halt.isHalted()).to.equal(false);
+    expect(risk.getCircuitBreakerStatus().isActive).to.equal(false);
+    expect(await haltedInWorker(halt.shared)).to.equal(false);
+
+    // Another process sees the acknowledgement on its next refresh
+    const cleared: HaltStatus[] = [];
+    restarted.on("cleared", (status: HaltStatus) => cleared.push(status));
+    restarted.refresh();
+    expect(restarted.isHalted()).to.equal(false);
+    expect(cleared[0].clearedBy).to.deep.include({ haltId: 2, operator: "alice", note: "limits reviewed" });
+    expect(() => restarted.clear({ haltId: 2, operator: "alice" })).to.throw(/not halted/);
+  });
+
+  it("Should halt on consecutive execution errors and stop cross-rollup execution", async function () {
+    const halt = new TradingHalt(null, { maxConsecutiveErrors: 3 });
+    halt.recordExecutionError(new Error("nonce too low"));
+    halt.recordExecutionError(new Error("nonce too low"));
+    halt.recordExecutionSuccess();
+    halt.recordExecutionError(new Error("nonce too low"));
+    halt.recordExecutionError(new Error("nonce too low"));
+    expect(halt.isHalted()).to.equal(false);
+
+    halt.recordExecutionError(new Error("execution reverted"));
+    expect(halt.status().sources).to.have.length(1);
+    expect(halt.status().sources[0]).to.deep.include({
+      source: "execution-errors", reasons: ["3 consecutive execution errors, last: execution reverted"]
+    });
+
+    const crossRollup = new CrossRollupFlashLoan({}, {}, {} as any, halt);
+    expect(await crossRollup.executeCrossRollupFlashLoan({} as any)).to.deep.equal({ success: false, error: "Trading halted" });
+  });
+});
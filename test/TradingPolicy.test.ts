@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PolicyRejection, PolicyRule, TradingPolicy } from "../utils/trading-policy";
+
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const USDC = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+const MEME = "0x0000000000000000000000000000000000000e03";
+const POOL = "0x0000000000000000000000000000000000000b01";
+
+// Sunday 2026-10-18 at the given UTC time
+const at = (time: string) => Date.parse(`2026-10-18T${time}:00Z`);
+
+describe("TradingPolicy", function () {
+  let dir: string;
+  let file: string;
+
+  const writePolicy = (rules: PolicyRule[] | string) => {
+    fs.writeFileSync(file, typeof rules === "string" ? rules : JSON.stringify({ version: 1, rules }));
+    // Edits within the same millisecond would otherwise look unchanged
+    const stat = fs.statSync(file);
+    fs.utimesSync(file, stat.atime, new Date(stat.mtimeMs + 1000));
+  };
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "trading-policy-"));
+    file = path.join(dir, "trading-policy.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should reject routes by token, DEX, notional and time window and record the rule", function () {
+    writePolicy([
+      { id: "no-meme", effect: "deny", tokens: [MEME] },
+      { id: "arbitrum-majors", effect: "allow", chains: [42161], tokens: [WETH, USDC], dexes: ["Uniswap V3", "SushiSwap"] },
+      { id: "small-overnight", effect: "deny", maxNotionalEth: "2", windows: [{ start: "22:00", end: "06:00" }] },
+      { id: "weekday-optimism", effect: "deny", chains: [10], windows: [{ days: [1, 2, 3, 4, 5], start: "00:00", end: "23:59" }] }
+    ]);
+    const policy = new TradingPolicy(file);
+    const route = { chainId: 42161, tokens: [WETH, USDC], dexes: ["SushiSwap"], notionalWei: parseEther("5") };
+
+    expect(policy.evaluate(route, at("12:00"))).to.deep.equal({ allowed: true });
+    expect(policy.evaluate({ ...route, tokens: [WETH, MEME] }, at("12:00"))).to.deep.include({ allowed: false, rule: "no-meme" });
+    expect(policy.evaluate({ ...route, dexes: ["SushiSwap", "Camelot"] }, at("12:00")).reason)
+      .to.equal("allow rule arbitrum-majors: DEX camelot is not on the allow-list");
+
+    // The overnight window runs past midnight into Monday
+    expect(policy.evaluate(route, at("23:30"))).to.deep.include({ allowed: false, rule: "small-overnight" });
+    expect(policy.evaluate(route, at("05:59")).rule).to.equal("small-overnight");
+    expect(policy.evaluate({ ...route, notionalWei: parseEther("1") }, at("23:30")).allowed).to.equal(true);
+    // Notional is not known yet early in a scan
+    expect(policy.evaluate({ ...route, notionalWei: undefined }, at("23:30")).allowed).to.equal(true);
+
+    // Sunday is outside the weekday window, and the early hours belong to Saturday's
+    expect(policy.evaluate({ chainId: 10, tokens: [WETH] }, at("12:00")).allowed).to.equal(true);
+    expect(policy.evaluate({ chainId: 10, tokens: [WETH] }, Date.parse("2026-10-19T12:00:00Z")).rule).to.equal("weekday-optimism");
+
+    const rejected: PolicyRejection[] = [];
+    policy.on("rejected", (rejection: PolicyRejection) => rejected.push(rejection));
+    policy.check("pathfinder", "arb_1", { chainId: 42161, tokens: [WETH, MEME] });
+    policy.check("execution", "arb_2", { chainId: 42161, tokens: [WETH, MEME] });
+    policy.check("triangular", "tri_1", { chainId: 42161, tokens: [WETH, USDC] });
+    expect(rejected.map(({ stage, opportunityId, rule }) => ({ stage, opportunityId, rule }))).to.deep.equal([
+      { stage: "pathfinder", opportunityId: "arb_1", rule: "no-meme" },
+      { stage: "execution", opportunityId: "arb_2", rule: "no-meme" }
+    ]);
+    expect(policy.getRejections()).to.deep.equal(rejected);
+    expect(policy.getRejectionCounts()).to.deep.equal({ "no-meme": 2 });
+  });
+
+  it("Should pick up edits to the file and keep the previous rules when an edit is invalid", function () {
+    const policy = new TradingPolicy(file);
+    const route = { chainId: 42161, tokens: [WETH, USDC], pools: [POOL] };
+    expect(policy.ruleCount).to.equal(0);
+    expect(policy.reload()).to.equal(false);
+
+    writePolicy([{ id: "one-pool", effect: "allow", pools: [POOL.replace("b01", "b02")] }]);
+    expect(policy.reload()).to.equal(true);
+    expect(policy.evaluate(route).reason).to.equal(`allow rule one-pool: pool ${POOL} is not on the allow-list`);
+    // A route whose pools are not known yet cannot satisfy a pool allow-list
+    expect(policy.evaluate({ chainId: 42161, tokens: [WETH, USDC] }).rule).to.equal("one-pool");
+
+    writePolicy([{ id: "overnight", effect: "deny", windows: [{ start: "22:00", end: "6am" }] }]);
+    expect(() => policy.reload()).to.throw(/rule 1 in .* has time 6am, expected HH:MM/);
+    expect(policy.evaluate(route).rule).to.equal("one-pool");
+    // The broken edit is not re-read until the file changes again
+    expect(policy.reload()).to.equal(false);
+
+    writePolicy("{ \"version\": 1, \"rules\": [");
+    expect(() => policy.reload()).to.throw(SyntaxError);
+    writePolicy([{ id: "one-pool", effect: "allow", pools: [POOL] }]);
+    expect(policy.reload()).to.equal(true);
+    expect(policy.evaluate(route).allowed).to.equal(true);
+
+    fs.rmSync(file);
+    expect(policy.reload()).to.equal(true);
+    expect(policy.ruleCount).to.equal(0);
+    expect(() => new TradingPolicy(file).reload()).to.not.throw();
+
+    writePolicy([{ id: "dup", effect: "deny" }, { id: "dup", effect: "allow" }]);
+    expect(() => new TradingPolicy(file)).to.throw(/rule 2 in .* needs a unique id/);
+  });
+});
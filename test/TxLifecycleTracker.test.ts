@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { JsonRpcProvider, Wallet, parseEther, parseUnits, toQuantity } from "ethers";
+import { FlashArbBotFactory } from "../utils/flash-arb-bot";
+import { LifecycleRecord, TrackedTransaction, TransactionLifecycleTracker } from "../utils/tx-lifecycle-tracker";
+import { PerformanceTracker } from "../src/optimization/performance-tracker";
+import { JsonRpcStandIn } from "./utils/jsonRpcStandIn";
+
+const WETH = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+const BOT = "0x0000000000000000000000000000000000000B07";
+const EXECUTOR = new Wallet("0x" + "55".repeat(32)).address;
+const HASH = "0x" + "aa".repeat(32);
+
+const iface = FlashArbBotFactory.createInterface();
+
+const executionLog = (profit: bigint) => {
+  const { data, topics } = iface.encodeEventLog(iface.getEvent("ArbitrageExecuted")!, [WETH, parseEther("1"), profit, true]);
+  return { address: BOT, topics, data };
+};
+
+const submitted = {
+  hash: HASH, from: EXECUTOR, nonce: 7, to: BOT, data: "0x", gasLimit: 800_000n,
+  maxFeePerGas: parseUnits("0.1", "gwei"), maxPriorityFeePerGas: parseUnits("0.01", "gwei")
+};
+
+describe("TransactionLifecycleTracker", function () {
+  let rpc: JsonRpcStandIn;
+  let tracker: TransactionLifecycleTracker;
+  let chain: { head: number; finalized: number; minedNonce: number; receipt: any; known: boolean };
+  let seen: string[];
+  let settled: LifecycleRecord[];
+
+  beforeEach(async function () {
+    chain = { head: 100, finalized: 80, minedNonce: 7, receipt: null, known: true };
+    rpc = new JsonRpcStandIn()
+      .handle("eth_blockNumber", () => toQuantity(chain.head))
+      .handle("eth_getBlockByNumber", () => ({ number: toQuantity(chain.finalized) }))
+      .handle("eth_getTransactionCount", () => toQuantity(chain.minedNonce))
+      .handle("eth_getTransactionReceipt", ([hash]) => chain.receipt?.transactionHash === hash ? chain.receipt : null)
+      .handle("eth_getTransactionByHash", ([hash]) => chain.known ? { hash } : null);
+    const provider = new JsonRpcProvider(await rpc.start(), 42161, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1 });
+
+    tracker = new TransactionLifecycleTracker(42161, provider, { confirmations: 3, dropAfterMs: 0 });
+    seen = [];
+    settled = [];
+    for (const stage of ["included", "confirmed", "reorged", "replaced"]) {
+      tracker.on(stage, (tracked: TrackedTransaction) => seen.push(`${stage}:${tracked.stage}`));
+    }
+    tracker.on("settled", (record: LifecycleRecord) => settled.push(record));
+  });
+
+  afterEach(async function () {
+    tracker.stop();
+    await rpc.stop();
+  });
+
+  it("Should follow a transaction to finality and settle its realized profit and L1 fee", async function () {
+    tracker.track(submitted, { id: "opp-1", expectedProfit: parseEther("0.01"), bundleAttempted: true, parameters: { slippage: 50 } });
+    await tracker.poll();
+    expect(tracker.get("opp-1")!.stage).to.equal("PENDING");
+
+    // Arbitrum folds the L1 share into gasUsed and reports it separately
+    chain.receipt = {
+      transactionHash: HASH, status: "0x1", blockNumber: toQuantity(99), gasUsed: toQuantity(500_000),
+      effectiveGasPrice: toQuantity(parseUnits("0.01", "gwei")), gasUsedForL1: toQuantity(120_000),
+      logs: [executionLog(parseEther("0.012"))]
+    };
+    await tracker.poll();
+    chain.head = 101;
+    await tracker.poll();
+    expect(seen).to.deep.equal(["included:INCLUDED", "confirmed:CONFIRMED"]);
+    expect(settled).to.have.length(0);
+
+    chain.finalized = 99;
+    await tracker.poll();
+    expect(tracker.get("opp-1")).to.equal(undefined);
+    const [record] = settled;
+    expect(record).to.include({
+      id: "opp-1", resolution: "SUCCESS", success: true, bundleSuccess: true, bundleAttempted: true, blockNumber: 99, nonce: 7,
+      profit: parseEther("0.012"), expectedProfit: parseEther("0.01"), gasUsed: 500_000n, gasPrice: parseUnits("0.01", "gwei"),
+      gasCost: 500_000n * parseUnits("0.01", "gwei"), l1DataFee: 120_000n * parseUnits("0.01", "gwei")
+    });
+
+    const performance = new PerformanceTracker();
+    performance.recordTrade(record);
+    expect(performance.calculatePerformanceMetrics().totalProfit).to.equal(parseEther("0.012"));
+  });
+
+  it("Should add the OP Stack L1 fee and read profit from the bot's events only", function () {
+    const receipt = {
+      status: "0x1", gasUsed: toQuantity(400_000), effectiveGasPrice: toQuantity(1_000_000), l1Fee: toQuantity(3_000_000_000n),
+      logs: [executionLog(parseEther("0.02")), { ...executionLog(parseEther("9")), address: WETH }]
+    };
+    expect(TransactionLifecycleTracker.decodeReceipt(receipt, BOT)).to.include({
+      gasUsed: 400_000n, gasPrice: 1_000_000n, l1DataFee: 3_000_000_000n, gasCost: 400_000n * 1_000_000n + 3_000_000_000n, profit: parseEther("0.02")
+    });
+  });
+
+  it("Should settle reverts at finality and roll back a reorged inclusion", async function () {
+    tracker.track(submitted);
+    chain.receipt = { transactionHash: HASH, status: "0x0", blockNumber: toQuantity(100), gasUsed: toQuantity(90_000), effectiveGasPrice: toQuantity(10), logs: [] };
+    await tracker.poll();
+    expect(seen).to.deep.equal(["included:INCLUDED"]);
+
+    chain.receipt = null;
+    await tracker.poll();
+    expect(seen).to.deep.equal(["included:INCLUDED", "reorged:PENDING"]);
+
+    chain.receipt = { transactionHash: HASH, status: "0x0", blockNumber: toQuantity(101), gasUsed: toQuantity(90_000), effectiveGasPrice: toQuantity(10), logs: [executionLog(1n)] };
+    chain.head = 130;
+    chain.finalized = 110;
+    await tracker.poll();
+    expect(settled[0]).to.include({ resolution: "REVERTED", success: false, profit: 0n, gasCost: 900_000n, blockNumber: 101 });
+  });
+
+  it("Should tell dropped transactions from nonces mined by someone else", async function () {
+    tracker.track(submitted, { id: "dropped" });
+    chain.known = false;
+    await tracker.poll();
+    expect(settled.map(record => [record.id, record.resolution, record.gasCost])).to.deep.equal([["dropped", "DROPPED", 0n]]);
+
+    tracker.track({ ...submitted, nonce: 8 }, { id: "replaced" });
+    chain.known = true;
+    chain.minedNonce = 9;
+    await tracker.poll();
+    expect(settled[1]).to.include({ id: "replaced", resolution: "REPLACED", success: false });
+  });
+
+  it("Should speed up and cancel at the same nonce with bumped fees", async function () {
+    const [, signer] = await ethers.getSigners();
+    const hardhatTracker = new TransactionLifecycleTracker(31337, ethers.provider, { confirmations: 1, finalityDepth: 1 });
+    const records: LifecycleRecord[] = [];
+    hardhatTracker.on("settled", (record: LifecycleRecord) => records.push(record));
+    const fees = { maxFeePerGas: parseUnits("10", "gwei"), maxPriorityFeePerGas: parseUnits("1", "gwei") };
+
+    await network.provider.send("evm_setAutomine", [false]);
+    try {
+      const send = async (nonce: number) => {
+        const tx = await signer.sendTransaction({ to: EXECUTOR, value: 1n, nonce, gasLimit: 21000n, ...fees });
+        return { hash: tx.hash, from: signer.address, nonce, to: EXECUTOR, data: "0x", value: 1n, gasLimit: 21000n, ...fees };
+      };
+      const nonce = await ethers.provider.getTransactionCount(signer.address, "pending");
+      hardhatTracker.track(await send(nonce), { id: "slow" });
+      hardhatTracker.track(await send(nonce + 1), { id: "unwanted" });
+
+      const fast = await hardhatTracker.speedUp("slow", signer);
+      const cancel = await hardhatTracker.cancel("unwanted", signer);
+      expect((await ethers.provider.getTransaction(fast))!.maxFeePerGas).to.equal(fees.maxFeePerGas * 115n / 100n);
+      expect(await ethers.provider.getTransaction(cancel)).to.deep.include({ to: signer.address, value: 0n, nonce: nonce + 1 });
+
+      await network.provider.send("evm_mine", []);
+      await hardhatTracker.poll();
+    } finally {
+      await network.provider.send("evm_setAutomine", [true]);
+    }
+
+    expect(records.map(record => [record.id, record.resolution, record.hashes.length, record.gasUsed])).to.deep.equal([
+      ["slow", "SUCCESS", 2, 21000n],
+      ["unwanted", "CANCELLED", 2, 21000n]
+    ]);
+    expect(records[0].hash).to.equal(records[0].hashes[1]);
+    expect(hardhatTracker.get("slow")).to.equal(undefined);
+    await expect(hardhatTracker.speedUp("slow", signer)).to.be.rejectedWith(/slow is not a pending transaction/);
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import {
+  TickMath,
+  SwapMath,
+  TickBitmap,
+  V3SwapSimulator,
+  V3TickSnapshot
+} from "../utils/uniswap-v3-math";
+
+// Recorded from QuoterV2 against real v3-core pools; see "source" in the fixture
+const fixtures = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "fixtures", "uniswap-v3-quotes.json"), "utf8")
+);
+
+function loadSnapshot(pool: any): V3TickSnapshot {
+  // The recording scanned every bitmap word, so words absent from the fixture are empty
+  const tickBitmap = new Map<number, bigint>();
+  const minWord = Math.floor(Math.floor(TickMath.MIN_TICK / pool.tickSpacing) / 256);
+  const maxWord = Math.floor(Math.floor(TickMath.MAX_TICK / pool.tickSpacing) / 256);
+  for (let w = minWord; w <= maxWord; w++) {
+    tickBitmap.set(w, BigInt(pool.tickBitmap[w] ?? 0));
+  }
+
+  return {
+    sqrtPriceX96: BigInt(pool.sqrtPriceX96),
+    tick: pool.tick,
+    liquidity: BigInt(pool.liquidity),
+    fee: pool.fee,
+    tickSpacing: pool.tickSpacing,
+    tickBitmap,
+    liquidityNet: new Map(
+      Object.entries(pool.liquidityNet).map(([tick, net]) => [Number(tick), BigInt(net as string)])
+    )
+  };
+}
+
+describe("Uniswap V3 offline swap math", function () {
+  describe("TickMath", function () {
+    it("Should match the contract boundary ratios", function () {
+      expect(TickMath.getSqrtRatioAtTick(TickMath.MIN_TICK)).to.equal(TickMath.MIN_SQRT_RATIO);
+      expect(TickMath.getSqrtRatioAtTick(TickMath.MAX_TICK)).to.equal(TickMath.MAX_SQRT_RATIO);
+      expect(TickMath.getSqrtRatioAtTick(0)).to.equal(2n ** 96n);
+    });
+
+    it("Should round-trip ticks through sqrt ratios", function () {
+      for (let tick = -887000; tick <= 887000; tick += 12347) {
+        const sqrtRatio = TickMath.getSqrtRatioAtTick(tick);
+        expect(TickMath.getTickAtSqrtRatio(sqrtRatio)).to.equal(tick);
+        expect(TickMath.getTickAtSqrtRatio(sqrtRatio - 1n)).to.equal(tick - 1);
+      }
+    });
+
+    it("Should reject ticks out of range", function () {
+      expect(() => TickMath.getSqrtRatioAtTick(TickMath.MAX_TICK + 1)).to.throw();
+    });
+  });
+
+  describe("SwapMath", function () {
+    it("Should cap exact input at the price target", function () {
+      const step = SwapMath.computeSwapStep(
+        2n ** 96n,
+        79623317895830914510639640423n,
+        2n * 10n ** 18n,
+        10n ** 18n,
+        600
+      );
+      expect(step.amountIn).to.equal(9975124224178055n);
+      expect(step.feeAmount).to.equal(5988667735148n);
+      expect(step.amountOut).to.equal(9925619580021728n);
+      expect(step.sqrtRatioNextX96).to.equal(79623317895830914510639640423n);
+    });
+
+    it("Should take the entire input as fee when it cannot move the price", function () {
+      const step = SwapMath.computeSwapStep(2413n, 79887613182836312n, 1985041575832132834610021537970n, 10n, 1872);
+      expect(step.amountIn).to.equal(0n);
+      expect(step.feeAmount).to.equal(10n);
+      expect(step.amountOut).to.equal(0n);
+      expect(step.sqrtRatioNextX96).to.equal(2413n);
+    });
+  });
+
+  describe("TickBitmap", function () {
+    it("Should find initialized ticks on both sides of a negative tick", function () {
+      const bitmap = new Map<number, bigint>([[-1, 1n << 200n]]);
+      // Compressed tick -56 is bit 200 of word -1
+      expect(TickBitmap.nextInitializedTickWithinOneWord(bitmap, -10 * 60, 60, true))
+        .to.deep.equal({ next: -56 * 60, initialized: true });
+      expect(TickBitmap.nextInitializedTickWithinOneWord(bitmap, -80 * 60, 60, false))
+        .to.deep.equal({ next: -56 * 60, initialized: true });
+    });
+
+    it("Should report words missing from the snapshot", function () {
+      expect(TickBitmap.nextInitializedTickWithinOneWord(new Map(), 0, 60, true)).to.equal(null);
+    });
+  });
+
+  describe("Quoter fixtures", function () {
+    for (const pool of fixtures.pools) {
+      it(`Should reproduce every recorded quote for ${pool.name}`, function () {
+        const snapshot = loadSnapshot(pool);
+
+        for (const recorded of pool.quotes) {
+          const quote = V3SwapSimulator.quoteExactInput(snapshot, recorded.zeroForOne, BigInt(recorded.amountIn));
+          expect(quote.complete).to.equal(true);
+          expect(quote.amountOut.toString()).to.equal(recorded.amountOut);
+          expect(quote.sqrtPriceX96After.toString()).to.equal(recorded.sqrtPriceX96After);
+        }
+      });
+    }
+
+    it("Should cross initialized ticks for large swaps", function () {
+      const pool = fixtures.pools[0];
+      const largest = pool.quotes.filter((q: any) => q.zeroForOne).pop();
+      const quote = V3SwapSimulator.quoteExactInput(loadSnapshot(pool), true, BigInt(largest.amountIn));
+      expect(quote.initializedTicksCrossed).to.be.greaterThan(0);
+    });
+
+    it("Should flag quotes that leave the loaded bitmap range", function () {
+      const pool = fixtures.pools[0];
+      const snapshot = loadSnapshot(pool);
+      snapshot.tickBitmap = new Map([[0, BigInt(pool.tickBitmap["0"])]]);
+
+      const quote = V3SwapSimulator.quoteExactInput(snapshot, true, 400n * 10n ** 18n);
+      expect(quote.complete).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { Transaction, ZeroAddress, keccak256, toBeHex } from "ethers";
+
+export type RpcHandler = (params: any[]) => any;
+
+/**
+ * Local JSON-RPC server for exercising relays, sequencers and RPC endpoints without a network.
+ * Each method is served by a handler; a handler that throws answers with a JSON-RPC error.
+ */
+export class JsonRpcStandIn {
+  public calls: { method: string; params: any[] }[] = [];
+
+  private handlers = new Map<string, RpcHandler>();
+  private server = http.createServer((req, res) => this.serve(req, res));
+
+  handle(method: string, handler: RpcHandler): this {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  callsTo(method: string): any[][] {
+    return this.calls.filter(call => call.method === method).map(call => call.params);
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private serve(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = "";
+    req.on("data", chunk => body += chunk);
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const reply = (request: any) => {
+        this.calls.push({ method: request.method, params: request.params });
+        try {
+          const handler = this.handlers.get(request.method);
+          if (!handler) throw new Error(`Unsupported method ${request.method}`);
+          return { jsonrpc: "2.0", id: request.id, result: handler(request.params) };
+        } catch (error) {
+          return { jsonrpc: "2.0", id: request.id, error: { code: -32000, message: (error as Error).message } };
+        }
+      };
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(reply) : reply(payload)));
+    });
+  }
+}
+
+export function mockBlockHash(number: number): string {
+  return keccak256(toBeHex(number, 32));
+}
+
+/**
+ * eth_getBlockByNumber result carrying just the transaction hashes
+ */
+export function mockBlock(number: number, transactions: string[], baseFeePerGas: bigint): any {
+  return {
+    number: toBeHex(number),
+    hash: mockBlockHash(number),
+    parentHash: mockBlockHash(number - 1),
+    timestamp: toBeHex(1_700_000_000 + number),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: toBeHex(30_000_000),
+    gasUsed: "0x0",
+    miner: ZeroAddress,
+    extraData: "0x",
+    baseFeePerGas: toBeHex(baseFeePerGas),
+    transactions
+  };
+}
+
+/**
+ * eth_getTransactionReceipt result for a signed type-2 transaction mined at `index` in `blockNumber`
+ */
+export function mockReceipt(raw: string, blockNumber: number, index: number, baseFeePerGas: bigint, status = 1): any {
+  const tx = Transaction.from(raw);
+  return {
+    transactionHash: tx.hash,
+    transactionIndex: toBeHex(index),
+    blockHash: mockBlockHash(blockNumber),
+    blockNumber: toBeHex(blockNumber),
+    from: tx.from,
+    to: tx.to,
+    contractAddress: null,
+    logs: [],
+    logsBloom: "0x" + "00".repeat(256),
+    gasUsed: toBeHex(tx.gasLimit),
+    cumulativeGasUsed: toBeHex(tx.gasLimit * BigInt(index + 1)),
+    effectiveGasPrice: toBeHex(baseFeePerGas + tx.maxPriorityFeePerGas!),
+    status: toBeHex(status),
+    type: "0x2"
+  };
+}
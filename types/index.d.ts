@@ -34,7 +34,6 @@ declare module "ethers" {
   export const parseEther: any;
   export const Wallet: any;
   export const Contract: any;
-  export const Interface: any;
   export const ethers: any;
   export const getAddress: any;
   export const isAddress: any;
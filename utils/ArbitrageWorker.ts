@@ -1,9 +1,12 @@
-import { ethers } from 'ethers';
+import { ethers, Provider } from 'ethers';
 import { LiquidityFiltering } from './LiquidityFiltering';
 import { DexIntegration } from './DexIntegration';
 import { SymbiosisIntegration } from './SymbiosisIntegration';
 import { GasOptimizer } from './GasOptimizer';
 import { ArbitrageOpportunity } from './WorkerManager';
+import { NonceManager, SharedNonceState } from './nonce-manager';
+import { AddressedSigner, SignerProvider } from './signer-provider';
+import { HaltGate, SharedHaltState, TradingHalt } from './trading-halt';
 
 export interface ScanParams {
   chains: number[];
@@ -17,24 +20,30 @@ export interface ExecutionResult {
   profit?: string;
   gasUsed?: string;
   error?: string;
+  skipped?: 'stale' | 'halted'; // Set when nothing was sent
 }
 
 export class ArbitrageWorker {
   private providers: Record<string, ethers.JsonRpcProvider> = {};
-  private signers: Record<string, ethers.Wallet> = {};
+  private signers: Record<string, AddressedSigner> = {};
+  private signersReady: Promise<void>;
   private liquidityFiltering!: LiquidityFiltering;
   private dexIntegrations: Record<number, DexIntegration> = {};
   private symbiosisIntegration!: SymbiosisIntegration;
   private gasOptimizer!: GasOptimizer;
+  private nonceManager: NonceManager | null;
+  private halt: HaltGate | null;
   private opportunitiesFound = 0;
   private executionsAttempted = 0;
   private executionsSuccessful = 0;
   private totalProfit = '0';
   private totalGasUsed = '0';
 
-  constructor(private readonly workerId: number) {
+  constructor(private readonly workerId: number, nonces?: SharedNonceState, halt?: SharedHaltState) {
+    this.nonceManager = nonces ? NonceManager.attach(nonces) : null;
+    this.halt = halt ? TradingHalt.attach(halt) : null;
     this.initializeProviders();
-    this.initializeSigners();
+    this.signersReady = this.initializeSigners();
     this.initializeServices();
   }
 
@@ -48,12 +57,14 @@ export class ArbitrageWorker {
     };
   }
 
-  private initializeSigners(): void {
-    const privateKey = process.env.PRIVATE_KEY || ethers.Wallet.createRandom().privateKey;
+  private async initializeSigners(): Promise<void> {
+    // With no signer configured the worker still scans, signing with a throwaway key
+    const signerProvider = SignerProvider.fromEnvOrEphemeral();
     
-    Object.entries(this.providers).forEach(([chain, provider]) => {
-      this.signers[chain] = new ethers.Wallet(privateKey, provider);
-    });
+    // Filled in place: the integrations share this record
+    for (const [chain, provider] of Object.entries(this.providers)) {
+      this.signers[chain] = await signerProvider.signer('executor', provider);
+    }
   }
 
   private initializeServices(): void {
@@ -349,13 +360,16 @@ export class ArbitrageWorker {
   }
 
   async executeArbitrage(opportunity: ArbitrageOpportunity): Promise<ExecutionResult> {
+    if (this.halt?.isHalted()) {
+      return { success: false, error: 'Trading halted', skipped: 'halted' };
+    }
     this.executionsAttempted++;
     
     try {
       // Validate opportunity is still valid
       const isValid = await this.validateOpportunity(opportunity);
       if (!isValid) {
-        return { success: false, error: 'Opportunity no longer valid' };
+        return { success: false, error: 'Opportunity no longer valid', skipped: 'stale' };
       }
       
       // Execute the arbitrage
@@ -404,20 +418,33 @@ export class ArbitrageWorker {
     // This is a simplified execution - in reality would interact with flash loan contracts
     // and execute the actual trades
     
+    await this.signersReady;
+    // Validation took round trips; a halt may have arrived meanwhile
+    if (this.halt?.isHalted()) {
+      return { success: false, error: 'Trading halted', skipped: 'halted' };
+    }
+    const provider = this.providers[this.getChainName(opportunity.chainId)];
+    const signer = this.signers[this.getChainName(opportunity.chainId)];
+    let nonce: number | undefined;
+    let sent = false;
+    
     try {
-      const provider = this.providers[this.getChainName(opportunity.chainId)];
-      const signer = this.signers[this.getChainName(opportunity.chainId)];
+      nonce = await this.allocateNonce(opportunity.chainId, signer.address, provider);
       
       // Simulate execution
       const tx = await signer.sendTransaction({
         to: opportunity.tokenA,
         value: 0,
         data: '0x',
+        nonce,
         gasLimit: parseInt(opportunity.gasEstimate),
         gasPrice: await this.gasOptimizer.getCurrentGasPrice(opportunity.chainId)
       });
+      sent = true;
+      if (nonce !== undefined) this.nonceManager!.markSent(opportunity.chainId, signer.address, nonce, tx.hash);
       
       const receipt = await tx.wait();
+      if (nonce !== undefined) this.nonceManager!.markConfirmed(opportunity.chainId, signer.address, nonce);
       
       return {
         success: true,
@@ -426,6 +453,18 @@ export class ArbitrageWorker {
         gasUsed: receipt?.gasUsed?.toString() || opportunity.gasEstimate
       };
     } catch (error) {
+      if (nonce !== undefined) {
+        if (!sent) {
+          this.nonceManager!.release(opportunity.chainId, signer.address, nonce);
+          // Something else used the nonce; take the chain's view before the next allocation
+          if (/nonce/i.test(String((error as any)?.message))) {
+            await this.nonceManager!.reconcile(opportunity.chainId, signer.address, provider).catch(() => undefined);
+          }
+        } else if ((error as any)?.receipt) {
+          // Reverted, but mined
+          this.nonceManager!.markConfirmed(opportunity.chainId, signer.address, nonce);
+        }
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : String(error)
@@ -433,6 +472,18 @@ export class ArbitrageWorker {
     }
   }
 
+  /**
+   * A nonce from the shared manager when this worker's account is registered with it; otherwise
+   * undefined and the provider picks one. The first worker to use an account reconciles it.
+   */
+  private async allocateNonce(chainId: number, address: string, provider: Provider): Promise<number | undefined> {
+    if (!this.nonceManager?.has(chainId, address)) return undefined;
+    if (!this.nonceManager.isReconciled(chainId, address)) {
+      await this.nonceManager.reconcile(chainId, address, provider);
+    }
+    return this.nonceManager.allocate(chainId, address);
+  }
+
   private getChainName(chainId: number): string {
     const chainNames: Record<number, string> = {
       1: 'ethereum',
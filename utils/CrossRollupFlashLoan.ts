@@ -1,5 +1,6 @@
 import { ethers } from 'ethers';
 import { SymbiosisIntegration, CrossChainArbitrageOpp } from './SymbiosisIntegration';
+import { HaltGate } from './trading-halt';
 
 export interface FlashLoanProvider {
   name: string;
@@ -52,7 +53,8 @@ export class CrossRollupFlashLoan {
   constructor(
     private readonly providers: Record<string, ethers.JsonRpcProvider>,
     private readonly signers: Record<string, ethers.Wallet>,
-    private readonly symbiosisIntegration: SymbiosisIntegration
+    private readonly symbiosisIntegration: SymbiosisIntegration,
+    private readonly haltGate?: HaltGate
   ) {}
 
   async detectCrossRollupOpportunity(
@@ -285,6 +287,10 @@ export class CrossRollupFlashLoan {
     const startTime = Date.now();
     
     try {
+      if (this.haltGate?.isHalted()) {
+        return { success: false, error: 'Trading halted' };
+      }
+
       // Pre-execution validation
       const isValid = await this.validateOpportunity(params);
       if (!isValid) {
@@ -294,6 +300,11 @@ export class CrossRollupFlashLoan {
         };
       }
 
+      // Validation took round trips; a halt may have arrived meanwhile
+      if (this.haltGate?.isHalted()) {
+        return { success: false, error: 'Trading halted' };
+      }
+
       // Execute flash loan
       const txHash = await this.initiateFlashLoan(params);
       const receipt = await this.waitForTransaction(txHash, params.primaryChain);
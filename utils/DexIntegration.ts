@@ -2,6 +2,8 @@ import { ethers } from "ethers";
 import { CurveApi } from "@curvefi/api";
 import { GMXReader } from "@gmx-io/sdk";
 import axios from "axios";
+import { EnhancedDEXManager } from "./dex-routers";
+import { PoolStateReader } from "./pool-state";
 
 export interface DexRoute {
   dexName: string;
@@ -22,11 +24,15 @@ export interface QuoteResult {
 export class DexIntegration {
   private curveApi: typeof CurveApi;
   private gmxReader: typeof GMXReader | null = null;
+  private poolStateReader: PoolStateReader;
   
   constructor(
     private readonly providers: Record<string, ethers.JsonRpcProvider>,
     private readonly chainId: number
   ) {
+    this.poolStateReader = new PoolStateReader(
+      new Map([[chainId, providers[this.getNetworkName(chainId)]]])
+    );
     this.initializeCurve();
     this.initializeGMX();
   }
@@ -70,12 +76,67 @@ export class DexIntegration {
     }
   }
 
+  /**
+   * Quote every configured pool of a router type locally from its on-chain balances
+   */
+  private async getLocalPoolRoutes(
+    routerType: 'CURVE' | 'BALANCER',
+    dexName: string,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: string
+  ): Promise<DexRoute[]> {
+    const routes: DexRoute[] = [];
+
+    try {
+      const routers = EnhancedDEXManager.getRoutersByType(this.chainId, [routerType], 0);
+      if (routers.length === 0) return [];
+
+      const blockNumber = await this.poolStateReader.getLatestBlockNumber(this.chainId);
+      const [decimalsIn, decimalsOut] = await Promise.all([
+        this.poolStateReader.getTokenDecimals(this.chainId, tokenIn),
+        this.poolStateReader.getTokenDecimals(this.chainId, tokenOut)
+      ]);
+
+      for (const router of routers) {
+        const poolState = await this.poolStateReader.getPoolState(tokenIn, tokenOut, router, blockNumber);
+        if (!poolState) continue;
+
+        const amountOut = await this.poolStateReader.quoteExactInput(poolState, tokenIn, tokenOut, BigInt(amountIn));
+        if (!amountOut) continue;
+
+        // Price impact relative to the one-token spot quote, in percent like the fee field
+        const spotRate = await this.poolStateReader.getSpotRate(poolState, tokenIn, tokenOut);
+        const executionRate = (Number(amountOut) / Number(amountIn)) * Math.pow(10, decimalsIn - decimalsOut);
+        const priceImpact = spotRate ? Math.max(0, 1 - executionRate / spotRate) * 100 : 0;
+
+        routes.push({
+          dexName,
+          path: [tokenIn, tokenOut],
+          amountIn: amountIn,
+          amountOut: amountOut.toString(),
+          gasEstimate: router.gasLimit.toString(),
+          priceImpact,
+          fee: poolState.fee * 100
+        });
+      }
+    } catch (error) {
+      console.debug(`Local ${dexName} pool quoting failed:`, error);
+    }
+
+    return routes;
+  }
+
   async getCurveRoutes(
     tokenIn: string,
     tokenOut: string,
     amountIn: string
   ): Promise<DexRoute[]> {
     try {
+      // Prefer exact StableSwap quotes from pool balances over the SDK
+      const localRoutes = await this.getLocalPoolRoutes('CURVE', 'Curve', tokenIn, tokenOut, amountIn);
+      if (localRoutes.length > 0) return localRoutes;
+
       if (!this.curveApi) {
         console.warn('Curve API not initialized');
         return [];
@@ -226,6 +287,10 @@ export class DexIntegration {
     amountIn: string
   ): Promise<DexRoute[]> {
     try {
+      // Prefer local weighted/stable pool math over the SOR API
+      const localRoutes = await this.getLocalPoolRoutes('BALANCER', 'Balancer', tokenIn, tokenOut, amountIn);
+      if (localRoutes.length > 0) return localRoutes;
+
       // Query Balancer SOR (Smart Order Router) API
       const sorUrl = `https://api.balancer.fi/graphql`;
       const query = `
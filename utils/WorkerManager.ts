@@ -1,6 +1,8 @@
 import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
 import { EventEmitter } from 'events';
 import { performance } from 'perf_hooks';
+import { NonceManager } from './nonce-manager';
+import { TradingHalt } from './trading-halt';
 
 export interface WorkerMessage {
   type: 'scan' | 'execute' | 'report' | 'terminate';
@@ -57,7 +59,9 @@ export class WorkerManager extends EventEmitter {
   constructor(
     private readonly workerCount: number = 4,
     private readonly scanIntervalMs: number = 1000,
-    private readonly reportIntervalMs: number = 60000
+    private readonly reportIntervalMs: number = 60000,
+    private readonly nonceManager?: NonceManager,
+    private readonly tradingHalt?: TradingHalt
   ) {
     super();
     this.setupWorkers();
@@ -72,7 +76,9 @@ export class WorkerManager extends EventEmitter {
   private createWorker(workerId: number): void {
     try {
       const worker = new Worker(__filename, {
-        workerData: { workerId, isWorker: true }
+        // Every worker draws nonces from the same shared memory, so parallel executions never collide,
+        // and reads the halt flag from it, so a halt stops executions already queued in the worker
+        workerData: { workerId, isWorker: true, nonces: this.nonceManager?.shared, halt: this.tradingHalt?.shared }
       });
 
       worker.on('message', (response: WorkerResponse) => {
@@ -258,6 +264,9 @@ export class WorkerManager extends EventEmitter {
     if (!worker) {
       throw new Error(`Worker ${workerId} not found`);
     }
+    if (message.type === 'execute' && this.tradingHalt?.isHalted()) {
+      throw new Error(`Trading halted: ${this.tradingHalt.summary()}`);
+    }
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
@@ -346,12 +355,12 @@ export class WorkerManager extends EventEmitter {
 
 // Worker thread implementation
 if (!isMainThread && workerData?.isWorker) {
-  const { workerId } = workerData;
+  const { workerId, nonces, halt } = workerData;
   
   // Import necessary modules for worker
   const { ArbitrageWorker } = require('./ArbitrageWorker');
   
-  const worker = new ArbitrageWorker(workerId);
+  const worker = new ArbitrageWorker(workerId, nonces, halt);
   
   parentPort?.on('message', async (message: WorkerMessage) => {
     const startTime = performance.now();
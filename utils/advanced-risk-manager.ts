@@ -1,10 +1,15 @@
 import { parseUnits, formatUnits } from "ethers";
+import { FailureCategory } from "./revert-decoder";
+import { RiskJournal } from "./risk-journal";
+
+// Lost races and nonce conflicts say nothing about the strategy; they neither extend nor break a failure streak
+const STREAK_NEUTRAL_FAILURES: FailureCategory[] = ['COMPETITION', 'NONCE'];
 
 export interface RiskMetrics {
     currentDrawdown: number;        // Current drawdown from peak
     dailyPnL: bigint;              // Today's P&L
     weeklyPnL: bigint;             // Weekly P&L
-    consecutiveFailures: number;    // Failed trades in a row
+    consecutiveFailures: number;    // Failed trades in a row, excluding lost races and nonce conflicts
     consecutiveSuccesses: number;   // Successful trades in a row
     gasToCapitalRatio: number;     // Gas spent vs available capital
     successRate1h: number;         // Success rate last hour
@@ -12,10 +17,13 @@ export interface RiskMetrics {
     avgProfitMargin: number;       // Average profit margin
     exposureByToken: Map<string, bigint>; // Exposure per token
     exposureByChain: Map<number, bigint>; // Exposure per chain
-    peakBalance: bigint;           // All-time high balance
+    peakBalance: bigint;           // All-time high balance, shifted by external flows
     currentBalance: bigint;        // Current balance
+    netExternalFlows: bigint;      // Deposits less withdrawals; they move the peak, not P&L
+    unpricedHoldings: string[];    // Held but left out of currentBalance for want of any price
     totalTradesCount: number;      // Total trades executed
     profitableTradesCount: number; // Profitable trades count
+    failuresByCategory: Partial<Record<FailureCategory, number>>; // Failures in the last 24 hours
 }
 
 export interface RiskLimits {
@@ -23,6 +31,7 @@ export interface RiskLimits {
     maxDailyLossPercent: number;    // Max daily loss
     maxWeeklyLossPercent: number;   // Max weekly loss
     maxConsecutiveFailures: number; // Max failed trades
+    maxOracleGuardFailures1h: number; // Max price feed guard reverts per hour
     maxGasRatio: number;           // Max gas/capital ratio
     minSuccessRate1h: number;      // Minimum 1h success rate
     minSuccessRate24h: number;     // Minimum 24h success rate
@@ -63,19 +72,28 @@ export class AdvancedRiskManager {
         profit: bigint; 
         gasCost: bigint;
         success: boolean;
+        failureCategory?: FailureCategory;
         strategy: string;
         tokenPair: string;
         chainId: number;
         tradeSize: bigint;
     }> = [];
     private balanceHistory: Array<{ timestamp: number; balance: bigint }> = [];
+    private journal?: RiskJournal;
+    private lastJournaledBalance: bigint;
+    
+    // Valuations move with every price tick; only a move of at least this much since the last journaled balance is written
+    private static readonly BALANCE_JOURNAL_BPS = 10n;
     
-    constructor(initialCapital: bigint) {
+    // With a journal, every trade result, external flow, balance move and breaker transition is persisted; call rehydrate() before trading
+    constructor(initialCapital: bigint, journal?: RiskJournal) {
+        this.journal = journal;
         this.riskLimits = {
             maxDrawdownPercent: 0.05,      // 5% max drawdown
             maxDailyLossPercent: 0.08,     // 8% max daily loss
             maxWeeklyLossPercent: 0.15,    // 15% max weekly loss
             maxConsecutiveFailures: 5,      // 5 consecutive failures
+            maxOracleGuardFailures1h: 3,    // 3 oracle guard reverts per hour
             maxGasRatio: 0.25,             // 25% max gas ratio
             minSuccessRate1h: 0.15,        // 15% minimum 1h success rate
             minSuccessRate24h: 0.20,       // 20% minimum 24h success rate
@@ -87,6 +105,7 @@ export class AdvancedRiskManager {
         };
         
         this.initializeMetrics(initialCapital);
+        this.lastJournaledBalance = initialCapital;
         this.circuitBreakerStatus = {
             isActive: false,
             reasons: [],
@@ -110,8 +129,11 @@ export class AdvancedRiskManager {
             exposureByChain: new Map(),
             peakBalance: initialCapital,
             currentBalance: initialCapital,
+            netExternalFlows: 0n,
+            unpricedHoldings: [],
             totalTradesCount: 0,
-            profitableTradesCount: 0
+            profitableTradesCount: 0,
+            failuresByCategory: {}
         };
         
         this.balanceHistory.push({
@@ -218,9 +240,7 @@ export class AdvancedRiskManager {
         }
         
         // Calculate maximum safe position size
-        const maxPositionFromCapital = this.riskMetrics.currentBalance * BigInt(Math.round(this.riskLimits.maxSingleTradePercent * 100)) / 100n;
-        const maxPositionFromExposure = this.calculateMaxPositionFromExposure(tokenPair, chainId);
-        const maxPosition = maxPositionFromCapital < maxPositionFromExposure ? maxPositionFromCapital : maxPositionFromExposure;
+        const maxPosition = this.getMaxTradeSize(tokenPair, chainId);
         
         return {
             approved: reasonsForRejection.length === 0 && riskLevel !== 'critical',
@@ -234,36 +254,49 @@ export class AdvancedRiskManager {
         };
     }
     
+    // OPTIMIZATION: Largest trade allowed by maxSingleTradePercent and exposure limits, so sizing can stay inside it
+    getMaxTradeSize(tokenPair: [string, string], chainId: number): bigint {
+        const maxPositionFromCapital = this.riskMetrics.currentBalance * BigInt(Math.round(this.riskLimits.maxSingleTradePercent * 100)) / 100n;
+        const maxPositionFromExposure = this.calculateMaxPositionFromExposure(tokenPair, chainId);
+        return maxPositionFromCapital < maxPositionFromExposure ? maxPositionFromCapital : maxPositionFromExposure;
+    }
+    
     // OPTIMIZATION: Update metrics after trade execution
     async updateMetricsAndCheckLimits(tradeResult: {
         profit: bigint;
         gasCost: bigint;
         success: boolean;
+        failureCategory?: FailureCategory; // Unclassified failures count as UNKNOWN
         strategy: string;
         tokenPair: string;
         chainId: number;
         tradeSize: bigint;
     }): Promise<void> {
         const netProfit = tradeResult.profit - tradeResult.gasCost;
-        
-        // Update performance history
-        this.performanceHistory.push({
-            timestamp: Date.now(),
+        const timestamp = Date.now();
+        const trade = {
+            timestamp,
             profit: netProfit,
             gasCost: tradeResult.gasCost,
             success: tradeResult.success,
+            failureCategory: tradeResult.success ? undefined : tradeResult.failureCategory ?? 'UNKNOWN',
             strategy: tradeResult.strategy,
             tokenPair: tradeResult.tokenPair,
             chainId: tradeResult.chainId,
             tradeSize: tradeResult.tradeSize
-        });
+        };
+        
+        // Update performance history
+        this.performanceHistory.push(trade);
         
         // Update balance
         this.riskMetrics.currentBalance += netProfit;
         this.balanceHistory.push({
-            timestamp: Date.now(),
+            timestamp,
             balance: this.riskMetrics.currentBalance
         });
+        this.writeJournal(journal => journal.recordTrade({ ...trade, balance: this.riskMetrics.currentBalance }));
+        this.lastJournaledBalance = this.riskMetrics.currentBalance;
         
         // Update peak balance
         if (this.riskMetrics.currentBalance > this.riskMetrics.peakBalance) {
@@ -282,6 +315,59 @@ export class AdvancedRiskManager {
         await this.checkCircuitBreakers();
     }
     
+    // OPTIMIZATION: Replace the trade-derived balance with a valuation of what the executor and contracts hold;
+    // unpriced lists the holdings the valuation could not include
+    async updatePortfolioValue(balance: bigint, unpriced: string[] = []): Promise<void> {
+        this.riskMetrics.unpricedHoldings = unpriced;
+        if (balance === this.riskMetrics.currentBalance) return;
+        
+        const timestamp = Date.now();
+        this.riskMetrics.currentBalance = balance;
+        this.balanceHistory.push({ timestamp, balance });
+        
+        const last = this.lastJournaledBalance;
+        const moved = balance > last ? balance - last : last - balance;
+        if (moved * 10000n >= last * AdvancedRiskManager.BALANCE_JOURNAL_BPS) {
+            this.writeJournal(journal => journal.recordBalance(balance));
+            this.lastJournaledBalance = balance;
+        }
+        
+        if (balance > this.riskMetrics.peakBalance) {
+            this.riskMetrics.peakBalance = balance;
+        }
+        
+        // Drawdown and every percentage limit are measured against the new balance
+        await this.recalculateAllMetrics();
+        await this.checkCircuitBreakers();
+    }
+    
+    // OPTIMIZATION: Take a valuation whose change from the current balance is a deposit or withdrawal, not P&L;
+    // the peak moves by the same amount so the drawdown is unchanged
+    async recordExternalFlow(balance: bigint, note: string): Promise<void> {
+        if (balance === this.riskMetrics.currentBalance) return;
+        this.applyExternalFlow(balance - this.riskMetrics.currentBalance, balance, note);
+        await this.recalculateAllMetrics();
+    }
+    
+    // An operator confirmed that the drawdown since the peak was capital they withdrew: the current balance is the new peak
+    async resetPeak(operator: string): Promise<void> {
+        const amount = this.riskMetrics.currentBalance - this.riskMetrics.peakBalance;
+        if (amount === 0n) return;
+        console.log(`👤 Drawdown peak reset to ${formatUnits(this.riskMetrics.currentBalance, 18)} ETH by ${operator}`);
+        this.applyExternalFlow(amount, this.riskMetrics.currentBalance, `withdrawal confirmed by ${operator}`);
+        await this.recalculateAllMetrics();
+    }
+    
+    private applyExternalFlow(amount: bigint, balance: bigint, note: string): void {
+        const peak = this.riskMetrics.peakBalance + amount;
+        this.riskMetrics.currentBalance = balance;
+        this.riskMetrics.peakBalance = peak > balance ? peak : balance;
+        this.riskMetrics.netExternalFlows += amount;
+        this.balanceHistory.push({ timestamp: Date.now(), balance });
+        this.writeJournal(journal => journal.recordFlow(amount, balance, note));
+        this.lastJournaledBalance = balance;
+    }
+    
     // OPTIMIZATION: Comprehensive metrics recalculation
     private async recalculateAllMetrics(): Promise<void> {
         const now = Date.now();
@@ -301,6 +387,15 @@ export class AdvancedRiskManager {
         // Consecutive failures/successes
         this.calculateConsecutiveResults();
         
+        // Failure counters by category
+        const failuresByCategory: Partial<Record<FailureCategory, number>> = {};
+        for (const trade of trades24h) {
+            if (trade.failureCategory) {
+                failuresByCategory[trade.failureCategory] = (failuresByCategory[trade.failureCategory] || 0) + 1;
+            }
+        }
+        this.riskMetrics.failuresByCategory = failuresByCategory;
+        
         // P&L calculations
         const todaysTrades = this.performanceHistory.filter(h => h.timestamp > oneDayAgo);
         const weekTrades = this.performanceHistory.filter(h => h.timestamp > oneWeekAgo);
@@ -339,9 +434,12 @@ export class AdvancedRiskManager {
         let failures = 0;
         let successes = 0;
         
+        const counted = this.performanceHistory.filter(h => 
+            h.success || !STREAK_NEUTRAL_FAILURES.includes(h.failureCategory ?? 'UNKNOWN'));
+        
         // Count consecutive failures from most recent
-        for (let i = this.performanceHistory.length - 1; i >= 0; i--) {
-            if (!this.performanceHistory[i].success) {
+        for (let i = counted.length - 1; i >= 0; i--) {
+            if (!counted[i].success) {
                 failures++;
             } else {
                 break;
@@ -349,8 +447,8 @@ export class AdvancedRiskManager {
         }
         
         // Count consecutive successes from most recent
-        for (let i = this.performanceHistory.length - 1; i >= 0; i--) {
-            if (this.performanceHistory[i].success) {
+        for (let i = counted.length - 1; i >= 0; i--) {
+            if (counted[i].success) {
                 successes++;
             } else {
                 break;
@@ -401,6 +499,14 @@ export class AdvancedRiskManager {
             newReasons.push(`Too many consecutive failures: ${this.riskMetrics.consecutiveFailures}`);
         }
         
+        // Check oracle guard reverts; repeated ones mean our feeds and the market disagree
+        const oneHourAgo = Date.now() - 60 * 60 * 1000;
+        const oracleGuardFailures1h = this.performanceHistory.filter(h => 
+            h.timestamp > oneHourAgo && h.failureCategory === 'ORACLE_GUARD').length;
+        if (oracleGuardFailures1h >= this.riskLimits.maxOracleGuardFailures1h) {
+            newReasons.push(`Oracle guard tripped ${oracleGuardFailures1h} times in 1h`);
+        }
+        
         // Check success rates (only if we have enough data)
         if (this.riskMetrics.totalTradesCount >= 20) {
             if (this.riskMetrics.successRate1h < this.riskLimits.minSuccessRate1h) {
@@ -443,6 +549,8 @@ export class AdvancedRiskManager {
             overrideConditions: this.generateOverrideConditions(reasons)
         };
         
+        this.writeJournal(journal => journal.recordBreaker(this.circuitBreakerStatus));
+        
         console.log(`🚨 CIRCUIT BREAKER ACTIVATED: ${reasons.join(', ')}`);
         console.log(`⏰ Estimated recovery time: ${this.riskLimits.cooldownPeriodMinutes} minutes`);
     }
@@ -456,6 +564,48 @@ export class AdvancedRiskManager {
             canOverride: false,
             overrideConditions: []
         };
+        this.writeJournal(journal => journal.recordBreaker(this.circuitBreakerStatus));
+    }
+    
+    // OPTIMIZATION: Restore balance, peak, history and breaker from the journal after a restart
+    async rehydrate(): Promise<boolean> {
+        if (!this.journal) return false;
+        
+        const state = this.journal.replay();
+        if (!state) {
+            // First run against this journal: start it from the configured capital
+            this.journal.recordOpen(this.riskMetrics.currentBalance);
+            return false;
+        }
+        
+        this.performanceHistory = state.trades.map(({ balance, ...trade }) => trade);
+        this.balanceHistory = [
+            ...state.trades.map(trade => ({ timestamp: trade.timestamp, balance: trade.balance })),
+            { timestamp: Date.now(), balance: state.currentBalance }
+        ];
+        this.riskMetrics.currentBalance = state.currentBalance;
+        this.riskMetrics.peakBalance = state.peakBalance;
+        this.riskMetrics.netExternalFlows = state.netFlows;
+        this.lastJournaledBalance = state.currentBalance;
+        this.circuitBreakerStatus = state.circuitBreaker;
+        await this.recalculateAllMetrics();
+        
+        console.log(`📒 Risk state restored from ${this.journal.filePath}: ${state.trades.length} trades, ` +
+            `balance ${formatUnits(state.currentBalance, 18)} ETH, peak ${formatUnits(state.peakBalance, 18)} ETH`);
+        if (state.circuitBreaker.isActive) {
+            console.log(`🚨 CIRCUIT BREAKER STILL ACTIVE: ${state.circuitBreaker.reasons.join(', ')}`);
+        }
+        return true;
+    }
+    
+    // A failed write must not stop trading bookkeeping, but it does mean a restart would lose this state
+    private writeJournal(write: (journal: RiskJournal) => void): void {
+        if (!this.journal) return;
+        try {
+            write(this.journal);
+        } catch (error) {
+            console.error(`❌ Risk journal write failed (${this.journal.filePath}):`, error);
+        }
     }
     
     private async shouldResumeTradingOperations(): Promise<boolean> {
@@ -547,6 +697,13 @@ export class AdvancedRiskManager {
         return false;
     }
     
+    // An operator acknowledged the trading halt this breaker caused; limits are checked again on the next trade
+    acknowledgeCircuitBreaker(operator: string): void {
+        if (!this.circuitBreakerStatus.isActive) return;
+        console.log(`👤 Circuit breaker acknowledged by ${operator}`);
+        this.deactivateCircuitBreaker();
+    }
+    
     // Generate comprehensive risk report
     generateRiskReport(): {
         metrics: RiskMetrics;
@@ -579,6 +736,11 @@ export class AdvancedRiskManager {
             healthScore -= 15;
         }
         
+        if (this.riskMetrics.unpricedHoldings.length > 0) {
+            recommendations.push(`Unpriced holdings left out of capital: ${this.riskMetrics.unpricedHoldings.join(', ')} - add a price feed or sell them`);
+            healthScore -= 10;
+        }
+        
         return {
             metrics: this.riskMetrics,
             limits: this.riskLimits,
@@ -1,6 +1,14 @@
 import { ethers, JsonRpcProvider, parseEther } from "ethers";
 import { DEXRouter, EnhancedDEXManager } from "./dex-routers";
-import { VolatileToken, TokenPair, VolatileTokenTracker } from "./volatile-tokens";
+import { TokenPair, VolatileTokenTracker } from "./volatile-tokens";
+import { PoolState, PoolStateReader } from "./pool-state";
+import { PoolEventSync } from "./pool-event-sync";
+import { ConstantProductHop, SizingResult, TradeSizer } from "./trade-sizer";
+import { NegativeCycle, NegativeCycleDetector } from "./negative-cycle-search";
+import { PoolRegistry, RegisteredPool } from "./pool-registry";
+import { TokenRegistry } from "./token-registry";
+import { PolicyRoute, TradingPolicy } from "./trading-policy";
+import { RouteLeg } from "./route-encoder";
 
 export interface ArbitrageEdge {
   from: string;
@@ -11,6 +19,8 @@ export interface ArbitrageEdge {
   gaseCost: bigint;
   liquidityDepth: bigint;
   weight: number; // -log(rate) for Bellman-Ford
+  pool: string;
+  blockNumber: number;
 }
 
 export interface ArbitragePath {
@@ -24,6 +34,7 @@ export interface ArbitragePath {
   profitMargin: number;
   isTriangular: boolean;
   complexity: number;
+  liquidityCap?: bigint; // Largest input in start token wei that keeps every hop within its liquidity cap
 }
 
 export interface ArbitrageOpportunity {
@@ -34,25 +45,109 @@ export interface ArbitrageOpportunity {
   amountIn: bigint;
   expectedAmountOut: bigint;
   netProfit: bigint;
+  sizing: SizingResult;
   confidence: number;
   timeWindow: number; // Expected opportunity window in seconds
 }
 
+export interface TradeSizeBounds {
+  minAmountIn: bigint;
+  maxAmountIn: bigint;
+}
+
+export interface PathSizingConfig {
+  flashLoanFeeBps: number;
+  // Charged instead on paths with a Balancer hop, which the contract cannot fund from the Balancer vault
+  vaultSwapFlashLoanFeeBps?: number;
+  // Risk manager cap for a trade on the pair, in native wei
+  maxTradeSize?: (tokenPair: [string, string], chainId: number) => bigint;
+  // Configured input range for a start token, in that token's units
+  tradeBounds?: (tokenIn: string, chainId: number) => TradeSizeBounds | undefined;
+}
+
 export class EnhancedArbitragePathfinder {
   
+  private static readonly WRAPPED_NATIVE: { [chainId: number]: string } = {
+    42161: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+    10: "0x4200000000000000000000000000000000000006"
+  };
+  
   private providers: Map<number, JsonRpcProvider>;
   private routerCache: Map<number, DEXRouter[]>;
   private tokenGraph: Map<string, ArbitrageEdge[]>;
+  private poolStateReader: PoolStateReader;
+  private graphBlockNumber: number;
+  private graphChainId: number;
+  private eventSyncs: Map<number, PoolEventSync>;
+  private syncRevision: number;
+  private sizingConfig: PathSizingConfig;
+  private tokenDecimals: Map<string, number>;
+  private poolRegistry?: PoolRegistry;
+  private minPoolTvlUsd: number;
+  private tokenRegistry?: TokenRegistry;
+  private policy?: TradingPolicy;
   
-  constructor(providers: Map<number, JsonRpcProvider>) {
+  constructor(providers: Map<number, JsonRpcProvider>, poolStateReader?: PoolStateReader) {
     this.providers = providers;
     this.routerCache = new Map();
     this.tokenGraph = new Map();
+    this.poolStateReader = poolStateReader || new PoolStateReader(providers);
+    this.graphBlockNumber = 0;
+    this.graphChainId = 0;
+    this.eventSyncs = new Map();
+    this.syncRevision = 0;
+    this.sizingConfig = { flashLoanFeeBps: 0 };
+    this.tokenDecimals = new Map();
+    this.minPoolTvlUsd = 0;
+  }
+  
+  /**
+   * Build V2/V3 edges from discovered pools worth at least minTvlUsd instead of probing the token constants
+   */
+  attachPoolRegistry(registry: PoolRegistry, minTvlUsd: number = 0): void {
+    this.poolRegistry = registry;
+    this.minPoolTvlUsd = minTvlUsd;
+  }
+  
+  /**
+   * Refuse paths through fee-on-transfer or rebasing tokens
+   */
+  attachTokenRegistry(registry: TokenRegistry): void {
+    this.tokenRegistry = registry;
+  }
+  
+  /**
+   * Drop paths the trading policy rejects: their tokens, pools and DEXes before sizing, their notional after
+   */
+  attachPolicy(policy: TradingPolicy): void {
+    this.policy = policy;
   }
   
   /**
-   * Enhanced Bellman-Ford algorithm for arbitrage detection
-   * Finds both loops and non-loop paths with negative weights (profitable trades)
+   * Flash-loan fee, risk cap and per-token bounds applied when sizing opportunities
+   */
+  configureSizing(config: Partial<PathSizingConfig>): void {
+    this.sizingConfig = { ...this.sizingConfig, ...config };
+  }
+  
+  /**
+   * Follow pool events on a chain so later scans only re-evaluate edges whose pools changed.
+   * Pools read during a full graph build are registered with the sync as its bootstrap snapshot.
+   */
+  attachEventSync(sync: PoolEventSync): void {
+    this.eventSyncs.set(sync.chainId, sync);
+  }
+  
+  /**
+   * Block number the current token graph was read at
+   */
+  getGraphBlockNumber(): number {
+    return this.graphBlockNumber;
+  }
+  
+  /**
+   * Direct two-DEX loops plus every negative cycle through each volatile pair's base token,
+   * sized to the profit-maximizing input
    */
   async findArbitrageOpportunities(
     chainId: number,
@@ -65,33 +160,46 @@ export class EnhancedArbitragePathfinder {
     
     const opportunities: ArbitrageOpportunity[] = [];
     const volatilePairs = VolatileTokenTracker.getHighVolatilityPairs(chainId);
+    const gasPrice = await this.getGasPrice(chainId);
     
     console.log(`🔍 Scanning ${volatilePairs.length} volatile pairs with enhanced pathfinding...`);
     
     for (const pair of volatilePairs) {
+      const id = `arb-${chainId}-${pair.tokenA.symbol}-${pair.tokenB.symbol}-${Date.now()}`;
+      
       // Find direct arbitrage paths
       const directPaths = await this.findDirectArbitragePaths(pair, maxHops);
       
-      // Find triangular arbitrage loops
-      const triangularPaths = await this.findTriangularArbitragePaths(pair, maxHops);
+      // Find every profitable cycle through the base token, up to maxHops
+      const cyclePaths = this.findNegativeCyclePaths(pair, maxHops);
       
-      // Find multi-hop cross-DEX paths
-      const multiHopPaths = await this.findMultiHopPaths(pair, maxHops);
-      
-      const allPaths = [...directPaths, ...triangularPaths, ...multiHopPaths];
+      const allPaths = this.filterPolicyPaths(
+        chainId,
+        id,
+        await this.filterSupportedPaths(chainId, [...directPaths, ...cyclePaths])
+      );
       
       if (allPaths.length > 0) {
         const bestPath = this.selectOptimalPath(allPaths);
         
         if (bestPath.profitMargin >= minProfitThreshold) {
+          const sizing = await this.sizePath(chainId, pair, bestPath, gasPrice);
+          if (!sizing || sizing.netProfit <= 0n) continue;
+          if (this.policy) {
+            const notionalWei = await this.convertToNative(chainId, bestPath.edges[0].from, sizing.amountIn);
+            const route = { ...this.policyRoute(chainId, bestPath), notionalWei: notionalWei ?? undefined };
+            if (!this.policy.check('pathfinder', id, route).allowed) continue;
+          }
+          
           opportunities.push({
-            id: `arb-${chainId}-${pair.tokenA.symbol}-${pair.tokenB.symbol}-${Date.now()}`,
+            id,
             paths: allPaths,
             bestPath,
             tokenPair: pair,
-            amountIn: parseEther("1"), // Base amount for calculation
-            expectedAmountOut: bestPath.estimatedProfit,
-            netProfit: bestPath.estimatedProfit,
+            amountIn: sizing.amountIn,
+            expectedAmountOut: sizing.amountOut,
+            netProfit: sizing.netProfit,
+            sizing,
             confidence: this.calculateConfidence(bestPath),
             timeWindow: this.estimateTimeWindow(bestPath)
           });
@@ -102,73 +210,239 @@ export class EnhancedArbitragePathfinder {
     return opportunities.sort((a, b) => Number(b.netProfit - a.netProfit));
   }
   
+  /**
+   * Drop paths through tokens the token registry classifies as unsupported. The pools on a path
+   * hold its tokens, so they fund the fork probe for tokens seen for the first time.
+   */
+  private async filterSupportedPaths(chainId: number, paths: ArbitragePath[]): Promise<ArbitragePath[]> {
+    if (!this.tokenRegistry || paths.length === 0) return paths;
+    
+    const supported: ArbitragePath[] = [];
+    for (const path of paths) {
+      const unsupported = await this.tokenRegistry.findUnsupported(
+        chainId,
+        path.path,
+        path.edges.map(edge => edge.pool)
+      );
+      if (unsupported.length === 0) supported.push(path);
+    }
+    return supported;
+  }
+  
+  /**
+   * Paths whose tokens, pools and DEXes the trading policy allows; each rejection is recorded against the opportunity
+   */
+  private filterPolicyPaths(chainId: number, opportunityId: string, paths: ArbitragePath[]): ArbitragePath[] {
+    if (!this.policy) return paths;
+    return paths.filter(path => this.policy!.check('pathfinder', opportunityId, this.policyRoute(chainId, path)).allowed);
+  }
+  
+  private policyRoute(chainId: number, path: ArbitragePath): PolicyRoute {
+    return {
+      chainId,
+      tokens: path.path,
+      pools: path.edges.map(edge => edge.pool),
+      dexes: path.routers.map(router => router.name)
+    };
+  }
+  
   /**
    * Build comprehensive token graph with all DEX routers
    */
   private async buildTokenGraph(chainId: number): Promise<void> {
     const routers = EnhancedDEXManager.getAllRouters(chainId);
     const tokens = VolatileTokenTracker.getExpandedTokenUniverse(chainId);
+    const sync = this.eventSyncs.get(chainId);
+    
+    // With an event sync attached, an existing graph only needs the edges of pools that changed
+    if (sync && this.graphChainId === chainId && this.tokenGraph.size > 0) {
+      const revision = sync.getRevision();
+      const changedPools = sync.getChangedPoolsSince(this.syncRevision);
+      if (changedPools && sync.getSyncedBlock() >= this.graphBlockNumber) {
+        await this.refreshChangedEdges(sync, changedPools);
+        this.syncRevision = revision;
+        return;
+      }
+    }
     
+    // Pin every pool read to a single block so edges are mutually consistent
+    const blockNumber = await this.poolStateReader.getLatestBlockNumber(chainId);
+    if (blockNumber === this.graphBlockNumber && this.graphChainId === chainId && this.tokenGraph.size > 0) {
+      return;
+    }
+    
+    const revision = sync ? sync.getRevision() : 0;
     this.tokenGraph.clear();
+    this.poolStateReader.pruneBefore(chainId, blockNumber);
+    this.graphBlockNumber = blockNumber;
+    this.graphChainId = chainId;
+    
+    // Create edges for all token pairs across all routers. The reads are issued together
+    // so the pool state reader can fold them into a few Multicall3 batches per block.
+    const edgeReads: Promise<ArbitrageEdge | null>[] = [];
+    const graphTokens = new Set<string>(tokens.map(token => token.address));
+    const registeredPools = this.poolRegistry ? this.poolRegistry.getPools(chainId, this.minPoolTvlUsd) : [];
+    
+    if (registeredPools.length > 0) {
+      // V2/V3 edges come from the discovered pools; pools without factory events are still probed per token pair
+      const factoryTypes: DEXRouter['routerType'][] = ['UNISWAP_V2', 'UNISWAP_V3'];
+      const unindexedRouters = routers.filter(router => !factoryTypes.includes(router.routerType));
+      console.log(`📊 Building token graph at block ${blockNumber}: ${registeredPools.length} registered pools + ${unindexedRouters.length} DEXes`);
+      
+      for (const [router, tokenA, tokenB] of this.registerPoolsWithReader(chainId, routers, registeredPools)) {
+        graphTokens.add(tokenA);
+        graphTokens.add(tokenB);
+        edgeReads.push(this.createArbitrageEdge(tokenA, tokenB, router, blockNumber).catch(() => null));
+        edgeReads.push(this.createArbitrageEdge(tokenB, tokenA, router, blockNumber).catch(() => null));
+      }
+      edgeReads.push(...this.pairwiseEdgeReads(tokens.map(token => token.address), unindexedRouters, blockNumber));
+    } else {
+      console.log(`📊 Building token graph at block ${blockNumber}: ${tokens.length} tokens × ${routers.length} DEXes`);
+      edgeReads.push(...this.pairwiseEdgeReads(tokens.map(token => token.address), routers, blockNumber));
+    }
     
-    console.log(`📊 Building token graph: ${tokens.length} tokens × ${routers.length} DEXes`);
+    for (const token of graphTokens) {
+      this.tokenGraph.set(token, []);
+    }
+    for (const edge of await Promise.all(edgeReads)) {
+      if (edge) {
+        this.tokenGraph.get(edge.from)!.push(edge);
+      }
+    }
     
-    // Create edges for all token pairs across all routers
-    for (const tokenA of tokens) {
-      if (!this.tokenGraph.has(tokenA.address)) {
-        this.tokenGraph.set(tokenA.address, []);
+    // Cycle capacities convert liquidity between tokens in wei; decimals were cached by the edge reads
+    await Promise.all([...graphTokens].map(async token => {
+      try {
+        this.tokenDecimals.set(token, await this.poolStateReader.getTokenDecimals(chainId, token));
+      } catch (error) {
+        // Tokens without decimals() have no edges either
       }
-      
+    }));
+    
+    this.syncRevision = revision;
+    console.log(`✅ Token graph built: ${this.tokenGraph.size} nodes`);
+  }
+  
+  /**
+   * Edge reads for every ordered token pair on every router, skipping pairs a router has no pool for
+   */
+  private pairwiseEdgeReads(tokens: string[], routers: DEXRouter[], blockNumber: number): Promise<ArbitrageEdge | null>[] {
+    const edgeReads: Promise<ArbitrageEdge | null>[] = [];
+    for (const tokenA of tokens) {
       for (const tokenB of tokens) {
-        if (tokenA.address === tokenB.address) continue;
+        if (tokenA === tokenB) continue;
         
         for (const router of routers) {
-          try {
-            const edge = await this.createArbitrageEdge(tokenA, tokenB, router, chainId);
-            if (edge) {
-              this.tokenGraph.get(tokenA.address)!.push(edge);
-            }
-          } catch (error) {
-            // Skip invalid pairs
-          }
+          edgeReads.push(
+            this.createArbitrageEdge(tokenA, tokenB, router, blockNumber).catch(() => null) // Skip invalid pairs
+          );
         }
       }
     }
+    return edgeReads;
+  }
+  
+  /**
+   * Hand the registry's pool addresses to the pool state reader, grouped by router and pair so V3 fee tiers
+   * still compete on depth. Returns each distinct (router, token0, token1) to build edges for.
+   */
+  private registerPoolsWithReader(
+    chainId: number,
+    routers: DEXRouter[],
+    pools: RegisteredPool[]
+  ): Array<[DEXRouter, string, string]> {
+    const groups = new Map<string, { router: DEXRouter; token0: string; token1: string; addresses: string[] }>();
+    
+    for (const pool of pools) {
+      const router = routers.find(r => r.name === pool.dex);
+      if (!router) continue;
+      
+      const key = `${router.name}:${pool.token0.toLowerCase()}:${pool.token1.toLowerCase()}`;
+      const group = groups.get(key);
+      if (group) {
+        group.addresses.push(pool.address);
+      } else {
+        groups.set(key, { router, token0: pool.token0, token1: pool.token1, addresses: [pool.address] });
+      }
+    }
     
-    console.log(`✅ Token graph built: ${this.tokenGraph.size} nodes`);
+    const pairs: Array<[DEXRouter, string, string]> = [];
+    for (const { router, token0, token1, addresses } of groups.values()) {
+      this.poolStateReader.registerPoolAddresses(router, token0, token1, addresses);
+      pairs.push([router, token0, token1]);
+    }
+    return pairs;
+  }
+  
+  /**
+   * Re-evaluate only the edges whose pools emitted events since the last build. Pools the event
+   * sync cannot follow (Curve, Balancer) are re-read; every other edge just moves to the synced block.
+   */
+  private async refreshChangedEdges(sync: PoolEventSync, changedPools: Set<string>): Promise<void> {
+    const blockNumber = sync.getSyncedBlock();
+    if (blockNumber === this.graphBlockNumber && changedPools.size === 0) {
+      return;
+    }
+    
+    let reevaluated = 0;
+    const refreshes: Promise<void>[] = [];
+    
+    for (const [token, edges] of this.tokenGraph) {
+      const updates = edges.map(edge => {
+        const pool = edge.pool.toLowerCase();
+        if (sync.isTracked(pool) && !changedPools.has(pool)) {
+          // No events since the last build, and the sync cached the same state at the synced block
+          return Promise.resolve<ArbitrageEdge | null>({ ...edge, blockNumber });
+        }
+        reevaluated++;
+        return this.createArbitrageEdge(edge.from, edge.to, edge.router, blockNumber).catch(() => null);
+      });
+      
+      refreshes.push(Promise.all(updates).then(updated => {
+        this.tokenGraph.set(token, updated.filter((edge): edge is ArbitrageEdge => edge !== null));
+      }));
+    }
+    
+    await Promise.all(refreshes);
+    this.poolStateReader.pruneBefore(this.graphChainId, blockNumber);
+    this.graphBlockNumber = blockNumber;
+    
+    console.log(`♻️  Token graph refreshed at block ${blockNumber}: ${reevaluated} edges re-evaluated`);
   }
   
   /**
-   * Create arbitrage edge with rate calculation
+   * Create arbitrage edge from the router's live pool state at a block
    */
   private async createArbitrageEdge(
-    tokenA: VolatileToken,
-    tokenB: VolatileToken,
+    tokenA: string,
+    tokenB: string,
     router: DEXRouter,
-    chainId: number
+    blockNumber: number
   ): Promise<ArbitrageEdge | null> {
     try {
-      const provider = this.providers.get(chainId);
-      if (!provider) return null;
-      
-      // Mock rate calculation (in production, would query actual DEX)
-      const baseRate = this.calculateMockRate(tokenA, tokenB);
-      const routerFee = this.parseRouterFee(router.feeStructure);
-      const effectiveRate = baseRate * (1 - routerFee);
+      const poolState = await this.poolStateReader.getPoolState(
+        tokenA,
+        tokenB,
+        router,
+        blockNumber
+      );
+      if (!poolState) return null;
+      this.eventSyncs.get(router.chainId)?.track(poolState);
       
-      // Add volatility-based rate adjustment
-      const volatilityAdjustment = 1 + (Math.random() - 0.5) * tokenA.volatility24h * 0.1;
-      const adjustedRate = effectiveRate * volatilityAdjustment;
+      const rate = await this.poolStateReader.getSpotRate(poolState, tokenA, tokenB);
+      if (!rate || !isFinite(rate) || rate <= 0) return null;
       
       return {
-        from: tokenA.address,
-        to: tokenB.address,
+        from: tokenA,
+        to: tokenB,
         router,
-        rate: adjustedRate,
-        fee: routerFee,
+        rate,
+        fee: poolState.fee,
         gaseCost: router.gasLimit,
-        liquidityDepth: this.estimateLiquidityDepth(tokenA, tokenB, router),
-        weight: -Math.log(adjustedRate) // Negative log for Bellman-Ford
+        liquidityDepth: this.poolStateReader.getOutputLiquidity(poolState, tokenB),
+        weight: -Math.log(rate), // Negative log for Bellman-Ford
+        pool: poolState.address,
+        blockNumber
       };
       
     } catch (error) {
@@ -176,6 +450,174 @@ export class EnhancedArbitragePathfinder {
     }
   }
   
+  /**
+   * Quote an exact amount through every hop of a path using the pool state the edges were built from
+   */
+  async quotePath(path: ArbitragePath, amountIn: bigint): Promise<bigint | null> {
+    const legs = await this.simulateRoute(path, amountIn);
+    return legs ? legs[legs.length - 1].amountOut : null;
+  }
+  
+  /**
+   * Per-hop quotes for a path with the pool each came from, in the form RouteEncoder turns into
+   * the route the contract executes
+   */
+  async simulateRoute(path: ArbitragePath, amountIn: bigint): Promise<RouteLeg[] | null> {
+    const legs: RouteLeg[] = [];
+    let amount = amountIn;
+    
+    for (const edge of path.edges) {
+      const poolState = await this.poolStateReader.getPoolState(
+        edge.from,
+        edge.to,
+        edge.router,
+        edge.blockNumber
+      );
+      if (!poolState) return null;
+      
+      const amountOut = await this.poolStateReader.quoteExactInput(poolState, edge.from, edge.to, amount);
+      if (amountOut === null || amountOut === 0n) return null;
+      legs.push({ router: edge.router, tokenIn: edge.from, tokenOut: edge.to, amountOut, pool: poolState });
+      amount = amountOut;
+    }
+    
+    return legs.length > 0 ? legs : null;
+  }
+  
+  /**
+   * Profit-maximizing input for a cyclic path, net of flash-loan fee and gas, within the configured
+   * bounds and the risk manager's cap. Non-cyclic paths cannot repay a flash loan and are not sized.
+   */
+  private async sizePath(
+    chainId: number,
+    pair: TokenPair,
+    path: ArbitragePath,
+    gasPrice: bigint | null
+  ): Promise<SizingResult | null> {
+    const tokenIn = path.edges[0].from;
+    const lastEdge = path.edges[path.edges.length - 1];
+    // Without a gas price the net profit is unknown
+    if (lastEdge.to !== tokenIn || gasPrice === null) return null;
+    
+    try {
+      // Gas and the risk cap are denominated in native wei; price them in the input token
+      const gasCost = await this.convertFromNative(chainId, tokenIn, path.totalGasCost * gasPrice);
+      if (gasCost === null) return null;
+      
+      // The final pool can never pay out more than it holds of the input token
+      let maxAmountIn = lastEdge.liquidityDepth;
+      if (path.liquidityCap !== undefined && path.liquidityCap < maxAmountIn) {
+        maxAmountIn = path.liquidityCap;
+      }
+      let minAmountIn = 1n;
+      
+      const bounds = this.sizingConfig.tradeBounds?.(tokenIn, chainId);
+      if (bounds) {
+        minAmountIn = bounds.minAmountIn;
+        if (bounds.maxAmountIn < maxAmountIn) maxAmountIn = bounds.maxAmountIn;
+      }
+      
+      if (this.sizingConfig.maxTradeSize) {
+        const riskCap = await this.convertFromNative(
+          chainId,
+          tokenIn,
+          this.sizingConfig.maxTradeSize([pair.tokenA.address, pair.tokenB.address], chainId)
+        );
+        if (riskCap === null) return null;
+        if (riskCap < maxAmountIn) maxAmountIn = riskCap;
+      }
+      
+      const states = await Promise.all(path.edges.map(edge =>
+        this.poolStateReader.getPoolState(edge.from, edge.to, edge.router, edge.blockNumber)
+      ));
+      const hops = this.toConstantProductHops(path, states);
+      const flashLoanFeeBps = path.edges.some(edge => edge.router.routerType === 'BALANCER')
+        ? this.sizingConfig.vaultSwapFlashLoanFeeBps ?? this.sizingConfig.flashLoanFeeBps
+        : this.sizingConfig.flashLoanFeeBps;
+      
+      return await TradeSizer.optimize(
+        amountIn => this.quotePath(path, amountIn),
+        { minAmountIn, maxAmountIn, flashLoanFeeBps, gasCost },
+        hops
+      );
+    } catch (error) {
+      console.error(`Failed to size path ${path.path.join(' -> ')}:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Reserves of a path made only of V2 pools, oriented along the path
+   */
+  private toConstantProductHops(path: ArbitragePath, states: (PoolState | null)[]): ConstantProductHop[] | undefined {
+    const hops: ConstantProductHop[] = [];
+    
+    for (let i = 0; i < path.edges.length; i++) {
+      const state = states[i];
+      if (!state || state.kind !== 'UNISWAP_V2') return undefined;
+      
+      const zeroForOne = state.tokens[0].toLowerCase() === path.edges[i].from.toLowerCase();
+      hops.push({
+        reserveIn: zeroForOne ? state.reserve0 : state.reserve1,
+        reserveOut: zeroForOne ? state.reserve1 : state.reserve0,
+        feePips: BigInt(Math.round(state.fee * 1_000_000))
+      });
+    }
+    
+    return hops;
+  }
+  
+  /**
+   * Convert a native wei amount into token units through the deepest graph edge from the wrapped native token
+   */
+  private async convertFromNative(chainId: number, token: string, amountWei: bigint): Promise<bigint | null> {
+    const wrappedNative = EnhancedArbitragePathfinder.WRAPPED_NATIVE[chainId];
+    if (amountWei === 0n || (wrappedNative && token.toLowerCase() === wrappedNative.toLowerCase())) {
+      return amountWei;
+    }
+    if (!wrappedNative) return null;
+    
+    const edges = (this.tokenGraph.get(wrappedNative) || []).filter(edge => edge.to === token);
+    if (edges.length === 0) return null;
+    const deepest = edges.reduce((best, edge) => edge.liquidityDepth > best.liquidityDepth ? edge : best);
+    
+    // Spot rate is whole tokens per whole native token
+    const decimals = await this.poolStateReader.getTokenDecimals(chainId, token);
+    const scaledRate = BigInt(Math.round(deepest.rate * 1e9));
+    return (amountWei * scaledRate * 10n ** BigInt(decimals)) / (10n ** 18n * 1_000_000_000n);
+  }
+
+  /**
+   * Value a token amount in native wei at the same rate convertFromNative uses; null when the
+   * current graph has no edge from the wrapped native token to the token
+   */
+  async convertToNative(chainId: number, token: string, amount: bigint): Promise<bigint | null> {
+    const wrappedNative = EnhancedArbitragePathfinder.WRAPPED_NATIVE[chainId];
+    if (amount === 0n || (wrappedNative && token.toLowerCase() === wrappedNative.toLowerCase())) {
+      return amount;
+    }
+    if (!wrappedNative || this.graphChainId !== chainId) return null;
+
+    const edges = (this.tokenGraph.get(wrappedNative) || []).filter(edge => edge.to === token);
+    if (edges.length === 0) return null;
+    const deepest = edges.reduce((best, edge) => edge.liquidityDepth > best.liquidityDepth ? edge : best);
+
+    const decimals = await this.poolStateReader.getTokenDecimals(chainId, token);
+    const scaledRate = BigInt(Math.round(deepest.rate * 1e9));
+    if (scaledRate === 0n) return null;
+    return (amount * 10n ** 18n * 1_000_000_000n) / (scaledRate * 10n ** BigInt(decimals));
+  }
+  
+  private async getGasPrice(chainId: number): Promise<bigint | null> {
+    try {
+      const feeData = await this.providers.get(chainId)!.getFeeData();
+      return feeData.gasPrice;
+    } catch (error) {
+      console.error(`Failed to fetch gas price for chain ${chainId}:`, error);
+      return null;
+    }
+  }
+  
   /**
    * Find direct arbitrage paths between two DEXes
    */
@@ -219,160 +661,16 @@ export class EnhancedArbitragePathfinder {
   }
   
   /**
-   * Find triangular arbitrage loops using modified Bellman-Ford
-   */
-  private async findTriangularArbitragePaths(
-    pair: TokenPair,
-    maxHops: number
-  ): Promise<ArbitragePath[]> {
-    const paths: ArbitragePath[] = [];
-    const startToken = pair.tokenA.address;
-    
-    // Use Bellman-Ford to detect negative cycles (profitable loops)
-    const distances = new Map<string, number>();
-    const predecessors = new Map<string, ArbitrageEdge>();
-    
-    // Initialize distances
-    for (const node of this.tokenGraph.keys()) {
-      distances.set(node, node === startToken ? 0 : Infinity);
-    }
-    
-    // Relax edges for V-1 iterations
-    const nodes = Array.from(this.tokenGraph.keys());
-    for (let i = 0; i < nodes.length - 1; i++) {
-      for (const from of nodes) {
-        const edges = this.tokenGraph.get(from) || [];
-        
-        for (const edge of edges) {
-          const currentDist = distances.get(from)!;
-          const newDist = currentDist + edge.weight;
-          
-          if (newDist < distances.get(edge.to)!) {
-            distances.set(edge.to, newDist);
-            predecessors.set(edge.to, edge);
-          }
-        }
-      }
-    }
-    
-    // Detect negative cycles
-    for (const from of nodes) {
-      const edges = this.tokenGraph.get(from) || [];
-      
-      for (const edge of edges) {
-        const currentDist = distances.get(from)!;
-        const newDist = currentDist + edge.weight;
-        
-        if (newDist < distances.get(edge.to)!) {
-          // Found negative cycle - extract triangular path
-          const triangularPath = this.extractTriangularPath(edge.to, predecessors);
-          if (triangularPath) {
-            paths.push(triangularPath);
-          }
-        }
-      }
-    }
-    
-    return paths;
-  }
-  
-  /**
-   * Find multi-hop paths using line graph transformation
-   */
-  private async findMultiHopPaths(
-    pair: TokenPair,
-    maxHops: number
-  ): Promise<ArbitragePath[]> {
-    const paths: ArbitragePath[] = [];
-    
-    // Implement line graph algorithm for complex path finding
-    const lineGraph = this.buildLineGraph();
-    const multiHopPaths = this.findPathsInLineGraph(
-      pair.tokenA.address,
-      pair.tokenB.address,
-      lineGraph,
-      maxHops
-    );
-    
-    for (const path of multiHopPaths) {
-      const calculatedPath = await this.calculateMultiHopPath(path);
-      if (calculatedPath && calculatedPath.profitMargin > 0) {
-        paths.push(calculatedPath);
-      }
-    }
-    
-    return paths;
-  }
-  
-  /**
-   * Build line graph for advanced path finding
-   */
-  private buildLineGraph(): Map<string, string[]> {
-    const lineGraph = new Map<string, string[]>();
-    
-    // Transform edge graph to line graph where edges become nodes
-    for (const [node, edges] of this.tokenGraph.entries()) {
-      for (const edge of edges) {
-        const edgeId = `${edge.from}-${edge.to}-${edge.router.name}`;
-        
-        if (!lineGraph.has(edgeId)) {
-          lineGraph.set(edgeId, []);
-        }
-        
-        // Connect to other edges that start where this edge ends
-        const nextEdges = this.tokenGraph.get(edge.to) || [];
-        for (const nextEdge of nextEdges) {
-          const nextEdgeId = `${nextEdge.from}-${nextEdge.to}-${nextEdge.router.name}`;
-          lineGraph.get(edgeId)!.push(nextEdgeId);
-        }
-      }
-    }
-    
-    return lineGraph;
-  }
-  
-  /**
-   * Find paths in line graph using BFS
+   * Profitable cycles through the pair's base token from a hop-bounded Bellman-Ford pass over -log(rate) weights
    */
-  private findPathsInLineGraph(
-    startToken: string,
-    endToken: string,
-    lineGraph: Map<string, string[]>,
-    maxHops: number
-  ): string[][] {
-    const paths: string[][] = [];
-    const queue: { path: string[]; token: string }[] = [];
-    
-    // Initialize with all edges starting from startToken
-    for (const [edgeId] of lineGraph.entries()) {
-      if (edgeId.startsWith(startToken)) {
-        queue.push({ path: [edgeId], token: edgeId.split('-')[1] });
-      }
-    }
-    
-    while (queue.length > 0) {
-      const { path, token } = queue.shift()!;
-      
-      if (path.length >= maxHops) continue;
-      
-      if (token === endToken && path.length >= 2) {
-        paths.push(path);
-        continue;
-      }
-      
-      const lastEdgeId = path[path.length - 1];
-      const nextEdges = lineGraph.get(lastEdgeId) || [];
-      
-      for (const nextEdgeId of nextEdges) {
-        const nextToken = nextEdgeId.split('-')[1];
-        queue.push({
-          path: [...path, nextEdgeId],
-          token: nextToken
-        });
-      }
-    }
+  private findNegativeCyclePaths(pair: TokenPair, maxHops: number): ArbitragePath[] {
+    const cycles = NegativeCycleDetector.findCycles(this.tokenGraph, {
+      maxHops,
+      sources: [pair.tokenA.address],
+      decimals: this.tokenDecimals
+    });
     
-    return paths.slice(0, 20); // Limit paths for performance
+    return cycles.map(cycle => this.toCyclePath(cycle));
   }
   
   /**
@@ -426,99 +724,26 @@ export class EnhancedArbitragePathfinder {
   }
   
   /**
-   * Extract triangular path from Bellman-Ford predecessors
-   */
-  private extractTriangularPath(
-    node: string,
-    predecessors: Map<string, ArbitrageEdge>
-  ): ArbitragePath | null {
-    try {
-      const path: string[] = [];
-      const edges: ArbitrageEdge[] = [];
-      const routers: DEXRouter[] = [];
-      let current = node;
-      
-      // Follow predecessors to build path
-      do {
-        path.unshift(current);
-        const edge = predecessors.get(current);
-        if (edge) {
-          edges.unshift(edge);
-          routers.unshift(edge.router);
-          current = edge.from;
-        }
-      } while (current !== node && predecessors.has(current));
-      
-      if (current === node && path.length >= 3) {
-        const totalRate = edges.reduce((acc, edge) => acc * edge.rate, 1);
-        const totalFees = edges.reduce((acc, edge) => acc + edge.fee, 0);
-        const totalGasCost = edges.reduce((acc, edge) => acc + edge.gaseCost, 0n);
-        const profitMargin = totalRate - 1 - totalFees;
-        
-        return {
-          path,
-          routers,
-          edges,
-          totalRate,
-          totalFees,
-          totalGasCost,
-          estimatedProfit: parseEther(Math.max(0, profitMargin).toString()),
-          profitMargin,
-          isTriangular: true,
-          complexity: path.length
-        };
-      }
-      
-      return null;
-    } catch (error) {
-      return null;
-    }
-  }
-  
-  /**
-   * Calculate multi-hop path from line graph
+   * Convert a detected cycle into a path, scored the same way as direct paths
    */
-  private async calculateMultiHopPath(edgeIds: string[]): Promise<ArbitragePath | null> {
-    try {
-      const edges: ArbitrageEdge[] = [];
-      const path: string[] = [];
-      const routers: DEXRouter[] = [];
-      
-      for (const edgeId of edgeIds) {
-        const [from, to, routerName] = edgeId.split('-');
-        const edgeList = this.tokenGraph.get(from) || [];
-        const edge = edgeList.find(e => e.to === to && e.router.name === routerName);
-        
-        if (!edge) return null;
-        
-        edges.push(edge);
-        routers.push(edge.router);
-        
-        if (path.length === 0) path.push(from);
-        path.push(to);
-      }
-      
-      const totalRate = edges.reduce((acc, edge) => acc * edge.rate, 1);
-      const totalFees = edges.reduce((acc, edge) => acc + edge.fee, 0);
-      const totalGasCost = edges.reduce((acc, edge) => acc + edge.gaseCost, 0n);
-      const profitMargin = totalRate - 1 - totalFees;
-      
-      return {
-        path,
-        routers,
-        edges,
-        totalRate,
-        totalFees,
-        totalGasCost,
-        estimatedProfit: parseEther(Math.max(0, profitMargin).toString()),
-        profitMargin,
-        isTriangular: path[0] === path[path.length - 1],
-        complexity: edges.length
-      };
-      
-    } catch (error) {
-      return null;
-    }
+  private toCyclePath(cycle: NegativeCycle<ArbitrageEdge>): ArbitragePath {
+    const totalFees = cycle.edges.reduce((acc, edge) => acc + edge.fee, 0);
+    const totalGasCost = cycle.edges.reduce((acc, edge) => acc + edge.gaseCost, 0n);
+    const profitMargin = cycle.totalRate - 1 - totalFees;
+    
+    return {
+      path: cycle.tokens,
+      routers: cycle.edges.map(edge => edge.router),
+      edges: cycle.edges,
+      totalRate: cycle.totalRate,
+      totalFees,
+      totalGasCost,
+      estimatedProfit: parseEther(Math.max(0, profitMargin).toString()),
+      profitMargin,
+      isTriangular: cycle.edges.length >= 3,
+      complexity: cycle.edges.length,
+      liquidityCap: cycle.capacity
+    };
   }
   
   /**
@@ -569,37 +794,4 @@ export class EnhancedArbitragePathfinder {
     
     return Math.max(5, Math.min(30, timeWindow));
   }
-  
-  /**
-   * Helper methods
-   */
-  private calculateMockRate(tokenA: VolatileToken, tokenB: VolatileToken): number {
-    // Mock rate calculation based on symbols
-    const baseRates: { [key: string]: number } = {
-      "ETH": 2000,
-      "WETH": 2000,
-      "WBTC": 45000,
-      "USDC": 1,
-      "USDT": 1,
-      "ARB": 0.8,
-      "OP": 1.2,
-      "GMX": 35
-    };
-    
-    const rateA = baseRates[tokenA.symbol] || 1;
-    const rateB = baseRates[tokenB.symbol] || 1;
-    
-    return rateA / rateB;
-  }
-  
-  private parseRouterFee(feeStructure: string): number {
-    const match = feeStructure.match(/(\d+\.?\d*)%/);
-    return match ? parseFloat(match[1]) / 100 : 0.003;
-  }
-  
-  private estimateLiquidityDepth(tokenA: VolatileToken, tokenB: VolatileToken, router: DEXRouter): bigint {
-    // Mock liquidity estimation
-    const baseDepth = router.liquidityScore * 100000;
-    return parseEther(baseDepth.toString());
-  }
 }
\ No newline at end of file
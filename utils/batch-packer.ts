@@ -0,0 +1,115 @@
+import { BigNumberish } from "ethers";
+import { BatchArbitrageParamsStruct, FlashArbBotFactory } from "./flash-arb-bot";
+import { FlashArbCalldataBuilder } from "./flash-arb-calldata";
+
+const MAX_UINT96 = (1n << 96n) - 1n;
+const MAX_UINT32 = (1n << 32n) - 1n;
+
+/**
+ * A priced round trip offered for batching, in the pathfinder's route shape [A, B, A]
+ */
+export interface BatchCandidate {
+  id: string;
+  asset: string;
+  amountIn: BigNumberish; // Asset units
+  path: string[];
+  minProfit: BigNumberish; // Asset units
+  sushiFirst: boolean;
+  slippageBps?: number; // Defaults to the batch's
+}
+
+export interface BatchPackOptions {
+  deadline: BigNumberish; // Unix seconds; the contract reverts after it
+  slippageBps: number;
+  maxTrades?: number; // The contract accepts at most 10
+}
+
+export interface PackedBatch {
+  params: BatchArbitrageParamsStruct & { deadline: bigint };
+  included: string[];
+  skipped: { id: string; reason: string }[];
+}
+
+/**
+ * Packs opportunities into one FlashArbBotBalancer.executeBatchArbitrage call. Candidates are taken
+ * in the order given and a trade is only packed when it shares no token with one already in the batch:
+ * trades run back to back in one transaction, so an overlapping trade would execute against reserves
+ * the previous one has already moved.
+ */
+export class BatchArbitragePacker {
+  static readonly MAX_TRADES = 10;
+  static readonly MAX_SLIPPAGE_BPS = 500; // FlashArbBotBalancer.MAX_SLIPPAGE
+
+  static pack(candidates: BatchCandidate[], options: BatchPackOptions): PackedBatch {
+    const maxTrades = Math.min(options.maxTrades ?? BatchArbitragePacker.MAX_TRADES, BatchArbitragePacker.MAX_TRADES);
+    const deadline = BigInt(options.deadline);
+    if (deadline <= 0n) {
+      throw new Error(`BatchPacker: deadline must be a timestamp, got ${deadline}`);
+    }
+
+    const batch: PackedBatch = { params: { trades: [], deadline }, included: [], skipped: [] };
+    const usedTokens = new Set<string>();
+
+    for (const candidate of candidates) {
+      const skip = (reason: string) => batch.skipped.push({ id: candidate.id, reason });
+
+      if (batch.params.trades.length >= maxTrades) {
+        skip(`batch is full at ${maxTrades} trades`);
+        continue;
+      }
+
+      let call;
+      try {
+        call = FlashArbCalldataBuilder.build(candidate);
+      } catch (error) {
+        skip((error as Error).message);
+        continue;
+      }
+      // Batched trades are dual swaps; triangles go out through executeTriangularArb
+      if (call.method !== 'executeArb') {
+        skip(`${call.method} routes cannot be batched`);
+        continue;
+      }
+
+      const [asset, amount, [tokenA, tokenB], sushiFirst, minProfit] = call.args;
+      if (amount > MAX_UINT96) {
+        skip(`amountIn ${amount} exceeds uint96`);
+        continue;
+      }
+      const slippageBps = candidate.slippageBps ?? options.slippageBps;
+      if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > BatchArbitragePacker.MAX_SLIPPAGE_BPS) {
+        skip(`slippage of ${slippageBps} bps is outside 0-${BatchArbitragePacker.MAX_SLIPPAGE_BPS}`);
+        continue;
+      }
+      // The contract expects amount * minProfitBps / 10000; round down so the floor never exceeds the quote
+      const minProfitBps = minProfit * 10_000n / amount;
+      // Rounding up instead would demand more than was quoted, and a 0 bps floor would accept a loss
+      if (minProfit > 0n && minProfitBps === 0n) {
+        skip(`minProfit of ${minProfit} is under 1 bps of amountIn`);
+        continue;
+      }
+      if (minProfitBps > MAX_UINT32) {
+        skip(`minProfit of ${minProfitBps} bps exceeds uint32`);
+        continue;
+      }
+      if (usedTokens.has(tokenA) || usedTokens.has(tokenB)) {
+        skip('shares a token with a packed trade');
+        continue;
+      }
+
+      usedTokens.add(tokenA);
+      usedTokens.add(tokenB);
+      batch.params.trades.push({ asset, amount, tokenA, tokenB, sushiFirst, slippageBps, minProfitBps });
+      batch.included.push(candidate.id);
+    }
+
+    return batch;
+  }
+
+  static encode(params: BatchArbitrageParamsStruct): string {
+    if (params.trades.length === 0) {
+      throw new Error("BatchPacker: no trades to encode");
+    }
+    return FlashArbBotFactory.createInterface().encodeFunctionData('executeBatchArbitrage', [params]);
+  }
+}
@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+
+export interface HeartbeatRecord {
+  version: 1;
+  pid: number;
+  timestamp: number;
+  stopped?: boolean; // Written on a clean shutdown, so a bot the operator stopped does not read as hung
+}
+
+/**
+ * Proof of life the main bot writes to a file for the kill-switch watchdog. Beats come from a
+ * timer on the bot's event loop, so a crashed or wedged process stops beating.
+ */
+export class BotHeartbeat {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "data", "bot-heartbeat.json");
+  private static readonly DEFAULT_INTERVAL_MS = 15 * 1000;
+
+  private filePath: string;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(filePath: string = BotHeartbeat.DEFAULT_PATH, intervalMs: number = BotHeartbeat.DEFAULT_INTERVAL_MS) {
+    this.filePath = filePath;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * The last beat written to a file, or null if the bot has never run against it
+   */
+  static read(filePath: string = BotHeartbeat.DEFAULT_PATH): HeartbeatRecord | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+
+    const record = JSON.parse(raw) as HeartbeatRecord;
+    if (record.version !== 1) {
+      throw new Error(`Unsupported heartbeat version ${record.version} in ${filePath}`);
+    }
+    return record;
+  }
+
+  beat(stopped: boolean = false): void {
+    const record: HeartbeatRecord = { version: 1, pid: process.pid, timestamp: Date.now() };
+    if (stopped) record.stopped = true;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(record));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`❌ Failed to write heartbeat ${this.filePath}:`, error);
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.beat();
+    this.timer = setInterval(() => this.beat(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.beat(true);
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import { Provider } from "ethers";
+import {
+  FlashbotsBundleProvider,
+  FlashbotsBundleResolution,
+  FlashbotsBundleTransaction,
+  FlashbotsTransactionResponse
+} from "@flashbots/ethers-provider-bundle";
+import { ExecutionChannel } from "./execution-channels";
+
+export interface BundleSubmissionOptions {
+  blocksAhead: number; // Consecutive target blocks each signed bundle is sent for
+  maxRounds: number; // Signing rounds before giving up; every round after the first is re-priced
+  feeBumpPercent: number; // Priority fee increase per re-pricing round
+  maxPriorityFeePerGas?: bigint; // Ceiling for re-priced tips
+  roundTimeoutMs: number; // A round whose blocks cannot be read for this long counts as missed
+}
+
+// REVERTED and PENDING_UNKNOWN only come from channels that publish transactions directly: a relay never lands a
+// reverting bundle, and a published transaction that missed the deadline may still be mined later
+export type BundleOutcomeStatus = 'INCLUDED' | 'NOT_INCLUDED' | 'PENDING_UNKNOWN' | 'REVERTED' | 'NONCE_TOO_HIGH' | 'RELAY_ERROR';
+
+export interface BundleOutcome {
+  status: BundleOutcomeStatus;
+  included: boolean;
+  rounds: number;
+  submissions: number; // Submissions the relay or endpoint accepted
+  bundleHash?: string;
+  blockNumber?: number;
+  txHash?: string; // Last transaction of the bundle, the arbitrage itself
+  gasUsed: bigint;
+  gasCost: bigint; // Realized gasUsed * effectiveGasPrice across the bundle, in wei
+  error?: string;
+}
+
+interface TargetedSubmission {
+  targetBlock: number;
+  response: FlashbotsTransactionResponse;
+}
+
+/**
+ * Sends a bundle through a FlashbotsBundleProvider for the next N blocks and follows it to a
+ * resolution. A round that passes every target block is re-priced and sent again; a nonce
+ * consumed elsewhere ends the submission, since the bundle can never land after that.
+ */
+export class FlashbotsBundleSubmitter implements ExecutionChannel {
+  readonly kind = 'flashbots';
+
+  private static readonly DEFAULT_OPTIONS: BundleSubmissionOptions = {
+    blocksAhead: 3,
+    maxRounds: 3,
+    feeBumpPercent: 15,
+    roundTimeoutMs: 5 * 60 * 1000
+  };
+
+  private flashbots: FlashbotsBundleProvider;
+  private provider: Provider;
+  private options: BundleSubmissionOptions;
+
+  constructor(flashbots: FlashbotsBundleProvider, provider: Provider, options: Partial<BundleSubmissionOptions> = {}) {
+    this.flashbots = flashbots;
+    this.provider = provider;
+    this.options = { ...FlashbotsBundleSubmitter.DEFAULT_OPTIONS, ...options };
+  }
+
+  async submit(transactions: FlashbotsBundleTransaction[]): Promise<BundleOutcome> {
+    const outcome: BundleOutcome = {
+      status: 'NOT_INCLUDED',
+      included: false,
+      rounds: 0,
+      submissions: 0,
+      gasUsed: 0n,
+      gasCost: 0n
+    };
+    let bundle = transactions;
+
+    for (let round = 0; round < this.options.maxRounds; round++) {
+      if (round > 0) bundle = await this.reprice(bundle);
+      outcome.rounds = round + 1;
+
+      const signedBundle = await this.flashbots.signBundle(bundle);
+      const currentBlock = await this.provider.getBlockNumber();
+
+      const submissions: TargetedSubmission[] = [];
+      for (let offset = 1; offset <= this.options.blocksAhead; offset++) {
+        const targetBlock = currentBlock + offset;
+        const response = await this.flashbots.sendRawBundle(signedBundle, targetBlock);
+        if ('error' in response) {
+          console.error(`Relay rejected bundle for block ${targetBlock}: ${response.error.message}`);
+          outcome.error = response.error.message;
+          continue;
+        }
+        submissions.push({ targetBlock, response });
+        outcome.submissions++;
+        outcome.bundleHash = response.bundleHash;
+      }
+
+      if (submissions.length === 0) {
+        outcome.status = 'RELAY_ERROR';
+        return outcome;
+      }
+
+      const { resolution, submission } = await this.waitForRound(submissions);
+      if (resolution === FlashbotsBundleResolution.BundleIncluded) {
+        return this.recordInclusion(outcome, submission);
+      }
+      if (resolution === FlashbotsBundleResolution.AccountNonceTooHigh) {
+        outcome.status = 'NONCE_TOO_HIGH';
+        return outcome;
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Watch every target block of a round at once, so a nonce consumed before the later targets
+   * is noticed straight away. Settles on the first inclusion or nonce failure, or once all targets pass.
+   *
+   * The relay responses' own wait() leaves a block listener per target running until that target
+   * passes, and its async handler rejects unhandled once the provider goes away; one listener that
+   * is removed when the round settles leaves nothing behind.
+   */
+  private waitForRound(
+    submissions: TargetedSubmission[]
+  ): Promise<{ resolution: FlashbotsBundleResolution; submission: TargetedSubmission }> {
+    // Every target carries the same signed bundle
+    const transactions = submissions[0].response.bundleTransactions;
+    const lastSubmission = submissions[submissions.length - 1];
+    const checked = new Set<number>();
+
+    return new Promise(resolve => {
+      let settled = false;
+      let checking = false;
+
+      const settle = (resolution: FlashbotsBundleResolution, submission: TargetedSubmission) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        this.provider.off('block', onBlock).catch(() => undefined);
+        resolve({ resolution, submission });
+      };
+
+      const check = async (blockNumber: number) => {
+        for (const submission of submissions) {
+          if (submission.targetBlock > blockNumber || checked.has(submission.targetBlock)) continue;
+          const block = await this.provider.getBlock(submission.targetBlock);
+          if (!block) return; // Not served yet; the next block retries
+          checked.add(submission.targetBlock);
+          const hashes = new Set(block.transactions);
+          if (transactions.every(transaction => hashes.has(transaction.hash))) {
+            return settle(FlashbotsBundleResolution.BundleIncluded, submission);
+          }
+        }
+        if (checked.size === submissions.length) {
+          return settle(FlashbotsBundleResolution.BlockPassedWithoutInclusion, lastSubmission);
+        }
+
+        // Targets are still ahead: a nonce used by another transaction means the bundle can never land
+        for (const transaction of transactions) {
+          if (transaction.nonce < await this.provider.getTransactionCount(transaction.account)) {
+            return settle(FlashbotsBundleResolution.AccountNonceTooHigh, lastSubmission);
+          }
+        }
+      };
+
+      const onBlock = (blockNumber: number) => {
+        // A slow check covers the blocks that arrive while it runs
+        if (settled || checking) return;
+        checking = true;
+        check(blockNumber)
+          .catch(error => console.error(`Failed checking bundle targets at block ${blockNumber}:`, error))
+          .finally(() => { checking = false; });
+      };
+
+      const timer = setTimeout(() => {
+        console.error(`Gave up waiting on bundle targets through block ${lastSubmission.targetBlock}`);
+        settle(FlashbotsBundleResolution.BlockPassedWithoutInclusion, lastSubmission);
+      }, this.options.roundTimeoutMs);
+      timer.unref();
+
+      this.provider.on('block', onBlock).catch(error => {
+        console.error('Failed to watch blocks for bundle inclusion:', error);
+        settle(FlashbotsBundleResolution.BlockPassedWithoutInclusion, lastSubmission);
+      });
+    });
+  }
+
+  private async recordInclusion(outcome: BundleOutcome, submission: TargetedSubmission): Promise<BundleOutcome> {
+    const { response, targetBlock } = submission;
+    outcome.status = 'INCLUDED';
+    outcome.included = true;
+    outcome.blockNumber = targetBlock;
+    outcome.txHash = response.bundleTransactions[response.bundleTransactions.length - 1].hash;
+
+    for (const receipt of await response.receipts()) {
+      outcome.gasUsed += receipt.gasUsed;
+      outcome.gasCost += receipt.gasUsed * receipt.gasPrice;
+    }
+    return outcome;
+  }
+
+  /**
+   * Raise the tip of every transaction in the bundle for the next round, with a fee cap that
+   * covers the highest base fee the round's target blocks can reach
+   */
+  private async reprice(transactions: FlashbotsBundleTransaction[]): Promise<FlashbotsBundleTransaction[]> {
+    const bump = (value: bigint) => (value * BigInt(100 + this.options.feeBumpPercent)) / 100n;
+    const block = await this.provider.getBlock('latest');
+    const maxBaseFee = block?.baseFeePerGas
+      ? FlashbotsBundleProvider.getMaxBaseFeeInFutureBlock(block.baseFeePerGas, this.options.blocksAhead)
+      : 0n;
+
+    return transactions.map(({ signer, transaction }) => {
+      const repriced = { ...transaction };
+      if (repriced.maxPriorityFeePerGas != null && repriced.maxFeePerGas != null) {
+        let tip = bump(BigInt(repriced.maxPriorityFeePerGas));
+        const cap = this.options.maxPriorityFeePerGas;
+        if (cap !== undefined && tip > cap) tip = cap;
+        const bumpedFeeCap = BigInt(repriced.maxFeePerGas) + tip - BigInt(repriced.maxPriorityFeePerGas);
+        repriced.maxPriorityFeePerGas = tip;
+        repriced.maxFeePerGas = bumpedFeeCap > maxBaseFee + tip ? bumpedFeeCap : maxBaseFee + tip;
+      } else if (repriced.gasPrice != null) {
+        repriced.gasPrice = bump(BigInt(repriced.gasPrice));
+      }
+      return { signer, transaction: repriced };
+    });
+  }
+}
@@ -0,0 +1,251 @@
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import { MulticallBatcher } from "./multicall";
+
+/**
+ * One Chainlink price feed, with the parameters from its data feed page
+ */
+export interface ChainlinkFeed {
+  symbol: string;
+  token: string; // Token the feed prices
+  quote: string; // "USD" or "ETH"
+  address: string;
+  decimals: number;
+  heartbeatSec: number; // Longest the feed goes without a new round
+  deviationBps: number; // Price move that forces a new round before the heartbeat; the answer can be off by this much
+}
+
+/**
+ * Chainlink L2 Sequencer Uptime feed: answer 0 while the sequencer is up, 1 while it is down
+ */
+export interface SequencerUptimeFeed {
+  address: string;
+  gracePeriodSec: number; // How long after recovery prices are still distrusted
+}
+
+export interface FeedReading {
+  feed: ChainlinkFeed;
+  answer: bigint;
+  price: number; // answer scaled by the feed's decimals
+  roundId: bigint;
+  updatedAt: number; // ms
+}
+
+export interface SequencerStatus {
+  chainId: number;
+  up: boolean;
+  since: number; // When the sequencer last changed state (ms)
+  gated: boolean; // Down, recovered within the grace period, or unreadable
+  reason?: string;
+}
+
+interface FeedRegistryFile {
+  version: 1;
+  stalenessMarginSec?: number; // Allowed lag past a feed's heartbeat before its answer is stale
+  chains: {
+    [chainId: string]: {
+      sequencerUptimeFeed?: SequencerUptimeFeed;
+      feeds: ChainlinkFeed[];
+    };
+  };
+}
+
+const FEED_ABI = [
+  "function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
+
+/**
+ * Per-chain Chainlink feeds loaded from config, read with a staleness check against each feed's
+ * heartbeat. On rollups with a Sequencer Uptime feed, prices are refused while the sequencer is down
+ * and for a grace period after it recovers, and watchSequencers() reports those windows as
+ * 'sequencer' events so trading can be held through them.
+ */
+export class ChainlinkFeedRegistry extends EventEmitter {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "config", "chainlink-feeds.json");
+  private static readonly DEFAULT_STALENESS_MARGIN_SEC = 60;
+  private static readonly DEFAULT_POLL_INTERVAL_MS = 10 * 1000;
+  // Price reads within this long of a sequencer read reuse its status
+  private static readonly SEQUENCER_CACHE_MS = 5 * 1000;
+
+  readonly filePath: string;
+  private multicall: MulticallBatcher;
+  private feeds: Map<number, Map<string, ChainlinkFeed>>; // `${token}:${quote}`, lowercase
+  private sequencerFeeds: Map<number, SequencerUptimeFeed>;
+  private stalenessMarginSec: number;
+  private pollIntervalMs: number;
+  private sequencerStatuses = new Map<number, { status: SequencerStatus; readAt: number }>();
+  private staleFeeds = new Set<string>();
+  private pollTimer?: NodeJS.Timeout;
+
+  /**
+   * Loads the file now and throws if it is invalid; a missing file leaves the registry empty
+   */
+  constructor(
+    multicall: MulticallBatcher,
+    filePath: string = ChainlinkFeedRegistry.DEFAULT_PATH,
+    pollIntervalMs: number = ChainlinkFeedRegistry.DEFAULT_POLL_INTERVAL_MS
+  ) {
+    super();
+    this.multicall = multicall;
+    this.filePath = filePath;
+    this.pollIntervalMs = pollIntervalMs;
+    this.feeds = new Map();
+    this.sequencerFeeds = new Map();
+
+    const file = this.readFile();
+    this.stalenessMarginSec = file?.stalenessMarginSec ?? ChainlinkFeedRegistry.DEFAULT_STALENESS_MARGIN_SEC;
+    for (const [chain, config] of Object.entries(file?.chains ?? {})) {
+      const chainId = parseInt(chain);
+      const feeds = new Map<string, ChainlinkFeed>();
+      config.feeds.forEach((feed, index) => {
+        ChainlinkFeedRegistry.validate(feed, `feed ${index + 1} of chain ${chain} in ${filePath}`);
+        feeds.set(`${feed.token}:${feed.quote}`.toLowerCase(), feed);
+      });
+      this.feeds.set(chainId, feeds);
+      if (config.sequencerUptimeFeed) {
+        this.sequencerFeeds.set(chainId, config.sequencerUptimeFeed);
+      }
+    }
+  }
+
+  getFeed(chainId: number, token: string, quote: string = "USD"): ChainlinkFeed | undefined {
+    return this.feeds.get(chainId)?.get(`${token}:${quote}`.toLowerCase());
+  }
+
+  /**
+   * Chains with a Sequencer Uptime feed
+   */
+  get gatedChains(): number[] {
+    return [...this.sequencerFeeds.keys()];
+  }
+
+  /**
+   * Latest answer of the token's feed, or null when there is none, the sequencer gate is closed,
+   * or the answer is older than the feed's heartbeat allows
+   */
+  async read(chainId: number, token: string, quote: string = "USD", now: number = Date.now()): Promise<FeedReading | null> {
+    const feed = this.getFeed(chainId, token, quote);
+    if (!feed) return null;
+
+    const [sequencer, round] = await Promise.all([
+      this.sequencerStatus(chainId, now),
+      this.multicall.tryCall(chainId, feed.address, FEED_ABI, 'latestRoundData')
+    ]);
+    if (sequencer.gated || !round) return null;
+
+    const answer = BigInt(round.answer);
+    const updatedAt = Number(round.updatedAt) * 1000;
+    if (answer <= 0n) return null;
+
+    const key = `${chainId}:${feed.address}`;
+    const ageSec = (now - updatedAt) / 1000;
+    if (ageSec > feed.heartbeatSec + this.stalenessMarginSec) {
+      if (!this.staleFeeds.has(key)) {
+        this.staleFeeds.add(key);
+        console.warn(`⚠️ Chainlink ${feed.symbol}/${feed.quote} on chain ${chainId} is stale: last update ${Math.round(ageSec)}s ago, heartbeat ${feed.heartbeatSec}s`);
+      }
+      return null;
+    }
+    this.staleFeeds.delete(key);
+
+    return {
+      feed,
+      answer,
+      price: Number(answer) / Math.pow(10, feed.decimals),
+      roundId: BigInt(round.roundId),
+      updatedAt
+    };
+  }
+
+  /**
+   * Whether prices and trading on a chain are gated by its sequencer; chains without an uptime feed never are
+   */
+  async sequencerStatus(chainId: number, now: number = Date.now()): Promise<SequencerStatus> {
+    const cached = this.sequencerStatuses.get(chainId);
+    if (cached && now - cached.readAt < ChainlinkFeedRegistry.SEQUENCER_CACHE_MS) {
+      return cached.status;
+    }
+    return this.readSequencer(chainId, now);
+  }
+
+  /**
+   * Poll every chain's uptime feed, emitting 'sequencer' whenever a chain's gate opens or closes
+   * and when a gated sequencer comes back up into its grace period
+   */
+  watchSequencers(): void {
+    if (this.pollTimer || this.sequencerFeeds.size === 0) return;
+    this.pollTimer = setInterval(() => {
+      for (const chainId of this.sequencerFeeds.keys()) {
+        this.readSequencer(chainId, Date.now()).catch(error =>
+          console.error(`❌ Failed to read the sequencer uptime feed on chain ${chainId}:`, error));
+      }
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  unwatchSequencers(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async readSequencer(chainId: number, now: number): Promise<SequencerStatus> {
+    const uptimeFeed = this.sequencerFeeds.get(chainId);
+    if (!uptimeFeed) return { chainId, up: true, since: 0, gated: false };
+
+    const round = await this.multicall.tryCall(chainId, uptimeFeed.address, FEED_ABI, 'latestRoundData');
+    let status: SequencerStatus;
+    // startedAt is 0 before the feed's first round on a fresh deployment
+    if (!round || Number(round.startedAt) === 0) {
+      status = { chainId, up: false, since: now, gated: true, reason: `sequencer uptime feed on chain ${chainId} cannot be read` };
+    } else {
+      const up = BigInt(round.answer) === 0n;
+      const since = Number(round.startedAt) * 1000;
+      const recovering = up && now - since < uptimeFeed.gracePeriodSec * 1000;
+      status = { chainId, up, since, gated: !up || recovering };
+      if (!up) {
+        status.reason = `sequencer on chain ${chainId} down since ${new Date(since).toISOString()}`;
+      } else if (recovering) {
+        status.reason = `sequencer on chain ${chainId} recovered ${Math.round((now - since) / 1000)}s ago, grace period ${uptimeFeed.gracePeriodSec}s`;
+      }
+    }
+
+    const previous = this.sequencerStatuses.get(chainId)?.status;
+    this.sequencerStatuses.set(chainId, { status, readAt: now });
+    if ((previous?.gated ?? false) !== status.gated || (previous?.up ?? true) !== status.up) {
+      this.emit('sequencer', status);
+    }
+    return status;
+  }
+
+  private readFile(): FeedRegistryFile | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        console.warn(`⚠️ No Chainlink feed registry at ${this.filePath}; Chainlink prices and sequencer gating are off`);
+        return null;
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as FeedRegistryFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported Chainlink feed registry version ${file.version} in ${this.filePath}`);
+    }
+    return file;
+  }
+
+  private static validate(feed: ChainlinkFeed, where: string): void {
+    if (!feed.token || !feed.address || !feed.quote) {
+      throw new Error(`ChainlinkFeedRegistry: ${where} needs token, quote and address`);
+    }
+    if (!Number.isInteger(feed.decimals) || !(feed.heartbeatSec > 0) || !(feed.deviationBps >= 0)) {
+      throw new Error(`ChainlinkFeedRegistry: ${where} needs decimals, a positive heartbeatSec and deviationBps`);
+    }
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * Offline Curve StableSwap and Balancer V2 pool math.
+ * Integer ports of the on-chain formulas so stable and weighted pools quote exactly from cached balances.
+ */
+
+const ONE_18 = 10n ** 18n;
+
+export class CurveStableSwapMath {
+
+  static readonly PRECISION = 10n ** 18n;
+  static readonly FEE_DENOMINATOR = 10n ** 10n;
+  static readonly A_PRECISION = 100n;
+
+  /**
+   * Rate multipliers that normalise every coin to 18 decimals, as in the pool's RATES constant
+   */
+  static ratesFromDecimals(decimals: number[]): bigint[] {
+    return decimals.map(d => 10n ** BigInt(36 - d));
+  }
+
+  /**
+   * StableSwap invariant D for normalised balances. amp is A * A_PRECISION.
+   */
+  static getD(xp: bigint[], amp: bigint): bigint {
+    const n = BigInt(xp.length);
+    const S = xp.reduce((acc, x) => acc + x, 0n);
+    if (S === 0n) return 0n;
+
+    let D = S;
+    const Ann = amp * n;
+
+    for (let i = 0; i < 255; i++) {
+      let D_P = D;
+      for (const x of xp) {
+        D_P = (D_P * D) / (x * n);
+      }
+      const Dprev = D;
+      D = (((Ann * S) / CurveStableSwapMath.A_PRECISION + D_P * n) * D) /
+        (((Ann - CurveStableSwapMath.A_PRECISION) * D) / CurveStableSwapMath.A_PRECISION + (n + 1n) * D_P);
+
+      if (absDiff(D, Dprev) <= 1n) return D;
+    }
+
+    throw new Error('CurveStableSwapMath: D did not converge');
+  }
+
+  /**
+   * New balance of coin j after coin i is set to x, keeping D constant
+   */
+  static getY(i: number, j: number, x: bigint, xp: bigint[], amp: bigint): bigint {
+    if (i === j || i < 0 || j < 0 || i >= xp.length || j >= xp.length) {
+      throw new Error('CurveStableSwapMath: invalid coin indices');
+    }
+
+    const n = BigInt(xp.length);
+    const D = CurveStableSwapMath.getD(xp, amp);
+    const Ann = amp * n;
+
+    let c = D;
+    let S_ = 0n;
+    for (let k = 0; k < xp.length; k++) {
+      let _x: bigint;
+      if (k === i) _x = x;
+      else if (k !== j) _x = xp[k];
+      else continue;
+      S_ += _x;
+      c = (c * D) / (_x * n);
+    }
+    c = (c * D * CurveStableSwapMath.A_PRECISION) / (Ann * n);
+    const b = S_ + (D * CurveStableSwapMath.A_PRECISION) / Ann;
+
+    let y = D;
+    for (let k = 0; k < 255; k++) {
+      const yPrev = y;
+      y = (y * y + c) / (2n * y + b - D);
+      if (absDiff(y, yPrev) <= 1n) return y;
+    }
+
+    throw new Error('CurveStableSwapMath: y did not converge');
+  }
+
+  /**
+   * Pool get_dy: output of coin j for dx of coin i, net of the swap fee (fee in 1e10 precision)
+   */
+  static getDy(
+    i: number,
+    j: number,
+    dx: bigint,
+    balances: bigint[],
+    rates: bigint[],
+    amp: bigint,
+    fee: bigint
+  ): bigint {
+    const xp = balances.map((balance, k) => (balance * rates[k]) / CurveStableSwapMath.PRECISION);
+    const x = xp[i] + (dx * rates[i]) / CurveStableSwapMath.PRECISION;
+    const y = CurveStableSwapMath.getY(i, j, x, xp, amp);
+    const dy = xp[j] - y - 1n;
+    const feeAmount = (fee * dy) / CurveStableSwapMath.FEE_DENOMINATOR;
+    return ((dy - feeAmount) * CurveStableSwapMath.PRECISION) / rates[j];
+  }
+}
+
+export class FixedPoint {
+
+  static readonly ONE = ONE_18;
+  private static readonly MAX_POW_RELATIVE_ERROR = 10000n; // 1e-14
+
+  static mulDown(a: bigint, b: bigint): bigint {
+    return (a * b) / ONE_18;
+  }
+
+  static mulUp(a: bigint, b: bigint): bigint {
+    const product = a * b;
+    return product === 0n ? 0n : (product - 1n) / ONE_18 + 1n;
+  }
+
+  static divDown(a: bigint, b: bigint): bigint {
+    if (b === 0n) throw new Error('FixedPoint: division by zero');
+    return (a * ONE_18) / b;
+  }
+
+  static divUp(a: bigint, b: bigint): bigint {
+    if (b === 0n) throw new Error('FixedPoint: division by zero');
+    return a === 0n ? 0n : (a * ONE_18 - 1n) / b + 1n;
+  }
+
+  static complement(x: bigint): bigint {
+    return x < ONE_18 ? ONE_18 - x : 0n;
+  }
+
+  /**
+   * x^y rounded up, with the same fast paths and error margin as the vault
+   */
+  static powUp(x: bigint, y: bigint): bigint {
+    if (y === ONE_18) return x;
+    if (y === 2n * ONE_18) return FixedPoint.mulUp(x, x);
+    if (y === 4n * ONE_18) {
+      const square = FixedPoint.mulUp(x, x);
+      return FixedPoint.mulUp(square, square);
+    }
+
+    const raw = LogExpMath.pow(x, y);
+    const maxError = FixedPoint.mulUp(raw, FixedPoint.MAX_POW_RELATIVE_ERROR) + 1n;
+    return raw + maxError;
+  }
+}
+
+/**
+ * Port of Balancer's LogExpMath: 18-decimal fixed point exp/ln via precomputed e^(2^n) terms
+ */
+export class LogExpMath {
+
+  private static readonly ONE_20 = 10n ** 20n;
+  private static readonly ONE_36 = 10n ** 36n;
+
+  private static readonly MAX_NATURAL_EXPONENT = 130n * ONE_18;
+  private static readonly MIN_NATURAL_EXPONENT = -41n * ONE_18;
+  private static readonly LN_36_LOWER_BOUND = ONE_18 - 10n ** 17n;
+  private static readonly LN_36_UPPER_BOUND = ONE_18 + 10n ** 17n;
+  private static readonly MILD_EXPONENT_BOUND = 2n ** 254n / (10n ** 20n);
+
+  // 18 decimal constants
+  private static readonly x0 = 128000000000000000000n; // 2^7
+  private static readonly a0 = 38877084059945950922200000000000000000000000000000000000n; // e^(x0) (no decimals)
+  private static readonly x1 = 64000000000000000000n; // 2^6
+  private static readonly a1 = 6235149080811616882910000000n; // e^(x1) (no decimals)
+
+  // 20 decimal constants
+  private static readonly x2 = 3200000000000000000000n; // 2^5
+  private static readonly a2 = 7896296018268069516100000000000000n; // e^(x2)
+  private static readonly x3 = 1600000000000000000000n; // 2^4
+  private static readonly a3 = 888611052050787263676000000n; // e^(x3)
+  private static readonly x4 = 800000000000000000000n; // 2^3
+  private static readonly a4 = 298095798704172827474000n; // e^(x4)
+  private static readonly x5 = 400000000000000000000n; // 2^2
+  private static readonly a5 = 5459815003314423907810n; // e^(x5)
+  private static readonly x6 = 200000000000000000000n; // 2^1
+  private static readonly a6 = 738905609893065022723n; // e^(x6)
+  private static readonly x7 = 100000000000000000000n; // 2^0
+  private static readonly a7 = 271828182845904523536n; // e^(x7)
+  private static readonly x8 = 50000000000000000000n; // 2^-1
+  private static readonly a8 = 164872127070012814685n; // e^(x8)
+  private static readonly x9 = 25000000000000000000n; // 2^-2
+  private static readonly a9 = 128402541668774148407n; // e^(x9)
+  private static readonly x10 = 12500000000000000000n; // 2^-3
+  private static readonly a10 = 113314845306682631683n; // e^(x10)
+  private static readonly x11 = 6250000000000000000n; // 2^-4
+  private static readonly a11 = 106449445891785942956n; // e^(x11)
+
+  static pow(x: bigint, y: bigint): bigint {
+    if (y === 0n) return ONE_18;
+    if (x === 0n) return 0n;
+    if (x >= 2n ** 255n) throw new Error('LogExpMath: x out of bounds');
+    if (y >= LogExpMath.MILD_EXPONENT_BOUND) throw new Error('LogExpMath: y out of bounds');
+
+    let logxTimesY: bigint;
+    if (LogExpMath.LN_36_LOWER_BOUND < x && x < LogExpMath.LN_36_UPPER_BOUND) {
+      const ln36x = LogExpMath.ln36(x);
+      // Keep the extra 18 digits of precision from ln36 without overflowing
+      logxTimesY = (ln36x / ONE_18) * y + ((ln36x % ONE_18) * y) / ONE_18;
+    } else {
+      logxTimesY = LogExpMath.ln(x) * y;
+    }
+    logxTimesY /= ONE_18;
+
+    if (logxTimesY < LogExpMath.MIN_NATURAL_EXPONENT || logxTimesY > LogExpMath.MAX_NATURAL_EXPONENT) {
+      throw new Error('LogExpMath: product out of bounds');
+    }
+
+    return LogExpMath.exp(logxTimesY);
+  }
+
+  static exp(x: bigint): bigint {
+    if (x < LogExpMath.MIN_NATURAL_EXPONENT || x > LogExpMath.MAX_NATURAL_EXPONENT) {
+      throw new Error('LogExpMath: invalid exponent');
+    }
+
+    if (x < 0n) {
+      return (ONE_18 * ONE_18) / LogExpMath.exp(-x);
+    }
+
+    let firstAN: bigint;
+    if (x >= LogExpMath.x0) {
+      x -= LogExpMath.x0;
+      firstAN = LogExpMath.a0;
+    } else if (x >= LogExpMath.x1) {
+      x -= LogExpMath.x1;
+      firstAN = LogExpMath.a1;
+    } else {
+      firstAN = 1n;
+    }
+
+    // Switch to 20 decimals for the remaining terms
+    x *= 100n;
+    const ONE_20 = LogExpMath.ONE_20;
+    let product = ONE_20;
+
+    const terms: [bigint, bigint][] = [
+      [LogExpMath.x2, LogExpMath.a2],
+      [LogExpMath.x3, LogExpMath.a3],
+      [LogExpMath.x4, LogExpMath.a4],
+      [LogExpMath.x5, LogExpMath.a5],
+      [LogExpMath.x6, LogExpMath.a6],
+      [LogExpMath.x7, LogExpMath.a7],
+      [LogExpMath.x8, LogExpMath.a8],
+      [LogExpMath.x9, LogExpMath.a9]
+    ];
+    for (const [xn, an] of terms) {
+      if (x >= xn) {
+        x -= xn;
+        product = (product * an) / ONE_20;
+      }
+    }
+
+    // Taylor series for the remainder, 12 terms
+    let seriesSum = ONE_20;
+    let term = x;
+    seriesSum += term;
+    for (let k = 2n; k <= 12n; k++) {
+      term = (term * x) / ONE_20 / k;
+      seriesSum += term;
+    }
+
+    return (((product * seriesSum) / ONE_20) * firstAN) / 100n;
+  }
+
+  static ln(a: bigint): bigint {
+    if (a <= 0n) throw new Error('LogExpMath: out of bounds');
+    if (a < ONE_18) {
+      return -LogExpMath.ln((ONE_18 * ONE_18) / a);
+    }
+
+    let sum = 0n;
+    if (a >= LogExpMath.a0 * ONE_18) {
+      a /= LogExpMath.a0;
+      sum += LogExpMath.x0;
+    }
+    if (a >= LogExpMath.a1 * ONE_18) {
+      a /= LogExpMath.a1;
+      sum += LogExpMath.x1;
+    }
+
+    sum *= 100n;
+    a *= 100n;
+    const ONE_20 = LogExpMath.ONE_20;
+
+    const terms: [bigint, bigint][] = [
+      [LogExpMath.x2, LogExpMath.a2],
+      [LogExpMath.x3, LogExpMath.a3],
+      [LogExpMath.x4, LogExpMath.a4],
+      [LogExpMath.x5, LogExpMath.a5],
+      [LogExpMath.x6, LogExpMath.a6],
+      [LogExpMath.x7, LogExpMath.a7],
+      [LogExpMath.x8, LogExpMath.a8],
+      [LogExpMath.x9, LogExpMath.a9],
+      [LogExpMath.x10, LogExpMath.a10],
+      [LogExpMath.x11, LogExpMath.a11]
+    ];
+    for (const [xn, an] of terms) {
+      if (a >= an) {
+        a = (a * ONE_20) / an;
+        sum += xn;
+      }
+    }
+
+    // ln(a) = 2 * atanh(z) for z = (a - 1) / (a + 1), odd terms up to z^11
+    const z = ((a - ONE_20) * ONE_20) / (a + ONE_20);
+    const zSquared = (z * z) / ONE_20;
+    let num = z;
+    let seriesSum = num;
+    for (let k = 3n; k <= 11n; k += 2n) {
+      num = (num * zSquared) / ONE_20;
+      seriesSum += num / k;
+    }
+    seriesSum *= 2n;
+
+    return (sum + seriesSum) / 100n;
+  }
+
+  private static ln36(x: bigint): bigint {
+    const ONE_36 = LogExpMath.ONE_36;
+    x *= ONE_18;
+
+    const z = ((x - ONE_36) * ONE_36) / (x + ONE_36);
+    const zSquared = (z * z) / ONE_36;
+    let num = z;
+    let seriesSum = num;
+    for (let k = 3n; k <= 15n; k += 2n) {
+      num = (num * zSquared) / ONE_36;
+      seriesSum += num / k;
+    }
+
+    return seriesSum * 2n;
+  }
+}
+
+export class BalancerWeightedMath {
+
+  // Swaps cannot move more than 30% of the in-balance
+  private static readonly MAX_IN_RATIO = 3n * 10n ** 17n;
+
+  /**
+   * Weighted pool onSwap (GIVEN_IN) on raw token balances.
+   * Fee is taken before scaling and the output is rounded down, as in BaseMinimalSwapInfoPool.
+   */
+  static calcOutGivenIn(
+    balanceIn: bigint,
+    weightIn: bigint,
+    balanceOut: bigint,
+    weightOut: bigint,
+    amountIn: bigint,
+    swapFee: bigint,
+    scalingFactorIn: bigint = 1n,
+    scalingFactorOut: bigint = 1n
+  ): bigint {
+    const amountInLessFee = amountIn - FixedPoint.mulUp(amountIn, swapFee);
+
+    const scaledBalanceIn = balanceIn * scalingFactorIn;
+    const scaledBalanceOut = balanceOut * scalingFactorOut;
+    const scaledAmountIn = amountInLessFee * scalingFactorIn;
+
+    if (scaledAmountIn > FixedPoint.mulDown(scaledBalanceIn, BalancerWeightedMath.MAX_IN_RATIO)) {
+      throw new Error('BalancerWeightedMath: max in ratio');
+    }
+
+    const base = FixedPoint.divUp(scaledBalanceIn, scaledBalanceIn + scaledAmountIn);
+    const exponent = FixedPoint.divDown(weightIn, weightOut);
+    const power = FixedPoint.powUp(base, exponent);
+    const amountOut = FixedPoint.mulDown(scaledBalanceOut, FixedPoint.complement(power));
+
+    return amountOut / scalingFactorOut;
+  }
+}
+
+export class BalancerStableMath {
+
+  static readonly AMP_PRECISION = 1000n;
+
+  /**
+   * StableSwap invariant on upscaled balances. amp includes AMP_PRECISION.
+   */
+  static calculateInvariant(amp: bigint, balances: bigint[]): bigint {
+    const n = BigInt(balances.length);
+    const sum = balances.reduce((acc, b) => acc + b, 0n);
+    if (sum === 0n) return 0n;
+
+    let invariant = sum;
+    const ampTimesTotal = amp * n;
+
+    for (let i = 0; i < 255; i++) {
+      let D_P = invariant;
+      for (const balance of balances) {
+        D_P = (D_P * invariant) / (balance * n);
+      }
+
+      const prevInvariant = invariant;
+      invariant = (((ampTimesTotal * sum) / BalancerStableMath.AMP_PRECISION + D_P * n) * invariant) /
+        (((ampTimesTotal - BalancerStableMath.AMP_PRECISION) * invariant) / BalancerStableMath.AMP_PRECISION +
+          (n + 1n) * D_P);
+
+      if (absDiff(invariant, prevInvariant) <= 1n) return invariant;
+    }
+
+    throw new Error('BalancerStableMath: invariant did not converge');
+  }
+
+  /**
+   * Stable pool onSwap (GIVEN_IN) on raw token balances with per-token scaling factors
+   */
+  static calcOutGivenIn(
+    amp: bigint,
+    balances: bigint[],
+    indexIn: number,
+    indexOut: number,
+    amountIn: bigint,
+    swapFee: bigint,
+    scalingFactors: bigint[]
+  ): bigint {
+    const amountInLessFee = amountIn - FixedPoint.mulUp(amountIn, swapFee);
+    const scaled = balances.map((balance, k) => balance * scalingFactors[k]);
+    const invariant = BalancerStableMath.calculateInvariant(amp, scaled);
+
+    scaled[indexIn] += amountInLessFee * scalingFactors[indexIn];
+    const finalBalanceOut = BalancerStableMath.getTokenBalanceGivenInvariantAndAllOtherBalances(
+      amp,
+      scaled,
+      invariant,
+      indexOut
+    );
+    scaled[indexIn] -= amountInLessFee * scalingFactors[indexIn];
+
+    const amountOut = scaled[indexOut] - finalBalanceOut - 1n;
+    return amountOut / scalingFactors[indexOut];
+  }
+
+  private static getTokenBalanceGivenInvariantAndAllOtherBalances(
+    amp: bigint,
+    balances: bigint[],
+    invariant: bigint,
+    tokenIndex: number
+  ): bigint {
+    const n = BigInt(balances.length);
+    const ampTimesTotal = amp * n;
+
+    let sum = balances[0];
+    let P_D = balances[0] * n;
+    for (let j = 1; j < balances.length; j++) {
+      P_D = (P_D * balances[j] * n) / invariant;
+      sum += balances[j];
+    }
+    sum -= balances[tokenIndex];
+
+    const inv2 = invariant * invariant;
+    const c = divUpInt(inv2, ampTimesTotal * P_D) * BalancerStableMath.AMP_PRECISION * balances[tokenIndex];
+    const b = sum + (invariant / ampTimesTotal) * BalancerStableMath.AMP_PRECISION;
+
+    let tokenBalance = divUpInt(inv2 + c, invariant + b);
+    for (let i = 0; i < 255; i++) {
+      const prevTokenBalance = tokenBalance;
+      tokenBalance = divUpInt(tokenBalance * tokenBalance + c, tokenBalance * 2n + b - invariant);
+      if (absDiff(tokenBalance, prevTokenBalance) <= 1n) return tokenBalance;
+    }
+
+    throw new Error('BalancerStableMath: balance did not converge');
+  }
+}
+
+function absDiff(a: bigint, b: bigint): bigint {
+  return a > b ? a - b : b - a;
+}
+
+function divUpInt(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : 1n + (a - 1n) / b;
+}
@@ -1,4 +1,5 @@
 import { ethers, Interface } from "ethers";
+import { CurveStableSwapMath } from "./curve-balancer-math";
 
 export interface DEXRouter {
   name: string;
@@ -8,6 +9,7 @@ export interface DEXRouter {
   gasLimit: bigint;
   feeStructure: string;
   liquidityScore: number;
+  executable?: false; // Quoted like its routerType but swaps through a different ABI, so routes cannot run through it
 }
 
 export interface DEXQuote {
@@ -106,7 +108,9 @@ export class EnhancedDEXManager {
         routerType: 'UNISWAP_V2' as const,
         gasLimit: 350000n,
         feeStructure: "0.3%",
-        liquidityScore: 6.5
+        liquidityScore: 6.5,
+        // swapExactTokensForTokens takes a referrer and only the fee-on-transfer variant exists
+        executable: false as const
       }
     ],
     
@@ -159,7 +163,9 @@ export class EnhancedDEXManager {
         routerType: 'UNISWAP_V2' as const,
         gasLimit: 320000n,
         feeStructure: "0.02-0.05%",
-        liquidityScore: 7.0
+        liquidityScore: 7.0,
+        // Swaps take Route structs with a stable flag instead of a token path
+        executable: false as const
       }
     ]
   };
@@ -307,19 +313,26 @@ export class EnhancedDEXManager {
   
   /**
    * Calculate expected slippage for router type and amount
+   * Curve slippage comes from the StableSwap invariant; pass the pool's A * A_PRECISION when known
    */
   static calculateExpectedSlippage(
     router: DEXRouter, 
     amountIn: bigint, 
-    liquidityDepth: bigint
+    liquidityDepth: bigint,
+    curveAmplification: bigint = 100n * CurveStableSwapMath.A_PRECISION
   ): number {
     const tradeSize = Number(amountIn) / Number(liquidityDepth);
     
     // Router-specific slippage models
     switch (router.routerType) {
-      case 'CURVE':
-        // Curve has lower slippage for stable swaps
-        return Math.min(0.001, tradeSize * 0.1); // 0.1% max for stables
+      case 'CURVE': {
+        // Price impact on a balanced two-coin pool holding liquidityDepth, fee excluded
+        const balance = liquidityDepth / 2n;
+        if (amountIn <= 0n || balance <= 0n) return 0;
+        const rates = CurveStableSwapMath.ratesFromDecimals([18, 18]);
+        const amountOut = CurveStableSwapMath.getDy(0, 1, amountIn, [balance, balance], rates, curveAmplification, 0n);
+        return Math.max(0, 1 - Number(amountOut) / Number(amountIn));
+      }
         
       case 'UNISWAP_V3':
         // V3 concentrated liquidity can have higher slippage
@@ -0,0 +1,363 @@
+import { BaseContractMethod, Contract, Provider, Signer, Transaction, concat, getBytes, id, toBeHex, zeroPadValue } from "ethers";
+import { FlashbotsBundleTransaction } from "@flashbots/ethers-provider-bundle";
+import { BundleOutcome } from "./bundle-submitter";
+
+export type ExecutionChannelKind = 'flashbots' | 'sequencer' | 'private-rpc' | 'timeboost';
+
+/**
+ * A route from signed transactions to a block. Flashbots only exists on L1; on the rollups
+ * ordering is decided by the sequencer, so each chain picks the channel that fits its ordering.
+ */
+export interface ExecutionChannel {
+  readonly kind: ExecutionChannelKind;
+  submit(transactions: FlashbotsBundleTransaction[]): Promise<BundleOutcome>;
+}
+
+/**
+ * JSON-RPC endpoint that accepts submissions; a JsonRpcProvider pointed at the endpoint fits
+ */
+export interface RpcEndpoint {
+  send(method: string, params: any[]): Promise<any>;
+}
+
+export interface InclusionOptions {
+  maxBlocks: number; // Blocks to wait for a receipt before declaring the submission dropped
+  pollIntervalMs: number;
+}
+
+export interface PrivateRpcOptions extends InclusionOptions {
+  // eth_sendPrivateTransaction carries a maxBlockNumber, after which the endpoint drops the transaction
+  method: 'eth_sendRawTransaction' | 'eth_sendPrivateTransaction';
+}
+
+export interface TimeboostOptions extends InclusionOptions {
+  chainId: number;
+  auctionContract: string;
+  bidAmount: bigint; // Bid for the next round's express lane whenever we do not hold the current one; 0 disables bidding
+}
+
+interface SentTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+}
+
+type RawSender = (raw: string, deadlineBlock: number) => Promise<void>;
+
+interface ResolvedRound {
+  expressLaneController: string;
+  round: bigint;
+}
+
+interface RoundTimingInfo {
+  offsetTimestamp: bigint;
+  roundDurationSeconds: bigint;
+  auctionClosingSeconds: bigint;
+  reserveSubmissionSeconds: bigint;
+}
+
+/**
+ * Typed view of Arbitrum's ExpressLaneAuction for the methods the Timeboost channel reads
+ */
+interface ExpressLaneAuction {
+  roundTimingInfo: BaseContractMethod<[], RoundTimingInfo, RoundTimingInfo>;
+  resolvedRounds: BaseContractMethod<[], [ResolvedRound, ResolvedRound], [ResolvedRound, ResolvedRound]>;
+}
+
+// Arbitrum blocks are ~250ms, so 20 blocks gives the sequencer several seconds
+const DEFAULT_INCLUSION: InclusionOptions = {
+  maxBlocks: 20,
+  pollIntervalMs: 250
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function emptyOutcome(): BundleOutcome {
+  return { status: 'NOT_INCLUDED', included: false, rounds: 1, submissions: 0, gasUsed: 0n, gasCost: 0n };
+}
+
+/**
+ * Sign the transactions in order, hand each to `send`, then follow the last one to a receipt.
+ * A transaction that is never mined is told apart from one whose nonce was taken by another
+ * transaction by reading the sender's nonce once the deadline passes. Only an endpoint that
+ * drops its submissions at the deadline makes an unmined transaction NOT_INCLUDED; anything
+ * else may still be mined, so it is PENDING_UNKNOWN and its hash stays worth tracking.
+ */
+async function submitRawTransactions(
+  provider: Provider,
+  transactions: FlashbotsBundleTransaction[],
+  options: InclusionOptions,
+  dropsAtDeadline: boolean,
+  send: RawSender
+): Promise<BundleOutcome> {
+  const outcome = emptyOutcome();
+  const startBlock = await provider.getBlockNumber();
+  const deadlineBlock = startBlock + options.maxBlocks;
+
+  const sent: SentTransaction[] = [];
+  for (const { signer, transaction } of transactions) {
+    const raw: string = await signer.signTransaction(transaction);
+    const parsed = Transaction.from(raw);
+    try {
+      await send(raw, deadlineBlock);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Submission of ${parsed.hash} rejected: ${message}`);
+      outcome.error = message;
+      outcome.status = /nonce too low/i.test(message) ? 'NONCE_TOO_HIGH' : 'RELAY_ERROR';
+      return outcome;
+    }
+    outcome.submissions++;
+    sent.push({ hash: parsed.hash!, from: parsed.from!, nonce: parsed.nonce });
+  }
+
+  const last = sent[sent.length - 1];
+  outcome.txHash = last.hash;
+  while (true) {
+    const receipt = await provider.getTransactionReceipt(last.hash);
+    if (receipt) {
+      outcome.blockNumber = receipt.blockNumber;
+      let reverted = false;
+      for (const { hash } of sent) {
+        const mined = hash === last.hash ? receipt : await provider.getTransactionReceipt(hash);
+        if (!mined) continue;
+        outcome.gasUsed += mined.gasUsed;
+        outcome.gasCost += mined.gasUsed * mined.gasPrice;
+        if (mined.status !== 1) reverted = true;
+      }
+      outcome.included = !reverted;
+      outcome.status = reverted ? 'REVERTED' : 'INCLUDED';
+      return outcome;
+    }
+
+    if (await provider.getBlockNumber() > deadlineBlock) {
+      const first = sent[0];
+      const accountNonce = await provider.getTransactionCount(first.from, 'latest');
+      if (accountNonce > first.nonce) {
+        outcome.status = 'NONCE_TOO_HIGH';
+      } else {
+        outcome.status = dropsAtDeadline ? 'NOT_INCLUDED' : 'PENDING_UNKNOWN';
+      }
+      return outcome;
+    }
+    await sleep(options.pollIntervalMs);
+  }
+}
+
+/**
+ * Direct submission to the rollup sequencer, which orders transactions first come, first served
+ */
+export class SequencerChannel implements ExecutionChannel {
+  readonly kind = 'sequencer';
+
+  private sequencer: RpcEndpoint;
+  private provider: Provider;
+  private options: InclusionOptions;
+
+  constructor(sequencer: RpcEndpoint, provider: Provider, options: Partial<InclusionOptions> = {}) {
+    this.sequencer = sequencer;
+    this.provider = provider;
+    this.options = { ...DEFAULT_INCLUSION, ...options };
+  }
+
+  async submit(transactions: FlashbotsBundleTransaction[]): Promise<BundleOutcome> {
+    return submitRawTransactions(this.provider, transactions, this.options, false, async raw => {
+      await this.sequencer.send("eth_sendRawTransaction", [raw]);
+    });
+  }
+}
+
+/**
+ * Submission through a private RPC endpoint that forwards to the sequencer without exposing
+ * the transaction in a public mempool
+ */
+export class PrivateRpcChannel implements ExecutionChannel {
+  readonly kind = 'private-rpc';
+
+  private endpoint: RpcEndpoint;
+  private provider: Provider;
+  private options: PrivateRpcOptions;
+
+  constructor(endpoint: RpcEndpoint, provider: Provider, options: Partial<PrivateRpcOptions> = {}) {
+    this.endpoint = endpoint;
+    this.provider = provider;
+    this.options = { ...DEFAULT_INCLUSION, method: 'eth_sendPrivateTransaction', ...options };
+  }
+
+  async submit(transactions: FlashbotsBundleTransaction[]): Promise<BundleOutcome> {
+    const bounded = this.options.method === 'eth_sendPrivateTransaction';
+    return submitRawTransactions(this.provider, transactions, this.options, bounded, async (raw, deadlineBlock) => {
+      const params = bounded ? [{ tx: raw, maxBlockNumber: toBeHex(deadlineBlock) }] : [raw];
+      await this.endpoint.send(this.options.method, params);
+    });
+  }
+}
+
+/**
+ * Arbitrum Timeboost: the winner of each round's sealed-bid auction controls an express lane
+ * that skips the sequencer's delay for ordinary transactions. While we hold the lane, transactions
+ * go out as signed express-lane submissions; otherwise we bid for the next round and submit
+ * through the ordinary sequencer queue.
+ */
+export class TimeboostChannel implements ExecutionChannel {
+  readonly kind = 'timeboost';
+
+  private static readonly AUCTION_ABI = [
+    "function roundTimingInfo() view returns (int64 offsetTimestamp, uint64 roundDurationSeconds, uint64 auctionClosingSeconds, uint64 reserveSubmissionSeconds)",
+    "function resolvedRounds() view returns (tuple(address expressLaneController, uint64 round), tuple(address expressLaneController, uint64 round))"
+  ];
+
+  // Prefix of the express-lane submission message the sequencer verifies: Nitro's domain value is keccak256("TIMEBOOST_BID")
+  private static readonly SUBMISSION_DOMAIN = id("TIMEBOOST_BID");
+
+  private static readonly BID_TYPES = {
+    Bid: [
+      { name: "round", type: "uint64" },
+      { name: "expressLaneController", type: "address" },
+      { name: "amount", type: "uint256" }
+    ]
+  };
+
+  private sequencer: RpcEndpoint;
+  private auctioneer: RpcEndpoint | null;
+  private provider: Provider;
+  private controller: Signer;
+  private options: TimeboostOptions;
+  private auction: ExpressLaneAuction;
+
+  private timing: { offset: number; duration: number; closing: number } | null = null;
+  private laneRound: bigint | null = null;
+  private holdsLane = false;
+  private sequenceRound: bigint | null = null;
+  private sequenceNumber = 0n;
+  private biddedRounds = new Set<bigint>();
+
+  constructor(
+    sequencer: RpcEndpoint,
+    auctioneer: RpcEndpoint | null,
+    provider: Provider,
+    controller: Signer,
+    options: Partial<TimeboostOptions> & Pick<TimeboostOptions, 'chainId' | 'auctionContract'>
+  ) {
+    this.sequencer = sequencer;
+    this.auctioneer = auctioneer;
+    this.provider = provider;
+    this.controller = controller;
+    this.options = { ...DEFAULT_INCLUSION, bidAmount: 0n, ...options };
+    this.auction = new Contract(options.auctionContract, TimeboostChannel.AUCTION_ABI, provider) as ExpressLaneAuction;
+  }
+
+  async submit(transactions: FlashbotsBundleTransaction[]): Promise<BundleOutcome> {
+    try {
+      const round = await this.currentRound();
+      if (await this.controlsRound(round)) {
+        return submitRawTransactions(this.provider, transactions, this.options, false, raw => this.sendExpressLane(round, raw));
+      }
+      await this.bidForRound(round + 1n);
+    } catch (error) {
+      console.error("Timeboost express lane unavailable, using the sequencer queue:", error);
+    }
+
+    return submitRawTransactions(this.provider, transactions, this.options, false, async raw => {
+      await this.sequencer.send("eth_sendRawTransaction", [raw]);
+    });
+  }
+
+  /**
+   * Submit a sealed bid for a round's express lane; at most one bid per round, and only while
+   * the auction for it is still open
+   */
+  async bidForRound(round: bigint): Promise<boolean> {
+    if (!this.auctioneer || this.options.bidAmount <= 0n || this.biddedRounds.has(round)) return false;
+
+    const timing = await this.roundTiming();
+    const closesAt = timing.offset + Number(round) * timing.duration - timing.closing;
+    if (Math.floor(Date.now() / 1000) >= closesAt) return false;
+
+    try {
+      const controller = await this.controller.getAddress();
+      const domain = {
+        name: "ExpressLaneAuction",
+        version: "1",
+        chainId: this.options.chainId,
+        verifyingContract: this.options.auctionContract
+      };
+      const value = { round, expressLaneController: controller, amount: this.options.bidAmount };
+      const signature = await this.controller.signTypedData(domain, TimeboostChannel.BID_TYPES, value);
+
+      await this.auctioneer.send("auctioneer_submitBid", [{
+        chainId: toBeHex(this.options.chainId),
+        expressLaneController: controller,
+        auctionContractAddress: this.options.auctionContract,
+        round: toBeHex(round),
+        amount: toBeHex(this.options.bidAmount),
+        signature
+      }]);
+      this.biddedRounds.add(round);
+      return true;
+    } catch (error) {
+      console.error(`Timeboost bid for round ${round} failed:`, error);
+      return false;
+    }
+  }
+
+  private async sendExpressLane(round: bigint, raw: string): Promise<void> {
+    // Sequence numbers restart every round and must arrive without gaps
+    if (this.sequenceRound !== round) {
+      this.sequenceRound = round;
+      this.sequenceNumber = 0n;
+    }
+    const sequenceNumber = this.sequenceNumber;
+
+    const message = concat([
+      TimeboostChannel.SUBMISSION_DOMAIN,
+      zeroPadValue(toBeHex(this.options.chainId), 32),
+      this.options.auctionContract,
+      zeroPadValue(toBeHex(round), 8),
+      zeroPadValue(toBeHex(sequenceNumber), 8),
+      raw
+    ]);
+    const signature = await this.controller.signMessage(getBytes(message));
+
+    await this.sequencer.send("timeboost_sendExpressLaneTransaction", [{
+      chainId: toBeHex(this.options.chainId),
+      round: toBeHex(round),
+      auctionContractAddress: this.options.auctionContract,
+      transaction: raw,
+      options: null,
+      sequenceNumber: toBeHex(sequenceNumber),
+      signature
+    }]);
+    this.sequenceNumber = sequenceNumber + 1n;
+  }
+
+  private async controlsRound(round: bigint): Promise<boolean> {
+    if (this.laneRound === round) return this.holdsLane;
+
+    const controller = (await this.controller.getAddress()).toLowerCase();
+    const resolved = await this.auction.resolvedRounds();
+    this.laneRound = round;
+    this.holdsLane = resolved.some(entry =>
+      BigInt(entry.round) === round && entry.expressLaneController.toLowerCase() === controller
+    );
+    return this.holdsLane;
+  }
+
+  private async currentRound(): Promise<bigint> {
+    const timing = await this.roundTiming();
+    const now = Math.floor(Date.now() / 1000);
+    return now < timing.offset ? 0n : BigInt(Math.floor((now - timing.offset) / timing.duration));
+  }
+
+  private async roundTiming(): Promise<{ offset: number; duration: number; closing: number }> {
+    if (!this.timing) {
+      const info = await this.auction.roundTimingInfo();
+      this.timing = {
+        offset: Number(info.offsetTimestamp),
+        duration: Number(info.roundDurationSeconds),
+        closing: Number(info.auctionClosingSeconds)
+      };
+    }
+    return this.timing;
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  AddressLike,
+  BaseContractMethod,
+  BigNumberish,
+  Contract,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+  Log,
+  LogDescription
+} from "ethers";
+import flashArbBotABI from "../abi/FlashArbBotBalancer.json";
+
+export enum FlashLoanProvider {
+  BALANCER = 0,
+  AAVE = 1
+}
+
+/**
+ * FlashArbBotBalancer.ArbitrageParams; amount is a uint96 and the bps fields are uint32
+ */
+export interface ArbitrageParamsStruct {
+  asset: AddressLike;
+  amount: BigNumberish;
+  tokenA: AddressLike;
+  tokenB: AddressLike;
+  sushiFirst: boolean;
+  slippageBps: BigNumberish;
+  minProfitBps: BigNumberish;
+}
+
+export enum DexType {
+  UNISWAP_V2 = 0,
+  UNISWAP_V3 = 1,
+  CURVE = 2, // int128 coin indices
+  CURVE_CRYPTO = 3, // uint256 coin indices
+  BALANCER = 4
+}
+
+/**
+ * FlashArbBotBalancer.RouteHop; target is the router for Uniswap-style hops and the pool for
+ * Curve and Balancer, fee is the uint24 V3 fee tier
+ */
+export interface RouteHopStruct {
+  dex: DexType;
+  target: AddressLike;
+  tokenIn: AddressLike;
+  tokenOut: AddressLike;
+  fee: BigNumberish;
+  minAmountOut: BigNumberish;
+}
+
+export interface BatchArbitrageParamsStruct {
+  trades: ArbitrageParamsStruct[];
+  deadline: BigNumberish;
+}
+
+type Send<A extends Array<any>> = BaseContractMethod<A, void, ContractTransactionResponse>;
+type View<A extends Array<any>, R> = BaseContractMethod<A, R, R>;
+
+/**
+ * Typed view of FlashArbBotBalancer for the methods the bot calls. The ABI behind it is
+ * abi/FlashArbBotBalancer.json, exported from the compiled artifact by `npm run abi:export`.
+ */
+export interface FlashArbBotBalancer {
+  getAddress(): Promise<string>;
+
+  executeArb: Send<[asset: AddressLike, amount: BigNumberish, path: AddressLike[], sushiFirst: boolean, expectedProfit: BigNumberish]>;
+  executeTriangularArb: Send<[asset: AddressLike, amount: BigNumberish, path: AddressLike[], expectedProfit: BigNumberish]>;
+  executeBatchArbitrage: Send<[params: BatchArbitrageParamsStruct]>;
+  executeRoute: Send<[asset: AddressLike, amount: BigNumberish, hops: RouteHopStruct[], expectedProfit: BigNumberish]>;
+
+  simulateArbitrage: View<[asset: AddressLike, amount: BigNumberish, path: AddressLike[], sushiFirst: boolean], bigint>;
+  simulateTriangularArbitrage: View<[asset: AddressLike, amount: BigNumberish, path: AddressLike[]], bigint>;
+  getOptimalProvider: View<[asset: AddressLike, amount: BigNumberish], [bigint, bigint] & { provider: bigint; fee: bigint }>;
+
+  owner: View<[], string>;
+  paused: View<[], boolean>;
+  authorizedCallers: View<[caller: AddressLike], boolean>;
+  pauseGuardians: View<[guardian: AddressLike], boolean>;
+  profitWallet: View<[], string>;
+  aavePool: View<[], string>;
+  routeTargets: View<[target: AddressLike], boolean>;
+  minProfitBps: View<[], bigint>;
+  slippageTolerance: View<[], bigint>;
+  priceFeeds: View<[token: AddressLike], string>;
+
+  setAuthorizedCaller: Send<[caller: AddressLike, authorized: boolean]>;
+  setPauseGuardian: Send<[guardian: AddressLike, enabled: boolean]>;
+  setAavePool: Send<[aavePool: AddressLike]>;
+  setRouteTarget: Send<[target: AddressLike, allowed: boolean]>;
+  setSlippageTolerance: Send<[slippage: BigNumberish]>;
+  setMinProfitBps: Send<[minProfit: BigNumberish]>;
+  setPriceFeed: Send<[token: AddressLike, feed: AddressLike]>;
+  setProfitWallet: Send<[profitWallet: AddressLike]>;
+  setGasFundingWallet: Send<[gasFundingWallet: AddressLike]>;
+  setGasFundingPercentage: Send<[percentage: BigNumberish]>;
+  pause: Send<[]>;
+  unpause: Send<[]>;
+  withdraw: Send<[token: AddressLike]>;
+  emergencyWithdraw: Send<[token: AddressLike]>;
+}
+
+export interface ArbitrageExecutedEvent {
+  name: 'ArbitrageExecuted';
+  asset: string;
+  amount: bigint;
+  profit: bigint;
+  sushiFirst: boolean;
+}
+
+export interface TriangularArbitrageExecutedEvent {
+  name: 'TriangularArbitrageExecuted';
+  tokenA: string;
+  tokenB: string;
+  tokenC: string;
+  amount: bigint;
+  profit: bigint;
+}
+
+export interface RouteArbitrageExecutedEvent {
+  name: 'RouteArbitrageExecuted';
+  asset: string;
+  amount: bigint;
+  profit: bigint;
+  hops: bigint;
+}
+
+export interface BatchArbitrageExecutedEvent {
+  name: 'BatchArbitrageExecuted';
+  tradesCount: bigint;
+  totalProfit: bigint;
+}
+
+export interface GasFundingTransferEvent {
+  name: 'GasFundingTransfer';
+  token: string;
+  amount: bigint;
+  gasFundingWallet: string;
+}
+
+export interface ProfitWithdrawnEvent {
+  name: 'ProfitWithdrawn';
+  token: string;
+  amount: bigint;
+}
+
+export interface EmergencyWithdrawnEvent {
+  name: 'EmergencyWithdrawn';
+  token: string;
+  amount: bigint;
+}
+
+export interface ProfitWalletUpdatedEvent {
+  name: 'ProfitWalletUpdated';
+  oldWallet: string;
+  newWallet: string;
+}
+
+export type FlashArbBotEvent =
+  | ArbitrageExecutedEvent
+  | TriangularArbitrageExecutedEvent
+  | RouteArbitrageExecutedEvent
+  | BatchArbitrageExecutedEvent
+  | GasFundingTransferEvent
+  | ProfitWithdrawnEvent
+  | EmergencyWithdrawnEvent
+  | ProfitWalletUpdatedEvent;
+
+/**
+ * Entry points for the bindings, in the shape of a typechain factory
+ */
+export class FlashArbBotFactory {
+  static readonly abi = flashArbBotABI;
+
+  private static readonly iface: Interface = new Interface(flashArbBotABI);
+
+  static createInterface(): Interface {
+    return FlashArbBotFactory.iface;
+  }
+
+  static connect(address: string, runner: ContractRunner | null): FlashArbBotBalancer {
+    return new Contract(address, flashArbBotABI, runner) as FlashArbBotBalancer;
+  }
+
+  /**
+   * Decode the bot's execution and profit wallet events from receipt logs; logs of other contracts or events are skipped
+   */
+  static parseLogs(logs: readonly Log[], botAddress: string): FlashArbBotEvent[] {
+    const events: FlashArbBotEvent[] = [];
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== botAddress.toLowerCase()) continue;
+
+      let parsed: LogDescription | null;
+      try {
+        parsed = FlashArbBotFactory.iface.parseLog({ topics: [...log.topics], data: log.data });
+      } catch (error) {
+        continue;
+      }
+      if (!parsed) continue;
+
+      const args = parsed.args;
+      switch (parsed.name) {
+        case 'ArbitrageExecuted':
+          events.push({ name: parsed.name, asset: args.asset, amount: args.amount, profit: args.profit, sushiFirst: args.sushiFirst });
+          break;
+        case 'TriangularArbitrageExecuted':
+          events.push({ name: parsed.name, tokenA: args.tokenA, tokenB: args.tokenB, tokenC: args.tokenC, amount: args.amount, profit: args.profit });
+          break;
+        case 'RouteArbitrageExecuted':
+          events.push({ name: parsed.name, asset: args.asset, amount: args.amount, profit: args.profit, hops: args.hops });
+          break;
+        case 'BatchArbitrageExecuted':
+          events.push({ name: parsed.name, tradesCount: args.tradesCount, totalProfit: args.totalProfit });
+          break;
+        case 'GasFundingTransfer':
+          events.push({ name: parsed.name, token: args.token, amount: args.amount, gasFundingWallet: args.gasFundingWallet });
+          break;
+        case 'ProfitWithdrawn':
+        case 'EmergencyWithdrawn':
+          events.push({ name: parsed.name, token: args.token, amount: args.amount });
+          break;
+        case 'ProfitWalletUpdated':
+          events.push({ name: parsed.name, oldWallet: args.oldWallet, newWallet: args.newWallet });
+          break;
+      }
+    }
+    return events;
+  }
+}
@@ -0,0 +1,112 @@
+import { BigNumberish, ZeroAddress, getAddress, isAddress } from "ethers";
+import { FlashArbBotFactory, RouteHopStruct } from "./flash-arb-bot";
+import { RouteEncoder } from "./route-encoder";
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/**
+ * An opportunity as the pathfinder reports it. Routes are closed: a two-venue round trip
+ * [A, B, A] or a triangle [A, B, C, A], starting and ending at the flash-loaned asset.
+ */
+export interface ArbitrageCallInput {
+  asset: string;
+  amountIn: BigNumberish; // Asset units
+  path: string[];
+  minProfit: BigNumberish; // Asset units; the contract reverts below 95% of it
+  sushiFirst: boolean;
+  route?: RouteHopStruct[]; // Encoded hops from RouteEncoder; the route is executed hop for hop when given
+}
+
+export type ArbitrageCall =
+  | { method: 'executeArb'; args: [asset: string, amount: bigint, path: string[], sushiFirst: boolean, expectedProfit: bigint] }
+  | { method: 'executeTriangularArb'; args: [asset: string, amount: bigint, path: string[], expectedProfit: bigint] }
+  | { method: 'executeRoute'; args: [asset: string, amount: bigint, hops: RouteHopStruct[], expectedProfit: bigint] };
+
+/**
+ * Turns pathfinder output into FlashArbBotBalancer call arguments, checking up front everything
+ * the contract would revert on so a malformed opportunity never reaches a signed transaction
+ */
+export class FlashArbCalldataBuilder {
+
+  static build(input: ArbitrageCallInput): ArbitrageCall {
+    const asset = FlashArbCalldataBuilder.address(input.asset, 'asset');
+    const amount = FlashArbCalldataBuilder.uint(input.amountIn, 'amountIn');
+    const expectedProfit = FlashArbCalldataBuilder.uint(input.minProfit, 'minProfit');
+
+    const path = input.path.map((token, i) => FlashArbCalldataBuilder.address(token, `path[${i}]`));
+    if (path.length < 2) {
+      throw new Error(`FlashArbCalldata: route of ${path.length} tokens`);
+    }
+    if (path[0] !== asset) {
+      throw new Error(`FlashArbCalldata: route starts at ${path[0]}, not the flash-loaned asset ${asset}`);
+    }
+    for (let i = 1; i < path.length; i++) {
+      if (path[i] === path[i - 1]) throw new Error(`FlashArbCalldata: repeated token at path[${i}]`);
+    }
+
+    // Open routes are accepted and closed back to the asset
+    const closed = path[path.length - 1] === asset ? path : [...path, asset];
+    const hops = closed.length - 1;
+
+    if (input.route) {
+      return { method: 'executeRoute', args: [asset, amount, FlashArbCalldataBuilder.route(input.route, closed), expectedProfit] };
+    }
+    if (hops === 2) {
+      // executeArb takes the outbound leg only and swaps back along its reverse
+      return { method: 'executeArb', args: [asset, amount, closed.slice(0, 2), input.sushiFirst, expectedProfit] };
+    }
+    if (hops === 3) {
+      if (new Set(closed.slice(0, 3)).size !== 3) {
+        throw new Error("FlashArbCalldata: triangular route must visit three distinct tokens");
+      }
+      return { method: 'executeTriangularArb', args: [asset, amount, closed, expectedProfit] };
+    }
+    throw new Error(`FlashArbCalldata: without an encoded route the contract executes 2- and 3-hop paths, got ${hops} hops`);
+  }
+
+  static encode(call: ArbitrageCall): string {
+    return FlashArbBotFactory.createInterface().encodeFunctionData(call.method, call.args);
+  }
+
+  private static route(route: RouteHopStruct[], closed: string[]): RouteHopStruct[] {
+    if (route.length > RouteEncoder.MAX_HOPS) {
+      throw new Error(`FlashArbCalldata: routes are limited to ${RouteEncoder.MAX_HOPS} hops, got ${route.length}`);
+    }
+    if (route.length !== closed.length - 1) {
+      throw new Error(`FlashArbCalldata: route has ${route.length} hops for a ${closed.length - 1}-hop path`);
+    }
+    return route.map((hop, i) => {
+      const tokenIn = FlashArbCalldataBuilder.address(String(hop.tokenIn), `route[${i}].tokenIn`);
+      const tokenOut = FlashArbCalldataBuilder.address(String(hop.tokenOut), `route[${i}].tokenOut`);
+      // The hops must trade the path that was priced, in order
+      if (tokenIn !== closed[i] || tokenOut !== closed[i + 1]) {
+        throw new Error(`FlashArbCalldata: route[${i}] trades ${tokenIn} -> ${tokenOut}, path has ${closed[i]} -> ${closed[i + 1]}`);
+      }
+      return { ...hop, target: FlashArbCalldataBuilder.address(String(hop.target), `route[${i}].target`), tokenIn, tokenOut };
+    });
+  }
+
+  private static address(value: string, field: string): string {
+    // Lowercase first: checksums are not validated, only shape
+    if (typeof value !== 'string' || !isAddress(value.toLowerCase())) {
+      throw new Error(`FlashArbCalldata: ${field} is not an address: ${value}`);
+    }
+    const address = getAddress(value.toLowerCase());
+    if (address === ZeroAddress) throw new Error(`FlashArbCalldata: ${field} is the zero address`);
+    return address;
+  }
+
+  private static uint(value: BigNumberish, field: string): bigint {
+    let amount: bigint;
+    try {
+      amount = BigInt(value);
+    } catch (error) {
+      throw new Error(`FlashArbCalldata: ${field} is not an integer: ${value}`);
+    }
+    // Zero is rejected on-chain for both the amount and the expected profit
+    if (amount <= 0n || amount > MAX_UINT256) {
+      throw new Error(`FlashArbCalldata: ${field} out of range: ${amount}`);
+    }
+    return amount;
+  }
+}
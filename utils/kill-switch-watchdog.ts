@@ -0,0 +1,325 @@
+import { EventEmitter } from "events";
+import { Contract, Log, Provider, Signer, formatEther, parseEther } from "ethers";
+import { Alert } from "../monitoring/production-monitor";
+import { BotHeartbeat } from "./bot-heartbeat";
+import { FlashArbBotFactory } from "./flash-arb-bot";
+
+export type WatchdogTrigger = 'outflow' | 'profit-wallet' | 'reverts' | 'heartbeat';
+
+export interface WatchdogAnomaly {
+  trigger: WatchdogTrigger;
+  reason: string;
+  blockNumber: number;
+}
+
+export interface KillSwitchWatchdogOptions {
+  tokens?: string[]; // ERC20s the bot contract holds; its native balance is always watched
+  expectedProfitWallet?: string; // A change to this wallet is the operator's own and does not pause
+  maxExecutorOutflowWei?: bigint; // Executor ETH that may leave within the window, i.e. gas for normal trading
+  maxReverts?: number; // Reverted executions within the window before pausing
+  windowMs?: number;
+  heartbeatPath?: string | null; // null when no bot heartbeat is expected
+  maxHeartbeatAgeMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface WatchdogPause {
+  txHash: string;
+  anomalies: WatchdogAnomaly[];
+}
+
+/**
+ * Where the watchdog's alerts go; AlertNotifier in the watchdog process
+ */
+export interface WatchdogAlertSink {
+  sendAlert(alert: Alert): Promise<void>;
+}
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+const NATIVE = "native";
+
+/**
+ * Kill switch for one chain's bot contract, run apart from the bot so that it still acts when the
+ * bot or its key is the problem. Each poll reads the contract's events since the last one, its
+ * balances and the executor wallet's, and pauses the contract from the guardian key on:
+ *   - contract balances falling by more than its ProfitWithdrawn, EmergencyWithdrawn and GasFundingTransfer events account for
+ *   - the executor wallet spending more than a gas budget within the window
+ *   - a ProfitWalletUpdated event to any wallet but the expected one
+ *   - repeated reverts: executor transactions to the bot contract whose receipts failed
+ *   - the bot's heartbeat going stale without a clean shutdown
+ * The guardian can pause but not unpause; resuming is the owner's call once the cause is understood.
+ */
+export class KillSwitchWatchdog extends EventEmitter {
+
+  private static readonly DEFAULT_MAX_EXECUTOR_OUTFLOW = parseEther("0.05");
+  private static readonly DEFAULT_MAX_REVERTS = 3;
+  private static readonly DEFAULT_WINDOW_MS = 10 * 60 * 1000;
+  private static readonly DEFAULT_MAX_HEARTBEAT_AGE_MS = 2 * 60 * 1000;
+  private static readonly DEFAULT_POLL_INTERVAL_MS = 15 * 1000;
+
+  readonly chainId: number;
+  private provider: Provider;
+  private guardian: Signer;
+  private botAddress: string;
+  private executorAddress: string;
+  private alerts: WatchdogAlertSink;
+  private tokens: string[];
+  private expectedProfitWallet?: string;
+  private maxExecutorOutflow: bigint;
+  private maxReverts: number;
+  private windowMs: number;
+  private heartbeatPath: string | null;
+  private maxHeartbeatAgeMs: number;
+  private pollIntervalMs: number;
+
+  // Baseline from the last poll; null until the first one and again after a pause
+  private lastBlock: number | null = null;
+  private botBalances = new Map<string, bigint>();
+  private executorBalance = 0n;
+  private executorNonce = 0;
+  private executorOutflows: Array<{ at: number; amount: bigint }> = [];
+  private reverts: number[] = [];
+  private paused = false;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    chainId: number,
+    provider: Provider,
+    guardian: Signer,
+    botAddress: string,
+    executorAddress: string,
+    alerts: WatchdogAlertSink,
+    options: KillSwitchWatchdogOptions = {}
+  ) {
+    super();
+    this.chainId = chainId;
+    this.provider = provider;
+    this.guardian = guardian;
+    this.botAddress = botAddress;
+    this.executorAddress = executorAddress;
+    this.alerts = alerts;
+    this.tokens = (options.tokens ?? []).map(token => token.toLowerCase());
+    this.expectedProfitWallet = options.expectedProfitWallet?.toLowerCase();
+    this.maxExecutorOutflow = options.maxExecutorOutflowWei ?? KillSwitchWatchdog.DEFAULT_MAX_EXECUTOR_OUTFLOW;
+    this.maxReverts = options.maxReverts ?? KillSwitchWatchdog.DEFAULT_MAX_REVERTS;
+    this.windowMs = options.windowMs ?? KillSwitchWatchdog.DEFAULT_WINDOW_MS;
+    this.heartbeatPath = options.heartbeatPath === undefined ? BotHeartbeat.DEFAULT_PATH : options.heartbeatPath;
+    this.maxHeartbeatAgeMs = options.maxHeartbeatAgeMs ?? KillSwitchWatchdog.DEFAULT_MAX_HEARTBEAT_AGE_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? KillSwitchWatchdog.DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * One poll: look for anomalies since the last one and pause the contract if there are any.
+   * Nothing is checked while the contract is paused; the first poll after an unpause starts a new baseline.
+   */
+  async check(now: number = Date.now()): Promise<WatchdogAnomaly[]> {
+    const bot = FlashArbBotFactory.connect(this.botAddress, this.provider);
+    if (await bot.paused()) {
+      this.paused = true;
+      this.lastBlock = null;
+      return [];
+    }
+    if (this.paused) {
+      this.paused = false;
+      this.executorOutflows = [];
+      this.reverts = [];
+      console.log(`▶️ Bot contract on chain ${this.chainId} was unpaused; watching from a fresh baseline`);
+    }
+
+    const blockNumber = await this.provider.getBlockNumber();
+    const [botBalances, executorBalance, executorNonce] = await Promise.all([
+      this.readBotBalances(blockNumber),
+      this.provider.getBalance(this.executorAddress, blockNumber),
+      this.provider.getTransactionCount(this.executorAddress, blockNumber)
+    ]);
+
+    const anomalies: WatchdogAnomaly[] = [];
+    const stale = this.checkHeartbeat(now);
+    if (stale) anomalies.push({ trigger: 'heartbeat', reason: stale, blockNumber });
+
+    if (this.lastBlock !== null && blockNumber > this.lastBlock) {
+      const logs = await this.provider.getLogs({ address: this.botAddress, fromBlock: this.lastBlock + 1, toBlock: blockNumber });
+      const { explained, walletChanges } = this.readEvents(logs);
+
+      for (const change of walletChanges.filter(change => change.newWallet.toLowerCase() !== this.expectedProfitWallet)) {
+        anomalies.push({ trigger: 'profit-wallet', reason: `Profit wallet changed from ${change.oldWallet} to ${change.newWallet}`, blockNumber });
+      }
+
+      for (const [asset, balance] of botBalances) {
+        const unexplained = (this.botBalances.get(asset) ?? balance) - balance - (explained.get(asset) ?? 0n);
+        if (unexplained > 0n) {
+          anomalies.push({
+            trigger: 'outflow',
+            reason: `Bot contract lost ${unexplained} base units of ${asset === NATIVE ? 'ETH' : asset} beyond recorded withdrawals`,
+            blockNumber
+          });
+        }
+      }
+
+      const spent = this.executorBalance - executorBalance;
+      if (spent > 0n) this.executorOutflows.push({ at: now, amount: spent });
+      this.executorOutflows = this.executorOutflows.filter(outflow => now - outflow.at <= this.windowMs);
+      const outflow = this.executorOutflows.reduce((sum, entry) => sum + entry.amount, 0n);
+      if (outflow > this.maxExecutorOutflow) {
+        anomalies.push({
+          trigger: 'outflow',
+          reason: `Executor wallet spent ${formatEther(outflow)} ETH within ${this.windowMs / 60000} min, above ${formatEther(this.maxExecutorOutflow)} ETH`,
+          blockNumber
+        });
+      }
+
+      // The nonce says whether the executor sent anything; only then are the blocks searched for its transactions
+      const sent = executorNonce - this.executorNonce;
+      const reverted = sent > 0 ? await this.countReverts(this.lastBlock + 1, blockNumber, sent) : 0;
+      for (let i = 0; i < reverted; i++) this.reverts.push(now);
+      this.reverts = this.reverts.filter(at => now - at <= this.windowMs);
+      if (this.reverts.length >= this.maxReverts) {
+        anomalies.push({
+          trigger: 'reverts',
+          reason: `${this.reverts.length} executor transactions reverted within ${this.windowMs / 60000} min`,
+          blockNumber
+        });
+      }
+    }
+
+    if (this.lastBlock === null || blockNumber > this.lastBlock) {
+      this.lastBlock = blockNumber;
+      this.botBalances = botBalances;
+      this.executorBalance = executorBalance;
+      this.executorNonce = executorNonce;
+    }
+
+    if (anomalies.length > 0) {
+      await this.pause(anomalies);
+    }
+    return anomalies;
+  }
+
+  watch(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(async () => {
+      // A slow RPC must not stack polls on top of each other
+      if (this.polling) return;
+      this.polling = true;
+      try {
+        await this.check();
+      } catch (error) {
+        console.error(`❌ Watchdog poll on chain ${this.chainId} failed:`, error);
+      } finally {
+        this.polling = false;
+      }
+    }, this.pollIntervalMs);
+  }
+
+  unwatch(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Submit pause() from the guardian key. A failed pause is alerted and retried on the next poll,
+   * since the anomaly is still there.
+   */
+  private async pause(anomalies: WatchdogAnomaly[]): Promise<void> {
+    const reasons = anomalies.map(anomaly => `${anomaly.trigger}: ${anomaly.reason}`).join('\n');
+    for (const anomaly of anomalies) {
+      this.emit('anomaly', anomaly);
+    }
+    await this.alerts.sendAlert({
+      title: `Kill switch: pausing bot contract on chain ${this.chainId}`,
+      message: reasons,
+      urgency: 'CRITICAL'
+    });
+
+    try {
+      const tx = await FlashArbBotFactory.connect(this.botAddress, this.guardian).pause();
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        throw new Error(`pause() transaction ${tx.hash} reverted`);
+      }
+
+      this.paused = true;
+      this.lastBlock = null;
+      this.emit('paused', { txHash: tx.hash, anomalies } as WatchdogPause);
+      await this.alerts.sendAlert({
+        title: `Bot contract paused on chain ${this.chainId}`,
+        message: `pause() confirmed in ${tx.hash}; the owner has to unpause once the cause is resolved`,
+        urgency: 'CRITICAL'
+      });
+    } catch (error) {
+      console.error(`❌ Kill switch failed to pause the bot contract on chain ${this.chainId}:`, error);
+      await this.alerts.sendAlert({
+        title: `Kill switch FAILED to pause bot contract on chain ${this.chainId}`,
+        message: `${error instanceof Error ? error.message : error}\nPause it by hand. Anomalies:\n${reasons}`,
+        urgency: 'CRITICAL'
+      });
+    }
+  }
+
+  private async readBotBalances(blockNumber: number): Promise<Map<string, bigint>> {
+    const [native, ...tokens] = await Promise.all([
+      this.provider.getBalance(this.botAddress, blockNumber),
+      ...this.tokens.map(token => new Contract(token, ERC20_BALANCE_ABI, this.provider).balanceOf(this.botAddress, { blockTag: blockNumber }))
+    ]);
+    const balances = new Map<string, bigint>([[NATIVE, BigInt(native)]]);
+    this.tokens.forEach((token, index) => balances.set(token, BigInt(tokens[index])));
+    return balances;
+  }
+
+  // Outflows the contract reported per asset, and profit wallet changes
+  private readEvents(logs: readonly Log[]): {
+    explained: Map<string, bigint>;
+    walletChanges: Array<{ oldWallet: string; newWallet: string }>;
+  } {
+    const explained = new Map<string, bigint>();
+    const walletChanges: Array<{ oldWallet: string; newWallet: string }> = [];
+
+    for (const event of FlashArbBotFactory.parseLogs(logs, this.botAddress)) {
+      // Balances the owner or the contract moved to the profit and gas funding wallets
+      if (event.name === 'ProfitWithdrawn' || event.name === 'EmergencyWithdrawn' || event.name === 'GasFundingTransfer') {
+        const token = event.token.toLowerCase();
+        explained.set(token, (explained.get(token) ?? 0n) + event.amount);
+      } else if (event.name === 'ProfitWalletUpdated') {
+        walletChanges.push({ oldWallet: event.oldWallet, newWallet: event.newWallet });
+      }
+    }
+    return { explained, walletChanges };
+  }
+
+  /**
+   * Failed receipts among the executor's transactions to the bot contract in a block range. Transfers and
+   * calls elsewhere use nonces too but are not executions; the search stops once all `sent` are found.
+   */
+  private async countReverts(fromBlock: number, toBlock: number, sent: number): Promise<number> {
+    const executor = this.executorAddress.toLowerCase();
+    const bot = this.botAddress.toLowerCase();
+    let found = 0;
+    let reverted = 0;
+
+    for (let number = fromBlock; number <= toBlock && found < sent; number++) {
+      const block = await this.provider.getBlock(number, true);
+      if (!block) continue;
+      for (const tx of block.prefetchedTransactions) {
+        if (tx.from.toLowerCase() !== executor) continue;
+        found++;
+        if (tx.to?.toLowerCase() !== bot) continue;
+        const receipt = await this.provider.getTransactionReceipt(tx.hash);
+        if (receipt && receipt.status === 0) reverted++;
+      }
+    }
+    return reverted;
+  }
+
+  private checkHeartbeat(now: number): string | null {
+    if (!this.heartbeatPath) return null;
+    const heartbeat = BotHeartbeat.read(this.heartbeatPath);
+    if (!heartbeat || heartbeat.stopped) return null;
+
+    const age = now - heartbeat.timestamp;
+    if (age <= this.maxHeartbeatAgeMs) return null;
+    return `Bot heartbeat (pid ${heartbeat.pid}) is ${Math.round(age / 1000)}s old, limit ${Math.round(this.maxHeartbeatAgeMs / 1000)}s`;
+  }
+}
@@ -1,6 +1,8 @@
-import { JsonRpcProvider, Contract, formatEther, parseEther, formatUnits, parseUnits, getAddress } from "ethers";
+import { JsonRpcProvider, formatEther, parseEther, formatUnits, parseUnits, getAddress } from "ethers";
 import axios from "axios";
 import chalk from "chalk";
+import { MulticallBatcher } from "./multicall";
+import { TokenRegistry } from "./token-registry";
 
 // Add interface for better error handling
 interface DEXPriceResult {
@@ -66,6 +68,9 @@ export class MainnetDataFetcher {
   private _optProvider: JsonRpcProvider;
   private priceCache = new Map<string, { price: bigint; timestamp: number }>();
   private liquidityCache = new Map<string, { depth: bigint; timestamp: number }>();
+  private tokenPriceCache = new Map<number, { prices: Map<string, bigint>; timestamp: number }>();
+  private multicall: MulticallBatcher;
+  private tokenRegistry: TokenRegistry;
   
   // Router contract ABIs
   private readonly ROUTER_ABI = [
@@ -85,9 +90,36 @@ export class MainnetDataFetcher {
     "function symbol() view returns (string)"
   ];
 
-  constructor() {
+  private readonly CHAINLINK_ABI = [
+    "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+    "function decimals() view returns (uint8)"
+  ];
+
+  // Chainlink USD feeds for the tokens priced in MainnetMarketData.tokenPrices
+  private readonly USD_FEEDS: { [chainId: number]: { [symbol: string]: { feed: string; decimals: number } } } = {
+    42161: {
+      WETH: { feed: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612', decimals: 18 },
+      USDC: { feed: '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3', decimals: 6 },
+      USDT: { feed: '0x3f3f5dF88dC9F13eac63DF89EC16ef6e7E25DdE7', decimals: 6 },
+      DAI: { feed: '0xc5C8E77B397E531B8EC06BFb0048328B30E9eCfB', decimals: 18 }
+    },
+    10: {
+      WETH: { feed: '0x13e3Ee699D1909E989722E753853AE30b17e08c5', decimals: 18 },
+      USDC: { feed: '0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3', decimals: 6 },
+      USDT: { feed: '0xECef79E109e997bCA29c1c0897ec9d7b03647F5E', decimals: 6 },
+      DAI: { feed: '0x8dBa75e83DA73cc766A7e5a0ee71F656BAb470d6', decimals: 18 }
+    }
+  };
+
+  constructor(multicall?: MulticallBatcher, tokenRegistry?: TokenRegistry) {
     this._arbProvider = new JsonRpcProvider(process.env.ARB_RPC!);
     this._optProvider = new JsonRpcProvider(process.env.OPT_RPC!);
+    // Pass the bot's batcher in to share its Multicall3 round trips with the other scanners
+    this.multicall = multicall || new MulticallBatcher(new Map([
+      [42161, this._arbProvider],
+      [10, this._optProvider]
+    ]));
+    this.tokenRegistry = tokenRegistry || new TokenRegistry(this.multicall);
   }
 
   // Helper function to validate and checksum addresses
@@ -103,6 +135,7 @@ export class MainnetDataFetcher {
   // Getter methods for provider access
   public get arbProvider() { return this._arbProvider; }
   public get optProvider() { return this._optProvider; }
+  public get batcher() { return this.multicall; }
   
   async fetchCurrentMarketData(chainId: number): Promise<MainnetMarketData> {
     const provider = chainId === 42161 ? this._arbProvider : this._optProvider;
@@ -118,17 +151,13 @@ export class MainnetDataFetcher {
         provider.getBlock('latest')
       ]);
       
-      // Fetch real token prices from CoinGecko with rate limiting
-      const tokenPrices = await this.fetchRealTokenPrices();
-      
-      // Get liquidity depths from DEXes
-      const liquidityDepths = await this.fetchLiquidityDepths(chainId);
-      
-      // Get current DEX prices
-      const dexPrices = await this.fetchDEXPrices(chainId);
-      
-      // Calculate network load indicator
-      const networkLoad = await this.calculateNetworkLoad(provider, block);
+      // Token prices, liquidity and DEX prices are read together so their calls share Multicall3 batches
+      const [tokenPrices, liquidityDepths, dexPrices, networkLoad] = await Promise.all([
+        this.fetchRealTokenPrices(chainId),
+        this.fetchLiquidityDepths(chainId),
+        this.fetchDEXPrices(chainId),
+        this.calculateNetworkLoad(provider, block)
+      ]);
       
       return {
         chainId,
@@ -157,21 +186,22 @@ export class MainnetDataFetcher {
       const opportunities: RealArbitrageOpportunity[] = [];
       
       // Define major trading pairs based on chain
-      const tradingPairs = this.getTradingPairsForChain(chainId);
+      const tradingPairs = await this.resolveTradingPairs(chainId);
       
-      // Analyze each trading pair
-      for (const pair of tradingPairs) {
+      // Analyze every trading pair at once; their quotes are batched into shared Multicall3 calls
+      const analyses = await Promise.all(tradingPairs.map(async pair => {
         try {
-          const opportunity = await this.analyzeTradingPair(pair, marketData);
-          if (opportunity && opportunity.netProfit > 0n && opportunity.spreadPercentage > 0.05) {
-            opportunities.push(opportunity);
-          }
+          return await this.analyzeTradingPair(pair, marketData);
         } catch (error) {
           console.error(chalk.gray(`   Error analyzing ${pair.symbolA}/${pair.symbolB}:`), error);
+          return null;
+        }
+      }));
+      
+      for (const opportunity of analyses) {
+        if (opportunity && opportunity.netProfit > 0n && opportunity.spreadPercentage > 0.05) {
+          opportunities.push(opportunity);
         }
-        
-        // Rate limiting between pairs
-        await this.sleep(100);
       }
       
       // Sort by profit margin (highest first)
@@ -194,6 +224,26 @@ export class MainnetDataFetcher {
     }
   }
   
+  /**
+   * Trading pairs with decimals resolved through the token registry; pairs whose tokens are not
+   * configured or cannot be read are skipped
+   */
+  private async resolveTradingPairs(chainId: number) {
+    const pairs = await Promise.all(this.getTradingPairsForChain(chainId).map(async pair => {
+      if (!pair.tokenA || !pair.tokenB) return null;
+      const [tokenA, tokenB] = await Promise.all([
+        this.tokenRegistry.resolve(chainId, pair.tokenA),
+        this.tokenRegistry.resolve(chainId, pair.tokenB)
+      ]);
+      if (!tokenA || !tokenB) {
+        console.warn(chalk.yellow(`⚠️ Skipping ${pair.symbolA}/${pair.symbolB}: token metadata unavailable`));
+        return null;
+      }
+      return { ...pair, decimalsA: tokenA.decimals, decimalsB: tokenB.decimals };
+    }));
+    return pairs.filter((pair): pair is NonNullable<typeof pair> => pair !== null);
+  }
+  
   private getTradingPairsForChain(chainId: number) {
     if (chainId === 42161) { // Arbitrum
       return [
@@ -201,25 +251,19 @@ export class MainnetDataFetcher {
           tokenA: process.env.ARB_WETH!,
           tokenB: process.env.ARB_USDC!,
           symbolA: 'WETH',
-          symbolB: 'USDC',
-          decimalsA: 18,
-          decimalsB: 6
+          symbolB: 'USDC'
         },
         {
           tokenA: process.env.ARB_WETH!,
           tokenB: process.env.ARB_USDT!,
           symbolA: 'WETH',
-          symbolB: 'USDT',
-          decimalsA: 18,
-          decimalsB: 6
+          symbolB: 'USDT'
         },
         {
           tokenA: process.env.ARB_USDC!,
           tokenB: process.env.ARB_USDT!,
           symbolA: 'USDC',
-          symbolB: 'USDT',
-          decimalsA: 6,
-          decimalsB: 6
+          symbolB: 'USDT'
         }
       ];
     } else { // Optimism
@@ -228,25 +272,19 @@ export class MainnetDataFetcher {
           tokenA: process.env.OPT_WETH!,
           tokenB: process.env.OPT_USDC!,
           symbolA: 'WETH',
-          symbolB: 'USDC',
-          decimalsA: 18,
-          decimalsB: 6
+          symbolB: 'USDC'
         },
         {
           tokenA: process.env.OPT_WETH!,
           tokenB: process.env.OPT_USDT!,
           symbolA: 'WETH',
-          symbolB: 'USDT',
-          decimalsA: 18,
-          decimalsB: 6
+          symbolB: 'USDT'
         },
         {
           tokenA: process.env.OPT_USDC!,
           tokenB: process.env.OPT_USDT!,
           symbolA: 'USDC',
-          symbolB: 'USDT',
-          decimalsA: 6,
-          decimalsB: 6
+          symbolB: 'USDT'
         }
       ];
     }
@@ -367,13 +405,19 @@ export class MainnetDataFetcher {
     }
   }
   
-  private async fetchRealTokenPrices(): Promise<Map<string, bigint>> {
-    const cacheKey = 'token_prices';
-    const cached = this.priceCache.get(cacheKey);
+  private async fetchRealTokenPrices(chainId: number): Promise<Map<string, bigint>> {
+    const cached = this.tokenPriceCache.get(chainId);
     
     // Use cache if less than 60 seconds old
     if (cached && (Date.now() - cached.timestamp) < 60000) {
-      return new Map([['cached', cached.price]]);
+      return cached.prices;
+    }
+    
+    // Prefer on-chain Chainlink answers; they ride in the same Multicall3 batch as the DEX quotes
+    const onChainPrices = await this.fetchChainlinkUsdPrices(chainId);
+    if (onChainPrices.size === Object.keys(this.USD_FEEDS[chainId] || {}).length && onChainPrices.size > 0) {
+      this.tokenPriceCache.set(chainId, { prices: onChainPrices, timestamp: Date.now() });
+      return onChainPrices;
     }
     
     try {
@@ -400,7 +444,7 @@ export class MainnetDataFetcher {
       }
       
       // Cache the results
-      this.priceCache.set(cacheKey, { price: parseEther("1"), timestamp: Date.now() });
+      this.tokenPriceCache.set(chainId, { prices, timestamp: Date.now() });
       
       return prices;
     } catch (error) {
@@ -415,13 +459,33 @@ export class MainnetDataFetcher {
     }
   }
   
+  private async fetchChainlinkUsdPrices(chainId: number): Promise<Map<string, bigint>> {
+    const prices = new Map<string, bigint>();
+    const feeds = Object.entries(this.USD_FEEDS[chainId] || {});
+    
+    await Promise.all(feeds.map(async ([symbol, { feed, decimals }]) => {
+      const [roundData, feedDecimals] = await Promise.all([
+        this.multicall.tryCall(chainId, feed, this.CHAINLINK_ABI, 'latestRoundData'),
+        this.multicall.tryCall(chainId, feed, this.CHAINLINK_ABI, 'decimals')
+      ]);
+      if (!roundData || !feedDecimals) return;
+      
+      const answer = BigInt(roundData[1]);
+      if (answer <= 0n) return;
+      
+      // Scale the feed answer to the token's own decimals, matching the CoinGecko path
+      const shift = decimals - Number(feedDecimals[0]);
+      prices.set(symbol, shift >= 0 ? answer * 10n ** BigInt(shift) : answer / 10n ** BigInt(-shift));
+    }));
+    
+    return prices;
+  }
+  
   private async getUniswapV2Price(tokenA: string, tokenB: string, chainId: number, decimalsA: number): Promise<bigint | null> {
     try {
-      const provider = chainId === 42161 ? this._arbProvider : this._optProvider;
       const quoterAddress = chainId === 42161 ? process.env.ARB_UNI_V3_QUOTER! : process.env.OPT_UNI_V3_QUOTER!;
       
       // Use Uniswap V3 Quoter for price quotes since V3 Router doesn't have getAmountsOut
-      const quoter = new Contract(quoterAddress, this.QUOTER_ABI, provider);
       const amountIn = parseUnits("1", decimalsA);
       
       // Fix: Validate and checksum addresses
@@ -433,18 +497,18 @@ export class MainnetDataFetcher {
       const sqrtPriceLimitX96 = 0; // No price limit
       
       // Add timeout protection
-      const amountOut = await Promise.race([
-        quoter.quoteExactInputSingle(
+      const [amountOut] = await Promise.race([
+        this.multicall.call(chainId, quoterAddress, this.QUOTER_ABI, 'quoteExactInputSingle', [
           tokenInAddress,
           tokenOutAddress,
           fee,
           amountIn,
           sqrtPriceLimitX96
-        ),
+        ]),
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error('Uniswap call timeout')), 5000)
         )
-      ]) as bigint;
+      ]) as bigint[];
       
       return amountOut;
       
@@ -459,27 +523,25 @@ export class MainnetDataFetcher {
       
       // Try 0.05% fee tier as fallback
       try {
-        const provider = chainId === 42161 ? this._arbProvider : this._optProvider;
         const quoterAddress = chainId === 42161 ? process.env.ARB_UNI_V3_QUOTER! : process.env.OPT_UNI_V3_QUOTER!;
-        const quoter = new Contract(quoterAddress, this.QUOTER_ABI, provider);
         const amountIn = parseUnits("1", decimalsA);
         
         const tokenInAddress = this.validateAndChecksumAddress(tokenA);
         const tokenOutAddress = this.validateAndChecksumAddress(tokenB);
         const fee = 500; // 0.05% fee tier
         
-        const amountOut = await Promise.race([
-          quoter.quoteExactInputSingle(
+        const [amountOut] = await Promise.race([
+          this.multicall.call(chainId, quoterAddress, this.QUOTER_ABI, 'quoteExactInputSingle', [
             tokenInAddress,
             tokenOutAddress,
             fee,
             amountIn,
             0
-          ),
+          ]),
           new Promise((_, reject) => 
             setTimeout(() => reject(new Error('Uniswap fallback timeout')), 3000)
           )
-        ]) as bigint;
+        ]) as bigint[];
         
         return amountOut;
       } catch (fallbackError: any) {
@@ -495,7 +557,6 @@ export class MainnetDataFetcher {
   
   private async getSushiswapPrice(tokenA: string, tokenB: string, chainId: number, decimalsA: number): Promise<bigint | null> {
     try {
-      const provider = chainId === 42161 ? this._arbProvider : this._optProvider;
       const routerAddress = chainId === 42161 ? process.env.ARB_SUSHI_ROUTER! : process.env.OPT_SUSHI_ROUTER!;
       
       // First, check if the pair exists on SushiSwap
@@ -509,7 +570,6 @@ export class MainnetDataFetcher {
         "function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)"
       ];
       
-      const router = new Contract(routerAddress, routerABI, provider);
       const amountIn = parseUnits("1", decimalsA);
       
       // Validate and checksum addresses
@@ -519,12 +579,12 @@ export class MainnetDataFetcher {
       ];
       
       // Add timeout and retry logic
-      const amounts = await Promise.race([
-        router.getAmountsOut(amountIn, path),
+      const [amounts] = await Promise.race([
+        this.multicall.call(chainId, routerAddress, routerABI, 'getAmountsOut', [amountIn, path]),
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error('SushiSwap call timeout')), 5000)
         )
-      ]) as bigint[];
+      ]) as bigint[][];
       
       if (amounts && amounts.length > 1 && amounts[1] > 0n) {
         return amounts[1]; // Output amount
@@ -549,7 +609,6 @@ export class MainnetDataFetcher {
   // Add this new method to check if a SushiSwap pair exists
   private async checkSushiswapPairExists(tokenA: string, tokenB: string, chainId: number): Promise<boolean> {
     try {
-      const provider = chainId === 42161 ? this._arbProvider : this._optProvider;
       
       // SushiSwap Factory addresses
       const factoryAddress = chainId === 42161 
@@ -560,11 +619,10 @@ export class MainnetDataFetcher {
         "function getPair(address tokenA, address tokenB) external view returns (address pair)"
       ];
       
-      const factory = new Contract(factoryAddress, factoryABI, provider);
-      const pairAddress = await factory.getPair(
+      const [pairAddress] = await this.multicall.call(chainId, factoryAddress, factoryABI, 'getPair', [
         this.validateAndChecksumAddress(tokenA),
         this.validateAndChecksumAddress(tokenB)
-      );
+      ]);
       
       // Check if pair exists (not zero address)
       return pairAddress !== '0x0000000000000000000000000000000000000000';
@@ -2,6 +2,8 @@ import { FlashbotsBundleProvider, FlashbotsBundleTransaction, FlashbotsBundleRes
 import { JsonRpcProvider, Wallet, parseUnits, formatUnits } from "ethers";
 import { GasOptimizer } from "./gas-optimizer";
 import { L2GasManager } from "./l2-gas-manager";
+import { BatchArbitragePacker } from "./batch-packer";
+import { ClassifiedFailure, FailureTaxonomy } from "./revert-decoder";
 
 export interface ArbitrageOpportunity {
     id: string;
@@ -15,6 +17,11 @@ export interface ArbitrageOpportunity {
     chainId: number;
     dexPath: string[];
     confidenceScore: number;
+    // Route and profit floor from the scanner; opportunities without them are not packed into a batch
+    path?: string[];
+    sushiFirst?: boolean;
+    minProfit?: string; // Start token units
+    slippage?: number; // Fraction, e.g. 0.005
 }
 
 export interface BundleOptimizationResult {
@@ -55,6 +62,11 @@ export class MEVBundleOptimizer {
     private l2GasManager: L2GasManager;
     private provider: JsonRpcProvider;
     private wallet: Wallet;
+    private botContractAddress?: string;
+    
+    // Batches stay valid for two minutes of chain time
+    private static readonly BATCH_DEADLINE_SECONDS = 120;
+    private static readonly DEFAULT_BATCH_SLIPPAGE_BPS = 50;
     
     // Bundle performance tracking
     private bundleHistory: Map<string, BundlePerformance> = new Map();
@@ -65,13 +77,15 @@ export class MEVBundleOptimizer {
         gasOptimizer: GasOptimizer,
         l2GasManager: L2GasManager,
         provider: JsonRpcProvider,
-        wallet: Wallet
+        wallet: Wallet,
+        botContractAddress?: string
     ) {
         this.flashbotsProvider = flashbotsProvider;
         this.gasOptimizer = gasOptimizer;
         this.l2GasManager = l2GasManager;
         this.provider = provider;
         this.wallet = wallet;
+        this.botContractAddress = botContractAddress;
     }
 
     // OPTIMIZATION: Create optimal bundle with intelligent opportunity selection
@@ -171,38 +185,63 @@ export class MEVBundleOptimizer {
         }
     }
 
-    // OPTIMIZATION: Intelligent fallback strategies when MEV bundles fail
+    // OPTIMIZATION: Intelligent fallback strategies when MEV bundles fail, keyed off the failure taxonomy
     async handleBundleFailure(
         originalBundle: FlashbotsBundleTransaction[],
-        failureReason: string,
+        failure: ClassifiedFailure | string,
         targetBlock: number
     ): Promise<{
         fallbackStrategy: 'public-mempool' | 'retry-bundle' | 'skip-opportunity';
         adjustedTransactions?: any[];
         recommendedGasIncrease?: number;
+        recommendedGasLimitIncrease?: number;
         reasoning: string;
     }> {
         
-        const historyKey = this.generateBundleKey(originalBundle);
-        const history = this.bundleHistory.get(historyKey);
+        const classified = typeof failure === 'string' ? FailureTaxonomy.classify(failure) : failure;
+        const history = this.recordBundleFailure(this.generateBundleKey(originalBundle));
         
-        // Analyze failure pattern
-        if (failureReason.includes('gas price too low')) {
-            // Gas price competition - increase gas and retry
+        if (classified.category === 'STALE_QUOTE' || classified.category === 'SLIPPAGE') {
+            // The same calldata reverts again; only a fresh quote can revive the opportunity
+            return {
+                fallbackStrategy: 'skip-opportunity',
+                reasoning: `Prices moved past the quote (${classified.reason}). Skipping until the opportunity is re-priced.`
+            };
+        } else if (classified.category === 'ORACLE_GUARD') {
+            return {
+                fallbackStrategy: 'skip-opportunity',
+                reasoning: `Price feed guard refused the trade (${classified.reason}). Skipping; retrying cannot pass the oracle check.`
+            };
+        } else if (classified.category === 'NONCE') {
+            // Nothing about the trade was wrong; rebuild with a fresh nonce at the same price
             return {
                 fallbackStrategy: 'retry-bundle',
-                recommendedGasIncrease: 25, // 25% increase
-                reasoning: "Gas price competition detected. Recommending gas price increase and bundle retry."
+                recommendedGasIncrease: 0,
+                reasoning: `Executor nonce conflict (${classified.reason}). Retrying with a fresh nonce.`
             };
-        } else if (failureReason.includes('block full') || failureReason.includes('timeout')) {
-            // Network congestion - try public mempool
-            const adjustedTxs = await this.prepareForPublicMempool(originalBundle);
+        } else if (classified.category === 'OUT_OF_GAS') {
             return {
-                fallbackStrategy: 'public-mempool',
-                adjustedTransactions: adjustedTxs,
-                reasoning: "Network congestion detected. Falling back to public mempool with competitive gas pricing."
+                fallbackStrategy: 'retry-bundle',
+                recommendedGasLimitIncrease: 30, // 30% more gas limit
+                reasoning: `Transaction ran out of gas (${classified.reason}). Retrying with a higher gas limit.`
+            };
+        } else if (classified.category === 'COMPETITION') {
+            if (history.failures >= 3) {
+                // Repeatedly outbid through the relay - try public mempool
+                const adjustedTxs = await this.prepareForPublicMempool(originalBundle);
+                return {
+                    fallbackStrategy: 'public-mempool',
+                    adjustedTransactions: adjustedTxs,
+                    reasoning: "Bundle repeatedly lost to competition. Falling back to public mempool with competitive gas pricing."
+                };
+            }
+            // Gas price competition - increase gas and retry
+            return {
+                fallbackStrategy: 'retry-bundle',
+                recommendedGasIncrease: 25, // 25% increase
+                reasoning: `Competition detected (${classified.reason}). Recommending gas price increase and bundle retry.`
             };
-        } else if (history && history.failures >= 3) {
+        } else if (history.failures >= 3) {
             // Persistent failures - skip this opportunity type temporarily
             return {
                 fallbackStrategy: 'skip-opportunity',
@@ -352,6 +391,10 @@ export class MEVBundleOptimizer {
         gasStrategy: any,
         targetBlock: number
     ): Promise<FlashbotsBundleTransaction[]> {
+        if (this.botContractAddress) {
+            return this.createBatchTransaction(opportunities, gasStrategy);
+        }
+        
         const transactions: FlashbotsBundleTransaction[] = [];
         
         for (const opp of opportunities) {
@@ -375,6 +418,55 @@ export class MEVBundleOptimizer {
         return transactions;
     }
 
+    // OPTIMIZATION: One executeBatchArbitrage call for all selected opportunities instead of a transaction each
+    private async createBatchTransaction(
+        opportunities: ArbitrageOpportunity[],
+        gasStrategy: any
+    ): Promise<FlashbotsBundleTransaction[]> {
+        const latestBlock = await this.provider.getBlock('latest');
+        if (!latestBlock) return [];
+        
+        const packable = opportunities.filter(opp => opp.path && opp.minProfit);
+        const batch = BatchArbitragePacker.pack(
+            packable.map(opp => ({
+                id: opp.id,
+                asset: opp.path![0],
+                amountIn: opp.amountIn,
+                path: opp.path!,
+                minProfit: opp.minProfit!,
+                sushiFirst: opp.sushiFirst ?? false,
+                slippageBps: opp.slippage !== undefined ? Math.round(opp.slippage * 10000) : undefined
+            })),
+            {
+                deadline: latestBlock.timestamp + MEVBundleOptimizer.BATCH_DEADLINE_SECONDS,
+                slippageBps: MEVBundleOptimizer.DEFAULT_BATCH_SLIPPAGE_BPS
+            }
+        );
+        
+        for (const { id, reason } of batch.skipped) {
+            console.log(`Opportunity ${id} left out of batch: ${reason}`);
+        }
+        if (batch.params.trades.length === 0) return [];
+        
+        const included = new Set(batch.included);
+        const gasLimit = opportunities
+            .filter(opp => included.has(opp.id))
+            .reduce((sum, opp) => sum + BigInt(opp.gasEstimate), 0n);
+        
+        return [{
+            signer: this.wallet,
+            transaction: {
+                to: this.botContractAddress,
+                data: BatchArbitragePacker.encode(batch.params),
+                gasLimit,
+                maxFeePerGas: gasStrategy.maxFeePerGas,
+                maxPriorityFeePerGas: gasStrategy.maxPriorityFeePerGas,
+                type: 2,
+                chainId: opportunities[0].chainId
+            }
+        }];
+    }
+
     private async calculateBundleMetrics(
         bundle: FlashbotsBundleTransaction[]
     ): Promise<{
@@ -445,6 +537,22 @@ export class MEVBundleOptimizer {
         return bundle.map(tx => (tx.transaction.to || '0x0') + (tx.transaction.data?.slice(0, 10) || '')).join('|');
     }
 
+    private recordBundleFailure(historyKey: string): BundlePerformance {
+        const history = this.bundleHistory.get(historyKey) || {
+            attempts: 0,
+            successes: 0,
+            failures: 0,
+            averageGasUsed: 0n,
+            totalProfit: 0n,
+            lastAttempt: 0
+        };
+        history.attempts++;
+        history.failures++;
+        history.lastAttempt = Date.now();
+        this.bundleHistory.set(historyKey, history);
+        return history;
+    }
+
     private generateBundleSignature(bundle: FlashbotsBundleTransaction[]): string {
         // Create a signature for bundle similarity comparison
         return bundle.map(tx => tx.transaction.data?.slice(0, 10) || "").join('');
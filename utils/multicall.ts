@@ -0,0 +1,212 @@
+import { BlockTag, Interface, Provider, Result } from "ethers";
+
+export interface MulticallCall {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+export interface MulticallOptions {
+  maxCallsPerBatch: number; // Calls per aggregate3 eth_call before chunking
+  batchWindowMs: number; // How long to collect queued calls before flushing
+}
+
+export interface MulticallStats {
+  queuedCalls: number;
+  dedupedCalls: number;
+  aggregateRequests: number;
+  fallbackRequests: number;
+}
+
+interface PendingCall {
+  call: MulticallCall;
+  resolve: (result: MulticallResult) => void;
+  reject: (error: unknown) => void;
+}
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+/**
+ * Coalesces every contract read issued for the same chain and block into Multicall3 aggregate3 calls.
+ * Reads queued within one batch window share a handful of eth_calls; a reverting read only fails its own caller.
+ */
+export class MulticallBatcher {
+
+  // Multicall3 is deployed at the same address on every supported chain
+  static readonly MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+  private static readonly DEFAULT_OPTIONS: MulticallOptions = {
+    maxCallsPerBatch: 200,
+    batchWindowMs: 0
+  };
+
+  private providers: Map<number, Provider>;
+  private options: MulticallOptions;
+  private multicallInterface: Interface;
+  private interfaceCache: WeakMap<string[], Interface>;
+  private pending: Map<string, PendingCall[]>;
+  private stats: MulticallStats;
+
+  constructor(providers: Map<number, Provider>, options: Partial<MulticallOptions> = {}) {
+    this.providers = providers;
+    this.options = { ...MulticallBatcher.DEFAULT_OPTIONS, ...options };
+    this.multicallInterface = new Interface(MULTICALL3_ABI);
+    this.interfaceCache = new WeakMap();
+    this.pending = new Map();
+    this.stats = { queuedCalls: 0, dedupedCalls: 0, aggregateRequests: 0, fallbackRequests: 0 };
+  }
+
+  /**
+   * Queue a view call and decode its result; rejects if the call reverts or returns undecodable data
+   */
+  async call(
+    chainId: number,
+    target: string,
+    abi: string[],
+    method: string,
+    args: any[] = [],
+    blockTag: BlockTag = 'latest'
+  ): Promise<Result> {
+    const iface = this.getInterface(abi);
+    const callData = iface.encodeFunctionData(method, args);
+    // Lowercase skips checksum validation, so one mis-cased config address cannot fail the whole aggregate3 encode
+    const result = await this.enqueue(chainId, { target: target.toLowerCase(), callData }, blockTag);
+
+    if (!result.success) {
+      // Same code ethers uses for a reverted eth_call, so existing error handling keeps working
+      throw Object.assign(new Error(`Multicall: ${method} reverted on ${target} (chain ${chainId})`), {
+        code: 'CALL_EXCEPTION',
+        data: result.returnData
+      });
+    }
+    return iface.decodeFunctionResult(method, result.returnData);
+  }
+
+  /**
+   * Same as call() but resolves to null instead of rejecting
+   */
+  async tryCall(
+    chainId: number,
+    target: string,
+    abi: string[],
+    method: string,
+    args: any[] = [],
+    blockTag: BlockTag = 'latest'
+  ): Promise<Result | null> {
+    try {
+      return await this.call(chainId, target, abi, method, args, blockTag);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Execute raw calls immediately in as few aggregate3 requests as the chunk size allows.
+   * Chunks run in parallel; a chunk the node rejects outright is retried call by call.
+   */
+  async aggregate(chainId: number, calls: MulticallCall[], blockTag: BlockTag = 'latest'): Promise<MulticallResult[]> {
+    const provider = this.requireProvider(chainId);
+    const chunks: MulticallCall[][] = [];
+    for (let i = 0; i < calls.length; i += this.options.maxCallsPerBatch) {
+      chunks.push(calls.slice(i, i + this.options.maxCallsPerBatch));
+    }
+
+    const results = await Promise.all(chunks.map(chunk => this.executeChunk(provider, chunk, blockTag)));
+    return results.flat();
+  }
+
+  getStats(): MulticallStats {
+    return { ...this.stats };
+  }
+
+  private enqueue(chainId: number, call: MulticallCall, blockTag: BlockTag): Promise<MulticallResult> {
+    const key = `${chainId}:${blockTag}`;
+    this.stats.queuedCalls++;
+
+    return new Promise((resolve, reject) => {
+      let queue = this.pending.get(key);
+      if (!queue) {
+        queue = [];
+        this.pending.set(key, queue);
+        setTimeout(() => this.flush(key, chainId, blockTag), this.options.batchWindowMs);
+      }
+      queue.push({ call, resolve, reject });
+    });
+  }
+
+  private async flush(key: string, chainId: number, blockTag: BlockTag): Promise<void> {
+    const queue = this.pending.get(key) || [];
+    this.pending.delete(key);
+    if (queue.length === 0) return;
+
+    // Identical reads in one window (same pool seen from both directions) are sent once
+    const unique = new Map<string, PendingCall[]>();
+    for (const pendingCall of queue) {
+      const callKey = `${pendingCall.call.target.toLowerCase()}:${pendingCall.call.callData}`;
+      const waiting = unique.get(callKey);
+      if (waiting) {
+        waiting.push(pendingCall);
+        this.stats.dedupedCalls++;
+      } else {
+        unique.set(callKey, [pendingCall]);
+      }
+    }
+
+    const groups = [...unique.values()];
+    try {
+      const results = await this.aggregate(chainId, groups.map(group => group[0].call), blockTag);
+      groups.forEach((group, index) => {
+        for (const pendingCall of group) pendingCall.resolve(results[index]);
+      });
+    } catch (error) {
+      for (const pendingCall of queue) pendingCall.reject(error);
+    }
+  }
+
+  private async executeChunk(provider: Provider, chunk: MulticallCall[], blockTag: BlockTag): Promise<MulticallResult[]> {
+    const data = this.multicallInterface.encodeFunctionData('aggregate3', [
+      chunk.map(call => ({ target: call.target, allowFailure: true, callData: call.callData }))
+    ]);
+
+    try {
+      this.stats.aggregateRequests++;
+      const raw = await provider.call({ to: MulticallBatcher.MULTICALL3_ADDRESS, data, blockTag });
+      const [returnData] = this.multicallInterface.decodeFunctionResult('aggregate3', raw);
+      return returnData.map((entry: Result) => ({ success: Boolean(entry[0]), returnData: entry[1] }));
+    } catch (error) {
+      // Oversized batches or nodes without Multicall3 at this block: fall back to plain eth_calls
+      return Promise.all(chunk.map(async call => {
+        try {
+          this.stats.fallbackRequests++;
+          const returnData = await provider.call({ to: call.target, data: call.callData, blockTag });
+          return { success: true, returnData };
+        } catch (callError) {
+          return { success: false, returnData: '0x' };
+        }
+      }));
+    }
+  }
+
+  private getInterface(abi: string[]): Interface {
+    let iface = this.interfaceCache.get(abi);
+    if (!iface) {
+      iface = new Interface(abi);
+      this.interfaceCache.set(abi, iface);
+    }
+    return iface;
+  }
+
+  private requireProvider(chainId: number): Provider {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+    return provider;
+  }
+}
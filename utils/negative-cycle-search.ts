@@ -0,0 +1,234 @@
+/** The parts of a graph edge the search needs; ArbitrageEdge satisfies it */
+export interface CycleEdge {
+  from: string;
+  to: string;
+  pool: string;
+  rate: number; // Whole tokenOut per whole tokenIn, net of fees
+  weight: number; // -log(rate)
+  liquidityDepth: bigint; // Output-side liquidity in tokenOut wei
+}
+
+export interface NegativeCycle<E extends CycleEdge> {
+  edges: E[];
+  tokens: string[]; // Start token first and last
+  totalRate: number;
+  profitMargin: number; // totalRate - 1
+  capacity: bigint; // Largest input, in start token wei, that keeps every hop within its liquidity cap
+}
+
+export interface CycleSearchOptions {
+  maxHops: number;
+  maxCycles: number;
+  minProfitMargin: number;
+  liquidityCapFraction: number; // Share of an edge's output liquidity one trade may take
+  minCapacity: bigint;
+  decimals: Map<string, number>; // Token decimals for capacity conversion; missing tokens count as 18
+  sources?: string[]; // Only report cycles through these tokens; all tokens when omitted
+  walksPerNode: number; // Walks kept per token and hop count, so cycles sharing a prefix token are not lost
+}
+
+export interface CycleSearchResult<E extends CycleEdge> {
+  cycles: NegativeCycle<E>[];
+  relaxations: number; // Edges examined, at most sources * maxHops * walksPerNode * edges
+}
+
+// A walk from the source, linked back through its previous steps
+interface Walk<E extends CycleEdge> {
+  node: number;
+  weight: number;
+  edge: E | null; // null for the source itself
+  previous: Walk<E> | null;
+}
+
+/**
+ * Hop-bounded Bellman-Ford over -log(rate) edge weights. For each source, layer k holds the lightest
+ * few k-edge walks to every token; every walk that closes back on the source with negative total
+ * weight is a profitable cycle. Walks are kept simple, and cycles found from several sources are
+ * reported once.
+ */
+export class NegativeCycleDetector {
+
+  private static readonly DEFAULT_OPTIONS: CycleSearchOptions = {
+    maxHops: 4,
+    maxCycles: 50,
+    minProfitMargin: 0,
+    liquidityCapFraction: 0.1,
+    minCapacity: 1n,
+    decimals: new Map(),
+    walksPerNode: 4
+  };
+
+  static findCycles<E extends CycleEdge>(
+    graph: Map<string, E[]>,
+    options: Partial<CycleSearchOptions> = {}
+  ): NegativeCycle<E>[] {
+    return NegativeCycleDetector.search(graph, options).cycles;
+  }
+
+  /**
+   * findCycles, with the number of edge relaxations the search took
+   */
+  static search<E extends CycleEdge>(
+    graph: Map<string, E[]>,
+    options: Partial<CycleSearchOptions> = {}
+  ): CycleSearchResult<E> {
+    const config = { ...NegativeCycleDetector.DEFAULT_OPTIONS, ...options };
+
+    // Index tokens and drop edges that cannot carry a trade
+    const tokens = new Set<string>(graph.keys());
+    for (const edges of graph.values()) {
+      for (const edge of edges) tokens.add(edge.to);
+    }
+    const tokenList = [...tokens];
+    const index = new Map(tokenList.map((token, i) => [token, i]));
+    const outgoing: E[][] = tokenList.map(token =>
+      (graph.get(token) || []).filter(edge =>
+        edge.liquidityDepth > 0n && isFinite(edge.weight) && edge.from !== edge.to
+      )
+    );
+
+    // Token index of each edge's output, so the search does no lookups by address
+    const targets = outgoing.map(edges => edges.map(edge => index.get(edge.to)!));
+
+    const threshold = -Math.log1p(config.minProfitMargin);
+    const seen = new Set<string>();
+    const cycles: NegativeCycle<E>[] = [];
+    const sources = config.sources ?? tokenList;
+    const counter = { relaxations: 0 };
+
+    for (const source of sources) {
+      const s = index.get(source);
+      if (s === undefined) continue;
+
+      const walks = NegativeCycleDetector.searchFrom(s, outgoing, targets, tokenList.length, config.maxHops, config.walksPerNode, threshold, counter);
+      for (const walk of walks) {
+        const key = NegativeCycleDetector.canonicalKey(walk);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const cycle = NegativeCycleDetector.describe(walk, config);
+        if (cycle.profitMargin > config.minProfitMargin && cycle.capacity >= config.minCapacity) {
+          cycles.push(cycle);
+        }
+      }
+    }
+
+    return {
+      cycles: cycles
+        .sort((a, b) => b.profitMargin - a.profitMargin)
+        .slice(0, config.maxCycles),
+      relaxations: counter.relaxations
+    };
+  }
+
+  /**
+   * Every simple cycle through the source, up to maxHops edges, that one of the kept walks closes below the threshold
+   */
+  private static searchFrom<E extends CycleEdge>(
+    source: number,
+    outgoing: E[][],
+    targets: number[][],
+    size: number,
+    maxHops: number,
+    walksPerNode: number,
+    threshold: number,
+    counter: { relaxations: number }
+  ): E[][] {
+    const found: E[][] = [];
+    let frontier: Walk<E>[] = [{ node: source, weight: 0, edge: null, previous: null }];
+
+    for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+      // The lightest walks of this many edges into each token, lightest first
+      const kept: Array<Walk<E>[] | undefined> = new Array(size);
+      const reached: number[] = [];
+
+      for (const walk of frontier) {
+        const edges = outgoing[walk.node];
+        for (let e = 0; e < edges.length; e++) {
+          const edge = edges[e];
+          const v = targets[walk.node][e];
+          counter.relaxations++;
+          const weight = walk.weight + edge.weight;
+
+          if (v === source) {
+            if (hop >= 2 && weight < threshold) {
+              found.push(NegativeCycleDetector.edgesOf({ node: v, weight, edge, previous: walk }));
+            }
+            continue;
+          }
+          if (NegativeCycleDetector.visits(walk, v)) continue;
+
+          let walks = kept[v];
+          if (!walks) {
+            walks = [];
+            kept[v] = walks;
+            reached.push(v);
+          }
+          if (walks.length === walksPerNode && weight >= walks[walks.length - 1].weight) continue;
+
+          let at = walks.length;
+          while (at > 0 && walks[at - 1].weight > weight) at--;
+          walks.splice(at, 0, { node: v, weight, edge, previous: walk });
+          if (walks.length > walksPerNode) walks.pop();
+        }
+      }
+
+      frontier = [];
+      for (const v of reached) frontier.push(...kept[v]!);
+    }
+
+    return found;
+  }
+
+  private static visits<E extends CycleEdge>(walk: Walk<E>, node: number): boolean {
+    for (let step: Walk<E> | null = walk; step; step = step.previous) {
+      if (step.node === node) return true;
+    }
+    return false;
+  }
+
+  private static edgesOf<E extends CycleEdge>(walk: Walk<E>): E[] {
+    const edges: E[] = [];
+    for (let step: Walk<E> | null = walk; step?.edge; step = step.previous) {
+      edges.unshift(step.edge);
+    }
+    return edges;
+  }
+
+  /**
+   * Rotation-independent identity of a cycle, so the same loop found from two sources is reported once
+   */
+  private static canonicalKey(walk: CycleEdge[]): string {
+    const ids = walk.map(edge => `${edge.from.toLowerCase()}:${edge.pool.toLowerCase()}`);
+    let start = 0;
+    for (let i = 1; i < ids.length; i++) {
+      if (ids[i] < ids[start]) start = i;
+    }
+    return [...ids.slice(start), ...ids.slice(0, start)].join('>');
+  }
+
+  private static describe<E extends CycleEdge>(walk: E[], config: CycleSearchOptions): NegativeCycle<E> {
+    let totalRate = 1;
+    // Wei of the current token per wei of the start token, and the tightest cap seen so far
+    let weiRate = 1;
+    let capacity = Infinity;
+
+    for (const edge of walk) {
+      totalRate *= edge.rate;
+      const decimalsIn = config.decimals.get(edge.from) ?? 18;
+      const decimalsOut = config.decimals.get(edge.to) ?? 18;
+      weiRate *= edge.rate * Math.pow(10, decimalsOut - decimalsIn);
+
+      const cap = Number(edge.liquidityDepth) * config.liquidityCapFraction;
+      capacity = Math.min(capacity, cap / weiRate);
+    }
+
+    return {
+      edges: walk,
+      tokens: [...walk.map(edge => edge.from), walk[0].from],
+      totalRate,
+      profitMargin: totalRate - 1,
+      capacity: isFinite(capacity) ? BigInt(Math.floor(capacity)) : 0n
+    };
+  }
+}
@@ -0,0 +1,342 @@
+import { Provider, Signer, getAddress } from "ethers";
+
+/**
+ * What this process knows about a nonce inside the window [confirmed, next). Nonces below the
+ * window are mined; the window's size bounds how far the bot may run ahead of the chain.
+ */
+export type NonceStatus =
+  | 'ALLOCATED' // Handed out; the transaction is being built or signed
+  | 'PENDING' // Broadcast or handed to an execution channel
+  | 'RELEASED' // Never broadcast; free for the next allocation
+  | 'DROPPED'; // Broadcast, but the node no longer holds it; free for the next allocation
+
+export interface NonceKey {
+  chainId: number;
+  address: string;
+}
+
+export interface NonceEntry {
+  nonce: number;
+  status: NonceStatus;
+  hash?: string; // Only known to the thread that marked it sent
+}
+
+export interface NonceSnapshot {
+  latest: number; // Mined transaction count
+  pending: number; // Transaction count including the node's mempool
+  next: number;
+  gaps: number[];
+}
+
+/**
+ * The structured-cloneable state handed to worker threads through workerData
+ */
+export interface SharedNonceState {
+  buffer: SharedArrayBuffer;
+  slots: Record<string, number>;
+  window: number;
+}
+
+export interface CancelFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Slot layout in Int32 words; the ring holds one status per nonce at nonce % window
+const LOCK = 0;
+const RECONCILED = 1;
+const NEXT = 2;
+const CONFIRMED = 3;
+const RING = 4;
+
+const STATUS_CODES: Record<NonceStatus, number> = { ALLOCATED: 1, PENDING: 2, RELEASED: 3, DROPPED: 4 };
+const STATUS_NAMES: Record<number, NonceStatus> = { 1: 'ALLOCATED', 2: 'PENDING', 3: 'RELEASED', 4: 'DROPPED' };
+
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * Hands out nonces per (chain, address) from shared memory, so the main thread and every worker
+ * thread draw from one sequence. Each slot is guarded by a short spin lock that is never held
+ * across an await; chain reads happen outside it and are applied under it.
+ */
+export class NonceManager {
+  private static readonly DEFAULT_WINDOW = 256;
+
+  private state: Int32Array;
+  private slots: Record<string, number>;
+  private window: number;
+  private buffer: SharedArrayBuffer;
+  private hashes = new Map<string, string>();
+
+  private constructor(shared: SharedNonceState) {
+    this.buffer = shared.buffer;
+    this.slots = shared.slots;
+    this.window = shared.window;
+    this.state = new Int32Array(shared.buffer);
+  }
+
+  /**
+   * Allocates state for every account that will send; accounts cannot be added once workers hold the buffer
+   */
+  static create(keys: NonceKey[], window: number = NonceManager.DEFAULT_WINDOW): NonceManager {
+    const slots: Record<string, number> = {};
+    for (const key of keys) {
+      const id = NonceManager.keyOf(key.chainId, key.address);
+      if (slots[id] === undefined) slots[id] = Object.keys(slots).length * (RING + window);
+    }
+    const buffer = new SharedArrayBuffer(Object.keys(slots).length * (RING + window) * Int32Array.BYTES_PER_ELEMENT);
+    return new NonceManager({ buffer, slots, window });
+  }
+
+  static attach(shared: SharedNonceState): NonceManager {
+    return new NonceManager(shared);
+  }
+
+  get shared(): SharedNonceState {
+    return { buffer: this.buffer, slots: this.slots, window: this.window };
+  }
+
+  has(chainId: number, address: string): boolean {
+    return this.slots[NonceManager.keyOf(chainId, address)] !== undefined;
+  }
+
+  isReconciled(chainId: number, address: string): boolean {
+    return Atomics.load(this.state, this.slotOf(chainId, address) + RECONCILED) === 1;
+  }
+
+  /**
+   * The lowest nonce nobody holds: a released or dropped one first, so gaps close, otherwise the next fresh one
+   */
+  allocate(chainId: number, address: string): number {
+    const base = this.slotOf(chainId, address);
+    return this.locked(base, () => {
+      if (this.state[base + RECONCILED] === 0) {
+        throw new Error(`NonceManager: ${NonceManager.keyOf(chainId, address)} has not been reconciled`);
+      }
+      const confirmed = this.state[base + CONFIRMED];
+      const next = this.state[base + NEXT];
+
+      for (let nonce = confirmed; nonce < next; nonce++) {
+        const status = this.statusAt(base, nonce);
+        if (status === 'RELEASED' || status === 'DROPPED') {
+          this.setStatus(base, nonce, 'ALLOCATED');
+          return nonce;
+        }
+      }
+      if (next - confirmed >= this.window) {
+        throw new Error(`NonceManager: ${this.window} nonces outstanding for ${NonceManager.keyOf(chainId, address)}`);
+      }
+      this.setStatus(base, next, 'ALLOCATED');
+      this.state[base + NEXT] = next + 1;
+      return next;
+    });
+  }
+
+  markSent(chainId: number, address: string, nonce: number, hash?: string): void {
+    this.update(chainId, address, nonce, 'PENDING');
+    if (hash) this.hashes.set(`${NonceManager.keyOf(chainId, address)}:${nonce}`, hash);
+  }
+
+  /**
+   * The nonce is mined, whatever the transaction's status; every nonce below it is mined too
+   */
+  markConfirmed(chainId: number, address: string, nonce: number): void {
+    const base = this.slotOf(chainId, address);
+    this.locked(base, () => this.advanceConfirmed(base, nonce + 1));
+    const id = NonceManager.keyOf(chainId, address);
+    for (const key of this.hashes.keys()) {
+      const [keyChain, keyAddress, keyNonce] = key.split(':');
+      if (`${keyChain}:${keyAddress}` === id && Number(keyNonce) <= nonce) this.hashes.delete(key);
+    }
+  }
+
+  /**
+   * Returns a nonce whose transaction was never broadcast
+   */
+  release(chainId: number, address: string, nonce: number): void {
+    this.update(chainId, address, nonce, 'RELEASED');
+  }
+
+  markDropped(chainId: number, address: string, nonce: number): void {
+    this.update(chainId, address, nonce, 'DROPPED');
+  }
+
+  /**
+   * Aligns the window with the node: mined nonces leave it, nonces sent by something else join it,
+   * and a pending entry the node does not count is dropped. Run on startup and after nonce errors.
+   */
+  async reconcile(chainId: number, address: string, provider: Provider): Promise<NonceSnapshot> {
+    const base = this.slotOf(chainId, address);
+    const [latest, pending] = await Promise.all([
+      provider.getTransactionCount(address, 'latest'),
+      provider.getTransactionCount(address, 'pending')
+    ]);
+
+    this.locked(base, () => {
+      this.advanceConfirmed(base, latest);
+      // A backlog deeper than the window can only be tracked from its top
+      if (pending - this.state[base + CONFIRMED] > this.window) this.advanceConfirmed(base, pending - this.window);
+      // Sent from outside this manager: another process or a wallet holding the same key
+      for (let nonce = this.state[base + NEXT]; nonce < pending; nonce++) this.setStatus(base, nonce, 'PENDING');
+      this.state[base + NEXT] = Math.max(this.state[base + NEXT], pending);
+
+      // The node counts contiguous transactions only, so ours at exactly `pending` is not in its pool
+      if (pending >= this.state[base + CONFIRMED] && pending < this.state[base + NEXT] && this.statusAt(base, pending) === 'PENDING') {
+        this.setStatus(base, pending, 'DROPPED');
+      }
+      this.compact(base);
+      Atomics.store(this.state, base + RECONCILED, 1);
+    });
+
+    return { latest, pending, next: this.state[base + NEXT], gaps: this.gaps(chainId, address) };
+  }
+
+  /**
+   * Nonces in the window that are not on their way to the chain but sit below one that is;
+   * until they are filled, every later transaction waits in the node's queue
+   */
+  gaps(chainId: number, address: string): number[] {
+    const base = this.slotOf(chainId, address);
+    return this.locked(base, () => {
+      const entries = this.entriesOf(base);
+      const highest = entries.filter(entry => entry.status === 'PENDING').map(entry => entry.nonce).pop();
+      if (highest === undefined) return [];
+      return entries
+        .filter(entry => entry.nonce < highest && (entry.status === 'RELEASED' || entry.status === 'DROPPED'))
+        .map(entry => entry.nonce);
+    });
+  }
+
+  entries(chainId: number, address: string): NonceEntry[] {
+    const base = this.slotOf(chainId, address);
+    const id = NonceManager.keyOf(chainId, address);
+    return this.locked(base, () => this.entriesOf(base)).map(entry => {
+      const hash = this.hashes.get(`${id}:${entry.nonce}`);
+      return hash ? { ...entry, hash } : entry;
+    });
+  }
+
+  /**
+   * Fills a gap, or replaces a stuck transaction, with a zero-value self-transfer at `nonce`.
+   * Replacing a pending transaction needs fees above the ones it was sent with.
+   */
+  async cancel(signer: Signer, nonce: number, fees: CancelFees): Promise<string> {
+    const address = await signer.getAddress();
+    const { chainId } = await signer.provider!.getNetwork();
+    const base = this.slotOf(Number(chainId), address);
+
+    const previous = this.locked(base, () => {
+      const status = nonce < this.state[base + NEXT] ? this.statusAt(base, nonce) : undefined;
+      if (!status || status === 'ALLOCATED') {
+        throw new Error(`NonceManager: nonce ${nonce} is not a gap or pending transaction`);
+      }
+      // Hold it so no allocation takes the nonce while the cancel is in flight
+      if (status !== 'PENDING') this.setStatus(base, nonce, 'ALLOCATED');
+      return status;
+    });
+
+    try {
+      const response = await signer.sendTransaction({
+        to: address,
+        value: 0n,
+        nonce,
+        gasLimit: CANCEL_GAS_LIMIT,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+      });
+      this.markSent(Number(chainId), address, nonce, response.hash);
+      return response.hash;
+    } catch (error) {
+      this.update(Number(chainId), address, nonce, previous);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels every gap so the transactions queued above them can be mined
+   */
+  async repairGaps(signer: Signer, fees: CancelFees): Promise<string[]> {
+    const { chainId } = await signer.provider!.getNetwork();
+    const hashes: string[] = [];
+    for (const nonce of this.gaps(Number(chainId), await signer.getAddress())) {
+      try {
+        hashes.push(await this.cancel(signer, nonce, fees));
+      } catch (error) {
+        console.error(`Error cancelling nonce ${nonce}:`, error);
+      }
+    }
+    return hashes;
+  }
+
+  private update(chainId: number, address: string, nonce: number, status: NonceStatus): void {
+    const base = this.slotOf(chainId, address);
+    this.locked(base, () => {
+      // Mined in the meantime; nothing left to track
+      if (nonce < this.state[base + CONFIRMED]) return;
+      if (nonce >= this.state[base + NEXT]) {
+        throw new Error(`NonceManager: nonce ${nonce} was never allocated`);
+      }
+      this.setStatus(base, nonce, status);
+      if (status === 'RELEASED') this.compact(base);
+    });
+  }
+
+  private advanceConfirmed(base: number, confirmed: number): void {
+    for (let nonce = this.state[base + CONFIRMED]; nonce < Math.min(confirmed, this.state[base + NEXT]); nonce++) {
+      this.state[base + RING + (nonce % this.window)] = 0;
+    }
+    if (confirmed > this.state[base + CONFIRMED]) this.state[base + CONFIRMED] = confirmed;
+    if (confirmed > this.state[base + NEXT]) this.state[base + NEXT] = confirmed;
+  }
+
+  // Released nonces at the top of the window are simply not handed out yet
+  private compact(base: number): void {
+    let next = this.state[base + NEXT];
+    while (next > this.state[base + CONFIRMED] && this.statusAt(base, next - 1) === 'RELEASED') {
+      next--;
+      this.state[base + RING + (next % this.window)] = 0;
+    }
+    this.state[base + NEXT] = next;
+  }
+
+  private entriesOf(base: number): NonceEntry[] {
+    const entries: NonceEntry[] = [];
+    for (let nonce = this.state[base + CONFIRMED]; nonce < this.state[base + NEXT]; nonce++) {
+      const status = this.statusAt(base, nonce);
+      if (status) entries.push({ nonce, status });
+    }
+    return entries;
+  }
+
+  private statusAt(base: number, nonce: number): NonceStatus | undefined {
+    return STATUS_NAMES[this.state[base + RING + (nonce % this.window)]];
+  }
+
+  private setStatus(base: number, nonce: number, status: NonceStatus): void {
+    this.state[base + RING + (nonce % this.window)] = STATUS_CODES[status];
+  }
+
+  private locked<T>(base: number, fn: () => T): T {
+    while (Atomics.compareExchange(this.state, base + LOCK, 0, 1) !== 0) {
+      Atomics.wait(this.state, base + LOCK, 1, 1);
+    }
+    try {
+      return fn();
+    } finally {
+      Atomics.store(this.state, base + LOCK, 0);
+      Atomics.notify(this.state, base + LOCK, 1);
+    }
+  }
+
+  private slotOf(chainId: number, address: string): number {
+    const base = this.slots[NonceManager.keyOf(chainId, address)];
+    if (base === undefined) {
+      throw new Error(`NonceManager: no nonce slot for ${NonceManager.keyOf(chainId, address)}`);
+    }
+    return base;
+  }
+
+  private static keyOf(chainId: number, address: string): string {
+    return `${chainId}:${getAddress(address)}`;
+  }
+}
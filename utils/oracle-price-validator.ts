@@ -1,5 +1,7 @@
-import { JsonRpcProvider, Contract, Interface, parseUnits, formatUnits } from "ethers";
+import { JsonRpcProvider, Interface, parseUnits, formatUnits } from "ethers";
 import axios from "axios";
+import { MulticallBatcher } from "./multicall";
+import { ChainlinkFeedRegistry } from "./chainlink-feeds";
 
 export interface PriceSource {
     name: string;
@@ -51,10 +53,15 @@ export interface OracleConfig {
 // OPTIMIZATION: Comprehensive price validation against manipulation
 export class OraclePriceValidator {
     private config: OracleConfig;
-    private priceFeeds!: Map<string, string[]>; // token -> oracle addresses
+    private feeds: ChainlinkFeedRegistry;
     private priceHistory: Map<string, Array<{ price: bigint; timestamp: number; volume?: bigint }>> = new Map();
+    private multicall: MulticallBatcher;
     
-    constructor(private providers: Map<number, JsonRpcProvider>) {
+    constructor(private providers: Map<number, JsonRpcProvider>, multicall?: MulticallBatcher, feeds?: ChainlinkFeedRegistry) {
+        // OPTIMIZATION: Oracle reads share the scanners' Multicall3 batches when a batcher is passed in
+        this.multicall = multicall || new MulticallBatcher(providers);
+        // Chainlink answers go through the registry's heartbeat and sequencer checks
+        this.feeds = feeds || new ChainlinkFeedRegistry(this.multicall);
         this.config = {
             deviationThresholds: {
                 low: 0.005,      // 0.5%
@@ -77,8 +84,6 @@ export class OraclePriceValidator {
                 'coingecko': 0.60
             }
         };
-        
-        this.initializePriceFeeds();
     }
     
     // MAIN FUNCTION: Validate token price against multiple oracles
@@ -298,43 +303,30 @@ export class OraclePriceValidator {
     }
     
     // Oracle implementations
+    // OPTIMIZATION: Pair price from the two tokens' USD feeds; null when either is missing, stale or sequencer-gated
     private async getChainlinkPrice(tokenA: string, tokenB: string, chainId: number): Promise<PriceSource | null> {
         try {
-            const provider = this.providers.get(chainId);
-            if (!provider) return null;
-            
-            // Get Chainlink feed address for this pair
-            const feedAddress = this.getChainlinkFeedAddress(tokenA, tokenB, chainId);
-            if (!feedAddress) return null;
-            
-            const abi = [
-                "function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
-                "function decimals() external view returns (uint8)"
-            ];
-            
-            const priceFeed = new Contract(feedAddress, abi, provider);
-            const [roundData, decimals] = await Promise.all([
-                priceFeed.latestRoundData(),
-                priceFeed.decimals()
+            const [readingA, readingB] = await Promise.all([
+                this.feeds.read(chainId, tokenA),
+                this.feeds.read(chainId, tokenB)
             ]);
+            if (!readingA || !readingB) return null;
             
-            // Check if price is fresh (less than 1 hour old)
-            const priceAge = Date.now() / 1000 - Number(roundData.updatedAt);
-            if (priceAge > 3600) return null;
-            
-            // Convert price to consistent decimals (18)
-            const price = BigInt(roundData.answer) * (10n ** (18n - BigInt(decimals)));
+            // Price of tokenA in tokenB with 18 decimals
+            const price = readingA.answer * (10n ** BigInt(18 + readingB.feed.decimals)) /
+                (readingB.answer * (10n ** BigInt(readingA.feed.decimals)));
             
             return {
                 name: 'Chainlink',
                 price,
-                timestamp: Number(roundData.updatedAt) * 1000,
+                timestamp: Math.min(readingA.updatedAt, readingB.updatedAt),
                 confidence: this.config.confidenceWeights['chainlink'],
                 chainId,
                 source: 'chainlink',
                 metadata: {
-                    roundId: roundData.roundId,
-                    decimals: Number(decimals)
+                    feeds: [readingA.feed.address, readingB.feed.address],
+                    roundIds: [readingA.roundId, readingB.roundId],
+                    deviationBps: readingA.feed.deviationBps + readingB.feed.deviationBps // Either answer may lag by its feed's deviation
                 }
             };
             
@@ -344,6 +336,28 @@ export class OraclePriceValidator {
         }
     }
     
+    // OPTIMIZATION: USD price of a single token from its Chainlink USD feed, for valuing balances
+    async getUsdPrice(token: string, chainId: number): Promise<number | null> {
+        try {
+            const reading = await this.feeds.read(chainId, token);
+            return reading ? reading.price : null;
+        } catch (error) {
+            console.error(`Chainlink USD price fetch failed for ${token} on chain ${chainId}:`, error);
+            return null;
+        }
+    }
+    
+    // OPTIMIZATION: ETH price of a single token from a Chainlink ETH-quoted feed, for tokens without a USD feed
+    async getEthPrice(token: string, chainId: number): Promise<number | null> {
+        try {
+            const reading = await this.feeds.read(chainId, token, "ETH");
+            return reading ? reading.price : null;
+        } catch (error) {
+            console.error(`Chainlink ETH price fetch failed for ${token} on chain ${chainId}:`, error);
+            return null;
+        }
+    }
+    
     private async getUniswapTWAP(tokenA: string, tokenB: string, chainId: number): Promise<PriceSource | null> {
         try {
             const provider = this.providers.get(chainId);
@@ -358,11 +372,9 @@ export class OraclePriceValidator {
                 "function observe(uint32[] memory secondsAgos) external view returns (int56[] memory tickCumulatives, uint160[] memory secondsPerLiquidityCumulativeX128s)"
             ];
             
-            const poolContract = new Contract(poolAddress, poolAbi, provider);
-            
             // Get 30-minute TWAP
             const twapPeriod = this.config.twapPeriods.medium;
-            const tickData = await poolContract.observe([twapPeriod, 0]);
+            const tickData = await this.multicall.call(chainId, poolAddress, poolAbi, 'observe', [[twapPeriod, 0]]);
             
             // Calculate TWAP price from tick data
             const avgTick = (Number(tickData[0][1]) - Number(tickData[0][0])) / twapPeriod;
@@ -514,19 +526,6 @@ export class OraclePriceValidator {
     }
     
     // Helper methods
-    private initializePriceFeeds(): void {
-        this.priceFeeds = new Map();
-        
-        // Initialize with known Chainlink feeds
-        // This would be populated with actual feed addresses
-    }
-    
-    private getChainlinkFeedAddress(tokenA: string, tokenB: string, chainId: number): string | null {
-        // Return Chainlink feed address for token pair
-        // This would use a comprehensive mapping
-        return null; // Placeholder
-    }
-    
     private async getUniswapV3PoolAddress(tokenA: string, tokenB: string, chainId: number): Promise<string | null> {
         // Get Uniswap V3 pool address for token pair
         // Would use the factory contract
@@ -0,0 +1,266 @@
+import { AbiCoder, Provider, id } from "ethers";
+import { DEXRouter, EnhancedDEXManager } from "./dex-routers";
+import { ChainlinkFeedRegistry } from "./chainlink-feeds";
+import { MulticallBatcher } from "./multicall";
+import { PoolRegistry, RegisteredPool } from "./pool-registry";
+
+/** USD value of one whole token, or null when it has no price source */
+export type TokenPriceLookup = (chainId: number, token: string) => Promise<number | null>;
+
+export interface DiscoveryOptions {
+  maxBlocksPerQuery: number; // eth_getLogs range per request
+  confirmations: number; // Blocks behind the tip the cursor stays, so creations are not reorged out
+  tvlRefreshMs: number; // How long a pool's TVL is trusted before it is re-read
+  startBlocks: { [chainId: number]: number }; // Where a fresh registry starts indexing: the chain's earliest factory deployment
+  priceUsd?: TokenPriceLookup;
+}
+
+interface FactorySource {
+  router: DEXRouter;
+  factory: string;
+}
+
+const ROUTER_FACTORY_ABI = ["function factory() view returns (address)"];
+const V2_PAIR_ABI = ["function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)"];
+const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)"
+];
+
+/**
+ * Indexes PairCreated / PoolCreated events from every V2 and V3 factory behind EnhancedDEXManager's routers
+ * into a PoolRegistry, and values each pool in USD so the pathfinder can skip dust pools.
+ */
+export class PoolDiscoveryService {
+
+  private static readonly PAIR_CREATED_TOPIC = id("PairCreated(address,address,address,uint256)");
+  private static readonly POOL_CREATED_TOPIC = id("PoolCreated(address,address,uint24,int24,address)");
+
+  // Registry progress is flushed to disk after this many getLogs pages during a long backfill
+  private static readonly SAVE_EVERY_PAGES = 50;
+
+  private static readonly DEFAULT_OPTIONS: DiscoveryOptions = {
+    maxBlocksPerQuery: 2000,
+    confirmations: 10,
+    tvlRefreshMs: 15 * 60 * 1000,
+    startBlocks: {}
+  };
+
+  private providers: Map<number, Provider>;
+  private registry: PoolRegistry;
+  private multicall: MulticallBatcher;
+  private options: DiscoveryOptions;
+  private priceUsd: TokenPriceLookup;
+  private factoryCache: Map<number, FactorySource[]>;
+  private decimalsCache: Map<string, number>;
+  private coder: AbiCoder;
+
+  constructor(
+    providers: Map<number, Provider>,
+    registry: PoolRegistry,
+    multicall?: MulticallBatcher,
+    options: Partial<DiscoveryOptions> = {}
+  ) {
+    this.providers = providers;
+    this.registry = registry;
+    this.multicall = multicall || new MulticallBatcher(providers);
+    this.options = { ...PoolDiscoveryService.DEFAULT_OPTIONS, ...options };
+    if (this.options.priceUsd) {
+      this.priceUsd = this.options.priceUsd;
+    } else {
+      const feeds = new ChainlinkFeedRegistry(this.multicall);
+      this.priceUsd = async (chainId, token) => (await feeds.read(chainId, token))?.price ?? null;
+    }
+    this.factoryCache = new Map();
+    this.decimalsCache = new Map();
+    this.coder = AbiCoder.defaultAbiCoder();
+  }
+
+  /**
+   * Index new factory events, refresh stale TVLs and persist the registry
+   */
+  async sync(chainId: number): Promise<number> {
+    const discovered = await this.discover(chainId);
+    await this.refreshTvl(chainId);
+    await this.registry.save();
+    return discovered;
+  }
+
+  /**
+   * Pull creation events from each factory's cursor up to the confirmed tip; returns the number of new pools
+   */
+  async discover(chainId: number): Promise<number> {
+    const provider = this.requireProvider(chainId);
+    const tip = (await provider.getBlockNumber()) - this.options.confirmations;
+    let discovered = 0;
+    let pages = 0;
+
+    for (const source of await this.resolveFactories(chainId)) {
+      const cursor = this.registry.getCursor(chainId, source.factory);
+      let fromBlock = cursor !== undefined ? cursor + 1 : this.options.startBlocks[chainId];
+      // Backfilling from genesis would spend hours in getLogs before the first pool is found
+      if (fromBlock === undefined) {
+        throw new Error(`PoolDiscovery: no start block for chain ${chainId}; set it to the factories' deployment block`);
+      }
+      const topic = source.router.routerType === 'UNISWAP_V3'
+        ? PoolDiscoveryService.POOL_CREATED_TOPIC
+        : PoolDiscoveryService.PAIR_CREATED_TOPIC;
+
+      while (fromBlock <= tip) {
+        const toBlock = Math.min(fromBlock + this.options.maxBlocksPerQuery - 1, tip);
+        const logs = await provider.getLogs({ address: source.factory, topics: [topic], fromBlock, toBlock });
+
+        for (const log of logs) {
+          const pool = this.decodeCreation(chainId, source, log);
+          if (pool && this.registry.upsertPool(pool)) discovered++;
+        }
+
+        this.registry.setCursor(chainId, source.factory, toBlock);
+        fromBlock = toBlock + 1;
+        if (++pages % PoolDiscoveryService.SAVE_EVERY_PAGES === 0) {
+          await this.registry.save();
+        }
+      }
+    }
+
+    if (discovered > 0) {
+      console.log(`🗂️  Discovered ${discovered} new pools on chain ${chainId} (${this.registry.getPools(chainId).length} registered)`);
+    }
+    return discovered;
+  }
+
+  /**
+   * Re-value every pool whose TVL is older than tvlRefreshMs. Reads go out together so they share Multicall3 batches.
+   */
+  async refreshTvl(chainId: number): Promise<void> {
+    const now = Date.now();
+    const stale = this.registry.getPools(chainId).filter(pool => now - pool.tvlUpdatedAt >= this.options.tvlRefreshMs);
+
+    await Promise.all(stale.map(async pool => {
+      try {
+        this.registry.updateTvl(chainId, pool.address, await this.valuePool(pool));
+      } catch (error) {
+        console.error(`Failed to value pool ${pool.address} on chain ${chainId}:`, error);
+      }
+    }));
+  }
+
+  private decodeCreation(
+    chainId: number,
+    source: FactorySource,
+    log: { topics: readonly string[]; data: string; blockNumber: number }
+  ): RegisteredPool | null {
+    try {
+      const token0 = this.topicAddress(log.topics[1]);
+      const token1 = this.topicAddress(log.topics[2]);
+      let address: string;
+      let feeTier: number;
+
+      if (source.router.routerType === 'UNISWAP_V3') {
+        feeTier = Number(BigInt(log.topics[3]));
+        [, address] = this.coder.decode(["int24", "address"], log.data);
+      } else {
+        feeTier = this.parseFeeTier(source.router.feeStructure);
+        [address] = this.coder.decode(["address", "uint256"], log.data);
+      }
+
+      return {
+        chainId,
+        address,
+        dex: source.router.name,
+        kind: source.router.routerType as RegisteredPool['kind'],
+        factory: source.factory,
+        token0,
+        token1,
+        feeTier,
+        createdBlock: log.blockNumber,
+        tvlUsd: null,
+        tvlUpdatedAt: 0
+      };
+    } catch (error) {
+      // Forks with a different event layout under the same signature
+      return null;
+    }
+  }
+
+  /**
+   * USD value of both sides of the pool; a pool with one priced token is valued at twice that side
+   */
+  private async valuePool(pool: RegisteredPool): Promise<number | null> {
+    const [price0, price1] = await Promise.all([
+      this.priceUsd(pool.chainId, pool.token0),
+      this.priceUsd(pool.chainId, pool.token1)
+    ]);
+    if (price0 === null && price1 === null) return null;
+
+    let balance0: bigint;
+    let balance1: bigint;
+    if (pool.kind === 'UNISWAP_V2') {
+      const reserves = await this.multicall.call(pool.chainId, pool.address, V2_PAIR_ABI, 'getReserves');
+      [balance0, balance1] = [BigInt(reserves[0]), BigInt(reserves[1])];
+    } else {
+      const balances = await Promise.all([pool.token0, pool.token1].map(token =>
+        this.multicall.call(pool.chainId, token, ERC20_ABI, 'balanceOf', [pool.address])
+      ));
+      [balance0, balance1] = balances.map(result => BigInt(result[0]));
+    }
+
+    const value = async (token: string, balance: bigint, price: number | null) => {
+      if (price === null) return null;
+      const decimals = await this.getDecimals(pool.chainId, token);
+      return (Number(balance) / Math.pow(10, decimals)) * price;
+    };
+    const [value0, value1] = await Promise.all([
+      value(pool.token0, balance0, price0),
+      value(pool.token1, balance1, price1)
+    ]);
+
+    if (value0 !== null && value1 !== null) return value0 + value1;
+    return 2 * (value0 ?? value1)!;
+  }
+
+  /**
+   * Factories behind the V2 and V3 routers on a chain, read once from each router's factory()
+   */
+  private async resolveFactories(chainId: number): Promise<FactorySource[]> {
+    const cached = this.factoryCache.get(chainId);
+    if (cached) return cached;
+
+    const routers = EnhancedDEXManager.getRoutersByType(chainId, ['UNISWAP_V2', 'UNISWAP_V3'], 0);
+    const sources = await Promise.all(routers.map(async router => {
+      const result = await this.multicall.tryCall(chainId, router.address, ROUTER_FACTORY_ABI, 'factory');
+      return result ? { router, factory: result[0] as string } : null;
+    }));
+
+    const resolved = sources.filter((source): source is FactorySource => source !== null);
+    this.factoryCache.set(chainId, resolved);
+    return resolved;
+  }
+
+  private async getDecimals(chainId: number, token: string): Promise<number> {
+    const key = `${chainId}:${token.toLowerCase()}`;
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const [decimals] = await this.multicall.call(chainId, token, ERC20_ABI, 'decimals');
+    this.decimalsCache.set(key, Number(decimals));
+    return Number(decimals);
+  }
+
+  private topicAddress(topic: string): string {
+    return this.coder.decode(["address"], topic)[0];
+  }
+
+  private parseFeeTier(feeStructure: string): number {
+    const match = feeStructure.match(/(\d+\.?\d*)%/);
+    return match ? Math.round(parseFloat(match[1]) * 10_000) : 3000;
+  }
+
+  private requireProvider(chainId: number): Provider {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+    return provider;
+  }
+}
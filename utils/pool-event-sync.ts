@@ -0,0 +1,365 @@
+import { EventEmitter } from 'events';
+import { AbiCoder, Log, Provider, id } from "ethers";
+import { PoolState, PoolStateReader, V2PoolState, V3PoolState } from "./pool-state";
+
+export interface PoolEventSyncOptions {
+  maxBlocksPerQuery: number; // eth_getLogs block range per request
+  reorgDepth: number; // Blocks of undo history kept for rollbacks
+}
+
+export interface PoolChangeEvent {
+  chainId: number;
+  blockNumber: number;
+  pools: Set<string>;
+  revision: number;
+}
+
+export interface PoolReorgEvent {
+  chainId: number;
+  fromBlock: number;
+  commonBlock: number;
+  pools: Set<string>;
+}
+
+type TrackedPoolState = V2PoolState | V3PoolState;
+
+const V2_SYNC_TOPIC = id("Sync(uint112,uint112)");
+const V3_SWAP_TOPIC = id("Swap(address,address,int256,int256,uint160,uint128,int24)");
+const V3_MINT_TOPIC = id("Mint(address,address,int24,int24,uint128,uint256,uint256)");
+const V3_BURN_TOPIC = id("Burn(address,int24,int24,uint128,uint256,uint256)");
+
+const coder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Keeps V2 and V3 pool state current from Sync/Swap/Mint/Burn logs instead of re-reading every pool each block.
+ * Pools are bootstrapped from a PoolStateReader snapshot; logs are pulled with eth_getLogs on every new block
+ * (pushed over WebSocket providers, polled otherwise) and a per-block undo journal rolls state back on reorgs.
+ */
+export class PoolEventSync extends EventEmitter {
+
+  private static readonly DEFAULT_OPTIONS: PoolEventSyncOptions = {
+    maxBlocksPerQuery: 500,
+    reorgDepth: 64
+  };
+
+  readonly chainId: number;
+  private provider: Provider;
+  private poolStateReader: PoolStateReader;
+  private options: PoolEventSyncOptions;
+
+  private pools: Map<string, TrackedPoolState> = new Map();
+  private snapshotBlocks: Map<string, number> = new Map();
+  private changedRevision: Map<string, number> = new Map();
+  private journal: Map<number, Map<string, TrackedPoolState>> = new Map(); // block -> state before that block
+  private blockHashes: Map<number, string> = new Map();
+  private syncedBlock = 0;
+  private historyFloor = 0; // Oldest block the undo journal can roll back to
+  private revision = 0;
+  private resetRevision = 0;
+  private syncQueue: Promise<void> = Promise.resolve();
+  private blockListener: ((blockNumber: number) => void) | null = null;
+
+  constructor(
+    chainId: number,
+    provider: Provider,
+    poolStateReader: PoolStateReader,
+    options: Partial<PoolEventSyncOptions> = {}
+  ) {
+    super();
+    this.chainId = chainId;
+    this.provider = provider;
+    this.poolStateReader = poolStateReader;
+    this.options = { ...PoolEventSync.DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start following new blocks
+   */
+  start(): void {
+    if (this.blockListener) return;
+    this.blockListener = (blockNumber: number) => {
+      this.syncTo(blockNumber).catch(error => {
+        console.error(`Pool event sync failed on chain ${this.chainId}:`, error);
+      });
+    };
+    this.provider.on('block', this.blockListener);
+  }
+
+  stop(): void {
+    if (!this.blockListener) return;
+    this.provider.off('block', this.blockListener);
+    this.blockListener = null;
+  }
+
+  /**
+   * Bootstrap a pool from a snapshot; only V2 and V3 pools have events that fully describe their state
+   */
+  track(state: PoolState): boolean {
+    if (state.chainId !== this.chainId) return false;
+    if (state.kind !== 'UNISWAP_V2' && state.kind !== 'UNISWAP_V3') return false;
+    // Logs between an older snapshot and the sync cursor have already been skipped
+    if (state.blockNumber < this.syncedBlock) return false;
+
+    const key = state.address.toLowerCase();
+    const existing = this.pools.get(key);
+    if (existing && existing.blockNumber >= state.blockNumber) return true;
+
+    this.pools.set(key, state);
+    this.snapshotBlocks.set(key, state.blockNumber);
+    if (this.syncedBlock === 0) {
+      this.syncedBlock = state.blockNumber;
+      this.historyFloor = state.blockNumber;
+    }
+    return true;
+  }
+
+  isTracked(pool: string): boolean {
+    return this.pools.has(pool.toLowerCase());
+  }
+
+  getPoolState(pool: string): PoolState | undefined {
+    return this.pools.get(pool.toLowerCase());
+  }
+
+  getSyncedBlock(): number {
+    return this.syncedBlock;
+  }
+
+  /**
+   * Monotonic counter bumped whenever any tracked pool changes, including rollbacks
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Pools changed after a revision, or null if tracking was reset since and every edge must be rebuilt
+   */
+  getChangedPoolsSince(revision: number): Set<string> | null {
+    if (revision < this.resetRevision) return null;
+
+    const changed = new Set<string>();
+    for (const [pool, changedAt] of this.changedRevision) {
+      if (changedAt > revision) changed.add(pool);
+    }
+    return changed;
+  }
+
+  /**
+   * Apply every log up to a block. Calls are serialized so overlapping block notifications cannot interleave.
+   */
+  syncTo(targetBlock: number): Promise<void> {
+    this.syncQueue = this.syncQueue.then(() => this.runSync(targetBlock));
+    return this.syncQueue;
+  }
+
+  /**
+   * Forget all tracked pools, e.g. after a reorg deeper than the undo journal
+   */
+  reset(): void {
+    this.pools.clear();
+    this.snapshotBlocks.clear();
+    this.changedRevision.clear();
+    this.journal.clear();
+    this.blockHashes.clear();
+    this.syncedBlock = 0;
+    this.historyFloor = 0;
+    this.revision++;
+    this.resetRevision = this.revision;
+  }
+
+  private async runSync(targetBlock: number): Promise<void> {
+    if (this.pools.size === 0 || this.syncedBlock === 0) return;
+
+    if (!this.blockHashes.has(this.syncedBlock)) {
+      const block = await this.provider.getBlock(this.syncedBlock);
+      if (block?.hash) this.blockHashes.set(this.syncedBlock, block.hash);
+    }
+
+    const reorged = await this.handleReorg();
+    if (!reorged && targetBlock <= this.syncedBlock) return;
+    if (this.syncedBlock === 0) return; // Reset by a deep reorg
+
+    const changed = new Set<string>();
+    const addresses = [...this.pools.keys()];
+    const topics = [[V2_SYNC_TOPIC, V3_SWAP_TOPIC, V3_MINT_TOPIC, V3_BURN_TOPIC]];
+
+    for (let from = this.syncedBlock + 1; from <= targetBlock; from += this.options.maxBlocksPerQuery) {
+      const to = Math.min(from + this.options.maxBlocksPerQuery - 1, targetBlock);
+      const logs = await this.provider.getLogs({ address: addresses, topics, fromBlock: from, toBlock: to });
+
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      for (const log of logs) {
+        if (this.applyLog(log)) {
+          changed.add(log.address.toLowerCase());
+        }
+      }
+    }
+
+    const tip = await this.provider.getBlock(targetBlock);
+    if (tip?.hash) this.blockHashes.set(targetBlock, tip.hash);
+    this.syncedBlock = Math.max(this.syncedBlock, targetBlock);
+    this.trimHistory();
+
+    if (changed.size > 0) {
+      this.revision++;
+      for (const pool of changed) this.changedRevision.set(pool, this.revision);
+    }
+
+    // Serve every tracked pool at the synced block from cache so edge rebuilds need no RPC
+    for (const state of this.pools.values()) {
+      this.poolStateReader.cachePoolState({ ...state, blockNumber: this.syncedBlock });
+    }
+
+    if (changed.size > 0) {
+      const event: PoolChangeEvent = {
+        chainId: this.chainId,
+        blockNumber: this.syncedBlock,
+        pools: changed,
+        revision: this.revision
+      };
+      this.emit('poolsChanged', event);
+    }
+  }
+
+  /**
+   * Roll back to the last block whose hash still matches the canonical chain. Returns true if a reorg was found.
+   */
+  private async handleReorg(): Promise<boolean> {
+    const storedHash = this.blockHashes.get(this.syncedBlock);
+    if (!storedHash) return false;
+
+    const current = await this.provider.getBlock(this.syncedBlock);
+    if (!current || current.hash === storedHash) return false;
+
+    const knownBlocks = [...this.blockHashes.keys()].sort((a, b) => b - a);
+    let commonBlock = 0;
+    for (const blockNumber of knownBlocks) {
+      if (blockNumber >= this.syncedBlock) continue;
+      const block = await this.provider.getBlock(blockNumber);
+      if (block && block.hash === this.blockHashes.get(blockNumber)) {
+        commonBlock = blockNumber;
+        break;
+      }
+    }
+
+    const fromBlock = this.syncedBlock;
+    if (commonBlock === 0 || commonBlock < this.historyFloor) {
+      // Deeper than the undo journal: nothing can be trusted, rebootstrap from fresh snapshots
+      console.warn(`Reorg on chain ${this.chainId} deeper than ${this.options.reorgDepth} blocks, resetting pool sync`);
+      this.reset();
+      this.emit('reorg', { chainId: this.chainId, fromBlock, commonBlock, pools: new Set() } as PoolReorgEvent);
+      return true;
+    }
+
+    // Undo blocks newest first so each pool ends at its state as of the common block
+    const restored = new Set<string>();
+    const undoBlocks = [...this.journal.keys()].filter(b => b > commonBlock).sort((a, b) => b - a);
+    for (const blockNumber of undoBlocks) {
+      for (const [pool, previous] of this.journal.get(blockNumber)!) {
+        this.pools.set(pool, previous);
+        restored.add(pool);
+      }
+      this.journal.delete(blockNumber);
+    }
+
+    // Pools first snapshotted on the orphaned branch have no trustworthy state; drop them so they are re-read
+    for (const [pool, snapshotBlock] of this.snapshotBlocks) {
+      if (snapshotBlock > commonBlock) {
+        this.pools.delete(pool);
+        this.snapshotBlocks.delete(pool);
+        restored.add(pool);
+      }
+    }
+    for (const blockNumber of knownBlocks) {
+      if (blockNumber > commonBlock) this.blockHashes.delete(blockNumber);
+    }
+
+    this.syncedBlock = commonBlock;
+    if (restored.size > 0) {
+      this.revision++;
+      for (const pool of restored) this.changedRevision.set(pool, this.revision);
+    }
+
+    const event: PoolReorgEvent = { chainId: this.chainId, fromBlock, commonBlock, pools: restored };
+    this.emit('reorg', event);
+    return true;
+  }
+
+  private applyLog(log: Log): boolean {
+    const key = log.address.toLowerCase();
+    const state = this.pools.get(key);
+    // Logs at or before the snapshot block are already reflected in it
+    if (!state || log.blockNumber <= state.blockNumber) return false;
+
+    const next = this.reduceLog(state, log);
+    if (!next) return false;
+
+    let undo = this.journal.get(log.blockNumber);
+    if (!undo) {
+      undo = new Map();
+      this.journal.set(log.blockNumber, undo);
+    }
+    if (!undo.has(key)) undo.set(key, state);
+
+    if (log.blockHash) this.blockHashes.set(log.blockNumber, log.blockHash);
+    this.pools.set(key, next);
+    return true;
+  }
+
+  private reduceLog(state: TrackedPoolState, log: Log): TrackedPoolState | null {
+    const topic = log.topics[0];
+
+    if (state.kind === 'UNISWAP_V2') {
+      if (topic !== V2_SYNC_TOPIC) return null;
+      const [reserve0, reserve1] = coder.decode(["uint112", "uint112"], log.data);
+      return { ...state, blockNumber: log.blockNumber, reserve0: BigInt(reserve0), reserve1: BigInt(reserve1) };
+    }
+
+    switch (topic) {
+      case V3_SWAP_TOPIC: {
+        // Swap carries the post-swap price, liquidity and tick
+        const [, , sqrtPriceX96, liquidity, tick] = coder.decode(
+          ["int256", "int256", "uint160", "uint128", "int24"], log.data
+        );
+        return {
+          ...state,
+          blockNumber: log.blockNumber,
+          sqrtPriceX96: BigInt(sqrtPriceX96),
+          liquidity: BigInt(liquidity),
+          tick: Number(tick)
+        };
+      }
+
+      case V3_MINT_TOPIC:
+      case V3_BURN_TOPIC: {
+        // Only positions spanning the current tick change active liquidity
+        const tickLower = Number(coder.decode(["int24"], log.topics[2])[0]);
+        const tickUpper = Number(coder.decode(["int24"], log.topics[3])[0]);
+        const [amount] = topic === V3_MINT_TOPIC
+          ? coder.decode(["address", "uint128", "uint256", "uint256"], log.data).slice(1)
+          : coder.decode(["uint128", "uint256", "uint256"], log.data);
+
+        let liquidity = state.liquidity;
+        if (tickLower <= state.tick && state.tick < tickUpper) {
+          liquidity = topic === V3_MINT_TOPIC ? liquidity + BigInt(amount) : liquidity - BigInt(amount);
+        }
+        return { ...state, blockNumber: log.blockNumber, liquidity };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private trimHistory(): void {
+    const oldest = this.syncedBlock - this.options.reorgDepth;
+    this.historyFloor = Math.max(this.historyFloor, oldest - 1);
+    for (const blockNumber of [...this.journal.keys()]) {
+      if (blockNumber < oldest) this.journal.delete(blockNumber);
+    }
+    for (const blockNumber of [...this.blockHashes.keys()]) {
+      if (blockNumber < oldest) this.blockHashes.delete(blockNumber);
+    }
+  }
+}
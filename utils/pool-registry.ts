@@ -0,0 +1,152 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface RegisteredPool {
+  chainId: number;
+  address: string;
+  dex: string; // EnhancedDEXManager router name the pool trades through
+  kind: 'UNISWAP_V2' | 'UNISWAP_V3';
+  factory: string;
+  token0: string;
+  token1: string;
+  feeTier: number; // Hundredths of a bip, e.g. 3000 for 0.3%
+  createdBlock: number;
+  tvlUsd: number | null; // null until valued, or when neither token has a price
+  tvlUpdatedAt: number;
+}
+
+interface RegistryFile {
+  version: 1;
+  cursors: { [factoryKey: string]: number }; // `${chainId}:${factory}` -> last indexed block
+  pools: RegisteredPool[];
+}
+
+/**
+ * On-disk index of every pool the discovery service has seen, with per-factory indexing cursors
+ * so a restart resumes where the last scan stopped. Stored as one JSON file written atomically.
+ */
+export class PoolRegistry {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "data", "pool-registry.json");
+
+  private filePath: string;
+  private pools: Map<string, RegisteredPool>;
+  private cursors: Map<string, number>;
+  private dirty: boolean;
+
+  constructor(filePath: string = PoolRegistry.DEFAULT_PATH) {
+    this.filePath = filePath;
+    this.pools = new Map();
+    this.cursors = new Map();
+    this.dirty = false;
+  }
+
+  /**
+   * Load the registry from disk; a missing file starts an empty registry
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as RegistryFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported pool registry version ${file.version} in ${this.filePath}`);
+    }
+
+    this.pools.clear();
+    this.cursors.clear();
+    for (const pool of file.pools) {
+      this.pools.set(this.poolKey(pool.chainId, pool.address), pool);
+    }
+    for (const [key, block] of Object.entries(file.cursors)) {
+      this.cursors.set(key, block);
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Write pending changes; the temp file + rename keeps a crash from leaving a truncated registry
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    const file: RegistryFile = {
+      version: 1,
+      cursors: Object.fromEntries(this.cursors),
+      pools: [...this.pools.values()].sort((a, b) => a.chainId - b.chainId || a.createdBlock - b.createdBlock)
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.rename(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * Add a newly discovered pool; an already known pool keeps its TVL
+   */
+  upsertPool(pool: RegisteredPool): boolean {
+    const key = this.poolKey(pool.chainId, pool.address);
+    const existing = this.pools.get(key);
+    this.pools.set(key, existing ? { ...pool, tvlUsd: existing.tvlUsd, tvlUpdatedAt: existing.tvlUpdatedAt } : pool);
+    this.dirty = true;
+    return !existing;
+  }
+
+  getPool(chainId: number, address: string): RegisteredPool | undefined {
+    return this.pools.get(this.poolKey(chainId, address));
+  }
+
+  /**
+   * Pools on a chain worth at least minTvlUsd; unvalued pools only pass a zero minimum
+   */
+  getPools(chainId: number, minTvlUsd: number = 0): RegisteredPool[] {
+    return [...this.pools.values()].filter(pool =>
+      pool.chainId === chainId &&
+      (minTvlUsd <= 0 || (pool.tvlUsd !== null && pool.tvlUsd >= minTvlUsd))
+    );
+  }
+
+  /**
+   * Distinct tokens traded by the pools that pass the TVL filter
+   */
+  getTokens(chainId: number, minTvlUsd: number = 0): string[] {
+    const tokens = new Map<string, string>();
+    for (const pool of this.getPools(chainId, minTvlUsd)) {
+      tokens.set(pool.token0.toLowerCase(), pool.token0);
+      tokens.set(pool.token1.toLowerCase(), pool.token1);
+    }
+    return [...tokens.values()];
+  }
+
+  updateTvl(chainId: number, address: string, tvlUsd: number | null): void {
+    const pool = this.getPool(chainId, address);
+    if (!pool) return;
+    pool.tvlUsd = tvlUsd;
+    pool.tvlUpdatedAt = Date.now();
+    this.dirty = true;
+  }
+
+  getCursor(chainId: number, factory: string): number | undefined {
+    return this.cursors.get(`${chainId}:${factory.toLowerCase()}`);
+  }
+
+  setCursor(chainId: number, factory: string, blockNumber: number): void {
+    this.cursors.set(`${chainId}:${factory.toLowerCase()}`, blockNumber);
+    this.dirty = true;
+  }
+
+  get size(): number {
+    return this.pools.size;
+  }
+
+  private poolKey(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,717 @@
+import { ethers, Provider, ZeroAddress } from "ethers";
+import { DEXRouter } from "./dex-routers";
+import { MulticallBatcher } from "./multicall";
+import { TickBitmap, V3SwapSimulator, V3TickSnapshot } from "./uniswap-v3-math";
+import {
+  BalancerStableMath,
+  BalancerWeightedMath,
+  CurveStableSwapMath
+} from "./curve-balancer-math";
+
+export type PoolKind = 'UNISWAP_V2' | 'UNISWAP_V3' | 'CURVE' | 'BALANCER';
+
+interface BasePoolState {
+  kind: PoolKind;
+  chainId: number;
+  address: string;
+  router: DEXRouter;
+  blockNumber: number;
+  tokens: string[];
+  fee: number; // Fraction of amountIn, e.g. 0.003
+}
+
+export interface V2PoolState extends BasePoolState {
+  kind: 'UNISWAP_V2';
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+export interface V3PoolState extends BasePoolState {
+  kind: 'UNISWAP_V3';
+  feeTier: number; // Hundredths of a bip, e.g. 500
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+export interface CurvePoolState extends BasePoolState {
+  kind: 'CURVE';
+  balances: bigint[];
+  amplification: bigint; // A * A_PRECISION
+  feeRaw: bigint; // 1e10 precision
+  rates: bigint[]; // 10^(36 - decimals) per coin
+  int128Indices: boolean;
+  cryptoPool: boolean; // CryptoSwap pools use a different invariant and are quoted on-chain
+}
+
+export interface BalancerPoolState extends BasePoolState {
+  kind: 'BALANCER';
+  poolId: string;
+  balances: bigint[];
+  weights: bigint[]; // 1e18 precision, empty for non-weighted pools
+  amplification: bigint; // Includes AMP_PRECISION, zero for weighted pools
+  scalingFactors: bigint[]; // 10^(18 - decimals) per token
+  swapFeeRaw: bigint; // 1e18 precision
+}
+
+export type PoolState = V2PoolState | V3PoolState | CurvePoolState | BalancerPoolState;
+
+const V2_ROUTER_ABI = ["function factory() view returns (address)"];
+const V2_FACTORY_ABI = ["function getPair(address tokenA, address tokenB) view returns (address pair)"];
+const V2_PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)"
+];
+
+const V3_FACTORY_ABI = ["function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)"];
+const V3_POOL_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function fee() view returns (uint24)",
+  "function liquidity() view returns (uint128)",
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+  "function tickSpacing() view returns (int24)",
+  "function tickBitmap(int16 wordPosition) view returns (uint256)",
+  "function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)"
+];
+
+const CURVE_INT128_ABI = [
+  "function coins(int128 i) view returns (address)",
+  "function balances(int128 i) view returns (uint256)",
+  "function get_dy(int128 i, int128 j, uint256 dx) view returns (uint256)"
+];
+const CURVE_UINT256_ABI = [
+  "function coins(uint256 i) view returns (address)",
+  "function balances(uint256 i) view returns (uint256)",
+  "function get_dy(uint256 i, uint256 j, uint256 dx) view returns (uint256)"
+];
+const CURVE_PARAMS_ABI = [
+  "function A() view returns (uint256)",
+  "function A_precise() view returns (uint256)",
+  "function gamma() view returns (uint256)",
+  "function fee() view returns (uint256)"
+];
+
+const BALANCER_VAULT_ABI = [
+  "function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)"
+];
+const BALANCER_POOL_ABI = [
+  "function getSwapFeePercentage() view returns (uint256)",
+  "function getNormalizedWeights() view returns (uint256[])",
+  "function getAmplificationParameter() view returns (uint256 value, bool isUpdating, uint256 precision)"
+];
+
+const ERC20_DECIMALS_ABI = ["function decimals() view returns (uint8)"];
+
+// Curve uses this placeholder for native ETH in coins()
+const NATIVE_ETH = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+const Q96 = 2n ** 96n;
+
+/**
+ * Reads live pool state for every router type in EnhancedDEXManager.
+ * All reads for a scan are pinned to one block, cached under that block number and batched through Multicall3.
+ */
+export class PoolStateReader {
+
+  // Uniswap V3 uses the same canonical factory on Arbitrum and Optimism
+  private static readonly V3_FACTORIES: { [chainId: number]: string } = {
+    42161: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+    10: "0x1F98431c8aD98523631AE4a59f267346ea31F984"
+  };
+
+  private static readonly V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+  // Balancer pools have no on-chain pair lookup, so candidate pool ids are listed here.
+  // Weighted and legacy stable pools only; composable stable pools carry their BPT as a token.
+  private static readonly BALANCER_POOLS: { [chainId: number]: string[] } = {
+    42161: [
+      "0x64541216bafffeec8ea535bb71fbc927831d0595000100000000000000000002" // WETH/WBTC/USDC weighted
+    ],
+    10: []
+  };
+
+  private providers: Map<number, Provider>;
+  private multicall: MulticallBatcher;
+  private stateCache: Map<string, Promise<PoolState | null>>;
+  private poolAddressCache: Map<string, string[]>;
+  private decimalsCache: Map<string, number>;
+  private tickSnapshotCache: Map<string, V3TickSnapshot>;
+
+  constructor(providers: Map<number, Provider>, multicall?: MulticallBatcher) {
+    this.providers = providers;
+    this.multicall = multicall || new MulticallBatcher(providers);
+    this.stateCache = new Map();
+    this.poolAddressCache = new Map();
+    this.decimalsCache = new Map();
+    this.tickSnapshotCache = new Map();
+  }
+
+  /**
+   * Get the block every read in the current scan should be pinned to
+   */
+  async getLatestBlockNumber(chainId: number): Promise<number> {
+    const provider = this.requireProvider(chainId);
+    return await provider.getBlockNumber();
+  }
+
+  /**
+   * Read the state of the pool a router would use to swap tokenA for tokenB at a block
+   */
+  async getPoolState(
+    tokenA: string,
+    tokenB: string,
+    router: DEXRouter,
+    blockNumber: number
+  ): Promise<PoolState | null> {
+    const pairKey = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join('-');
+    const cacheKey = `${router.chainId}:${blockNumber}:${router.name}:${pairKey}`;
+
+    // Cache the in-flight read so concurrent lookups of the same pool share one batch slot
+    const cached = this.stateCache.get(cacheKey);
+    if (cached) return cached;
+
+    const pending = this.readPoolState(tokenA, tokenB, router, blockNumber);
+    this.stateCache.set(cacheKey, pending);
+    return pending;
+  }
+
+  /**
+   * Seed the cache with state derived elsewhere, e.g. replayed from pool events, so reads at its block skip RPC
+   */
+  cachePoolState(state: PoolState): void {
+    const pairKey = [state.tokens[0].toLowerCase(), state.tokens[1].toLowerCase()].sort().join('-');
+    const cacheKey = `${state.chainId}:${state.blockNumber}:${state.router.name}:${pairKey}`;
+    this.stateCache.set(cacheKey, Promise.resolve(state));
+  }
+
+  /**
+   * Use known pool addresses for a router and pair, e.g. from the pool registry, instead of asking the factory
+   */
+  registerPoolAddresses(router: DEXRouter, tokenA: string, tokenB: string, addresses: string[]): void {
+    const pairKey = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join('-');
+    this.poolAddressCache.set(`${router.chainId}:${router.name}:${pairKey}`, addresses);
+  }
+
+  /**
+   * Spot rate for tokenIn -> tokenOut in whole-token units, net of the pool fee
+   */
+  async getSpotRate(state: PoolState, tokenIn: string, tokenOut: string): Promise<number | null> {
+    const i = this.indexOf(state, tokenIn);
+    const j = this.indexOf(state, tokenOut);
+    if (i < 0 || j < 0 || i === j) return null;
+
+    const decimalsIn = await this.getTokenDecimals(state.chainId, tokenIn);
+    const decimalsOut = await this.getTokenDecimals(state.chainId, tokenOut);
+    const decimalScale = Math.pow(10, decimalsIn - decimalsOut);
+
+    switch (state.kind) {
+      case 'UNISWAP_V2': {
+        const [reserveIn, reserveOut] = i === 0
+          ? [state.reserve0, state.reserve1]
+          : [state.reserve1, state.reserve0];
+        if (reserveIn === 0n || reserveOut === 0n) return null;
+        return (Number(reserveOut) / Number(reserveIn)) * decimalScale * (1 - state.fee);
+      }
+
+      case 'UNISWAP_V3': {
+        if (state.liquidity === 0n || state.sqrtPriceX96 === 0n) return null;
+        const sqrtPrice = Number(state.sqrtPriceX96) / Number(Q96);
+        const price1Per0 = sqrtPrice * sqrtPrice;
+        const rawRate = i === 0 ? price1Per0 : 1 / price1Per0;
+        return rawRate * decimalScale * (1 - state.fee);
+      }
+
+      case 'CURVE':
+      case 'BALANCER': {
+        // Quote one whole token through the invariant; the result already nets out the pool fee
+        const dx = 10n ** BigInt(decimalsIn);
+        const dy = await this.quoteExactInput(state, tokenIn, tokenOut, dx);
+        if (!dy) return null;
+        return Number(dy) / Number(dx) * decimalScale;
+      }
+    }
+  }
+
+  /**
+   * Exact amountOut for swapping amountIn of tokenIn for tokenOut through the pool, or null if it cannot be quoted
+   */
+  async quoteExactInput(
+    state: PoolState,
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint
+  ): Promise<bigint | null> {
+    const i = this.indexOf(state, tokenIn);
+    const j = this.indexOf(state, tokenOut);
+    if (i < 0 || j < 0 || i === j || amountIn <= 0n) return null;
+
+    switch (state.kind) {
+      case 'UNISWAP_V2': {
+        // getAmountOut with the fee expressed in pips so non-0.3% forks quote correctly
+        const [reserveIn, reserveOut] = i === 0
+          ? [state.reserve0, state.reserve1]
+          : [state.reserve1, state.reserve0];
+        const amountInWithFee = amountIn * (1_000_000n - BigInt(Math.round(state.fee * 1_000_000)));
+        return (amountInWithFee * reserveOut) / (reserveIn * 1_000_000n + amountInWithFee);
+      }
+
+      case 'UNISWAP_V3': {
+        const snapshot = await this.getV3TickSnapshot(state);
+        const quote = V3SwapSimulator.quoteExactInput(snapshot, i === 0, amountIn);
+        // A partial walk means the swap left the loaded bitmap range
+        return quote.complete && quote.amountIn === amountIn ? quote.amountOut : null;
+      }
+
+      case 'CURVE': {
+        if (state.cryptoPool) {
+          const dy = await this.quoteCurve(state, i, j, amountIn);
+          return dy > 0n ? dy : null;
+        }
+        try {
+          return CurveStableSwapMath.getDy(
+            i, j, amountIn, state.balances, state.rates, state.amplification, state.feeRaw
+          );
+        } catch (error) {
+          // The invariant did not converge for these balances; the pool cannot be quoted
+          return null;
+        }
+      }
+
+      case 'BALANCER': {
+        try {
+          if (state.weights.length > 0) {
+            return BalancerWeightedMath.calcOutGivenIn(
+              state.balances[i], state.weights[i],
+              state.balances[j], state.weights[j],
+              amountIn, state.swapFeeRaw,
+              state.scalingFactors[i], state.scalingFactors[j]
+            );
+          }
+          if (state.amplification > 0n) {
+            return BalancerStableMath.calcOutGivenIn(
+              state.amplification, state.balances, i, j, amountIn, state.swapFeeRaw, state.scalingFactors
+            );
+          }
+          return null;
+        } catch (error) {
+          // Trades beyond the pool's max in ratio revert on-chain as well
+          return null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Tick bitmap words around the current tick plus liquidityNet of every initialized tick in them.
+   * Cached per pool and block so any number of sizes can be quoted offline.
+   */
+  async getV3TickSnapshot(state: V3PoolState, wordRadius: number = 2): Promise<V3TickSnapshot> {
+    const cacheKey = `${state.chainId}:${state.blockNumber}:${state.address.toLowerCase()}:${wordRadius}`;
+    const cached = this.tickSnapshotCache.get(cacheKey);
+    if (cached) return cached;
+
+    const read = (method: string, args: any[] = []) =>
+      this.multicall.call(state.chainId, state.address, V3_POOL_ABI, method, args, state.blockNumber);
+    const [tickSpacing] = (await read('tickSpacing')).map(Number);
+
+    let compressed = Math.trunc(state.tick / tickSpacing);
+    if (state.tick < 0 && state.tick % tickSpacing !== 0) compressed--;
+    const { wordPos } = TickBitmap.position(compressed);
+
+    const wordPositions: number[] = [];
+    for (let w = wordPos - wordRadius; w <= wordPos + wordRadius; w++) {
+      wordPositions.push(w);
+    }
+    const words = await Promise.all(wordPositions.map(async w => (await read('tickBitmap', [w]))[0]));
+
+    const tickBitmap = new Map<number, bigint>();
+    const initializedTicks: number[] = [];
+    wordPositions.forEach((w, index) => {
+      const word = BigInt(words[index]);
+      tickBitmap.set(w, word);
+      for (let bit = 0; bit < 256; bit++) {
+        if ((word >> BigInt(bit)) & 1n) {
+          initializedTicks.push((w * 256 + bit) * tickSpacing);
+        }
+      }
+    });
+
+    const tickData = await Promise.all(initializedTicks.map(tick => read('ticks', [tick])));
+    const liquidityNet = new Map<number, bigint>();
+    initializedTicks.forEach((tick, index) => {
+      liquidityNet.set(tick, BigInt(tickData[index][1]));
+    });
+
+    const snapshot: V3TickSnapshot = {
+      sqrtPriceX96: state.sqrtPriceX96,
+      tick: state.tick,
+      liquidity: state.liquidity,
+      fee: state.feeTier,
+      tickSpacing,
+      tickBitmap,
+      liquidityNet,
+      blockNumber: state.blockNumber
+    };
+
+    this.tickSnapshotCache.set(cacheKey, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Output-side liquidity available to a tokenIn -> tokenOut swap, in tokenOut wei
+   */
+  getOutputLiquidity(state: PoolState, tokenOut: string): bigint {
+    const j = this.indexOf(state, tokenOut);
+    if (j < 0) return 0n;
+
+    switch (state.kind) {
+      case 'UNISWAP_V2':
+        return j === 0 ? state.reserve0 : state.reserve1;
+
+      case 'UNISWAP_V3':
+        // Virtual reserves of the active range: x = L / sqrtP, y = L * sqrtP
+        if (state.sqrtPriceX96 === 0n) return 0n;
+        return j === 0
+          ? (state.liquidity * Q96) / state.sqrtPriceX96
+          : (state.liquidity * state.sqrtPriceX96) / Q96;
+
+      case 'CURVE':
+      case 'BALANCER':
+        return state.balances[j] ?? 0n;
+    }
+  }
+
+  /**
+   * Token decimals, cached per chain for the lifetime of the reader
+   */
+  async getTokenDecimals(chainId: number, token: string): Promise<number> {
+    if (token.toLowerCase() === NATIVE_ETH) return 18;
+    const key = `${chainId}:${token.toLowerCase()}`;
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const [decimals] = (await this.multicall.call(chainId, token, ERC20_DECIMALS_ABI, 'decimals')).map(Number);
+    this.decimalsCache.set(key, decimals);
+    return decimals;
+  }
+
+  /**
+   * Drop a chain's cached state for blocks older than the given one; block heights of other chains are unrelated
+   */
+  pruneBefore(chainId: number, blockNumber: number): void {
+    for (const cache of [this.stateCache, this.tickSnapshotCache]) {
+      for (const key of cache.keys()) {
+        const [keyChainId, keyBlock] = key.split(':').map(part => parseInt(part));
+        if (keyChainId === chainId && keyBlock < blockNumber) {
+          cache.delete(key);
+        }
+      }
+    }
+  }
+
+  private async readPoolState(
+    tokenA: string,
+    tokenB: string,
+    router: DEXRouter,
+    blockNumber: number
+  ): Promise<PoolState | null> {
+    try {
+      switch (router.routerType) {
+        case 'UNISWAP_V2':
+          return await this.readV2Pool(tokenA, tokenB, router, blockNumber);
+        case 'UNISWAP_V3':
+          return await this.readV3Pool(tokenA, tokenB, router, blockNumber);
+        case 'CURVE':
+          return await this.readCurvePool(tokenA, tokenB, router, blockNumber);
+        case 'BALANCER':
+          return await this.readBalancerPool(tokenA, tokenB, router, blockNumber);
+        default:
+          // GMX prices come from its oracle, there is no pool state to read
+          return null;
+      }
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async readV2Pool(
+    tokenA: string,
+    tokenB: string,
+    router: DEXRouter,
+    blockNumber: number
+  ): Promise<V2PoolState | null> {
+    const chainId = router.chainId;
+    const [pairAddress] = await this.resolvePoolAddresses(router, tokenA, tokenB, async () => {
+      const [factoryAddress] = await this.multicall.call(chainId, router.address, V2_ROUTER_ABI, 'factory');
+      const [pair] = await this.multicall.call(chainId, factoryAddress, V2_FACTORY_ABI, 'getPair', [tokenA, tokenB]);
+      return pair === ZeroAddress ? [] : [pair];
+    });
+    if (!pairAddress) return null;
+
+    const read = (method: string) =>
+      this.multicall.call(chainId, pairAddress, V2_PAIR_ABI, method, [], blockNumber);
+    const [[token0], [token1], reserves] = await Promise.all([
+      read('token0'),
+      read('token1'),
+      read('getReserves')
+    ]);
+
+    return {
+      kind: 'UNISWAP_V2',
+      chainId,
+      address: pairAddress,
+      router,
+      blockNumber,
+      tokens: [token0, token1],
+      fee: this.parseFeeStructure(router.feeStructure),
+      reserve0: BigInt(reserves[0]),
+      reserve1: BigInt(reserves[1])
+    };
+  }
+
+  private async readV3Pool(
+    tokenA: string,
+    tokenB: string,
+    router: DEXRouter,
+    blockNumber: number
+  ): Promise<V3PoolState | null> {
+    const chainId = router.chainId;
+    const factoryAddress = PoolStateReader.V3_FACTORIES[chainId];
+    if (!factoryAddress) return null;
+
+    const poolAddresses = await this.resolvePoolAddresses(router, tokenA, tokenB, async () => {
+      const pools = await Promise.all(
+        PoolStateReader.V3_FEE_TIERS.map(async fee =>
+          (await this.multicall.call(chainId, factoryAddress, V3_FACTORY_ABI, 'getPool', [tokenA, tokenB, fee]))[0]
+        )
+      );
+      return pools.filter((pool: string) => pool !== ZeroAddress);
+    });
+
+    const states = await Promise.all(poolAddresses.map(async (poolAddress): Promise<V3PoolState> => {
+      const read = (method: string) =>
+        this.multicall.call(chainId, poolAddress, V3_POOL_ABI, method, [], blockNumber);
+      const [[token0], [token1], [feeTier], [liquidity], slot0] = await Promise.all([
+        read('token0'),
+        read('token1'),
+        read('fee'),
+        read('liquidity'),
+        read('slot0')
+      ]);
+
+      return {
+        kind: 'UNISWAP_V3',
+        chainId,
+        address: poolAddress,
+        router,
+        blockNumber,
+        tokens: [token0, token1],
+        fee: Number(feeTier) / 1_000_000,
+        feeTier: Number(feeTier),
+        sqrtPriceX96: BigInt(slot0[0]),
+        tick: Number(slot0[1]),
+        liquidity: BigInt(liquidity)
+      };
+    }));
+
+    // Several fee tiers can exist for a pair; quote from the one with the deepest active range
+    let best: V3PoolState | null = null;
+    for (const state of states) {
+      if (!best || state.liquidity > best.liquidity) {
+        best = state;
+      }
+    }
+
+    return best;
+  }
+
+  private async readCurvePool(
+    tokenA: string,
+    tokenB: string,
+    router: DEXRouter,
+    blockNumber: number
+  ): Promise<CurvePoolState | null> {
+    const chainId = router.chainId;
+
+    // Older StableSwap pools index coins with int128, newer and crypto pools with uint256
+    let int128Indices = true;
+    let coins = await this.readCurveCoins(chainId, router.address, CURVE_INT128_ABI, blockNumber);
+    if (coins.length === 0) {
+      int128Indices = false;
+      coins = await this.readCurveCoins(chainId, router.address, CURVE_UINT256_ABI, blockNumber);
+    }
+    if (coins.length === 0) return null;
+
+    const lowerCoins = coins.map(coin => coin.toLowerCase());
+    if (!lowerCoins.includes(tokenA.toLowerCase()) || !lowerCoins.includes(tokenB.toLowerCase())) {
+      return null;
+    }
+
+    const poolAbi = int128Indices ? CURVE_INT128_ABI : CURVE_UINT256_ABI;
+    const readParam = (method: string) =>
+      this.multicall.tryCall(chainId, router.address, CURVE_PARAMS_ABI, method, [], blockNumber);
+
+    // Optional getters are read in the same batch and probed by whether they revert
+    const [balances, feeResult, decimals, gamma, aPrecise, a] = await Promise.all([
+      Promise.all(coins.map(async (_, i) =>
+        (await this.multicall.tryCall(chainId, router.address, poolAbi, 'balances', [i], blockNumber))?.[0] ?? null
+      )),
+      readParam('fee'),
+      Promise.all(coins.map(coin => this.getTokenDecimals(chainId, coin))),
+      readParam('gamma'),
+      readParam('A_precise'),
+      readParam('A')
+    ]);
+    if (!feeResult || balances.some(balance => balance === null)) return null;
+
+    // A_precise() is missing on pools deployed before A ramping was added
+    let amplification: bigint;
+    if (aPrecise) {
+      amplification = BigInt(aPrecise[0]);
+    } else if (a) {
+      amplification = BigInt(a[0]) * CurveStableSwapMath.A_PRECISION;
+    } else {
+      return null;
+    }
+
+    const feeRaw = BigInt(feeResult[0]);
+    return {
+      kind: 'CURVE',
+      chainId,
+      address: router.address,
+      router,
+      blockNumber,
+      tokens: coins,
+      fee: Number(feeRaw) / 1e10,
+      balances: balances.map((balance: bigint) => BigInt(balance)),
+      amplification,
+      feeRaw,
+      rates: CurveStableSwapMath.ratesFromDecimals(decimals),
+      int128Indices,
+      // Only CryptoSwap pools expose gamma()
+      cryptoPool: gamma !== null
+    };
+  }
+
+  private async readCurveCoins(chainId: number, pool: string, abi: string[], blockNumber: number): Promise<string[]> {
+    // Curve pools hold at most 8 coins; coins(i) reverts past the last one
+    const results = await Promise.all(
+      [0, 1, 2, 3, 4, 5, 6, 7].map(i => this.multicall.tryCall(chainId, pool, abi, 'coins', [i], blockNumber))
+    );
+
+    const coins: string[] = [];
+    for (const result of results) {
+      if (!result) break;
+      coins.push(result[0]);
+    }
+    return coins;
+  }
+
+  private async quoteCurve(state: CurvePoolState, i: number, j: number, dx: bigint): Promise<bigint> {
+    const abi = state.int128Indices ? CURVE_INT128_ABI : CURVE_UINT256_ABI;
+    const result = await this.multicall.tryCall(
+      state.chainId, state.address, abi, 'get_dy', [i, j, dx], state.blockNumber
+    );
+    return result ? BigInt(result[0]) : 0n;
+  }
+
+  private async readBalancerPool(
+    tokenA: string,
+    tokenB: string,
+    router: DEXRouter,
+    blockNumber: number
+  ): Promise<BalancerPoolState | null> {
+    const chainId = router.chainId;
+    const a = tokenA.toLowerCase();
+    const b = tokenB.toLowerCase();
+
+    const poolIds = PoolStateReader.BALANCER_POOLS[chainId] || [];
+    const poolTokens = await Promise.all(poolIds.map(poolId =>
+      this.multicall.tryCall(chainId, router.address, BALANCER_VAULT_ABI, 'getPoolTokens', [poolId], blockNumber)
+    ));
+
+    for (let index = 0; index < poolIds.length; index++) {
+      const result = poolTokens[index];
+      if (!result) continue;
+      const poolId = poolIds[index];
+      const [tokens, balances] = result;
+      const lowerTokens = tokens.map((token: string) => token.toLowerCase());
+      if (!lowerTokens.includes(a) || !lowerTokens.includes(b)) continue;
+
+      // The pool address is the first 20 bytes of its id
+      const poolAddress = ethers.getAddress(ethers.dataSlice(poolId, 0, 20));
+      const readPool = (method: string) =>
+        this.multicall.tryCall(chainId, poolAddress, BALANCER_POOL_ABI, method, [], blockNumber);
+
+      // Stable pools have no weights, only an amplification parameter
+      const [swapFee, normalized, ampParameter, decimals] = await Promise.all([
+        readPool('getSwapFeePercentage'),
+        readPool('getNormalizedWeights'),
+        readPool('getAmplificationParameter'),
+        Promise.all(tokens.map((token: string) => this.getTokenDecimals(chainId, token)))
+      ]);
+      if (!swapFee || (!normalized && !ampParameter)) return null;
+
+      const swapFeeRaw = BigInt(swapFee[0]);
+      const weights: bigint[] = normalized ? normalized[0].map((weight: bigint) => BigInt(weight)) : [];
+      const amplification = !normalized && ampParameter ? BigInt(ampParameter[0]) : 0n;
+
+      return {
+        kind: 'BALANCER',
+        chainId,
+        address: poolAddress,
+        router,
+        blockNumber,
+        tokens: [...tokens],
+        fee: Number(swapFeeRaw) / 1e18,
+        poolId,
+        balances: balances.map((balance: bigint) => BigInt(balance)),
+        weights,
+        amplification,
+        scalingFactors: decimals.map((d: number) => 10n ** BigInt(18 - d)),
+        swapFeeRaw
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Pool addresses never change for a pair, so they are cached across blocks
+   */
+  private async resolvePoolAddresses(
+    router: DEXRouter,
+    tokenA: string,
+    tokenB: string,
+    lookup: () => Promise<string[]>
+  ): Promise<string[]> {
+    const pairKey = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join('-');
+    const key = `${router.chainId}:${router.name}:${pairKey}`;
+    const cached = this.poolAddressCache.get(key);
+    if (cached) return cached;
+
+    const addresses = await lookup();
+    this.poolAddressCache.set(key, addresses);
+    return addresses;
+  }
+
+  private indexOf(state: PoolState, token: string): number {
+    const lower = token.toLowerCase();
+    return state.tokens.findIndex(t => t.toLowerCase() === lower);
+  }
+
+  private parseFeeStructure(feeStructure: string): number {
+    const match = feeStructure.match(/(\d+\.?\d*)%/);
+    return match ? parseFloat(match[1]) / 100 : 0.003;
+  }
+
+  private requireProvider(chainId: number): Provider {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,261 @@
+import { EventEmitter } from "events";
+import { formatUnits, parseEther } from "ethers";
+import { MulticallBatcher } from "./multicall";
+import { TokenPriceLookup } from "./pool-discovery";
+import { TokenRegistry } from "./token-registry";
+
+/**
+ * What to value on one chain
+ */
+export interface PortfolioChain {
+  chainId: number;
+  weth: string; // Native ETH and WETH are valued 1:1 in ETH, and the WETH USD feed prices ETH
+  holders: string[]; // Executor wallet and bot contract
+  tokens: string[]; // ERC20s to value besides native ETH; every token the registry has resolved is added
+}
+
+export interface PortfolioHolding {
+  chainId: number;
+  holder: string;
+  token: string | null; // null for native ETH
+  symbol: string;
+  amount: bigint;
+  valueUsd: number;
+  valueEth: bigint;
+  priceAge?: number; // Set when the token had no price this round and its last known one was used (ms)
+}
+
+export interface UnpricedHolding {
+  chainId: number;
+  holder: string;
+  token: string;
+  symbol: string;
+  amount: bigint;
+}
+
+export interface PortfolioValuation {
+  timestamp: number;
+  ethUsd: number;
+  totalEth: bigint;
+  totalUsd: number;
+  byChain: Map<number, bigint>; // ETH value per chain
+  byToken: Map<string, bigint>; // ETH value per token symbol, across chains
+  holdings: PortfolioHolding[]; // Non-zero balances only
+  unpriced: UnpricedHolding[]; // No price has ever been read for these, so they are left out of the totals
+}
+
+/**
+ * Fallback for tokens without a USD price: whole ETH per whole token, from an ETH-quoted feed or DEX pools
+ */
+export type TokenEthPriceLookup = (chainId: number, token: string) => Promise<number | null>;
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+const ETH_BALANCE_ABI = ["function getEthBalance(address addr) view returns (uint256 balance)"];
+
+/**
+ * Values every token the executor and bot contracts hold on each configured chain in ETH and USD,
+ * so the risk manager's drawdown, exposure and position limits follow real capital. Balances are
+ * read through Multicall3; a balance that cannot be read fails the whole valuation rather than
+ * undercounting capital. Prices come from the oracle layer in USD, or in ETH converted at the ETH/USD
+ * price for tokens without a USD feed, falling back to the last known price when a read fails, so a
+ * flaky feed does not look like a drawdown. Holdings with no price at all are reported as unpriced.
+ */
+export class PortfolioValuationService extends EventEmitter {
+
+  private static readonly DEFAULT_REFRESH_MS = 60 * 1000;
+
+  private multicall: MulticallBatcher;
+  private tokenRegistry: TokenRegistry;
+  private priceUsd: TokenPriceLookup;
+  private priceEth?: TokenEthPriceLookup;
+  private chains: PortfolioChain[];
+  private refreshMs: number;
+  private lastPrices: Map<string, { price: number; at: number }>;
+  private latest: PortfolioValuation | null;
+  private inflight: Promise<PortfolioValuation> | null;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    multicall: MulticallBatcher,
+    tokenRegistry: TokenRegistry,
+    priceUsd: TokenPriceLookup,
+    chains: PortfolioChain[],
+    refreshMs: number = PortfolioValuationService.DEFAULT_REFRESH_MS,
+    priceEth?: TokenEthPriceLookup
+  ) {
+    super();
+    this.multicall = multicall;
+    this.tokenRegistry = tokenRegistry;
+    this.priceUsd = priceUsd;
+    this.priceEth = priceEth;
+    this.chains = chains.map(chain => ({
+      ...chain,
+      // Unset contract addresses are skipped, and the same address is not counted twice
+      holders: [...new Set(chain.holders.filter(holder => !!holder).map(holder => holder.toLowerCase()))]
+    }));
+    this.refreshMs = refreshMs;
+    this.lastPrices = new Map();
+    this.latest = null;
+    this.inflight = null;
+  }
+
+  /**
+   * The most recent valuation, or null before the first one completes
+   */
+  getLatest(): PortfolioValuation | null {
+    return this.latest;
+  }
+
+  /**
+   * Value the portfolio now and emit it as 'valuation'; concurrent callers share one run
+   */
+  async refresh(): Promise<PortfolioValuation> {
+    if (!this.inflight) {
+      this.inflight = this.value().finally(() => { this.inflight = null; });
+    }
+    const valuation = await this.inflight;
+    if (valuation !== this.latest) {
+      this.latest = valuation;
+      this.emit('valuation', valuation);
+    }
+    return valuation;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error("❌ Portfolio valuation failed, keeping the last one:", error));
+    }, this.refreshMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async value(): Promise<PortfolioValuation> {
+    const ethUsd = await this.getEthUsd();
+    const valuation: PortfolioValuation = {
+      timestamp: Date.now(),
+      ethUsd,
+      totalEth: 0n,
+      totalUsd: 0,
+      byChain: new Map(),
+      byToken: new Map(),
+      holdings: [],
+      unpriced: []
+    };
+
+    await Promise.all(this.chains.map(async chain => {
+      const [nativeBalances, tokenBalances] = await Promise.all([
+        Promise.all(chain.holders.map(holder => this.multicall.call(
+          chain.chainId, MulticallBatcher.MULTICALL3_ADDRESS, ETH_BALANCE_ABI, 'getEthBalance', [holder]
+        ))),
+        Promise.all(this.tokensFor(chain).map(token => this.valueToken(chain, token, ethUsd)))
+      ]);
+
+      chain.holders.forEach((holder, index) => {
+        const amount = BigInt(nativeBalances[index][0]);
+        this.add(valuation, {
+          chainId: chain.chainId, holder, token: null, symbol: "ETH", amount,
+          valueUsd: Number(formatUnits(amount, 18)) * ethUsd, valueEth: amount
+        });
+      });
+      for (const holdings of tokenBalances) {
+        for (const holding of holdings) {
+          if ('valueEth' in holding) {
+            this.add(valuation, holding);
+          } else {
+            valuation.unpriced.push(holding);
+          }
+        }
+      }
+    }));
+
+    for (const { chainId, symbol, amount } of valuation.unpriced) {
+      console.warn(`⚠️ No USD or ETH price for ${symbol} on chain ${chainId}; ${amount} units left out of the portfolio value`);
+    }
+    return valuation;
+  }
+
+  // Balances of one token across the chain's holders, priced in USD and ETH where a price is known
+  private async valueToken(
+    chain: PortfolioChain,
+    token: string,
+    ethUsd: number
+  ): Promise<Array<PortfolioHolding | UnpricedHolding>> {
+    const [metadata, balances] = await Promise.all([
+      this.tokenRegistry.resolve(chain.chainId, token),
+      Promise.all(chain.holders.map(holder =>
+        this.multicall.call(chain.chainId, token, ERC20_BALANCE_ABI, 'balanceOf', [holder])))
+    ]);
+    if (!metadata) {
+      throw new Error(`PortfolioValuation: no token metadata for ${token} on chain ${chain.chainId}`);
+    }
+
+    const held = chain.holders
+      .map((holder, index) => ({ holder, amount: BigInt(balances[index][0]) }))
+      .filter(({ amount }) => amount > 0n);
+    if (held.length === 0) return [];
+
+    const isWeth = token.toLowerCase() === chain.weth.toLowerCase();
+    const price = isWeth ? { price: ethUsd, age: undefined } : await this.getTokenPrice(chain.chainId, token, ethUsd);
+
+    return held.map(({ holder, amount }) => {
+      const base = { chainId: chain.chainId, holder, token, symbol: metadata.symbol, amount };
+      if (!price) return base;
+
+      const valueUsd = Number(formatUnits(amount, metadata.decimals)) * price.price;
+      return {
+        ...base,
+        valueUsd,
+        valueEth: isWeth ? amount : parseEther((valueUsd / ethUsd).toFixed(18)),
+        priceAge: price.age
+      };
+    });
+  }
+
+  // Configured tokens plus any the bot has traded through since, each once
+  private tokensFor(chain: PortfolioChain): string[] {
+    const tokens = [...chain.tokens, ...this.tokenRegistry.tokensOn(chain.chainId)];
+    return [...new Map(tokens.map(token => [token.toLowerCase(), token])).values()];
+  }
+
+  // ETH/USD from the first chain whose WETH feed answers
+  private async getEthUsd(): Promise<number> {
+    for (const chain of this.chains) {
+      const price = await this.getTokenPrice(chain.chainId, chain.weth);
+      if (price) return price.price;
+    }
+    throw new Error("PortfolioValuation: no ETH/USD price on any configured chain");
+  }
+
+  // USD price, else the ETH price at ethUsd; ETH/USD itself is read without the ETH fallback
+  private async getTokenPrice(chainId: number, token: string, ethUsd?: number): Promise<{ price: number; age?: number } | null> {
+    const key = `${chainId}:${token.toLowerCase()}`;
+    let price = await this.priceUsd(chainId, token);
+    if ((price === null || price <= 0) && ethUsd !== undefined && this.priceEth) {
+      const priceEth = await this.priceEth(chainId, token);
+      price = priceEth !== null && priceEth > 0 ? priceEth * ethUsd : null;
+    }
+    if (price !== null && price > 0) {
+      this.lastPrices.set(key, { price, at: Date.now() });
+      return { price };
+    }
+
+    const last = this.lastPrices.get(key);
+    return last ? { price: last.price, age: Date.now() - last.at } : null;
+  }
+
+  private add(valuation: PortfolioValuation, holding: PortfolioHolding): void {
+    if (holding.amount === 0n) return;
+    valuation.holdings.push(holding);
+    valuation.totalEth += holding.valueEth;
+    valuation.totalUsd += holding.valueUsd;
+    valuation.byChain.set(holding.chainId, (valuation.byChain.get(holding.chainId) || 0n) + holding.valueEth);
+    valuation.byToken.set(holding.symbol, (valuation.byToken.get(holding.symbol) || 0n) + holding.valueEth);
+  }
+}
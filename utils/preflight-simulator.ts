@@ -0,0 +1,223 @@
+import { AbiCoder, TransactionDescription, getAddress, keccak256, toBeHex, toQuantity, zeroPadValue } from "ethers";
+import { FlashArbBotEvent, FlashArbBotFactory } from "./flash-arb-bot";
+import { RpcEndpoint } from "./execution-channels";
+import { ClassifiedFailure, DecodedRevert, FailureTaxonomy, RevertDecoder } from "./revert-decoder";
+
+/**
+ * Geth-style per-account state override, as eth_call, eth_simulateV1 and debug_traceCall accept it
+ */
+export interface AccountOverride {
+  balance?: string;
+  nonce?: string;
+  code?: string;
+  stateDiff?: Record<string, string>;
+}
+
+export type StateOverrides = Record<string, AccountOverride>;
+
+/**
+ * The transaction exactly as it will be signed; only its calldata, target and gas fields are used
+ */
+export interface PreflightTransaction {
+  from: string;
+  to: string;
+  data: string;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  value?: bigint;
+}
+
+export interface PreflightOptions {
+  blockTag: string; // 'pending' sees the mempool on nodes that keep one; rollup sequencers treat it as latest
+}
+
+export interface PreflightResult {
+  ok: boolean;
+  method: string; // Bot entry point decoded from the calldata
+  expectedProfit: bigint; // Decoded from the calldata, asset units
+  minProfit: bigint; // expectedProfit * 95 / 100, the contract's own floor
+  profit: bigint; // Realized in the simulation; zero when it reverted
+  gasUsed: bigint;
+  events: FlashArbBotEvent[];
+  reason?: string;
+  failure?: ClassifiedFailure; // Set when the simulation reverted or fell short of the floor
+}
+
+interface SimulatedCall {
+  gasUsed: bigint;
+  logs: { address: string; topics: string[]; data: string }[];
+  revert?: DecodedRevert; // Set when the call reverted
+}
+
+/**
+ * Mandatory pre-flight for live submissions: runs the exact calldata against the pending block
+ * with state overrides and reads the realized profit from the bot's own execution events.
+ * eth_call returns no logs, so the call goes through eth_simulateV1 and falls back to
+ * debug_traceCall's call tracer; a node that supports neither fails the pre-flight.
+ */
+export class PreflightSimulator {
+  private static readonly DEFAULT_OPTIONS: PreflightOptions = {
+    blockTag: 'pending'
+  };
+
+  private rpc: RpcEndpoint;
+  private options: PreflightOptions;
+
+  constructor(rpc: RpcEndpoint, options: Partial<PreflightOptions> = {}) {
+    this.rpc = rpc;
+    this.options = { ...PreflightSimulator.DEFAULT_OPTIONS, ...options };
+  }
+
+  async simulate(tx: PreflightTransaction, overrides: StateOverrides = {}): Promise<PreflightResult> {
+    const result: PreflightResult = {
+      ok: false, method: '', expectedProfit: 0n, minProfit: 0n, profit: 0n, gasUsed: 0n, events: []
+    };
+
+    let decoded: TransactionDescription | null;
+    try {
+      decoded = FlashArbBotFactory.createInterface().parseTransaction({ data: tx.data, value: tx.value ?? 0n });
+    } catch (error) {
+      decoded = null;
+    }
+    if (!decoded || decoded.args.expectedProfit === undefined) {
+      result.reason = 'calldata is not a bot arbitrage entry point';
+      return result;
+    }
+    result.method = decoded.name;
+    result.expectedProfit = BigInt(decoded.args.expectedProfit);
+    result.minProfit = result.expectedProfit * 95n / 100n;
+
+    let call: SimulatedCall;
+    try {
+      call = await this.execute(tx, PreflightSimulator.mergeOverrides(this.executorFunds(tx), overrides));
+    } catch (error) {
+      result.reason = `simulation unavailable: ${error instanceof Error ? error.message : String(error)}`;
+      return result;
+    }
+
+    result.gasUsed = call.gasUsed;
+    if (call.revert) {
+      result.failure = FailureTaxonomy.classify(call.revert);
+      result.reason = `reverted: ${result.failure.reason}`;
+      return result;
+    }
+
+    result.events = FlashArbBotFactory.parseLogs(call.logs as any[], tx.to);
+    // Every accepted entry point emits one execution event; executeBatchArbitrage carries no expectedProfit
+    // and is refused above, so its per-trade events never reach this sum
+    const executions = result.events.filter(event =>
+      event.name === 'ArbitrageExecuted' || event.name === 'TriangularArbitrageExecuted' || event.name === 'RouteArbitrageExecuted'
+    );
+    if (executions.length === 0) {
+      result.reason = 'no execution event in the simulated logs';
+      return result;
+    }
+    result.profit = executions.reduce((sum, event) => sum + (event as { profit: bigint }).profit, 0n);
+
+    if (result.profit < result.minProfit) {
+      result.reason = `simulated profit ${result.profit} is below ${result.minProfit} (95% of ${result.expectedProfit})`;
+      result.failure = { category: 'STALE_QUOTE', reason: result.reason };
+      return result;
+    }
+    result.ok = true;
+    return result;
+  }
+
+  /**
+   * Overrides for an ERC20 whose balances live in a `mapping(address => uint256)` at `balanceSlot`
+   */
+  static tokenBalance(token: string, holder: string, amount: bigint, balanceSlot: number): StateOverrides {
+    return { [getAddress(token)]: { stateDiff: { [PreflightSimulator.mappingSlot([holder], balanceSlot)]: zeroPadValue(toBeHex(amount), 32) } } };
+  }
+
+  /**
+   * Overrides for an ERC20 whose allowances live in a `mapping(address => mapping(address => uint256))` at `allowanceSlot`
+   */
+  static tokenAllowance(token: string, owner: string, spender: string, amount: bigint, allowanceSlot: number): StateOverrides {
+    return { [getAddress(token)]: { stateDiff: { [PreflightSimulator.mappingSlot([owner, spender], allowanceSlot)]: zeroPadValue(toBeHex(amount), 32) } } };
+  }
+
+  static mergeOverrides(...sets: StateOverrides[]): StateOverrides {
+    const merged: StateOverrides = {};
+    for (const set of sets) {
+      for (const [address, override] of Object.entries(set)) {
+        const account = getAddress(address);
+        const { stateDiff, ...fields } = override;
+        const existing = merged[account] || {};
+        merged[account] = { ...existing, ...fields };
+        // Slots from different sets accumulate; a later set wins per slot
+        if (existing.stateDiff || stateDiff) merged[account].stateDiff = { ...existing.stateDiff, ...stateDiff };
+      }
+    }
+    return merged;
+  }
+
+  // The executor only needs to afford the gas it signs for; a balance shortfall is not the trade's fault
+  private executorFunds(tx: PreflightTransaction): StateOverrides {
+    return { [getAddress(tx.from)]: { balance: toQuantity(tx.gasLimit * tx.maxFeePerGas + (tx.value ?? 0n)) } };
+  }
+
+  private async execute(tx: PreflightTransaction, overrides: StateOverrides): Promise<SimulatedCall> {
+    const request = {
+      from: getAddress(tx.from),
+      to: getAddress(tx.to),
+      data: tx.data,
+      gas: toQuantity(tx.gasLimit),
+      value: toQuantity(tx.value ?? 0n)
+    };
+
+    try {
+      const [block] = await this.rpc.send('eth_simulateV1', [
+        { blockStateCalls: [{ stateOverrides: overrides, calls: [request] }], validation: false },
+        this.options.blockTag
+      ]);
+      const call = block.calls[0];
+      return {
+        gasUsed: BigInt(call.gasUsed ?? 0),
+        logs: call.logs || [],
+        revert: call.status === '0x1'
+          ? undefined
+          : RevertDecoder.decode({ data: call.error?.data ?? call.returnData, message: call.error?.message ?? 'execution reverted' })
+      };
+    } catch (error) {
+      if (!PreflightSimulator.isUnsupported(error)) throw error;
+    }
+
+    const frame = await this.rpc.send('debug_traceCall', [
+      request,
+      this.options.blockTag,
+      { tracer: 'callTracer', tracerConfig: { withLog: true }, stateOverrides: overrides }
+    ]);
+    return {
+      gasUsed: BigInt(frame.gasUsed ?? 0),
+      logs: PreflightSimulator.frameLogs(frame),
+      revert: frame.error ? RevertDecoder.decodeFrame(frame) : undefined
+    };
+  }
+
+  // Logs of the call tree in execution order; the tracer already drops those of reverted frames
+  private static frameLogs(frame: any): SimulatedCall['logs'] {
+    const logs = [...(frame.logs || [])].map((log: any) => ({ ...log, position: Number(log.position ?? 0) }));
+    const children = (frame.calls || []).map((child: any) => PreflightSimulator.frameLogs(child));
+    const ordered: SimulatedCall['logs'] = [];
+    // position is the number of subcalls made before the log was emitted
+    for (let i = 0; i <= children.length; i++) {
+      ordered.push(...logs.filter(log => log.position === i));
+      if (i < children.length) ordered.push(...children[i]);
+    }
+    return ordered;
+  }
+
+  private static isUnsupported(error: unknown): boolean {
+    const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+    return /-32601|not (found|supported|available)|does not exist|unsupported method|method .*not/.test(message);
+  }
+
+  private static mappingSlot(keys: string[], slot: number): string {
+    let location = toBeHex(slot, 32);
+    for (const key of keys) {
+      location = keccak256(AbiCoder.defaultAbiCoder().encode(['address', 'bytes32'], [getAddress(key), location]));
+    }
+    return location;
+  }
+}
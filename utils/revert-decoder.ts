@@ -0,0 +1,181 @@
+import { AbiCoder, Interface, dataSlice, isHexString } from "ethers";
+import { FlashArbBotFactory } from "./flash-arb-bot";
+import { RpcEndpoint } from "./execution-channels";
+import { BundleOutcome } from "./bundle-submitter";
+
+export type RevertKind = 'Error' | 'Panic' | 'Custom' | 'Message' | 'Empty';
+
+/**
+ * A revert as far as it could be decoded: Error(string) reasons and custom errors from their data,
+ * Panic codes by name, and node messages (out of gas, nonce) when there was no data at all
+ */
+export interface DecodedRevert {
+  kind: RevertKind;
+  reason: string;
+  selector?: string;
+  panicCode?: number;
+  args?: unknown[];
+}
+
+export type FailureCategory =
+  | 'STALE_QUOTE' // Prices moved between quote and execution; the trade no longer clears its profit floor
+  | 'COMPETITION' // Outbid or not included; someone else took the opportunity or the block space
+  | 'SLIPPAGE' // A swap returned less than its minimum output
+  | 'ORACLE_GUARD' // The contract's price feed checks refused the trade
+  | 'NONCE' // The executor's nonce was used or skipped
+  | 'OUT_OF_GAS'
+  | 'UNKNOWN';
+
+export interface ClassifiedFailure {
+  category: FailureCategory;
+  reason: string;
+  revert?: DecodedRevert;
+}
+
+const ERROR_SELECTOR = "0x08c379a0"; // Error(string)
+const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized function'
+};
+
+// Custom errors the bot's calls can bubble up besides its own ABI: OpenZeppelin 5 tokens and pausables
+const KNOWN_ERRORS: Interface = new Interface([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error EnforcedPause()",
+  "error ReentrancyGuardReentrantCall()"
+]);
+
+// First match wins; contract strings are matched before node messages that might contain them
+const CLASSIFIERS: [FailureCategory, RegExp][] = [
+  ['ORACLE_GUARD', /invalid price feed|invalid price|price too old|stale price|sequencer down/i],
+  ['STALE_QUOTE', /unprofitable|profit too low|profit deviation too high|batch not profitable|transaction expired/i],
+  ['SLIPPAGE', /hop output below minimum|insufficient_output_amount|insufficient output amount|too little received|fewer coins than expected|bal#507/i],
+  ['NONCE', /nonce too (low|high)|nonce has already been used|nonce_expired|invalid nonce/i],
+  ['OUT_OF_GAS', /out of gas|intrinsic gas too low|gas required exceeds|outofgas/i],
+  ['COMPETITION', /gas price too low|underpriced|max fee per gas less than block base fee|block full|not included|timeout/i]
+];
+
+/**
+ * Decodes reverts from eth_call / simulation errors, raw revert data and call traces
+ */
+export class RevertDecoder {
+
+  static decode(source: unknown): DecodedRevert {
+    if (typeof source === 'string') {
+      return isHexString(source) ? RevertDecoder.decodeData(source) : RevertDecoder.message(source);
+    }
+    if (source && typeof source === 'object') {
+      // ethers CallExceptionError carries the data at the top; provider errors nest it under info or error
+      const error = source as any;
+      const data = [error.data, error.info?.error?.data, error.error?.data].find(value => typeof value === 'string' && isHexString(value) && value !== '0x');
+      if (data) return RevertDecoder.decodeData(data);
+      return RevertDecoder.message(error.info?.error?.message ?? error.error?.message ?? error.shortMessage ?? error.message ?? String(error));
+    }
+    return { kind: 'Empty', reason: 'no revert data' };
+  }
+
+  static decodeData(data: string): DecodedRevert {
+    if (data.length < 10) return { kind: 'Empty', reason: 'no revert data' };
+    const selector = data.slice(0, 10).toLowerCase();
+
+    try {
+      if (selector === ERROR_SELECTOR) {
+        return { kind: 'Error', reason: AbiCoder.defaultAbiCoder().decode(['string'], dataSlice(data, 4))[0], selector };
+      }
+      if (selector === PANIC_SELECTOR) {
+        const panicCode = Number(AbiCoder.defaultAbiCoder().decode(['uint256'], dataSlice(data, 4))[0]);
+        return { kind: 'Panic', reason: PANIC_REASONS[panicCode] ?? `panic 0x${panicCode.toString(16)}`, selector, panicCode };
+      }
+    } catch (error) {
+      return { kind: 'Custom', reason: `malformed revert data ${selector}`, selector };
+    }
+
+    for (const iface of [FlashArbBotFactory.createInterface(), KNOWN_ERRORS]) {
+      try {
+        const parsed = iface.parseError(data);
+        if (parsed) return { kind: 'Custom', reason: parsed.name, selector, args: [...parsed.args] };
+      } catch (error) {
+        // Not one of this interface's errors
+      }
+    }
+    return { kind: 'Custom', reason: `custom error ${selector}`, selector };
+  }
+
+  /**
+   * The revert of a callTracer frame: its own output when the node kept it, otherwise the deepest failed subcall's
+   */
+  static decodeFrame(frame: any): DecodedRevert {
+    if (frame.output && frame.output !== '0x') return RevertDecoder.decodeData(frame.output);
+    if (frame.revertReason) return { kind: 'Error', reason: frame.revertReason, selector: ERROR_SELECTOR };
+    const failedChild = [...(frame.calls || [])].reverse().find((child: any) => child.error);
+    if (failedChild) return RevertDecoder.decodeFrame(failedChild);
+    return frame.error ? RevertDecoder.message(frame.error) : { kind: 'Empty', reason: 'no revert data' };
+  }
+
+  /**
+   * Re-executes a mined transaction under the call tracer to recover why it reverted; receipts carry no reason
+   */
+  static async decodeTransaction(rpc: RpcEndpoint, txHash: string): Promise<DecodedRevert> {
+    try {
+      const frame = await rpc.send('debug_traceTransaction', [txHash, { tracer: 'callTracer' }]);
+      return RevertDecoder.decodeFrame(frame);
+    } catch (error) {
+      console.error(`Error tracing ${txHash}:`, error);
+      return { kind: 'Empty', reason: 'trace unavailable' };
+    }
+  }
+
+  private static message(message: string): DecodedRevert {
+    // Nodes that decode the reason themselves report "execution reverted: <reason>"
+    const match = /execution reverted:?\s*(?:reason=)?"?([^"]+)"?$/i.exec(message.trim());
+    return { kind: match ? 'Error' : 'Message', reason: match ? match[1].trim() : message };
+  }
+}
+
+/**
+ * Maps decoded reverts and submission outcomes onto the failure categories fallback and risk decisions key off
+ */
+export class FailureTaxonomy {
+
+  static classify(source: DecodedRevert | string): ClassifiedFailure {
+    const revert = typeof source === 'string' ? RevertDecoder.decode(source) : source;
+    // Panics are bugs or unmodelled venues, never market conditions
+    if (revert.kind === 'Panic' || revert.kind === 'Empty') {
+      return { category: 'UNKNOWN', reason: revert.reason, revert };
+    }
+
+    for (const [category, pattern] of CLASSIFIERS) {
+      if (pattern.test(revert.reason)) return { category, reason: revert.reason, revert };
+    }
+    return { category: 'UNKNOWN', reason: revert.reason, revert };
+  }
+
+  /**
+   * A submission that did not land. Reverted transactions are only as specific as the decoded
+   * revert passed in; without one they stay UNKNOWN.
+   */
+  static fromOutcome(outcome: BundleOutcome, revert?: DecodedRevert): ClassifiedFailure {
+    switch (outcome.status) {
+      case 'NONCE_TOO_HIGH':
+        return { category: 'NONCE', reason: outcome.error ?? 'nonce consumed by another transaction' };
+      case 'NOT_INCLUDED':
+        return { category: 'COMPETITION', reason: outcome.error ?? 'not included before the deadline block' };
+      case 'PENDING_UNKNOWN':
+        return { category: 'COMPETITION', reason: outcome.error ?? 'not mined before the deadline block, and may still be' };
+      case 'REVERTED':
+        return revert ? FailureTaxonomy.classify(revert) : { category: 'UNKNOWN', reason: outcome.error ?? 'reverted on-chain' };
+      default:
+        return FailureTaxonomy.classify(outcome.error ?? outcome.status);
+    }
+  }
+}
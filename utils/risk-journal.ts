@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+import { CircuitBreakerStatus } from "./advanced-risk-manager";
+import { FailureCategory } from "./revert-decoder";
+
+/**
+ * One settled trade as the risk manager saw it; profit is net of gas, balance is the balance after it
+ */
+export interface JournaledTrade {
+  timestamp: number;
+  profit: bigint;
+  gasCost: bigint;
+  success: boolean;
+  failureCategory?: FailureCategory;
+  strategy: string;
+  tokenPair: string;
+  chainId: number;
+  tradeSize: bigint;
+  balance: bigint;
+}
+
+/**
+ * What a risk manager needs to pick up where the last process stopped
+ */
+export interface RiskJournalState {
+  initialCapital: bigint;
+  currentBalance: bigint;
+  peakBalance: bigint;
+  netFlows: bigint; // Deposits less withdrawals since the journal opened
+  circuitBreaker: CircuitBreakerStatus;
+  trades: JournaledTrade[]; // Only those inside the retention window
+}
+
+export type RiskJournalEntry =
+  | { type: 'open'; version: 1; timestamp: number; capital: bigint }
+  | { type: 'trade'; timestamp: number; trade: JournaledTrade }
+  | { type: 'breaker'; timestamp: number; status: CircuitBreakerStatus }
+  | { type: 'balance'; timestamp: number; balance: bigint } // A portfolio valuation replaced the balance
+  | { type: 'flow'; timestamp: number; amount: bigint; balance: bigint; note: string } // A deposit (+) or withdrawal (-); the peak moves with it
+  | { type: 'snapshot'; version: 1; timestamp: number; state: RiskJournalState };
+
+// Fields written as decimal strings, since JSON has no bigint
+const BIGINT_FIELDS = new Set(['capital', 'profit', 'gasCost', 'tradeSize', 'balance', 'amount', 'initialCapital', 'currentBalance', 'peakBalance', 'netFlows']);
+
+const INACTIVE_BREAKER: CircuitBreakerStatus = { isActive: false, reasons: [], canOverride: false, overrideConditions: [] };
+
+/**
+ * Append-only JSONL record of every trade result, external flow, portfolio valuation that moved the balance
+ * and circuit breaker transition, so a restart resumes with the same balance peak, trade history and breaker
+ * instead of a clean slate.
+ * Entries are appended synchronously: each is on disk before the decision it records takes effect.
+ */
+export class RiskJournal {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "data", "risk-journal.jsonl");
+  static readonly RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Matches the risk manager's history window
+
+  readonly filePath: string;
+  private tailChecked: boolean;
+
+  constructor(filePath: string = RiskJournal.DEFAULT_PATH) {
+    this.filePath = filePath;
+    this.tailChecked = false;
+  }
+
+  recordOpen(capital: bigint): void {
+    this.append({ type: 'open', version: 1, timestamp: Date.now(), capital });
+  }
+
+  recordTrade(trade: JournaledTrade): void {
+    this.append({ type: 'trade', timestamp: trade.timestamp, trade });
+  }
+
+  recordBalance(balance: bigint): void {
+    this.append({ type: 'balance', timestamp: Date.now(), balance });
+  }
+
+  recordFlow(amount: bigint, balance: bigint, note: string): void {
+    this.append({ type: 'flow', timestamp: Date.now(), amount, balance, note });
+  }
+
+  recordBreaker(status: CircuitBreakerStatus): void {
+    this.append({ type: 'breaker', timestamp: Date.now(), status });
+  }
+
+  /**
+   * Every entry in order; a missing file is an empty journal. A torn final line, left by a crash
+   * mid-append, is skipped; damage anywhere else is an error.
+   */
+  read(): RiskJournalEntry[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const lines = raw.split("\n");
+    const entries: RiskJournalEntry[] = [];
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line, (key, value) =>
+          BIGINT_FIELDS.has(key) && typeof value === "string" ? BigInt(value) : value));
+      } catch (error) {
+        if (index === lines.length - 1) {
+          console.warn(`⚠️ Skipping torn last entry in risk journal ${this.filePath}`);
+          return;
+        }
+        throw new Error(`RiskJournal: corrupt entry on line ${index + 1} of ${this.filePath}`);
+      }
+    });
+
+    const first = entries[0];
+    if (first && ((first.type !== 'open' && first.type !== 'snapshot') || first.version !== 1)) {
+      throw new Error(`Unsupported risk journal version ${(first as any).version} in ${this.filePath}`);
+    }
+    return entries;
+  }
+
+  /**
+   * Fold the journal into the state it describes, or null when nothing has been recorded yet
+   */
+  replay(now: number = Date.now()): RiskJournalState | null {
+    return RiskJournal.fold(this.read(), now);
+  }
+
+  /**
+   * Rewrite the journal as a single snapshot of its current state, dropping trades past retention.
+   * Run it while no bot is appending, or entries written during the rewrite are lost.
+   */
+  compact(now: number = Date.now()): { entriesBefore: number; tradesKept: number } {
+    const entries = this.read();
+    const state = RiskJournal.fold(entries, now);
+    if (!state) return { entriesBefore: 0, tradesKept: 0 };
+
+    const snapshot: RiskJournalEntry = { type: 'snapshot', version: 1, timestamp: now, state };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // The temp file + rename keeps a crash from leaving a half-written journal
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, RiskJournal.serialize(snapshot));
+    fs.renameSync(tempPath, this.filePath);
+    return { entriesBefore: entries.length, tradesKept: state.trades.length };
+  }
+
+  static fold(entries: RiskJournalEntry[], now: number = Date.now()): RiskJournalState | null {
+    let state: RiskJournalState | null = null;
+
+    for (const entry of entries) {
+      if (entry.type === 'open') {
+        state = {
+          initialCapital: entry.capital,
+          currentBalance: entry.capital,
+          peakBalance: entry.capital,
+          netFlows: 0n,
+          circuitBreaker: INACTIVE_BREAKER,
+          trades: []
+        };
+      } else if (entry.type === 'snapshot') {
+        // Snapshots written before flows were journaled carry no netFlows
+        state = { ...entry.state, netFlows: entry.state.netFlows ?? 0n, trades: [...entry.state.trades] };
+      } else if (!state) {
+        throw new Error(`RiskJournal: ${entry.type} entry before the journal was opened`);
+      } else if (entry.type === 'flow') {
+        // Capital that came or went without a trade shifts the peak rather than counting as a drawdown
+        const peak = state.peakBalance + entry.amount;
+        state.currentBalance = entry.balance;
+        state.peakBalance = peak > entry.balance ? peak : entry.balance;
+        state.netFlows += entry.amount;
+      } else if (entry.type === 'trade' || entry.type === 'balance') {
+        if (entry.type === 'trade') state.trades.push(entry.trade);
+        state.currentBalance = entry.type === 'trade' ? entry.trade.balance : entry.balance;
+        // The peak covers every balance ever journaled, not just the retained trades
+        if (state.currentBalance > state.peakBalance) {
+          state.peakBalance = state.currentBalance;
+        }
+      } else {
+        state.circuitBreaker = entry.status;
+      }
+    }
+
+    if (state) {
+      const cutoff = now - RiskJournal.RETENTION_MS;
+      state.trades = state.trades.filter(trade => trade.timestamp > cutoff);
+    }
+    return state;
+  }
+
+  private append(entry: RiskJournalEntry): void {
+    if (!this.tailChecked) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.dropTornTail();
+      this.tailChecked = true;
+    }
+    fs.appendFileSync(this.filePath, RiskJournal.serialize(entry));
+  }
+
+  // Cut a torn final line before appending, so it cannot fuse with the next entry
+  private dropTornTail(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    const raw = fs.readFileSync(this.filePath, "utf8");
+    if (raw.length === 0 || raw.endsWith("\n")) return;
+    const lastLineStart = raw.lastIndexOf("\n") + 1;
+    try {
+      JSON.parse(raw.slice(lastLineStart));
+      fs.appendFileSync(this.filePath, "\n");
+    } catch (error) {
+      fs.truncateSync(this.filePath, Buffer.byteLength(raw.slice(0, lastLineStart)));
+    }
+  }
+
+  private static serialize(entry: RiskJournalEntry): string {
+    return JSON.stringify(entry, (_, value) => typeof value === "bigint" ? value.toString() : value) + "\n";
+  }
+}
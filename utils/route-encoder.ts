@@ -0,0 +1,83 @@
+import { getAddress } from "ethers";
+import { DEXRouter } from "./dex-routers";
+import { PoolState } from "./pool-state";
+import { DexType, RouteHopStruct } from "./flash-arb-bot";
+
+/**
+ * One simulated swap: the venue it was priced on, what it was quoted to return, and the pool state
+ * the quote came from. Uniswap V3, Curve and Balancer hops need the pool to be executable.
+ */
+export interface RouteLeg {
+  router: DEXRouter;
+  tokenIn: string;
+  tokenOut: string;
+  amountOut: bigint;
+  pool?: PoolState;
+}
+
+/**
+ * Turns simulated legs into FlashArbBotBalancer.RouteHop[] so the contract swaps through exactly
+ * the venues, pools and fee tiers that were quoted. Each hop's minimum output is its quote less
+ * the slippage allowance.
+ */
+export class RouteEncoder {
+  static readonly MAX_HOPS = 4; // FlashArbBotBalancer.MAX_ROUTE_HOPS
+
+  static encode(legs: RouteLeg[], slippageBps: number): RouteHopStruct[] {
+    if (legs.length < 2 || legs.length > RouteEncoder.MAX_HOPS) {
+      throw new Error(`RouteEncoder: the contract executes 2 to ${RouteEncoder.MAX_HOPS} hops, got ${legs.length}`);
+    }
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps >= 10_000) {
+      throw new Error(`RouteEncoder: slippage of ${slippageBps} bps`);
+    }
+    if (getAddress(legs[0].tokenIn) !== getAddress(legs[legs.length - 1].tokenOut)) {
+      throw new Error("RouteEncoder: route does not return to its start token");
+    }
+
+    return legs.map((leg, i) => {
+      if (i > 0 && getAddress(leg.tokenIn) !== getAddress(legs[i - 1].tokenOut)) {
+        throw new Error(`RouteEncoder: hop ${i} does not continue from hop ${i - 1}`);
+      }
+      if (leg.amountOut <= 0n) {
+        throw new Error(`RouteEncoder: hop ${i} was quoted to return nothing`);
+      }
+      return {
+        ...RouteEncoder.venue(leg, i),
+        tokenIn: getAddress(leg.tokenIn),
+        tokenOut: getAddress(leg.tokenOut),
+        minAmountOut: leg.amountOut * BigInt(10_000 - slippageBps) / 10_000n
+      };
+    });
+  }
+
+  private static venue(leg: RouteLeg, index: number): Pick<RouteHopStruct, 'dex' | 'target' | 'fee'> {
+    const { router, pool } = leg;
+    if (router.executable === false) {
+      throw new Error(`RouteEncoder: ${router.name} (${router.routerType}) hops are not executable`);
+    }
+    switch (router.routerType) {
+      case 'UNISWAP_V2':
+        return { dex: DexType.UNISWAP_V2, target: getAddress(router.address), fee: 0 };
+      case 'UNISWAP_V3':
+        // The router is told the fee tier; the tier picks the pool
+        if (pool?.kind !== 'UNISWAP_V3') throw new Error(`RouteEncoder: hop ${index} has no V3 pool state for its fee tier`);
+        return { dex: DexType.UNISWAP_V3, target: getAddress(router.address), fee: pool.feeTier };
+      case 'CURVE':
+        // Curve entries in the router table are the pools themselves
+        if (pool && pool.kind !== 'CURVE') throw new Error(`RouteEncoder: hop ${index} has a ${pool.kind} pool on a Curve router`);
+        // The exchange signature follows the pool kind, not the coins() index width: newer StableSwap
+        // pools index coins by uint256 but still swap through exchange(int128, int128, ...)
+        return {
+          dex: pool?.cryptoPool ? DexType.CURVE_CRYPTO : DexType.CURVE,
+          target: getAddress(pool?.address ?? router.address),
+          fee: 0
+        };
+      case 'BALANCER':
+        // The contract swaps through its vault and reads the pool id from the pool
+        if (pool?.kind !== 'BALANCER') throw new Error(`RouteEncoder: hop ${index} has no Balancer pool state`);
+        return { dex: DexType.BALANCER, target: getAddress(pool.address), fee: 0 };
+      default:
+        throw new Error(`RouteEncoder: ${router.name} (${router.routerType}) hops are not executable`);
+    }
+  }
+}
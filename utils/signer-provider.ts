@@ -0,0 +1,293 @@
+import fs from "fs";
+import path from "path";
+import {
+  AbstractSigner,
+  FetchRequest,
+  Provider,
+  Signer,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  Wallet,
+  copyRequest,
+  getAddress,
+  hexlify,
+  resolveAddress,
+  toQuantity,
+  toUtf8Bytes
+} from "ethers";
+import { RpcEndpoint } from "./execution-channels";
+
+export type SignerRole = 'executor' | 'flashbots-auth' | 'guardian';
+
+export type SignerBackendKind = 'keystore' | 'remote' | 'env';
+
+/**
+ * A signer whose address is known without a round trip, as Wallets and RemoteSigners are
+ */
+export type AddressedSigner = Signer & { readonly address: string };
+
+export interface SignerBackend {
+  readonly kind: SignerBackendKind;
+  signer(role: SignerRole, provider?: Provider | null): Promise<AddressedSigner>;
+}
+
+const ENV_KEYS: Record<SignerRole, string> = {
+  'executor': 'PRIVATE_KEY',
+  'flashbots-auth': 'FLASHBOTS_AUTH_KEY',
+  'guardian': 'GUARDIAN_PRIVATE_KEY'
+};
+
+const KEYSTORE_FILES: Record<SignerRole, string> = {
+  'executor': 'executor.json',
+  'flashbots-auth': 'flashbots-auth.json',
+  'guardian': 'guardian.json'
+};
+
+/**
+ * Signs through a remote JSON-RPC signer (Web3Signer, Clef and the like) that holds the key;
+ * the key never enters this process
+ */
+export class RemoteSigner extends AbstractSigner {
+  readonly address: string;
+  private endpoint: RpcEndpoint;
+
+  constructor(endpoint: RpcEndpoint, address: string, provider: Provider | null = null) {
+    super(provider);
+    this.endpoint = endpoint;
+    this.address = getAddress(address);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.endpoint, this.address, provider);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    const request = copyRequest(tx);
+    if (request.from && getAddress(await resolveAddress(request.from, this.provider)) !== this.address) {
+      throw new Error(`RemoteSigner: transaction from ${request.from} cannot be signed by ${this.address}`);
+    }
+    const to = request.to ? await resolveAddress(request.to, this.provider) : undefined;
+
+    const result = await this.endpoint.send('eth_signTransaction', [RemoteSigner.rpcTransaction({ ...request, to, from: this.address })]);
+    // Web3Signer answers with the raw transaction, Clef with { raw, tx }
+    const raw: string = typeof result === 'string' ? result : result?.raw;
+    const signed = Transaction.from(raw);
+    if (!signed.from || getAddress(signed.from) !== this.address) {
+      throw new Error(`RemoteSigner: endpoint signed as ${signed.from} instead of ${this.address}`);
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? toUtf8Bytes(message) : message;
+    return this.endpoint.send('eth_sign', [this.address, hexlify(data)]);
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string> {
+    return this.endpoint.send('eth_signTypedData_v4', [this.address, JSON.stringify(TypedDataEncoder.getPayload(domain, types, value))]);
+  }
+
+  private static rpcTransaction(tx: TransactionLike<string>): Record<string, unknown> {
+    const rpc: Record<string, unknown> = { from: tx.from };
+    if (tx.to) rpc.to = tx.to;
+    if (tx.data) rpc.data = tx.data;
+    if (tx.type !== undefined && tx.type !== null) rpc.type = toQuantity(tx.type);
+    for (const [field, key] of [
+      ['gasLimit', 'gas'], ['gasPrice', 'gasPrice'], ['maxFeePerGas', 'maxFeePerGas'],
+      ['maxPriorityFeePerGas', 'maxPriorityFeePerGas'], ['value', 'value'], ['nonce', 'nonce'], ['chainId', 'chainId']
+    ] as const) {
+      const quantity = tx[field];
+      if (quantity !== undefined && quantity !== null) rpc[key] = toQuantity(quantity);
+    }
+    return rpc;
+  }
+}
+
+/**
+ * Encrypted JSON keystores (the format Wallet.encrypt writes), unlocked once with a password
+ * taken from KEYSTORE_PASSWORD or the file KEYSTORE_PASSWORD_FILE names
+ */
+export class KeystoreBackend implements SignerBackend {
+  readonly kind = 'keystore';
+
+  private directory: string;
+  private password: string;
+  private unlocked = new Map<SignerRole, AddressedSigner>();
+
+  constructor(directory: string, password: string) {
+    this.directory = directory;
+    this.password = password;
+  }
+
+  async signer(role: SignerRole, provider: Provider | null = null): Promise<AddressedSigner> {
+    const cached = this.unlocked.get(role);
+    if (cached) return cached.connect(provider) as AddressedSigner;
+
+    const file = path.join(this.directory, KEYSTORE_FILES[role]);
+    if (!fs.existsSync(file)) {
+      throw new Error(`SignerProvider: no keystore for ${role} at ${file}`);
+    }
+    // Decrypting is deliberately slow (scrypt), so each keystore is unlocked once
+    const unlocked = await Wallet.fromEncryptedJson(fs.readFileSync(file, 'utf8'), this.password);
+    const wallet: AddressedSigner = new Wallet(unlocked.privateKey);
+    this.unlocked.set(role, wallet);
+    return wallet.connect(provider) as AddressedSigner;
+  }
+}
+
+/**
+ * A remote signer over HTTP JSON-RPC; each role signs as the address configured for it
+ */
+export class RemoteSignerBackend implements SignerBackend {
+  readonly kind = 'remote';
+
+  private endpoint: RpcEndpoint;
+  private addresses: Partial<Record<SignerRole, string>>;
+
+  constructor(endpoint: RpcEndpoint, addresses: Partial<Record<SignerRole, string>>) {
+    this.endpoint = endpoint;
+    this.addresses = addresses;
+  }
+
+  async signer(role: SignerRole, provider: Provider | null = null): Promise<AddressedSigner> {
+    const address = this.addresses[role];
+    if (!address) {
+      throw new Error(`SignerProvider: no remote signer address configured for ${role}`);
+    }
+    return new RemoteSigner(this.endpoint, address, provider);
+  }
+}
+
+/**
+ * Raw keys from the environment. Development only: refused when NODE_ENV is production.
+ */
+export class EnvKeyBackend implements SignerBackend {
+  readonly kind = 'env';
+
+  private env: Record<string, string | undefined>;
+
+  constructor(env: Record<string, string | undefined>) {
+    if (env.NODE_ENV === 'production') {
+      throw new Error('SignerProvider: raw keys from the environment are not allowed in production; use SIGNER_BACKEND=keystore or remote');
+    }
+    this.env = env;
+  }
+
+  async signer(role: SignerRole, provider: Provider | null = null): Promise<AddressedSigner> {
+    const key = this.env[ENV_KEYS[role]];
+    if (!key) {
+      throw new Error(`SignerProvider: ${ENV_KEYS[role]} is not set`);
+    }
+    return new Wallet(key, provider);
+  }
+}
+
+/**
+ * Where every script gets its signers. SIGNER_BACKEND picks the backend:
+ *   keystore  KEYSTORE_DIR (default ./keystore) holding executor.json, flashbots-auth.json and guardian.json
+ *   remote    REMOTE_SIGNER_URL, REMOTE_SIGNER_EXECUTOR_ADDRESS, REMOTE_SIGNER_AUTH_ADDRESS, REMOTE_SIGNER_GUARDIAN_ADDRESS
+ *   env       PRIVATE_KEY, FLASHBOTS_AUTH_KEY and GUARDIAN_PRIVATE_KEY, the default outside production
+ * The guardian key is only ever used by the kill-switch watchdog, to pause the bot contract.
+ */
+export class SignerProvider {
+  private backend: SignerBackend;
+
+  constructor(backend: SignerBackend) {
+    this.backend = backend;
+  }
+
+  static fromEnv(env: Record<string, string | undefined> = process.env): SignerProvider {
+    const kind = (env.SIGNER_BACKEND || 'env') as SignerBackendKind;
+    switch (kind) {
+      case 'keystore':
+        return new SignerProvider(new KeystoreBackend(
+          env.KEYSTORE_DIR || path.join(process.cwd(), 'keystore'),
+          SignerProvider.keystorePassword(env)
+        ));
+      case 'remote':
+        if (!env.REMOTE_SIGNER_URL) {
+          throw new Error('SignerProvider: REMOTE_SIGNER_URL is not set');
+        }
+        return new SignerProvider(new RemoteSignerBackend(
+          new HttpRpcEndpoint(env.REMOTE_SIGNER_URL, env.REMOTE_SIGNER_TOKEN),
+          {
+            'executor': env.REMOTE_SIGNER_EXECUTOR_ADDRESS,
+            'flashbots-auth': env.REMOTE_SIGNER_AUTH_ADDRESS,
+            'guardian': env.REMOTE_SIGNER_GUARDIAN_ADDRESS
+          }
+        ));
+      case 'env':
+        return new SignerProvider(new EnvKeyBackend(env));
+      default:
+        throw new Error(`SignerProvider: unknown SIGNER_BACKEND ${kind}`);
+    }
+  }
+
+  /**
+   * For scans and simulations that need no funds: throwaway keys when no signer is configured at all
+   */
+  static fromEnvOrEphemeral(env: Record<string, string | undefined> = process.env): SignerProvider {
+    if (env.SIGNER_BACKEND || env[ENV_KEYS['executor']]) return SignerProvider.fromEnv(env);
+    return new SignerProvider(new EnvKeyBackend({
+      [ENV_KEYS['executor']]: Wallet.createRandom().privateKey,
+      [ENV_KEYS['flashbots-auth']]: Wallet.createRandom().privateKey
+    }));
+  }
+
+  get kind(): SignerBackendKind {
+    return this.backend.kind;
+  }
+
+  async signer(role: SignerRole, provider: Provider | null = null): Promise<AddressedSigner> {
+    return this.backend.signer(role, provider);
+  }
+
+  async address(role: SignerRole): Promise<string> {
+    return (await this.backend.signer(role)).address;
+  }
+
+  private static keystorePassword(env: Record<string, string | undefined>): string {
+    if (env.KEYSTORE_PASSWORD_FILE) {
+      return fs.readFileSync(env.KEYSTORE_PASSWORD_FILE, 'utf8').trim();
+    }
+    if (env.KEYSTORE_PASSWORD) return env.KEYSTORE_PASSWORD;
+    throw new Error('SignerProvider: set KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD to unlock the keystore');
+  }
+}
+
+/**
+ * Plain JSON-RPC over HTTP; unlike a JsonRpcProvider it never asks the signer which chain it is on
+ */
+class HttpRpcEndpoint implements RpcEndpoint {
+  private url: string;
+  private token?: string;
+  private nextId = 1;
+
+  constructor(url: string, token?: string) {
+    this.url = url;
+    this.token = token;
+  }
+
+  async send(method: string, params: any[]): Promise<any> {
+    const request = new FetchRequest(this.url);
+    request.setHeader('content-type', 'application/json');
+    if (this.token) request.setHeader('authorization', `Bearer ${this.token}`);
+    request.body = JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params });
+
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    if (body.error) {
+      throw new Error(`Remote signer ${method} failed: ${body.error.message}`);
+    }
+    return body.result;
+  }
+}
@@ -0,0 +1,179 @@
+import { AbiCoder, id, toBeHex } from "ethers";
+import { TokenBehavior } from "./token-registry";
+
+/**
+ * JSON-RPC access to a local fork (Hardhat or Anvil) of the chain being traded
+ */
+export interface ForkRpc {
+  send(method: string, params: any[]): Promise<any>;
+}
+
+/**
+ * Classifies tokens by moving a real balance on a local fork: impersonate a holder, transfer part of its
+ * balance, compare what arrives with what was sent, then fast-forward time to see whether balances drift.
+ * Blacklist hooks are found statically from the selectors in the token's (implementation) bytecode.
+ * Every probe runs inside an evm_snapshot and is reverted afterwards.
+ */
+export class TokenBehaviorProbe {
+
+  // Arbitrary recipient; its balance before the transfer is measured, so existing holdings do not matter
+  private static readonly RECIPIENT = "0x00000000000000000000000000000000000b0b0b";
+  private static readonly REBASE_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+  private static readonly HOLDER_GAS_BALANCE = toBeHex(10n ** 20n);
+  private static readonly PROBE_GAS = toBeHex(500_000);
+
+  // EIP-1967 implementation slot, so proxied tokens (USDC, USDT on L2s) are scanned through to their logic
+  private static readonly IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+  private static readonly BLACKLIST_SELECTORS = [
+    "isBlacklisted(address)",
+    "isBlackListed(address)",
+    "blacklist(address)",
+    "addBlackList(address)",
+    "isFrozen(address)",
+    "freeze(address)"
+  ].map(signature => id(signature).slice(2, 10));
+
+  // Share-based and index-scaled balances: stETH, aTokens, elastic-supply tokens
+  private static readonly REBASING_SELECTORS = [
+    "sharesOf(address)",
+    "scaledBalanceOf(address)",
+    "rebase(uint256,int256)"
+  ].map(signature => id(signature).slice(2, 10));
+
+  private static readonly BALANCE_OF = id("balanceOf(address)").slice(0, 10);
+  private static readonly TRANSFER = id("transfer(address,uint256)").slice(0, 10);
+
+  private forks: Map<number, ForkRpc>;
+  private queues: Map<number, Promise<unknown>>;
+  private coder: AbiCoder;
+
+  constructor(forks: Map<number, ForkRpc>) {
+    this.forks = forks;
+    this.queues = new Map();
+    this.coder = AbiCoder.defaultAbiCoder();
+  }
+
+  /**
+   * Behaviours of a token, or null when no fork is configured for the chain or none of the
+   * holders can fund a transfer (the token stays unclassified and is probed again later)
+   */
+  async probe(chainId: number, token: string, holders: string[]): Promise<TokenBehavior[] | null> {
+    const fork = this.forks.get(chainId);
+    if (!fork) return null;
+
+    // Snapshots and impersonation are fork-global, so probes on one fork run one at a time
+    const previous = this.queues.get(chainId) || Promise.resolve();
+    const result = previous.then(() => this.runProbe(fork, chainId, token, holders));
+    this.queues.set(chainId, result);
+    return result;
+  }
+
+  private async runProbe(fork: ForkRpc, chainId: number, token: string, holders: string[]): Promise<TokenBehavior[] | null> {
+    try {
+      const behaviors = new Set<TokenBehavior>();
+      const selectors = await this.readSelectors(fork, token);
+      if (TokenBehaviorProbe.BLACKLIST_SELECTORS.some(selector => selectors.has(selector))) {
+        behaviors.add('BLACKLISTABLE');
+      }
+      if (TokenBehaviorProbe.REBASING_SELECTORS.some(selector => selectors.has(selector))) {
+        behaviors.add('REBASING');
+      }
+
+      const transferBehaviors = await this.probeTransfer(fork, token, holders);
+      if (transferBehaviors === null) return null;
+      transferBehaviors.forEach(behavior => behaviors.add(behavior));
+
+      return [...behaviors];
+    } catch (error) {
+      console.error(`Token probe failed for ${token} on chain ${chainId}:`, error);
+      return null;
+    }
+  }
+
+  private async probeTransfer(fork: ForkRpc, token: string, holders: string[]): Promise<TokenBehavior[] | null> {
+    const recipient = TokenBehaviorProbe.RECIPIENT;
+    let holder: string | undefined;
+    let holderBalance = 0n;
+    for (const candidate of holders) {
+      holderBalance = await this.balanceOf(fork, token, candidate);
+      if (holderBalance > 0n) {
+        holder = candidate;
+        break;
+      }
+    }
+    if (!holder) return null;
+
+    const snapshot = await fork.send("evm_snapshot", []);
+    try {
+      await fork.send("hardhat_impersonateAccount", [holder]);
+      await fork.send("hardhat_setBalance", [holder, TokenBehaviorProbe.HOLDER_GAS_BALANCE]);
+
+      const amount = holderBalance / 10n > 0n ? holderBalance / 10n : holderBalance;
+      const recipientBefore = await this.balanceOf(fork, token, recipient);
+
+      const hash = await fork.send("eth_sendTransaction", [{
+        from: holder,
+        to: token,
+        gas: TokenBehaviorProbe.PROBE_GAS,
+        data: TokenBehaviorProbe.TRANSFER + this.coder.encode(["address", "uint256"], [recipient, amount]).slice(2)
+      }]);
+      const receipt = await fork.send("eth_getTransactionReceipt", [hash]);
+      // A holder that cannot send (paused token, blocked sender) says nothing about the token's transfer math
+      if (!receipt || BigInt(receipt.status) !== 1n) return null;
+
+      const behaviors: TokenBehavior[] = [];
+      const [holderAfter, recipientAfter] = await Promise.all([
+        this.balanceOf(fork, token, holder),
+        this.balanceOf(fork, token, recipient)
+      ]);
+      if (recipientAfter - recipientBefore !== amount || holderBalance - holderAfter !== amount) {
+        behaviors.push('FEE_ON_TRANSFER');
+      }
+
+      await fork.send("evm_increaseTime", [TokenBehaviorProbe.REBASE_WINDOW_SECONDS]);
+      await fork.send("evm_mine", []);
+      if (await this.balanceOf(fork, token, recipient) !== recipientAfter) {
+        behaviors.push('REBASING');
+      }
+
+      return behaviors;
+    } finally {
+      await fork.send("hardhat_stopImpersonatingAccount", [holder]).catch(() => undefined);
+      await fork.send("evm_revert", [snapshot]);
+    }
+  }
+
+  /**
+   * PUSH4 operands in the token's bytecode, and in its EIP-1967 implementation when it is a proxy
+   */
+  private async readSelectors(fork: ForkRpc, token: string): Promise<Set<string>> {
+    const codes: string[] = [await fork.send("eth_getCode", [token, "latest"])];
+
+    const slot: string = await fork.send("eth_getStorageAt", [token, TokenBehaviorProbe.IMPLEMENTATION_SLOT, "latest"]);
+    if (slot && BigInt(slot) !== 0n) {
+      const implementation = "0x" + slot.slice(-40);
+      codes.push(await fork.send("eth_getCode", [implementation, "latest"]));
+    }
+
+    const selectors = new Set<string>();
+    for (const code of codes) {
+      const bytes = code.startsWith("0x") ? code.slice(2) : code;
+      // Walk opcodes so PUSH data is skipped rather than misread as instructions
+      for (let i = 0; i < bytes.length; i += 2) {
+        const opcode = parseInt(bytes.slice(i, i + 2), 16);
+        if (opcode >= 0x60 && opcode <= 0x7f) {
+          const size = opcode - 0x5f;
+          if (size === 4) selectors.add(bytes.slice(i + 2, i + 10).toLowerCase());
+          i += size * 2;
+        }
+      }
+    }
+    return selectors;
+  }
+
+  private async balanceOf(fork: ForkRpc, token: string, owner: string): Promise<bigint> {
+    const data = TokenBehaviorProbe.BALANCE_OF + this.coder.encode(["address"], [owner]).slice(2);
+    return BigInt(await fork.send("eth_call", [{ to: token, data }, "latest"]));
+  }
+}
@@ -0,0 +1,228 @@
+import fs from "fs/promises";
+import path from "path";
+import { MulticallBatcher } from "./multicall";
+import { TokenBehaviorProbe } from "./token-probe";
+
+export type TokenBehavior = 'FEE_ON_TRANSFER' | 'REBASING' | 'BLACKLISTABLE';
+
+export interface TokenMetadata {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  behaviors: TokenBehavior[];
+  classifiedAt: number | null; // null until a fork probe has run for the token
+}
+
+interface RegistryFile {
+  version: 1;
+  tokens: TokenMetadata[];
+}
+
+const ERC20_METADATA_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)"
+];
+// MKR-era tokens return symbol() as bytes32
+const BYTES32_SYMBOL_ABI = ["function symbol() view returns (bytes32)"];
+// Placeholder Curve uses for the native token
+const NATIVE_ETH = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+/**
+ * Token metadata resolved from the chain on first sight and cached to disk, plus the transfer
+ * behaviours found by TokenBehaviorProbe. Paths through fee-on-transfer or rebasing tokens are
+ * refused: the flash loan repayment and the per-hop amounts assume exact transfers.
+ */
+export class TokenRegistry {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "data", "token-registry.json");
+  // BLACKLISTABLE is recorded but does not block: USDC and USDT carry the hook and still transfer exactly
+  static readonly BLOCKING_BEHAVIORS: readonly TokenBehavior[] = ['FEE_ON_TRANSFER', 'REBASING'];
+
+  private multicall: MulticallBatcher;
+  private filePath: string;
+  private probe?: TokenBehaviorProbe;
+  private tokens: Map<string, TokenMetadata>;
+  private inflight: Map<string, Promise<TokenMetadata | null>>;
+  private dirty: boolean;
+
+  constructor(multicall: MulticallBatcher, filePath: string = TokenRegistry.DEFAULT_PATH, probe?: TokenBehaviorProbe) {
+    this.multicall = multicall;
+    this.filePath = filePath;
+    this.probe = probe;
+    this.tokens = new Map();
+    this.inflight = new Map();
+    this.dirty = false;
+  }
+
+  /**
+   * Load cached metadata from disk; a missing file starts an empty registry
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as RegistryFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported token registry version ${file.version} in ${this.filePath}`);
+    }
+
+    this.tokens.clear();
+    for (const token of file.tokens) {
+      this.tokens.set(this.tokenKey(token.chainId, token.address), token);
+    }
+    this.dirty = false;
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    const file: RegistryFile = {
+      version: 1,
+      tokens: [...this.tokens.values()].sort((a, b) => a.chainId - b.chainId || a.symbol.localeCompare(b.symbol))
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.rename(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * Cached metadata for a token, reading decimals() and symbol() the first time it is seen.
+   * Resolves to null for contracts without decimals(), which cannot be priced.
+   */
+  async resolve(chainId: number, token: string): Promise<TokenMetadata | null> {
+    const key = this.tokenKey(chainId, token);
+    const cached = this.tokens.get(key);
+    if (cached) return cached;
+
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.readMetadata(chainId, token).finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Synchronous lookup for tokens that have already been resolved
+   */
+  get(chainId: number, token: string): TokenMetadata | undefined {
+    return this.tokens.get(this.tokenKey(chainId, token));
+  }
+
+  async getDecimals(chainId: number, token: string): Promise<number | null> {
+    const metadata = await this.resolve(chainId, token);
+    return metadata ? metadata.decimals : null;
+  }
+
+  /**
+   * Run the fork probe for a token that has not been classified yet. Holders are addresses expected
+   * to own some of the token (usually the pools on the path) and fund the probe transfer.
+   */
+  async classify(chainId: number, token: string, holders: string[] = []): Promise<TokenMetadata | null> {
+    const metadata = await this.resolve(chainId, token);
+    if (!metadata || metadata.classifiedAt !== null || !this.probe) return metadata;
+
+    const behaviors = await this.probe.probe(chainId, metadata.address, holders);
+    if (behaviors === null) return metadata;
+
+    this.setBehaviors(chainId, metadata.address, behaviors);
+    if (behaviors.length > 0) {
+      console.warn(`⚠️ ${metadata.symbol} (${metadata.address}) on chain ${chainId} is ${behaviors.join(', ')}`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Record behaviours found by a probe or configured by hand
+   */
+  setBehaviors(chainId: number, token: string, behaviors: TokenBehavior[]): void {
+    const metadata = this.get(chainId, token);
+    if (!metadata) return;
+    metadata.behaviors = [...new Set(behaviors)];
+    metadata.classifiedAt = Date.now();
+    this.dirty = true;
+  }
+
+  /**
+   * False only for tokens known to have a non-standard transfer; unresolved and unclassified tokens pass
+   */
+  isSupported(chainId: number, token: string): boolean {
+    const metadata = this.get(chainId, token);
+    return !metadata || !TokenRegistry.blocks(metadata);
+  }
+
+  /**
+   * Tokens on a path that must not be traded, classifying each one first when a probe is configured.
+   * Tokens without decimals() are returned too, since no amount through them can be computed.
+   */
+  async findUnsupported(chainId: number, tokens: string[], holders: string[] = []): Promise<string[]> {
+    const unique = [...new Map(tokens.map(token => [token.toLowerCase(), token])).values()];
+    const results = await Promise.all(unique.map(async token => {
+      const metadata = await this.classify(chainId, token, holders);
+      return !metadata || TokenRegistry.blocks(metadata) ? token : null;
+    }));
+    return results.filter((token): token is string => token !== null);
+  }
+
+  /**
+   * Addresses of every ERC20 resolved on a chain, leaving out the native ETH placeholder
+   */
+  tokensOn(chainId: number): string[] {
+    return [...this.tokens.values()]
+      .filter(token => token.chainId === chainId && token.address.toLowerCase() !== NATIVE_ETH)
+      .map(token => token.address);
+  }
+
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  private static blocks(metadata: TokenMetadata): boolean {
+    return metadata.behaviors.some(behavior => TokenRegistry.BLOCKING_BEHAVIORS.includes(behavior));
+  }
+
+  private async readMetadata(chainId: number, token: string): Promise<TokenMetadata | null> {
+    if (token.toLowerCase() === NATIVE_ETH) {
+      return this.store({ chainId, address: token, symbol: "ETH", decimals: 18, behaviors: [], classifiedAt: Date.now() });
+    }
+
+    const [decimals, symbol, bytes32Symbol] = await Promise.all([
+      this.multicall.tryCall(chainId, token, ERC20_METADATA_ABI, 'decimals'),
+      this.multicall.tryCall(chainId, token, ERC20_METADATA_ABI, 'symbol'),
+      this.multicall.tryCall(chainId, token, BYTES32_SYMBOL_ABI, 'symbol')
+    ]);
+    if (!decimals) return null;
+
+    return this.store({
+      chainId,
+      address: token,
+      symbol: symbol ? symbol[0] : bytes32Symbol ? this.decodeBytes32(bytes32Symbol[0]) : token.slice(0, 10),
+      decimals: Number(decimals[0]),
+      behaviors: [],
+      classifiedAt: null
+    });
+  }
+
+  private store(metadata: TokenMetadata): TokenMetadata {
+    this.tokens.set(this.tokenKey(metadata.chainId, metadata.address), metadata);
+    this.dirty = true;
+    return metadata;
+  }
+
+  private decodeBytes32(value: string): string {
+    return Buffer.from(value.slice(2), "hex").toString("utf8").replace(/\0+$/, "");
+  }
+
+  private tokenKey(chainId: number, token: string): string {
+    return `${chainId}:${token.toLowerCase()}`;
+  }
+}
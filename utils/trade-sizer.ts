@@ -0,0 +1,166 @@
+/** Quote the output of a full path for an input amount, or null if it cannot be filled */
+export type PathQuoter = (amountIn: bigint) => Promise<bigint | null>;
+
+export interface ConstantProductHop {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feePips: bigint; // Hundredths of a bip, e.g. 3000 for 0.3%
+}
+
+export interface SizingConstraints {
+  minAmountIn: bigint;
+  maxAmountIn: bigint;
+  flashLoanFeeBps: number; // Charged on the borrowed amountIn
+  gasCost: bigint; // Execution cost expressed in input token units
+}
+
+export interface SizingResult {
+  amountIn: bigint;
+  amountOut: bigint;
+  grossProfit: bigint; // amountOut - amountIn
+  flashLoanFee: bigint;
+  gasCost: bigint;
+  netProfit: bigint; // grossProfit - flashLoanFee - gasCost
+  method: 'closed-form' | 'golden-section';
+  evaluations: number;
+}
+
+const PIPS = 1_000_000n;
+
+/**
+ * Finds the input size that maximizes net profit for an arbitrage path.
+ * Two constant-product pools have a closed-form optimum; anything else is searched with golden-section
+ * over the exact path quote, which is unimodal for every AMM curve the bot trades through.
+ */
+export class TradeSizer {
+
+  private static readonly INV_PHI = (Math.sqrt(5) - 1) / 2;
+  private static readonly MAX_EVALUATIONS = 48;
+  private static readonly RELATIVE_TOLERANCE = 1e-4;
+
+  /**
+   * Profit-maximizing input for A -> B on one V2 pool then B -> A on another, net of a proportional flash-loan fee.
+   * The two pools compose into a single virtual pool (Ea, Eb); solving d(out)/dx = 1 + fee gives
+   * x* = (sqrt(g1 * Ea * Eb / (1 + fee)) - Ea) / g1. Returns 0 when the cycle is not profitable at the margin.
+   */
+  static optimalTwoPoolInput(first: ConstantProductHop, second: ConstantProductHop, flashLoanFeeBps: number = 0): bigint {
+    const g1 = PIPS - first.feePips;
+    const g2 = PIPS - second.feePips;
+    const feeFactor = PIPS + BigInt(Math.round(flashLoanFeeBps * 100));
+
+    const denominator = second.reserveIn * PIPS + g2 * first.reserveOut;
+    if (denominator === 0n) return 0n;
+    const ea = (first.reserveIn * second.reserveIn * PIPS) / denominator;
+    const eb = (g2 * first.reserveOut * second.reserveOut) / denominator;
+
+    const root = TradeSizer.sqrt((ea * eb * g1) / feeFactor);
+    if (root <= ea) return 0n;
+    return ((root - ea) * PIPS) / g1;
+  }
+
+  /**
+   * Size a path. Pass the hops when the path is exactly two constant-product pools to use the closed form;
+   * the result is always re-quoted exactly and clamped to the constraints.
+   */
+  static async optimize(
+    quote: PathQuoter,
+    constraints: SizingConstraints,
+    constantProductHops?: ConstantProductHop[]
+  ): Promise<SizingResult | null> {
+    const { minAmountIn, maxAmountIn } = constraints;
+    if (maxAmountIn <= 0n || maxAmountIn < minAmountIn) return null;
+
+    const cache = new Map<bigint, SizingResult | null>();
+    const evaluate = async (amountIn: bigint, method: SizingResult['method']): Promise<SizingResult | null> => {
+      const clamped = TradeSizer.clamp(amountIn, minAmountIn, maxAmountIn);
+      if (cache.has(clamped)) return cache.get(clamped)!;
+      const result = await TradeSizer.evaluate(quote, clamped, constraints, method);
+      cache.set(clamped, result);
+      return result;
+    };
+
+    if (constantProductHops && constantProductHops.length === 2) {
+      const optimum = TradeSizer.optimalTwoPoolInput(
+        constantProductHops[0], constantProductHops[1], constraints.flashLoanFeeBps
+      );
+      if (optimum === 0n) return null;
+      // Profit is concave, so clamping the unconstrained optimum gives the constrained one
+      const result = await evaluate(optimum, 'closed-form');
+      return result ? { ...result, evaluations: cache.size } : null;
+    }
+
+    // Golden-section search on [min, max]; an unquotable size (beyond loaded liquidity) counts as a loss
+    let lo = Number(minAmountIn);
+    let hi = Number(maxAmountIn);
+    const score = (result: SizingResult | null) => result ? result.netProfit : null;
+    const better = (a: bigint | null, b: bigint | null) => a !== null && (b === null || a > b);
+
+    let x1 = hi - TradeSizer.INV_PHI * (hi - lo);
+    let x2 = lo + TradeSizer.INV_PHI * (hi - lo);
+    let f1 = score(await evaluate(BigInt(Math.floor(x1)), 'golden-section'));
+    let f2 = score(await evaluate(BigInt(Math.floor(x2)), 'golden-section'));
+
+    while (cache.size < TradeSizer.MAX_EVALUATIONS && hi - lo > Math.max(1, hi * TradeSizer.RELATIVE_TOLERANCE)) {
+      if (better(f1, f2) || (f1 === null && f2 === null)) {
+        hi = x2;
+        x2 = x1;
+        f2 = f1;
+        x1 = hi - TradeSizer.INV_PHI * (hi - lo);
+        f1 = score(await evaluate(BigInt(Math.floor(x1)), 'golden-section'));
+      } else {
+        lo = x1;
+        x1 = x2;
+        f1 = f2;
+        x2 = lo + TradeSizer.INV_PHI * (hi - lo);
+        f2 = score(await evaluate(BigInt(Math.floor(x2)), 'golden-section'));
+      }
+    }
+
+    let best: SizingResult | null = null;
+    for (const result of cache.values()) {
+      if (result && (!best || result.netProfit > best.netProfit)) {
+        best = result;
+      }
+    }
+    return best ? { ...best, evaluations: cache.size } : null;
+  }
+
+  private static async evaluate(
+    quote: PathQuoter,
+    amountIn: bigint,
+    constraints: SizingConstraints,
+    method: SizingResult['method']
+  ): Promise<SizingResult | null> {
+    if (amountIn <= 0n) return null;
+    const amountOut = await quote(amountIn);
+    if (amountOut === null) return null;
+
+    const flashLoanFee = (amountIn * BigInt(Math.round(constraints.flashLoanFeeBps * 100))) / PIPS;
+    const grossProfit = amountOut - amountIn;
+    return {
+      amountIn,
+      amountOut,
+      grossProfit,
+      flashLoanFee,
+      gasCost: constraints.gasCost,
+      netProfit: grossProfit - flashLoanFee - constraints.gasCost,
+      method,
+      evaluations: 1
+    };
+  }
+
+  private static clamp(value: bigint, min: bigint, max: bigint): bigint {
+    return value < min ? min : value > max ? max : value;
+  }
+
+  private static sqrt(value: bigint): bigint {
+    if (value < 2n) return value;
+    let x = value;
+    let y = (x + 1n) >> 1n;
+    while (y < x) {
+      x = y;
+      y = (x + value / x) >> 1n;
+    }
+    return x;
+  }
+}
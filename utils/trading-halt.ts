@@ -0,0 +1,314 @@
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import { CircuitBreakerStatus } from "./advanced-risk-manager";
+
+export type HaltSource =
+  | 'risk' // The risk manager's circuit breakers
+  | 'execution-errors' // Executions keep throwing
+  | 'operator'; // Halted by hand
+
+export interface HaltReason {
+  source: HaltSource;
+  reasons: string[];
+  since: number;
+}
+
+export interface HaltAcknowledgement {
+  haltId: number; // Must name the current halt, so nobody clears reasons they have not seen
+  operator: string;
+  note?: string;
+  transfer?: boolean; // The drawdown behind the halt is capital the operator withdrew; the risk peak is reset to the balance
+}
+
+export interface HaltStatus {
+  halted: boolean;
+  haltId: number; // Bumped whenever a halt starts or gains a source
+  sources: HaltReason[];
+  clearedBy?: HaltAcknowledgement & { at: number };
+}
+
+/**
+ * A pause that lifts itself once its condition passes, such as a sequencer outage; not persisted
+ */
+export interface HaltHold {
+  key: string;
+  reasons: string[];
+  since: number;
+}
+
+export interface TradingHaltOptions {
+  maxConsecutiveErrors?: number;
+  pollIntervalMs?: number; // How often watch() picks up changes other processes made to the file
+}
+
+/**
+ * The structured-cloneable state handed to worker threads through workerData
+ */
+export interface SharedHaltState {
+  buffer: SharedArrayBuffer;
+}
+
+/**
+ * What components that only have to stop at a halt need: worker threads, cross-rollup execution
+ */
+export interface HaltGate {
+  isHalted(): boolean;
+}
+
+interface HaltFile extends HaltStatus {
+  version: 1;
+  revision: number; // Every write bumps it; the newest state wins between processes
+}
+
+// Int32 word of the shared buffer: 1 while halted
+const HALTED = 0;
+
+/**
+ * The one place trading stops. The risk manager's breakers, repeated execution errors and operators
+ * all trip it; nothing clears it but an operator acknowledging the current halt by id. The state
+ * lives in a JSON file, so it survives restarts and the trading-halt script can halt or clear a
+ * running bot, and in shared memory, so worker threads see it without a round trip. Holds stop
+ * trading through the same flag but lift themselves, for conditions that need no operator.
+ */
+export class TradingHalt extends EventEmitter implements HaltGate {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "data", "trading-halt.json");
+  private static readonly DEFAULT_MAX_CONSECUTIVE_ERRORS = 5;
+  private static readonly DEFAULT_POLL_INTERVAL_MS = 5000;
+
+  private filePath: string | null;
+  private state: HaltFile;
+  private flags: Int32Array;
+  private buffer: SharedArrayBuffer;
+  private holdsByKey = new Map<string, HaltHold>();
+  private consecutiveErrors = 0;
+  private maxConsecutiveErrors: number;
+  private pollIntervalMs: number;
+  private pollTimer?: NodeJS.Timeout;
+
+  /**
+   * @param filePath Where the state is kept; null keeps it in memory, for simulations and tests
+   */
+  constructor(filePath: string | null = TradingHalt.DEFAULT_PATH, options: TradingHaltOptions = {}) {
+    super();
+    this.filePath = filePath;
+    this.maxConsecutiveErrors = options.maxConsecutiveErrors ?? TradingHalt.DEFAULT_MAX_CONSECUTIVE_ERRORS;
+    this.pollIntervalMs = options.pollIntervalMs ?? TradingHalt.DEFAULT_POLL_INTERVAL_MS;
+    this.buffer = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+    this.flags = new Int32Array(this.buffer);
+    this.state = this.readFile() ?? { version: 1, revision: 0, halted: false, haltId: 0, sources: [] };
+    this.publish();
+
+    if (this.state.halted) {
+      console.log(`🛑 TRADING HALTED since before restart (#${this.state.haltId}): ${TradingHalt.describe(this.state.sources)}`);
+    }
+  }
+
+  static attach(shared: SharedHaltState): HaltGate {
+    const flags = new Int32Array(shared.buffer);
+    return { isHalted: () => Atomics.load(flags, HALTED) === 1 };
+  }
+
+  get shared(): SharedHaltState {
+    return { buffer: this.buffer };
+  }
+
+  isHalted(): boolean {
+    return Atomics.load(this.flags, HALTED) === 1;
+  }
+
+  get holds(): HaltHold[] {
+    return [...this.holdsByKey.values()].map(hold => ({ ...hold, reasons: [...hold.reasons] }));
+  }
+
+  /**
+   * Everything currently stopping trading, for logs
+   */
+  summary(): string {
+    const holds = this.holds.map(hold => `${hold.key}: ${hold.reasons.join(', ')}`);
+    return [TradingHalt.describe(this.state.halted ? this.state.sources : []), ...holds].filter(part => part).join('; ');
+  }
+
+  status(): HaltStatus {
+    const { version, revision, ...status } = this.state;
+    return { ...status, sources: status.sources.map(source => ({ ...source, reasons: [...source.reasons] })) };
+  }
+
+  /**
+   * Halt, or add `source` to the current halt. Repeating a source only refreshes its reasons.
+   */
+  trip(source: HaltSource, reasons: string[]): void {
+    this.refresh();
+    const existing = this.state.sources.find(active => active.source === source);
+    if (existing) {
+      if (existing.reasons.join('\n') !== reasons.join('\n')) {
+        existing.reasons = reasons;
+        this.write();
+      }
+      return;
+    }
+
+    const wasHalted = this.state.halted;
+    this.state.halted = true;
+    this.state.haltId++;
+    this.state.sources.push({ source, reasons, since: Date.now() });
+    delete this.state.clearedBy;
+    this.write();
+
+    console.log(`🛑 TRADING ${wasHalted ? 'HALT EXTENDED' : 'HALTED'} (#${this.state.haltId}) by ${source}: ${reasons.join(', ')}`);
+    this.emit('halted', this.status());
+  }
+
+  /**
+   * Resume trading. Throws unless the acknowledgement names the current halt and an operator.
+   */
+  clear(acknowledgement: HaltAcknowledgement): void {
+    this.refresh();
+    if (!this.state.halted) {
+      throw new Error('TradingHalt: trading is not halted');
+    }
+    if (acknowledgement.haltId !== this.state.haltId) {
+      throw new Error(`TradingHalt: acknowledgement names halt #${acknowledgement.haltId}, but the current halt is #${this.state.haltId} (${TradingHalt.describe(this.state.sources)})`);
+    }
+    if (!acknowledgement.operator?.trim()) {
+      throw new Error('TradingHalt: an acknowledgement must name the operator');
+    }
+
+    const sources = this.state.sources;
+    this.state.halted = false;
+    this.state.sources = [];
+    this.state.clearedBy = { ...acknowledgement, at: Date.now() };
+    this.consecutiveErrors = 0;
+    this.write();
+
+    console.log(`✅ TRADING RESUMED: halt #${acknowledgement.haltId} (${TradingHalt.describe(sources)}) acknowledged by ${acknowledgement.operator}` +
+      (acknowledgement.note ? `: ${acknowledgement.note}` : ''));
+    this.emit('cleared', this.status());
+  }
+
+  /**
+   * Stop trading under `key` until release(key). Repeating a key only refreshes its reasons.
+   */
+  hold(key: string, reasons: string[]): void {
+    const existing = this.holdsByKey.get(key);
+    if (existing) {
+      existing.reasons = reasons;
+      return;
+    }
+
+    this.holdsByKey.set(key, { key, reasons, since: Date.now() });
+    this.publish();
+    console.log(`⏸️ TRADING HELD by ${key}: ${reasons.join(', ')}`);
+    this.emit('held', this.holds);
+  }
+
+  release(key: string): void {
+    const hold = this.holdsByKey.get(key);
+    if (!hold) return;
+
+    this.holdsByKey.delete(key);
+    this.publish();
+    console.log(`▶️ TRADING HOLD RELEASED: ${key} after ${Math.round((Date.now() - hold.since) / 1000)}s` +
+      (this.isHalted() ? ` (still stopped by ${this.summary()})` : ''));
+    this.emit('released', this.holds);
+  }
+
+  /**
+   * Carry a tripped risk manager breaker over; its reset does not resume trading, an acknowledgement does
+   */
+  syncRiskBreaker(status: CircuitBreakerStatus): void {
+    if (status.isActive) {
+      this.trip('risk', status.reasons);
+    }
+  }
+
+  recordExecutionError(error: unknown): void {
+    this.consecutiveErrors++;
+    if (this.consecutiveErrors >= this.maxConsecutiveErrors) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.trip('execution-errors', [`${this.consecutiveErrors} consecutive execution errors, last: ${message}`]);
+    }
+  }
+
+  recordExecutionSuccess(): void {
+    this.consecutiveErrors = 0;
+  }
+
+  /**
+   * Adopt a newer state another process wrote to the file, announcing the transition if there was one
+   */
+  refresh(): void {
+    const file = this.readFile();
+    if (!file || file.revision <= this.state.revision) return;
+
+    const { halted: wasHalted, haltId: previousHaltId } = this.state;
+    this.state = file;
+    this.publish();
+    if (file.halted && file.haltId !== previousHaltId) {
+      console.log(`🛑 TRADING ${wasHalted ? 'HALT EXTENDED' : 'HALTED'} (#${file.haltId}): ${TradingHalt.describe(file.sources)}`);
+      this.emit('halted', this.status());
+    } else if (!file.halted && wasHalted) {
+      this.consecutiveErrors = 0;
+      console.log(`✅ TRADING RESUMED: acknowledged by ${file.clearedBy?.operator}${file.clearedBy?.note ? `: ${file.clearedBy.note}` : ''}`);
+      this.emit('cleared', this.status());
+    }
+  }
+
+  watch(): void {
+    if (this.pollTimer || !this.filePath) return;
+    this.pollTimer = setInterval(() => {
+      try {
+        this.refresh();
+      } catch (error) {
+        console.error(`❌ Failed to read trading halt state from ${this.filePath}:`, error);
+      }
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  unwatch(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  static describe(sources: HaltReason[]): string {
+    return sources.map(source => `${source.source}: ${source.reasons.join(', ')}`).join('; ');
+  }
+
+  private publish(): void {
+    Atomics.store(this.flags, HALTED, this.state.halted || this.holdsByKey.size > 0 ? 1 : 0);
+  }
+
+  // Synchronous, so the file agrees with the flag before anyone acts on the transition
+  private write(): void {
+    this.state.revision++;
+    this.publish();
+    if (!this.filePath) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // The temp file + rename keeps a crash from leaving a truncated state file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private readFile(): HaltFile | null {
+    if (!this.filePath) return null;
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+
+    const file = JSON.parse(raw) as HaltFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported trading halt version ${file.version} in ${this.filePath}`);
+    }
+    return file;
+  }
+}
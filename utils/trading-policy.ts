@@ -0,0 +1,315 @@
+import fs from "fs";
+import path from "path";
+import { EventEmitter } from "events";
+import { formatEther, parseEther } from "ethers";
+
+/**
+ * Days and hours (UTC) a rule applies in. An end before the start wraps past midnight.
+ */
+export interface PolicyTimeWindow {
+  days?: number[]; // 0 = Sunday; every day when omitted
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
+
+/**
+ * One rule of the policy file. Chains and windows scope a rule; the other fields are what it matches.
+ * A deny rule rejects a route touching any listed token, pool or DEX, or above its notional; with
+ * none of those it rejects everything in scope. An allow rule is an allow-list: a route in scope
+ * must keep to its tokens, pools and DEXes and stay within its notional.
+ */
+export interface PolicyRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  chains?: number[];
+  windows?: PolicyTimeWindow[];
+  tokens?: string[];
+  pools?: string[];
+  dexes?: string[]; // DEXRouter names, e.g. "SushiSwap"
+  maxNotionalEth?: string;
+}
+
+/**
+ * What a rule is checked against. Pools and notional are unknown early in a scan; rules on them are
+ * enforced once they are known, and an allow-list of pools refuses routes whose pools are unknown.
+ */
+export interface PolicyRoute {
+  chainId: number;
+  tokens: string[];
+  pools?: string[];
+  dexes?: string[];
+  notionalWei?: bigint;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  rule?: string; // Id of the rule that rejected the route
+  reason?: string;
+}
+
+export type PolicyStage = 'pathfinder' | 'triangular' | 'execution';
+
+export interface PolicyRejection {
+  timestamp: number;
+  stage: PolicyStage;
+  opportunityId: string;
+  rule: string;
+  reason: string;
+}
+
+export interface TradingPolicyOptions {
+  pollIntervalMs?: number; // How often watch() checks the file for edits
+}
+
+interface PolicyFile {
+  version: 1;
+  rules: PolicyRule[];
+}
+
+// Rules with addresses and names normalized once at load
+interface CompiledRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  chains?: Set<number>;
+  windows?: Array<{ days?: Set<number>; start: number; end: number }>;
+  tokens?: Set<string>;
+  pools?: Set<string>;
+  dexes?: Set<string>;
+  maxNotional?: bigint;
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Operator-edited allow and deny rules by token, pool, DEX, chain, notional and time of day, checked
+ * by the pathfinder, the triangular scanner and the execution gate. The file is re-read when it
+ * changes, so rules take effect without a restart; an edit that does not parse keeps the previous
+ * rules. Every rejection is kept with the rule that caused it.
+ */
+export class TradingPolicy extends EventEmitter {
+
+  static readonly DEFAULT_PATH = path.join(process.cwd(), "config", "trading-policy.json");
+  private static readonly DEFAULT_POLL_INTERVAL_MS = 2000;
+  private static readonly MAX_REJECTIONS_KEPT = 500;
+
+  readonly filePath: string | null;
+  private rules: CompiledRule[];
+  private fileStamp: string | null;
+  private pollIntervalMs: number;
+  private pollTimer?: NodeJS.Timeout;
+  private rejections: PolicyRejection[];
+  private rejectionCounts: Map<string, number>;
+
+  /**
+   * Loads the file now and throws if it is invalid; a missing file allows everything.
+   * @param filePath Where the rules are read from; null allows everything, for simulations and tests
+   */
+  constructor(filePath: string | null = TradingPolicy.DEFAULT_PATH, options: TradingPolicyOptions = {}) {
+    super();
+    this.filePath = filePath;
+    this.pollIntervalMs = options.pollIntervalMs ?? TradingPolicy.DEFAULT_POLL_INTERVAL_MS;
+    this.rules = [];
+    this.fileStamp = null;
+    this.rejections = [];
+    this.rejectionCounts = new Map();
+    this.reload();
+  }
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * First rule a route breaks, checking deny rules before allow-lists; no side effects
+   */
+  evaluate(route: PolicyRoute, now: number = Date.now()): PolicyDecision {
+    const applicable = this.rules.filter(rule => this.applies(rule, route.chainId, now));
+    const tokens = route.tokens.map(token => token.toLowerCase());
+    const pools = route.pools?.map(pool => pool.toLowerCase());
+    const dexes = route.dexes?.map(dex => dex.toLowerCase());
+
+    for (const rule of applicable.filter(rule => rule.effect === 'deny')) {
+      const token = rule.tokens && tokens.find(token => rule.tokens!.has(token));
+      if (token) return this.reject(rule, `token ${token} is denied`);
+      const pool = rule.pools && pools?.find(pool => rule.pools!.has(pool));
+      if (pool) return this.reject(rule, `pool ${pool} is denied`);
+      const dex = rule.dexes && dexes?.find(dex => rule.dexes!.has(dex));
+      if (dex) return this.reject(rule, `DEX ${dex} is denied`);
+      if (rule.maxNotional !== undefined && route.notionalWei !== undefined && route.notionalWei > rule.maxNotional) {
+        return this.reject(rule, `notional ${formatEther(route.notionalWei)} ETH is above ${formatEther(rule.maxNotional)} ETH`);
+      }
+      if (!rule.tokens && !rule.pools && !rule.dexes && rule.maxNotional === undefined) {
+        return this.reject(rule, `trading on chain ${route.chainId} is denied at this time`);
+      }
+    }
+
+    for (const rule of applicable.filter(rule => rule.effect === 'allow')) {
+      const token = rule.tokens && tokens.find(token => !rule.tokens!.has(token));
+      if (token) return this.reject(rule, `token ${token} is not on the allow-list`);
+      if (rule.pools) {
+        if (!pools) return this.reject(rule, 'pools are not known and only listed pools are allowed');
+        const pool = pools.find(pool => !rule.pools!.has(pool));
+        if (pool) return this.reject(rule, `pool ${pool} is not on the allow-list`);
+      }
+      const dex = rule.dexes && dexes?.find(dex => !rule.dexes!.has(dex));
+      if (dex) return this.reject(rule, `DEX ${dex} is not on the allow-list`);
+      if (rule.maxNotional !== undefined && route.notionalWei !== undefined && route.notionalWei > rule.maxNotional) {
+        return this.reject(rule, `notional ${formatEther(route.notionalWei)} ETH is above ${formatEther(rule.maxNotional)} ETH`);
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Evaluate a route on behalf of a stage and keep the rejection, if any, against the opportunity
+   */
+  check(stage: PolicyStage, opportunityId: string, route: PolicyRoute): PolicyDecision {
+    const decision = this.evaluate(route);
+    if (!decision.allowed) {
+      const rejection: PolicyRejection = {
+        timestamp: Date.now(),
+        stage,
+        opportunityId,
+        rule: decision.rule!,
+        reason: decision.reason!
+      };
+      this.rejections.push(rejection);
+      if (this.rejections.length > TradingPolicy.MAX_REJECTIONS_KEPT) {
+        this.rejections.shift();
+      }
+      this.rejectionCounts.set(rejection.rule, (this.rejectionCounts.get(rejection.rule) || 0) + 1);
+      this.emit('rejected', rejection);
+    }
+    return decision;
+  }
+
+  /**
+   * Most recent rejections, oldest first
+   */
+  getRejections(): PolicyRejection[] {
+    return [...this.rejections];
+  }
+
+  /**
+   * Rejections per rule id since start
+   */
+  getRejectionCounts(): Record<string, number> {
+    return Object.fromEntries(this.rejectionCounts);
+  }
+
+  /**
+   * Re-read the file if it changed since the last load. Throws when it is invalid; the rules
+   * loaded before stay in force.
+   */
+  reload(): boolean {
+    if (!this.filePath) return false;
+
+    let stamp: string | null = null;
+    try {
+      const stat = fs.statSync(this.filePath);
+      stamp = `${stat.mtimeMs}:${stat.size}`;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+    if (stamp === this.fileStamp) return false;
+
+    // A broken edit is reported once, not on every poll until it is fixed
+    this.fileStamp = stamp;
+    this.rules = stamp === null ? [] : TradingPolicy.compile(this.readFile(), this.filePath);
+    this.emit('reloaded', this.rules.length);
+    return true;
+  }
+
+  watch(): void {
+    if (this.pollTimer || !this.filePath) return;
+    this.pollTimer = setInterval(() => {
+      try {
+        if (this.reload()) {
+          console.log(`📜 Trading policy reloaded from ${this.filePath}: ${this.rules.length} rules`);
+        }
+      } catch (error) {
+        console.error(`❌ Trading policy ${this.filePath} is invalid, keeping the previous rules:`, error instanceof Error ? error.message : error);
+      }
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  unwatch(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private applies(rule: CompiledRule, chainId: number, now: number): boolean {
+    if (rule.chains && !rule.chains.has(chainId)) return false;
+    if (!rule.windows) return true;
+
+    const date = new Date(now);
+    const minute = date.getUTCHours() * 60 + date.getUTCMinutes();
+    const day = date.getUTCDay();
+    return rule.windows.some(window => {
+      if (window.start <= window.end) {
+        return (!window.days || window.days.has(day)) && minute >= window.start && minute < window.end;
+      }
+      // Past midnight the window belongs to the day it started on
+      if (minute >= window.start) return !window.days || window.days.has(day);
+      return minute < window.end && (!window.days || window.days.has((day + 6) % 7));
+    });
+  }
+
+  private reject(rule: CompiledRule, reason: string): PolicyDecision {
+    return { allowed: false, rule: rule.id, reason: `${rule.effect} rule ${rule.id}: ${reason}` };
+  }
+
+  private readFile(): PolicyFile {
+    const file = JSON.parse(fs.readFileSync(this.filePath!, "utf8")) as PolicyFile;
+    if (file.version !== 1) {
+      throw new Error(`Unsupported trading policy version ${file.version} in ${this.filePath}`);
+    }
+    return file;
+  }
+
+  private static compile(file: PolicyFile, source: string): CompiledRule[] {
+    if (!Array.isArray(file.rules)) {
+      throw new Error(`TradingPolicy: ${source} has no rules array`);
+    }
+
+    const ids = new Set<string>();
+    return file.rules.map((rule, index) => {
+      const where = `rule ${index + 1} in ${source}`;
+      if (!rule.id || ids.has(rule.id)) {
+        throw new Error(`TradingPolicy: ${where} needs a unique id`);
+      }
+      ids.add(rule.id);
+      if (rule.effect !== 'allow' && rule.effect !== 'deny') {
+        throw new Error(`TradingPolicy: ${where} has effect ${rule.effect}, expected allow or deny`);
+      }
+
+      const lower = (values?: string[]) => values && new Set(values.map(value => value.toLowerCase()));
+      return {
+        id: rule.id,
+        effect: rule.effect,
+        chains: rule.chains && new Set(rule.chains),
+        windows: rule.windows?.map(window => ({
+          days: window.days && new Set(window.days),
+          start: TradingPolicy.minuteOfDay(window.start, where),
+          end: TradingPolicy.minuteOfDay(window.end, where)
+        })),
+        tokens: lower(rule.tokens),
+        pools: lower(rule.pools),
+        dexes: lower(rule.dexes),
+        maxNotional: rule.maxNotionalEth !== undefined ? parseEther(rule.maxNotionalEth) : undefined
+      };
+    });
+  }
+
+  private static minuteOfDay(time: string, where: string): number {
+    const match = TIME_OF_DAY.exec(time);
+    if (!match) {
+      throw new Error(`TradingPolicy: ${where} has time ${time}, expected HH:MM`);
+    }
+    return parseInt(match[1]) * 60 + parseInt(match[2]);
+  }
+}
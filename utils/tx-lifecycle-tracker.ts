@@ -0,0 +1,349 @@
+import { EventEmitter } from "events";
+import { Signer, getAddress } from "ethers";
+import { FlashArbBotEvent, FlashArbBotFactory } from "./flash-arb-bot";
+import { RpcEndpoint } from "./execution-channels";
+
+export type TxStage = 'PENDING' | 'INCLUDED' | 'CONFIRMED';
+
+export type TxResolution =
+  | 'SUCCESS'
+  | 'REVERTED'
+  | 'CANCELLED' // Our zero-value replacement was mined at the nonce
+  | 'REPLACED' // The nonce was mined by a transaction we did not send
+  | 'DROPPED'; // The node forgot every version of the transaction
+
+/**
+ * A transaction as it was signed; speed-ups re-sign it with higher fees at the same nonce
+ */
+export interface SubmittedTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value?: bigint;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface TradeContext {
+  id?: string; // Defaults to the first hash
+  contract?: string; // Where execution events are read from; defaults to the transaction's target
+  expectedProfit?: bigint;
+  bundleAttempted?: boolean;
+  parameters?: any;
+  marketConditions?: any;
+}
+
+export interface TrackedTransaction {
+  id: string;
+  chainId: number;
+  tx: SubmittedTransaction; // Latest version
+  hashes: string[]; // Every version sent, oldest first
+  cancelHash?: string;
+  stage: TxStage;
+  sentAt: number;
+  lastSeenAt: number;
+  blockNumber?: number;
+  confirmations: number;
+  context: TradeContext;
+}
+
+/**
+ * The settled outcome of a tracked transaction. Shaped so that PerformanceTracker.recordTrade and
+ * ProductionMonitor.updateTradeMetrics both take it as is.
+ */
+export interface LifecycleRecord {
+  id: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  hash: string; // The mined version, or the last one sent
+  hashes: string[];
+  resolution: TxResolution;
+  blockNumber?: number;
+  timestamp: number;
+  executionTime: number; // First send to settlement, ms
+  success: boolean;
+  profit: bigint; // Sum of the bot's execution events, in the borrowed asset
+  expectedProfit: bigint;
+  gasUsed: bigint;
+  gasPrice: bigint; // Effective L2 gas price
+  l1DataFee: bigint; // Share of gasCost that paid for posting the transaction to L1
+  gasCost: bigint; // Everything the sender paid, in wei
+  events: FlashArbBotEvent[];
+  bundleSuccess: boolean;
+  bundleAttempted: boolean;
+  parameters: any;
+  marketConditions: any;
+}
+
+export interface LifecycleOptions {
+  confirmations: number; // Blocks on top of inclusion before a transaction counts as confirmed
+  finalityDepth: number; // Confirmations that stand in for finality on nodes without a 'finalized' tag
+  dropAfterMs: number; // How long no version may be known to the node before the transaction is dropped
+  feeBumpPercent: number; // Fee increase per speed-up or cancel; nodes refuse replacements below ~10%
+}
+
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * Follows submitted transactions through pending, included, confirmed and finalized, across
+ * speed-ups and cancellations, and settles each into a LifecycleRecord with realized profit and
+ * gas, including the rollup's L1 data fee. Reads raw receipts, since ethers drops the L2 fee fields.
+ *
+ * Emits 'included', 'confirmed', 'reorged' and 'replaced' with the TrackedTransaction and
+ * 'settled' with the LifecycleRecord.
+ */
+export class TransactionLifecycleTracker extends EventEmitter {
+  private static readonly DEFAULT_OPTIONS: LifecycleOptions = {
+    confirmations: 3,
+    finalityDepth: 64,
+    dropAfterMs: 120000,
+    feeBumpPercent: 15
+  };
+
+  private rpc: RpcEndpoint;
+  private chainId: number;
+  private options: LifecycleOptions;
+  private tracked = new Map<string, TrackedTransaction>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(chainId: number, rpc: RpcEndpoint, options: Partial<LifecycleOptions> = {}) {
+    super();
+    this.chainId = chainId;
+    this.rpc = rpc;
+    this.options = { ...TransactionLifecycleTracker.DEFAULT_OPTIONS, ...options };
+  }
+
+  track(tx: SubmittedTransaction, context: TradeContext = {}): string {
+    const id = context.id ?? tx.hash;
+    const now = Date.now();
+    this.tracked.set(id, {
+      id,
+      chainId: this.chainId,
+      tx: { ...tx, from: getAddress(tx.from) },
+      hashes: [tx.hash],
+      stage: 'PENDING',
+      sentAt: now,
+      lastSeenAt: now,
+      confirmations: 0,
+      context
+    });
+    return id;
+  }
+
+  get(id: string): TrackedTransaction | undefined {
+    return this.tracked.get(id);
+  }
+
+  list(): TrackedTransaction[] {
+    return [...this.tracked.values()];
+  }
+
+  /**
+   * Re-sends the transaction at its nonce with fees raised by feeBumpPercent
+   */
+  async speedUp(id: string, signer: Signer): Promise<string> {
+    const tracked = this.pendingTransaction(id);
+    const fees = this.bumpedFees(tracked.tx);
+    const response = await signer.sendTransaction({
+      to: tracked.tx.to,
+      data: tracked.tx.data,
+      value: tracked.tx.value ?? 0n,
+      nonce: tracked.tx.nonce,
+      gasLimit: tracked.tx.gasLimit,
+      ...fees
+    });
+    tracked.tx = { ...tracked.tx, ...fees, hash: response.hash };
+    tracked.hashes.push(response.hash);
+    this.emit('replaced', tracked);
+    return response.hash;
+  }
+
+  /**
+   * Replaces the transaction with a zero-value self-transfer at its nonce
+   */
+  async cancel(id: string, signer: Signer): Promise<string> {
+    const tracked = this.pendingTransaction(id);
+    const fees = this.bumpedFees(tracked.tx);
+    const response = await signer.sendTransaction({
+      to: tracked.tx.from,
+      value: 0n,
+      nonce: tracked.tx.nonce,
+      gasLimit: CANCEL_GAS_LIMIT,
+      ...fees
+    });
+    tracked.tx = { ...tracked.tx, ...fees, to: tracked.tx.from, data: '0x', value: 0n, gasLimit: CANCEL_GAS_LIMIT, hash: response.hash };
+    tracked.cancelHash = response.hash;
+    tracked.hashes.push(response.hash);
+    this.emit('replaced', tracked);
+    return response.hash;
+  }
+
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Advances every tracked transaction by what the node reports now; overlapping polls are skipped
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.tracked.size === 0) return;
+    this.polling = true;
+    try {
+      const head = Number(await this.rpc.send('eth_blockNumber', []));
+      const finalized = await this.finalizedBlock(head);
+      for (const tracked of [...this.tracked.values()]) {
+        try {
+          await this.advance(tracked, head, finalized);
+        } catch (error) {
+          console.error(`Error tracking ${tracked.tx.hash}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling transaction lifecycle:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async advance(tracked: TrackedTransaction, head: number, finalized: number): Promise<void> {
+    // Read before the receipts: a nonce mined after this read still shows up as a receipt below
+    const minedNonce = Number(await this.rpc.send('eth_getTransactionCount', [tracked.tx.from, 'latest']));
+
+    let receipt: any = null;
+    for (const hash of [...tracked.hashes].reverse()) {
+      receipt = await this.rpc.send('eth_getTransactionReceipt', [hash]);
+      if (receipt) break;
+    }
+
+    if (!receipt) {
+      if (tracked.stage !== 'PENDING') {
+        tracked.stage = 'PENDING';
+        tracked.blockNumber = undefined;
+        tracked.confirmations = 0;
+        tracked.lastSeenAt = Date.now();
+        this.emit('reorged', tracked);
+      }
+      if (minedNonce > tracked.tx.nonce) {
+        this.settle(tracked, 'REPLACED');
+        return;
+      }
+      const known = await Promise.all(tracked.hashes.map(hash => this.rpc.send('eth_getTransactionByHash', [hash])));
+      if (known.some(tx => tx)) {
+        tracked.lastSeenAt = Date.now();
+      } else if (Date.now() - tracked.lastSeenAt > this.options.dropAfterMs) {
+        this.settle(tracked, 'DROPPED');
+      }
+      return;
+    }
+
+    tracked.blockNumber = Number(receipt.blockNumber);
+    tracked.confirmations = head - tracked.blockNumber + 1;
+    if (tracked.stage === 'PENDING') {
+      tracked.stage = 'INCLUDED';
+      this.emit('included', tracked);
+    }
+    if (tracked.stage === 'INCLUDED' && tracked.confirmations >= this.options.confirmations) {
+      tracked.stage = 'CONFIRMED';
+      this.emit('confirmed', tracked);
+    }
+    if (tracked.blockNumber <= finalized) {
+      const resolution = BigInt(receipt.status) !== 1n
+        ? 'REVERTED'
+        : receipt.transactionHash === tracked.cancelHash ? 'CANCELLED' : 'SUCCESS';
+      this.settle(tracked, resolution, receipt);
+    }
+  }
+
+  private settle(tracked: TrackedTransaction, resolution: TxResolution, receipt?: any): void {
+    this.tracked.delete(tracked.id);
+    const settledAt = Date.now();
+    const record: LifecycleRecord = {
+      id: tracked.id,
+      chainId: tracked.chainId,
+      from: tracked.tx.from,
+      nonce: tracked.tx.nonce,
+      hash: receipt?.transactionHash ?? tracked.tx.hash,
+      hashes: tracked.hashes,
+      resolution,
+      blockNumber: tracked.blockNumber,
+      timestamp: settledAt,
+      executionTime: settledAt - tracked.sentAt,
+      success: resolution === 'SUCCESS',
+      profit: 0n,
+      expectedProfit: tracked.context.expectedProfit ?? 0n,
+      gasUsed: 0n,
+      gasPrice: 0n,
+      l1DataFee: 0n,
+      gasCost: 0n,
+      events: [],
+      bundleSuccess: resolution === 'SUCCESS',
+      bundleAttempted: tracked.context.bundleAttempted ?? false,
+      parameters: tracked.context.parameters ?? {},
+      marketConditions: tracked.context.marketConditions ?? {}
+    };
+    if (receipt) Object.assign(record, TransactionLifecycleTracker.decodeReceipt(receipt, tracked.context.contract ?? tracked.tx.to));
+    if (resolution !== 'SUCCESS') record.profit = 0n;
+    this.emit('settled', record);
+  }
+
+  /**
+   * Gas and profit of a raw receipt. OP Stack receipts carry the L1 fee on top of gasUsed * price;
+   * Arbitrum folds it into gasUsed and reports its share as gasUsedForL1.
+   */
+  static decodeReceipt(receipt: any, contract: string): Pick<LifecycleRecord, 'gasUsed' | 'gasPrice' | 'l1DataFee' | 'gasCost' | 'profit' | 'events'> {
+    const gasUsed = BigInt(receipt.gasUsed);
+    const gasPrice = BigInt(receipt.effectiveGasPrice ?? receipt.gasPrice ?? 0);
+    let l1DataFee = 0n;
+    let gasCost = gasUsed * gasPrice;
+    if (receipt.l1Fee !== undefined && receipt.l1Fee !== null) {
+      l1DataFee = BigInt(receipt.l1Fee);
+      gasCost += l1DataFee;
+    } else if (receipt.gasUsedForL1 !== undefined && receipt.gasUsedForL1 !== null) {
+      l1DataFee = BigInt(receipt.gasUsedForL1) * gasPrice;
+    }
+
+    const events = FlashArbBotFactory.parseLogs(receipt.logs || [], contract);
+    // A batch emits one ArbitrageExecuted per trade, which sum to its total
+    const profit = events
+      .filter(event => event.name === 'ArbitrageExecuted' || event.name === 'TriangularArbitrageExecuted' || event.name === 'RouteArbitrageExecuted')
+      .reduce((sum, event) => sum + (event as { profit: bigint }).profit, 0n);
+    return { gasUsed, gasPrice, l1DataFee, gasCost, profit, events };
+  }
+
+  private async finalizedBlock(head: number): Promise<number> {
+    try {
+      const block = await this.rpc.send('eth_getBlockByNumber', ['finalized', false]);
+      if (block) return Number(block.number);
+    } catch (error) {
+      // Node without the finalized tag
+    }
+    return head - this.options.finalityDepth + 1;
+  }
+
+  private pendingTransaction(id: string): TrackedTransaction {
+    const tracked = this.tracked.get(id);
+    if (!tracked || tracked.stage !== 'PENDING') {
+      throw new Error(`TransactionLifecycleTracker: ${id} is not a pending transaction`);
+    }
+    return tracked;
+  }
+
+  private bumpedFees(tx: SubmittedTransaction): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+    const bump = (fee: bigint) => {
+      const bumped = fee * BigInt(100 + this.options.feeBumpPercent) / 100n;
+      return bumped > fee ? bumped : fee + 1n;
+    };
+    return { maxFeePerGas: bump(tx.maxFeePerGas), maxPriorityFeePerGas: bump(tx.maxPriorityFeePerGas) };
+  }
+}
@@ -0,0 +1,435 @@
+/**
+ * Offline Uniswap V3 swap math.
+ * Bit-exact ports of TickMath, SqrtPriceMath, SwapMath and TickBitmap from v3-core,
+ * so quotes can be computed from a cached pool snapshot without calling the Quoter.
+ */
+
+export interface V3TickSnapshot {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number; // Hundredths of a bip, e.g. 3000
+  tickSpacing: number;
+  tickBitmap: Map<number, bigint>; // wordPos -> bitmap word, only loaded words
+  liquidityNet: Map<number, bigint>; // initialized tick -> liquidityNet
+  blockNumber?: number;
+}
+
+export interface V3SwapQuote {
+  amountIn: bigint; // Input consumed, including fees
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  liquidityAfter: bigint;
+  initializedTicksCrossed: number;
+  complete: boolean; // False when the swap ran past the loaded bitmap words
+}
+
+const Q96 = 2n ** 96n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const MAX_UINT160 = 2n ** 160n - 1n;
+
+export class FullMath {
+
+  static mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+    if (denominator === 0n) throw new Error('FullMath: division by zero');
+    const result = (a * b) / denominator;
+    if (result > MAX_UINT256) throw new Error('FullMath: overflow');
+    return result;
+  }
+
+  static mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+    const result = FullMath.mulDiv(a, b, denominator);
+    if ((a * b) % denominator > 0n) {
+      if (result === MAX_UINT256) throw new Error('FullMath: overflow');
+      return result + 1n;
+    }
+    return result;
+  }
+
+  static divRoundingUp(x: bigint, y: bigint): bigint {
+    return x / y + (x % y > 0n ? 1n : 0n);
+  }
+}
+
+export class TickMath {
+
+  static readonly MIN_TICK = -887272;
+  static readonly MAX_TICK = 887272;
+  static readonly MIN_SQRT_RATIO = 4295128739n;
+  static readonly MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+  // sqrt(1.0001)^-(2^i) in Q128, for each bit of |tick| above the first
+  private static readonly RATIO_MULTIPLIERS: [number, bigint][] = [
+    [0x2, 0xfff97272373d413259a46990580e213an],
+    [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+    [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+    [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+    [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+    [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+    [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+    [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+    [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+    [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+    [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+    [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+    [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+    [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+    [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+    [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+    [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+    [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+    [0x80000, 0x48a170391f7dc42444e8fa2n]
+  ];
+
+  /**
+   * sqrt(1.0001^tick) as a Q64.96, rounded up
+   */
+  static getSqrtRatioAtTick(tick: number): bigint {
+    if (!Number.isInteger(tick) || tick < TickMath.MIN_TICK || tick > TickMath.MAX_TICK) {
+      throw new Error(`TickMath: tick ${tick} out of range`);
+    }
+
+    const absTick = Math.abs(tick);
+    let ratio = (absTick & 0x1) !== 0
+      ? 0xfffcb933bd6fad37aa2d162d1a594001n
+      : 0x100000000000000000000000000000000n;
+
+    for (const [bit, multiplier] of TickMath.RATIO_MULTIPLIERS) {
+      if ((absTick & bit) !== 0) {
+        ratio = (ratio * multiplier) >> 128n;
+      }
+    }
+
+    if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+    // Q128.128 -> Q64.96, rounding up so getTickAtSqrtRatio stays consistent
+    return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+  }
+
+  /**
+   * Greatest tick whose sqrt ratio is <= the given price
+   */
+  static getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+    if (sqrtPriceX96 < TickMath.MIN_SQRT_RATIO || sqrtPriceX96 >= TickMath.MAX_SQRT_RATIO) {
+      throw new Error('TickMath: sqrt price out of range');
+    }
+
+    const ratio = sqrtPriceX96 << 32n;
+    const msb = BigInt(mostSignificantBit(ratio));
+
+    let r = msb >= 128n ? ratio >> (msb - 127n) : ratio << (127n - msb);
+    let log2 = (msb - 128n) << 64n;
+
+    for (let i = 63n; i >= 50n; i--) {
+      r = (r * r) >> 127n;
+      const f = r >> 128n;
+      log2 = log2 | (f << i);
+      r = r >> f;
+    }
+
+    const logSqrt10001 = log2 * 255738958999603826347141n;
+    const tickLow = Number((logSqrt10001 - 3402992956809132418596140100660247210n) >> 128n);
+    const tickHigh = Number((logSqrt10001 + 291339464771989622907027621153398088495n) >> 128n);
+
+    if (tickLow === tickHigh) return tickLow;
+    return TickMath.getSqrtRatioAtTick(tickHigh) <= sqrtPriceX96 ? tickHigh : tickLow;
+  }
+}
+
+export class SqrtPriceMath {
+
+  static getNextSqrtPriceFromAmount0RoundingUp(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amount: bigint,
+    add: boolean
+  ): bigint {
+    if (amount === 0n) return sqrtPX96;
+    const numerator1 = liquidity << 96n;
+    const product = amount * sqrtPX96;
+
+    if (add) {
+      // Mirror the uint256 overflow checks so results match the contract exactly
+      if (product <= MAX_UINT256) {
+        const denominator = numerator1 + product;
+        if (denominator <= MAX_UINT256) {
+          return FullMath.mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+        }
+      }
+      return FullMath.divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+    }
+
+    if (product > MAX_UINT256 || numerator1 <= product) {
+      throw new Error('SqrtPriceMath: insufficient liquidity for amount0 out');
+    }
+    return FullMath.mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product);
+  }
+
+  static getNextSqrtPriceFromAmount1RoundingDown(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amount: bigint,
+    add: boolean
+  ): bigint {
+    if (add) {
+      const next = sqrtPX96 + (amount << 96n) / liquidity;
+      if (next > MAX_UINT160) throw new Error('SqrtPriceMath: price overflow');
+      return next;
+    }
+
+    const quotient = FullMath.divRoundingUp(amount << 96n, liquidity);
+    if (sqrtPX96 <= quotient) {
+      throw new Error('SqrtPriceMath: insufficient liquidity for amount1 out');
+    }
+    return sqrtPX96 - quotient;
+  }
+
+  static getNextSqrtPriceFromInput(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amountIn: bigint,
+    zeroForOne: boolean
+  ): bigint {
+    if (sqrtPX96 === 0n || liquidity === 0n) throw new Error('SqrtPriceMath: zero price or liquidity');
+    return zeroForOne
+      ? SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+      : SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true);
+  }
+
+  static getNextSqrtPriceFromOutput(
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amountOut: bigint,
+    zeroForOne: boolean
+  ): bigint {
+    if (sqrtPX96 === 0n || liquidity === 0n) throw new Error('SqrtPriceMath: zero price or liquidity');
+    return zeroForOne
+      ? SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+      : SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false);
+  }
+
+  static getAmount0Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+    const numerator1 = liquidity << 96n;
+    const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+
+    return roundUp
+      ? FullMath.divRoundingUp(FullMath.mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+      : FullMath.mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96;
+  }
+
+  static getAmount1Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+    return roundUp
+      ? FullMath.mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+      : FullMath.mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96);
+  }
+}
+
+export class SwapMath {
+
+  /**
+   * One swap step within a single initialized tick range.
+   * amountRemaining is positive for exact input and negative for exact output.
+   */
+  static computeSwapStep(
+    sqrtRatioCurrentX96: bigint,
+    sqrtRatioTargetX96: bigint,
+    liquidity: bigint,
+    amountRemaining: bigint,
+    feePips: number
+  ): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+    const fee = BigInt(feePips);
+    const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+    const exactIn = amountRemaining >= 0n;
+
+    let sqrtRatioNextX96: bigint;
+    let amountIn = 0n;
+    let amountOut = 0n;
+
+    if (exactIn) {
+      const amountRemainingLessFee = FullMath.mulDiv(amountRemaining, 1_000_000n - fee, 1_000_000n);
+      amountIn = zeroForOne
+        ? SqrtPriceMath.getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+        : SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+      sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+        ? sqrtRatioTargetX96
+        : SqrtPriceMath.getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+    } else {
+      amountOut = zeroForOne
+        ? SqrtPriceMath.getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+        : SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false);
+      sqrtRatioNextX96 = -amountRemaining >= amountOut
+        ? sqrtRatioTargetX96
+        : SqrtPriceMath.getNextSqrtPriceFromOutput(sqrtRatioCurrentX96, liquidity, -amountRemaining, zeroForOne);
+    }
+
+    const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+
+    if (zeroForOne) {
+      amountIn = max && exactIn
+        ? amountIn
+        : SqrtPriceMath.getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+      amountOut = max && !exactIn
+        ? amountOut
+        : SqrtPriceMath.getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+    } else {
+      amountIn = max && exactIn
+        ? amountIn
+        : SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+      amountOut = max && !exactIn
+        ? amountOut
+        : SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+    }
+
+    // Cap the output amount to not exceed the remaining output amount
+    if (!exactIn && amountOut > -amountRemaining) {
+      amountOut = -amountRemaining;
+    }
+
+    const feeAmount = exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96
+      ? amountRemaining - amountIn // Remainder of the input is taken as fee
+      : FullMath.mulDivRoundingUp(amountIn, fee, 1_000_000n - fee);
+
+    return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+  }
+}
+
+export class TickBitmap {
+
+  static position(compressedTick: number): { wordPos: number; bitPos: number } {
+    return { wordPos: compressedTick >> 8, bitPos: compressedTick & 0xff };
+  }
+
+  /**
+   * Next initialized tick in the same bitmap word, or the word boundary if none.
+   * Returns null when the required word is not in the snapshot.
+   */
+  static nextInitializedTickWithinOneWord(
+    bitmap: Map<number, bigint>,
+    tick: number,
+    tickSpacing: number,
+    lte: boolean
+  ): { next: number; initialized: boolean } | null {
+    let compressed = Math.trunc(tick / tickSpacing);
+    if (tick < 0 && tick % tickSpacing !== 0) compressed--; // Round towards negative infinity
+
+    if (lte) {
+      const { wordPos, bitPos } = TickBitmap.position(compressed);
+      const word = bitmap.get(wordPos);
+      if (word === undefined) return null;
+
+      const bit = 1n << BigInt(bitPos);
+      const masked = word & (bit - 1n + bit);
+      const initialized = masked !== 0n;
+      const next = initialized
+        ? (compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing
+        : (compressed - bitPos) * tickSpacing;
+      return { next, initialized };
+    }
+
+    const { wordPos, bitPos } = TickBitmap.position(compressed + 1);
+    const word = bitmap.get(wordPos);
+    if (word === undefined) return null;
+
+    const masked = word & (MAX_UINT256 ^ ((1n << BigInt(bitPos)) - 1n));
+    const initialized = masked !== 0n;
+    const next = initialized
+      ? (compressed + 1 + (leastSignificantBit(masked) - bitPos)) * tickSpacing
+      : (compressed + 1 + (255 - bitPos)) * tickSpacing;
+    return { next, initialized };
+  }
+}
+
+export class V3SwapSimulator {
+
+  /**
+   * Exact-input swap against a tick snapshot, following UniswapV3Pool.swap step for step.
+   * Matches QuoterV2.quoteExactInputSingle with no price limit while the snapshot covers the range traversed.
+   */
+  static quoteExactInput(
+    snapshot: V3TickSnapshot,
+    zeroForOne: boolean,
+    amountIn: bigint,
+    sqrtPriceLimitX96?: bigint
+  ): V3SwapQuote {
+    if (amountIn <= 0n) throw new Error('V3SwapSimulator: amountIn must be positive');
+
+    const limit = sqrtPriceLimitX96 ?? (zeroForOne ? TickMath.MIN_SQRT_RATIO + 1n : TickMath.MAX_SQRT_RATIO - 1n);
+
+    let amountRemaining = amountIn;
+    let amountOut = 0n;
+    let sqrtPriceX96 = snapshot.sqrtPriceX96;
+    let tick = snapshot.tick;
+    let liquidity = snapshot.liquidity;
+    let initializedTicksCrossed = 0;
+    let complete = true;
+
+    while (amountRemaining !== 0n && sqrtPriceX96 !== limit) {
+      const sqrtPriceStartX96 = sqrtPriceX96;
+
+      const step = TickBitmap.nextInitializedTickWithinOneWord(
+        snapshot.tickBitmap,
+        tick,
+        snapshot.tickSpacing,
+        zeroForOne
+      );
+      if (!step) {
+        complete = false;
+        break;
+      }
+
+      const tickNext = Math.min(Math.max(step.next, TickMath.MIN_TICK), TickMath.MAX_TICK);
+      const sqrtPriceNextX96 = TickMath.getSqrtRatioAtTick(tickNext);
+      const targetX96 = (zeroForOne ? sqrtPriceNextX96 < limit : sqrtPriceNextX96 > limit)
+        ? limit
+        : sqrtPriceNextX96;
+
+      const result = SwapMath.computeSwapStep(sqrtPriceX96, targetX96, liquidity, amountRemaining, snapshot.fee);
+      sqrtPriceX96 = result.sqrtRatioNextX96;
+      amountRemaining -= result.amountIn + result.feeAmount;
+      amountOut += result.amountOut;
+
+      if (sqrtPriceX96 === sqrtPriceNextX96) {
+        if (step.initialized) {
+          const liquidityNet = snapshot.liquidityNet.get(tickNext);
+          if (liquidityNet === undefined) {
+            complete = false;
+            break;
+          }
+          liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+          initializedTicksCrossed++;
+        }
+        tick = zeroForOne ? tickNext - 1 : tickNext;
+      } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+        tick = TickMath.getTickAtSqrtRatio(sqrtPriceX96);
+      }
+    }
+
+    return {
+      amountIn: amountIn - amountRemaining,
+      amountOut,
+      sqrtPriceX96After: sqrtPriceX96,
+      tickAfter: tick,
+      liquidityAfter: liquidity,
+      initializedTicksCrossed,
+      complete
+    };
+  }
+}
+
+function mostSignificantBit(x: bigint): number {
+  if (x <= 0n) throw new Error('mostSignificantBit: zero');
+  return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+  if (x <= 0n) throw new Error('leastSignificantBit: zero');
+  let bit = 0;
+  while ((x & 1n) === 0n) {
+    x >>= 1n;
+    bit++;
+  }
+  return bit;
+}